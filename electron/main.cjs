@@ -1,10 +1,17 @@
 const { app, BrowserWindow, ipcMain, Menu, shell, dialog } = require('electron')
 const path = require('path')
 const fs = require('fs').promises
-const { FTPService } = require('./services/ftpService.cjs')
 const { DatabaseService } = require('./services/databaseService.cjs')
 const { FileCacheService } = require('./services/fileCacheService.cjs')
 const { SettingsService } = require('./services/settingsService.cjs')
+const { getWorkingCopyRoot, toLocalPath } = require('./services/syncManifest.cjs')
+const { readSyncReport } = require('./services/syncReport.cjs')
+const { SnapshotService } = require('./services/snapshotService.cjs')
+const { BackupService, getConnectionKey, getRemoteBackupPath } = require('./services/backupService.cjs')
+const { LocalHistoryService } = require('./services/localHistoryService.cjs')
+const { hashBytes, summarizeChange } = require('./services/activityLog.cjs')
+const { ConnectionSessions } = require('./services/connectionSessions.cjs')
+const { detectTextEncoding, decodeText, encodeText } = require('./services/textEncoding.cjs')
 
 // Hardware acceleration is enabled (default) for better rendering performance.
 // If you encounter GPU-related crashes on some Windows machines, you can
@@ -19,10 +26,13 @@ app.commandLine.appendSwitch('disable-site-isolation-trials')
 
 
 let mainWindow
-let ftpService
+let sessions
 let databaseService
 let fileCacheService
 let settingsService
+let snapshotService
+let backupService
+let localHistoryService
 
 const isDev = process.env.NODE_ENV === 'development'
 
@@ -132,30 +142,133 @@ function createMenu() {
 }
 
 function setupIPC() {
-  let ftpQueue = Promise.resolve()
-  const runQueued = (fn) => {
-    const next = ftpQueue.then(fn, fn)
-    ftpQueue = next.then(() => undefined, () => undefined)
-    return next
+  // FTP handlers take the saved connection id first and run on that
+  // connection's session; an unknown id reports "Not connected".
+  // Keeps the server version of `remotePath` in the backup store (and in
+  // /.backups on the server when enabled for the connection) before it is
+  // overwritten. New files have nothing to keep; a file that exists but
+  // cannot be read stops the upload. Returns the bytes kept, or null.
+  const backupBeforeUpload = async (service, connectionId, remotePath) => {
+    const key = getConnectionKey(service.getCurrentConnection())
+    let buffer
+    try {
+      buffer = await service.downloadFile(remotePath, null, true)
+    } catch (error) {
+      if (await service.statRemote(remotePath)) throw new Error(`Could not back up ${remotePath} before uploading: ${error.message}`)
+      return null
+    }
+    const entry = await backupService.add(key, remotePath, buffer, { remoteCopy: null })
+    if (entry && settingsService.getRemoteBackups(connectionId)) {
+      const remoteCopy = getRemoteBackupPath(remotePath, entry.createdAt)
+      try {
+        await service.createDirectory(path.posix.dirname(remoteCopy))
+        await service.uploadFile(buffer, remoteCopy)
+        await backupService.update(key, remotePath, entry.id, { remoteCopy })
+      } catch (error) {
+        console.warn('[backup] remote copy failed', remotePath, error.message)
+      }
+    }
+    return buffer
+  }
+
+  const hasDatabaseUser = () => !!(databaseService && databaseService.pool && databaseService.currentUser)
+
+  // Adds a row to the team activity log (file_history) for the signed-in user.
+  // The log is best effort: without a database, or when the insert fails, the
+  // file operation still succeeds.
+  const logActivity = async (connectionKey, remotePath, action, details = {}) => {
+    if (!hasDatabaseUser()) return
+    try {
+      await databaseService.addFileHistory(databaseService.currentUser.id, remotePath, action, { ...details, connectionKey: connectionKey || null, actorName: databaseService.currentUser.username })
+    } catch (error) {
+      console.warn('[activity] failed to record', action, remotePath, error.message)
+    }
   }
+  const recordActivity = (service, remotePath, action, details = {}) =>
+    logActivity(getConnectionKey(service.getCurrentConnection()), remotePath, action, details)
 
-  ipcMain.handle('ftp-connect', async (event, config) => {
-    return runQueued(async () => {
-      try { await ftpService.connect(config); return { success: true } } catch (error) { return { success: false, error: error.message } }
+  // Uploads, renames and deletes stop while a teammate holds a lock on the
+  // file. Without a database there are no locks to honour.
+  const assertNotLocked = async (service, remotePath) => {
+    if (!hasDatabaseUser()) return
+    let holder = null
+    try {
+      holder = await databaseService.getLockHolder(remotePath, getConnectionKey(service.getCurrentConnection()) || null, databaseService.currentUser.id)
+    } catch (error) {
+      console.warn('[locks] could not check', remotePath, error.message)
+    }
+    if (holder) throw new Error(`${remotePath} is locked by ${holder.username} since ${new Date(holder.locked_at).toLocaleString()}`)
+  }
+  // Deleting a folder removes everything in it, so no file inside may be locked.
+  const assertFolderNotLocked = async (service, remoteDir) => {
+    if (!hasDatabaseUser()) return
+    let holder = null
+    try {
+      holder = await databaseService.getLockHolderUnder(remoteDir, getConnectionKey(service.getCurrentConnection()) || null, databaseService.currentUser.id)
+    } catch (error) {
+      console.warn('[locks] could not check', remoteDir, error.message)
+    }
+    if (holder) throw new Error(`${holder.file_path} in ${remoteDir} is locked by ${holder.username} since ${new Date(holder.locked_at).toLocaleString()}`)
+  }
+
+  // Uploads and returns the new server version, so the next Save-and-Sync
+  // compares against what was just written. `source` is a Buffer, a local
+  // file path or text, as for FTPService.uploadFile. `action` is what the
+  // activity log records ('upload', 'sync', 'inspector', 'publish' or 'restore').
+  // Publish and snapshot restore call it per file, so a locked file fails on
+  // its own and every overwritten file can be rolled back. `origin` prefixes
+  // the logged summary, e.g. the snapshot a restore came from.
+  const uploadAndDescribe = async (service, source, remotePath, connectionId, action = 'upload', origin = null) => {
+    await assertNotLocked(service, remotePath)
+    const previous = await backupBeforeUpload(service, connectionId, remotePath)
+    await service.uploadFile(source, remotePath)
+    let bytes = source
+    if (!Buffer.isBuffer(bytes)) {
+      try { bytes = await fs.readFile(source) } catch { bytes = Buffer.from(String(source ?? ''), 'utf-8') }
+    }
+    const change = summarizeChange(remotePath, previous, bytes)
+    recordActivity(service, remotePath, action, { fileHash: hashBytes(bytes), summary: origin ? `${origin}: ${change}` : change })
+    return service.remoteVersion(remotePath, bytes).catch(() => null)
+  }
+
+  const withSession = (connectionId, fn) => {
+    let session
+    try { session = sessions.get(connectionId) } catch (error) { return Promise.resolve({ success: false, error: error.message }) }
+    return session.runQueued(() => fn(session))
+  }
+
+  ipcMain.handle('ftp-connect', async (event, connectionId, config) => {
+    let session
+    try { session = sessions.open(connectionId) } catch (error) { return { success: false, error: error.message } }
+    return session.runQueued(async () => {
+      try {
+        await session.ftpService.connect(config)
+        session.transferManager.reset()
+        // Measures the first latency reading for the status bar.
+        await session.ftpService.ping()
+        return { success: true }
+      } catch (error) {
+        await sessions.close(session.id).catch(() => {})
+        return { success: false, error: error.message, certificate: error.certificate }
+      }
     })
   })
-  ipcMain.handle('ftp-disconnect', async () => {
-    return runQueued(async () => {
-      try { await ftpService.disconnect(); return { success: true } } catch (error) { return { success: false, error: error.message } }
-    })
+  ipcMain.handle('ftp-disconnect', async (event, connectionId) => {
+    try { await sessions.close(connectionId); return { success: true } } catch (error) { return { success: false, error: error.message } }
   })
-  ipcMain.handle('ftp-list-files', async (event, p = '/') => {
-    return runQueued(async () => {
+  ipcMain.handle('ftp-get-health', async () => {
+    try { return { success: true, health: sessions.health() } } catch (error) { return { success: false, error: error.message } }
+  })
+  ipcMain.handle('ftp-ping', async (event, connectionId) => {
+    try { const health = await sessions.get(connectionId).ping(); return { success: true, health: { connectionId: String(connectionId), ...health } } } catch (error) { return { success: false, error: error.message } }
+  })
+  ipcMain.handle('ftp-list-files', async (event, connectionId, p = '/') => {
+    return withSession(connectionId, async ({ ftpService }) => {
       try { const files = await ftpService.listFiles(p); return { success: true, files } } catch (error) { return { success: false, error: error.message } }
     })
   })
-  ipcMain.handle('ftp-list-all', async (event, p = '/') => {
-    return runQueued(async () => {
+  ipcMain.handle('ftp-list-all', async (event, connectionId, p = '/') => {
+    return withSession(connectionId, async ({ ftpService }) => {
       try {
         const files = await ftpService.listFiles(p)
         return { success: true, tree: files }
@@ -164,55 +277,355 @@ function setupIPC() {
       }
     })
   })
-  ipcMain.handle('ftp-download-file', async (event, remotePath, localPath) => {
-    return runQueued(async () => {
-      try { const content = await ftpService.downloadFile(remotePath, localPath); return { success: true, content } } catch (error) { return { success: false, error: error.message } }
+  ipcMain.handle('ftp-download-file', async (event, connectionId, remotePath, localPath, options) => {
+    try {
+      const { transferManager } = sessions.get(connectionId)
+      if (localPath) {
+        const content = await transferManager.enqueue({ type: 'download', remotePath, run: (service) => service.downloadFile(remotePath, localPath) })
+        return { success: true, content }
+      }
+      const data = await transferManager.enqueue({ type: 'download', remotePath, retryable: false, run: (service) => service.downloadFileData(remotePath, options || {}) })
+      return { success: true, ...data }
+    } catch (error) {
+      return { success: false, error: error.message }
+    }
+  })
+  ipcMain.handle('ftp-upload-base64', async (event, connectionId, base64, remotePath) => {
+    try {
+      const { transferManager } = sessions.get(connectionId)
+      const buffer = Buffer.from(String(base64 || ''), 'base64')
+      const remote = await transferManager.enqueue({ type: 'upload', remotePath, total: buffer.length, run: (service) => uploadAndDescribe(service, buffer, remotePath, connectionId) })
+      return { success: true, remote }
+    } catch (error) {
+      return { success: false, error: error.message }
+    }
+  })
+  // Replaces a binary asset on the server with a file picked from disk, byte
+  // for byte, and refreshes the working-copy copy when a sync folder is set.
+  ipcMain.handle('ftp-replace-from-disk', async (event, connectionId, remotePath) => {
+    try {
+      const { transferManager } = sessions.get(connectionId)
+      const ext = path.posix.extname(String(remotePath || '')).slice(1)
+      const result = await dialog.showOpenDialog(mainWindow, {
+        title: `Replace ${path.posix.basename(String(remotePath || ''))}`,
+        properties: ['openFile'],
+        filters: ext ? [{ name: ext.toUpperCase(), extensions: [ext] }, { name: 'All files', extensions: ['*'] }] : []
+      })
+      if (result.canceled || !result.filePaths || !result.filePaths[0]) {
+        return { success: false, canceled: true }
+      }
+      const buffer = await fs.readFile(result.filePaths[0])
+      const remote = await transferManager.enqueue({ type: 'upload', remotePath, total: buffer.length, run: (service) => uploadAndDescribe(service, buffer, remotePath, connectionId) })
+      const syncRoot = settingsService.getSyncFolder(connectionId)
+      if (syncRoot) {
+        const localPath = toLocalPath(getWorkingCopyRoot(syncRoot), remotePath)
+        try {
+          await fs.mkdir(path.dirname(localPath), { recursive: true })
+          await fs.writeFile(localPath, buffer)
+        } catch {}
+      }
+      return { success: true, base64: buffer.toString('base64'), size: buffer.length, sourcePath: result.filePaths[0], remote }
+    } catch (error) {
+      return { success: false, error: error.message }
+    }
+  })
+  // `format` ({ encoding, bom, eol }) applies when uploading content rather than a local file.
+  // `action` labels the upload in the activity log ('sync' for Save-and-Sync,
+  // 'inspector' for inspector saves).
+  ipcMain.handle('ftp-upload-file', async (event, connectionId, localPath, remotePath, format, action) => {
+    try {
+      const { transferManager } = sessions.get(connectionId)
+      const source = format ? encodeText(localPath, format) : localPath
+      let total = Buffer.isBuffer(source) ? source.length : null
+      if (total == null) {
+        try { total = (await fs.stat(source)).size } catch { total = Buffer.byteLength(String(source ?? ''), 'utf-8') }
+      }
+      const remote = await transferManager.enqueue({ type: 'upload', remotePath, total, run: (service) => uploadAndDescribe(service, source, remotePath, connectionId, action || 'upload') })
+      return { success: true, remote }
+    } catch (error) {
+      return { success: false, error: error.message }
+    }
+  })
+  // Upload history: server versions kept before each upload of `remotePath`, newest first.
+  ipcMain.handle('backup-list', async (event, connectionId, remotePath) => {
+    try {
+      const key = getConnectionKey(sessions.get(connectionId).ftpService.getCurrentConnection())
+      return { success: true, backups: await backupService.list(key, remotePath) }
+    } catch (error) {
+      return { success: false, error: error.message }
+    }
+  })
+  // Rolls `remotePath` back to a backup. The upload backs up the current
+  // version first, so a rollback can itself be rolled back.
+  ipcMain.handle('backup-restore', async (event, connectionId, remotePath, backupId) => {
+    try {
+      const { ftpService, transferManager } = sessions.get(connectionId)
+      const buffer = await backupService.read(getConnectionKey(ftpService.getCurrentConnection()), remotePath, backupId)
+      const remote = await transferManager.enqueue({ type: 'upload', remotePath, total: buffer.length, run: (service) => uploadAndDescribe(service, buffer, remotePath, connectionId, 'restore') })
+      const syncRoot = settingsService.getSyncFolder(connectionId)
+      if (syncRoot) {
+        const localPath = toLocalPath(getWorkingCopyRoot(syncRoot), remotePath)
+        try {
+          await fs.mkdir(path.dirname(localPath), { recursive: true })
+          await fs.writeFile(localPath, buffer)
+        } catch {}
+      }
+      return { success: true, remote }
+    } catch (error) {
+      return { success: false, error: error.message }
+    }
+  })
+  // Before Save-and-Sync: has the server copy changed since `baseline` (the
+  // version recorded when the tab was opened or last uploaded)?
+  ipcMain.handle('ftp-check-remote', async (event, connectionId, remotePath, baseline, options) => {
+    return withSession(connectionId, async ({ ftpService }) => {
+      try { const result = await ftpService.checkRemoteVersion(remotePath, baseline, options || {}); return { success: true, ...result } } catch (error) { return { success: false, error: error.message } }
+    })
+  })
+  ipcMain.handle('ftp-create-directory', async (event, connectionId, remotePath) => {
+    return withSession(connectionId, async ({ ftpService }) => {
+      try { await ftpService.createDirectory(remotePath); return { success: true } } catch (error) { return { success: false, error: error.message } }
     })
   })
-  ipcMain.handle('ftp-upload-file', async (event, localPath, remotePath) => {
-    return runQueued(async () => {
-      try { await ftpService.uploadFile(localPath, remotePath); return { success: true } } catch (error) { return { success: false, error: error.message } }
+  ipcMain.handle('ftp-delete-file', async (event, connectionId, remotePath) => {
+    return withSession(connectionId, async ({ ftpService }) => {
+      try {
+        await assertNotLocked(ftpService, remotePath)
+        await ftpService.deleteFile(remotePath)
+        recordActivity(ftpService, remotePath, 'delete', { summary: 'file deleted' })
+        return { success: true }
+      } catch (error) {
+        return { success: false, error: error.message }
+      }
     })
   })
-  ipcMain.handle('ftp-sync-to-local', async (event, remoteRoot, localRoot, ignorePatterns) => {
+  ipcMain.handle('ftp-delete-directory', async (event, connectionId, remotePath) => {
+    return withSession(connectionId, async ({ ftpService }) => {
+      try {
+        await assertFolderNotLocked(ftpService, remotePath)
+        await ftpService.deleteDirectory(remotePath)
+        recordActivity(ftpService, remotePath, 'delete', { summary: 'folder deleted' })
+        return { success: true }
+      } catch (error) {
+        return { success: false, error: error.message }
+      }
+    })
+  })
+  ipcMain.handle('ftp-rename', async (event, connectionId, oldPath, newPath) => {
+    return withSession(connectionId, async ({ ftpService }) => {
+      try {
+        // Moving a folder moves every file in it. A file has nothing under it,
+        // so the folder check needs no lookup of what `oldPath` is.
+        await assertNotLocked(ftpService, oldPath)
+        await assertFolderNotLocked(ftpService, oldPath)
+        await assertNotLocked(ftpService, newPath)
+        await ftpService.rename(oldPath, newPath)
+        recordActivity(ftpService, newPath, 'rename', { summary: `renamed from ${oldPath}` })
+        return { success: true }
+      } catch (error) {
+        return { success: false, error: error.message }
+      }
+    })
+  })
+  ipcMain.handle('ftp-exists', async (event, connectionId, remotePath) => {
+    return withSession(connectionId, async ({ ftpService }) => {
+      try { const result = await ftpService.exists(remotePath); return { success: true, ...result } } catch (error) { return { success: false, error: error.message } }
+    })
+  })
+  ipcMain.handle('ftp-sync-to-local', async (event, connectionId, remoteRoot, localRoot, ignorePatterns) => {
     let lastCount = 0
-    return runQueued(async () => {
+    return withSession(connectionId, async ({ ftpService }) => {
       try {
+        const mode = settingsService.getSyncMode()
         const result = await ftpService.syncToLocal(remoteRoot, localRoot, ignorePatterns, (count) => {
           lastCount = count
           if (mainWindow && !mainWindow.isDestroyed()) {
-            mainWindow.webContents.send('ftp-sync-progress', { count })
+            mainWindow.webContents.send('ftp-sync-progress', { connectionId, count })
           }
-        })
-        return { success: true, count: lastCount, root: result && result.root }
+        }, { mode })
+        const retention = settingsService.getSnapshotRetention()
+        if (result.mode === 'snapshot' && retention.autoApply) {
+          try { await snapshotService.applyRetention(localRoot, retention) } catch {}
+        }
+        recordActivity(ftpService, remoteRoot || '/', 'sync_local', { summary: `${lastCount} file${lastCount === 1 ? '' : 's'} synced to the working copy (${result.mode})` })
+        return { success: true, count: lastCount, root: result.root, skipped: result.skipped, deleted: result.deleted, failed: result.failed, conflicts: result.conflicts, mode: result.mode, report: result.report }
       } catch (error) {
         return { success: false, error: error.message, count: lastCount }
       }
     })
   })
 
-  ipcMain.handle('local-save-file', async (event, remotePath, content) => {
+  ipcMain.handle('ftp-sync-dry-run', async (event, connectionId, remoteRoot, localRoot, ignorePatterns) => {
+    return withSession(connectionId, async ({ ftpService }) => {
+      try {
+        const result = await ftpService.syncToLocal(remoteRoot, localRoot, ignorePatterns, null, { mode: settingsService.getSyncMode(), dryRun: true })
+        return { success: true, report: result.report }
+      } catch (error) {
+        return { success: false, error: error.message }
+      }
+    })
+  })
+  ipcMain.handle('sync-get-last-report', async (event, connectionId, localRoot) => {
+    try { const report = await readSyncReport(localRoot || settingsService.getSyncFolder(connectionId)); return { success: true, report } } catch (error) { return { success: false, error: error.message } }
+  })
+  ipcMain.handle('ftp-publish-scan', async (event, connectionId, localRoot, ignorePatterns) => {
+    return withSession(connectionId, async ({ ftpService }) => {
+      try { const changes = await ftpService.findLocalChanges(localRoot, ignorePatterns); return { success: true, changes } } catch (error) { return { success: false, error: error.message } }
+    })
+  })
+  ipcMain.handle('ftp-publish', async (event, connectionId, localRoot, remotePaths) => {
+    return withSession(connectionId, async ({ ftpService }) => {
+      try {
+        const result = await ftpService.publish(localRoot, remotePaths, (progress) => {
+          if (mainWindow && !mainWindow.isDestroyed()) {
+            mainWindow.webContents.send('ftp-publish-progress', { ...progress, connectionId })
+          }
+        }, (localPath, remotePath) => uploadAndDescribe(ftpService, localPath, remotePath, connectionId, 'publish'))
+        return { success: true, uploaded: result.uploaded, failed: result.failed }
+      } catch (error) {
+        return { success: false, error: error.message }
+      }
+    })
+  })
+
+  ipcMain.handle('transfer-list', async () => {
+    try { return { success: true, transfers: sessions.all().flatMap((session) => session.transferManager.list()) } } catch (error) { return { success: false, error: error.message } }
+  })
+  ipcMain.handle('transfer-cancel', async (event, id) => {
     try {
-      const syncRoot = settingsService.getSyncFolder()
+      const session = sessions.findTransfer(id)
+      return { success: !!session && session.transferManager.cancel(String(id)) }
+    } catch (error) { return { success: false, error: error.message } }
+  })
+  ipcMain.handle('transfer-retry', async (event, id) => {
+    try {
+      const session = sessions.findTransfer(id)
+      const newId = session ? session.transferManager.retry(String(id)) : null
+      return newId ? { success: true, id: newId } : { success: false, error: 'This transfer cannot be retried' }
+    } catch (error) {
+      return { success: false, error: error.message }
+    }
+  })
+  ipcMain.handle('transfer-clear-finished', async () => {
+    try {
+      const all = sessions.all()
+      all.forEach((session) => session.transferManager.clearFinished())
+      return { success: true, transfers: all.flatMap((session) => session.transferManager.list()) }
+    } catch (error) { return { success: false, error: error.message } }
+  })
+  ipcMain.handle('settings-get-transfer-concurrency', async () => {
+    try { return { success: true, concurrency: settingsService.getTransferConcurrency() } } catch (error) { return { success: false, error: error.message } }
+  })
+  ipcMain.handle('settings-set-transfer-concurrency', async (event, count) => {
+    try {
+      const concurrency = settingsService.setTransferConcurrency(count)
+      sessions.all().forEach((session) => session.transferManager.pump())
+      return { success: true, concurrency }
+    } catch (error) {
+      return { success: false, error: error.message }
+    }
+  })
+
+  ipcMain.handle('snapshot-list', async (event, connectionId) => {
+    try { const snapshots = await snapshotService.listSnapshots(settingsService.getSyncFolder(connectionId)); return { success: true, snapshots } } catch (error) { return { success: false, error: error.message } }
+  })
+  ipcMain.handle('snapshot-list-dir', async (event, connectionId, name, relPath) => {
+    try { const entries = await snapshotService.listDir(settingsService.getSyncFolder(connectionId), name, relPath); return { success: true, entries } } catch (error) { return { success: false, error: error.message } }
+  })
+  ipcMain.handle('snapshot-read-file', async (event, connectionId, name, relPath) => {
+    try { const content = await snapshotService.readFile(settingsService.getSyncFolder(connectionId), name, relPath); return { success: true, content } } catch (error) { return { success: false, error: error.message } }
+  })
+  // Text of `remotePath` in the newest snapshot that has it; `name` is null when none does.
+  ipcMain.handle('snapshot-read-latest', async (event, connectionId, remotePath, options) => {
+    try {
+      const syncRoot = settingsService.getSyncFolder(connectionId)
+      const current = sessions.has(connectionId) ? sessions.get(connectionId).ftpService.getCurrentConnection() : null
+      const found = await snapshotService.findLatest(syncRoot, remotePath, (current && current.defaultPath) || '/')
+      if (!found) return { success: true, name: null }
+      const buffer = await fs.readFile(snapshotService.resolve(syncRoot, found.name, found.relPath))
+      const detected = detectTextEncoding(buffer) || { encoding: 'utf-8', bom: false }
+      const encoding = (options && options.encoding) || detected.encoding
+      return { success: true, name: found.name, content: decodeText(buffer, encoding) }
+    } catch (error) {
+      return { success: false, error: error.message }
+    }
+  })
+  ipcMain.handle('snapshot-diff', async (event, connectionId, from, to) => {
+    try { const diff = await snapshotService.diffSnapshots(settingsService.getSyncFolder(connectionId), from, to); return { success: true, ...diff } } catch (error) { return { success: false, error: error.message } }
+  })
+  ipcMain.handle('snapshot-delete', async (event, connectionId, name) => {
+    try { await snapshotService.deleteSnapshot(settingsService.getSyncFolder(connectionId), name); return { success: true } } catch (error) { return { success: false, error: error.message } }
+  })
+  ipcMain.handle('snapshot-apply-retention', async (event, connectionId, dryRun) => {
+    try {
+      const result = await snapshotService.applyRetention(settingsService.getSyncFolder(connectionId), settingsService.getSnapshotRetention(), !!dryRun)
+      return { success: true, removed: result.removed, kept: result.kept }
+    } catch (error) {
+      return { success: false, error: error.message }
+    }
+  })
+  ipcMain.handle('snapshot-restore', async (event, connectionId, name, relPath) => {
+    return withSession(connectionId, async ({ ftpService }) => {
+      try {
+        const syncRoot = settingsService.getSyncFolder(connectionId)
+        const meta = await snapshotService.getMeta(syncRoot, name)
+        // Snapshots taken before metadata was recorded mirror the connection's default folder.
+        const current = ftpService.getCurrentConnection()
+        const remoteRoot = (meta && meta.remoteRoot) || (current && current.defaultPath) || '/'
+        const remotePath = path.posix.join(remoteRoot, String(relPath || '').replace(/\\/g, '/'))
+        const result = await ftpService.uploadTree(snapshotService.resolve(syncRoot, name, relPath), remotePath, (progress) => {
+          if (mainWindow && !mainWindow.isDestroyed()) {
+            mainWindow.webContents.send('ftp-publish-progress', { ...progress, connectionId })
+          }
+        }, (localPath) => snapshotService.isMetaFile(syncRoot, name, localPath), (localPath, target) => uploadAndDescribe(ftpService, localPath, target, connectionId, 'restore', `restored from snapshot ${name}`))
+        return { success: true, remotePath, uploaded: result.uploaded, failed: result.failed }
+      } catch (error) {
+        return { success: false, error: error.message }
+      }
+    })
+  })
+  ipcMain.handle('settings-get-snapshot-retention', async () => {
+    try { const retention = settingsService.getSnapshotRetention(); return { success: true, retention } } catch (error) { return { success: false, error: error.message } }
+  })
+  ipcMain.handle('settings-set-snapshot-retention', async (event, retention) => {
+    try { const saved = settingsService.setSnapshotRetention(retention); return { success: true, retention: saved } } catch (error) { return { success: false, error: error.message } }
+  })
+
+  ipcMain.handle('local-read-file', async (event, connectionId, remotePath) => {
+    try {
+      const syncRoot = settingsService.getSyncFolder(connectionId)
       if (!syncRoot) {
         return { success: false, error: 'Sync folder is not configured. Set it in the Settings tab.' }
       }
+      const buffer = await fs.readFile(toLocalPath(getWorkingCopyRoot(syncRoot), remotePath))
+      const detected = detectTextEncoding(buffer) || { encoding: 'utf-8', bom: false }
+      return { success: true, content: decodeText(buffer, detected.encoding), encoding: detected.encoding }
+    } catch (error) {
+      return { success: false, error: error.message }
+    }
+  })
 
-      const normalizeRemote = (p) => {
-        if (!p) return '/'
-        let out = String(p).replace(/\\/g, '/')
-        if (!out.startsWith('/')) out = '/' + out
-        return out
+  // `format` ({ encoding, bom, eol }) is the one the file was opened with; without it
+  // the content is written as UTF-8. Each save also becomes a local history
+  // revision; `reason` ('save', 'sync' or 'inspector') says where it came from.
+  ipcMain.handle('local-save-file', async (event, connectionId, remotePath, content, format, reason) => {
+    try {
+      const syncRoot = settingsService.getSyncFolder(connectionId)
+      if (!syncRoot) {
+        return { success: false, error: 'Sync folder is not configured. Set it in the Settings tab.' }
       }
 
-      const normalized = normalizeRemote(remotePath)
-      const relative = normalized.replace(/^\/+/, '')
-      const segments = relative.split('/').filter(Boolean)
-      const localPath = path.join(syncRoot, ...segments)
+      // Saves land in the same working copy that incremental sync keeps up to date.
+      const localPath = toLocalPath(getWorkingCopyRoot(syncRoot), remotePath)
 
       const dir = path.dirname(localPath)
       await fs.mkdir(dir, { recursive: true })
-      await fs.writeFile(localPath, content ?? '', 'utf-8')
+      await fs.writeFile(localPath, encodeText(content ?? '', format || {}))
+      try {
+        await localHistoryService.add(String(connectionId || 'default'), remotePath, Buffer.from(String(content ?? ''), 'utf-8'), { reason: reason || 'save' })
+      } catch (error) {
+        console.warn('[history] failed to record revision', remotePath, error.message)
+      }
 
       return { success: true, path: localPath }
     } catch (error) {
@@ -220,33 +633,107 @@ function setupIPC() {
     }
   })
 
-  ipcMain.handle('file-cache-get', async (event, filePath) => {
-    try { const content = await fileCacheService.getCachedFile(filePath); return { success: true, content } } catch (error) { return { success: false, error: error.message } }
+  // Local history (Timeline) revisions of `remotePath`, newest first.
+  ipcMain.handle('history-list', async (event, connectionId, remotePath) => {
+    try { const revisions = await localHistoryService.list(String(connectionId || 'default'), remotePath); return { success: true, revisions } } catch (error) { return { success: false, error: error.message } }
+  })
+  ipcMain.handle('history-read', async (event, connectionId, remotePath, revisionId) => {
+    try { const content = await localHistoryService.readText(String(connectionId || 'default'), remotePath, revisionId); return { success: true, content } } catch (error) { return { success: false, error: error.message } }
+  })
+  ipcMain.handle('settings-get-local-history-retention', async () => {
+    try { return { success: true, retention: settingsService.getLocalHistoryRetention() } } catch (error) { return { success: false, error: error.message } }
+  })
+  ipcMain.handle('settings-set-local-history-retention', async (event, retention) => {
+    try { return { success: true, retention: settingsService.setLocalHistoryRetention(retention) } } catch (error) { return { success: false, error: error.message } }
+  })
+
+  ipcMain.handle('file-cache-get', async (event, connectionId, filePath) => {
+    try { const content = await fileCacheService.getCachedFile(filePath, connectionId || 'default'); return { success: true, content } } catch (error) { return { success: false, error: error.message } }
   })
-  ipcMain.handle('file-cache-set', async (event, filePath, content) => {
-    try { await fileCacheService.setCachedFile(filePath, content); return { success: true } } catch (error) { return { success: false, error: error.message } }
+  ipcMain.handle('file-cache-set', async (event, connectionId, filePath, content) => {
+    try { await fileCacheService.setCachedFile(filePath, content, connectionId || 'default'); return { success: true } } catch (error) { return { success: false, error: error.message } }
   })
-  ipcMain.handle('file-cache-clear', async (event, filePath) => {
-    try { await fileCacheService.clearCachedFile(filePath); return { success: true } } catch (error) { return { success: false, error: error.message } }
+  ipcMain.handle('file-cache-clear', async (event, connectionId, filePath) => {
+    try { await fileCacheService.clearCachedFile(filePath, connectionId || 'default'); return { success: true } } catch (error) { return { success: false, error: error.message } }
   })
 
   ipcMain.handle('db-get-users', async () => {
     try { const users = await databaseService.getUsers(); return { success: true, users } } catch (error) { return { success: false, error: error.message } }
   })
-  ipcMain.handle('db-update-user-status', async (event, userId, status) => {
-    try { await databaseService.updateUserStatus(userId, status); return { success: true } } catch (error) { return { success: false, error: error.message } }
+  ipcMain.handle('db-update-user-status', async (event, userId, status, details) => {
+    try { await databaseService.updateUserStatus(userId, status, details || {}); return { success: true } } catch (error) { return { success: false, error: error.message } }
   })
   ipcMain.handle('db-get-active-files', async () => {
     try { const files = await databaseService.getActiveFiles(); return { success: true, files } } catch (error) { return { success: false, error: error.message } }
   })
-  ipcMain.handle('db-set-active-file', async (event, userId, filePath, fileHash) => {
-    try { await databaseService.setActiveFile(userId, filePath, null, fileHash ?? null); return { success: true } } catch (error) { return { success: false, error: error.message } }
+  ipcMain.handle('db-set-active-file', async (event, userId, filePath, fileHash, connectionKey) => {
+    try { await databaseService.setActiveFile(userId, filePath, null, fileHash ?? null, connectionKey || null); return { success: true } } catch (error) { return { success: false, error: error.message } }
   })
-  ipcMain.handle('db-remove-active-file', async (event, userId, filePath) => {
-    try { await databaseService.removeActiveFile(userId, filePath); return { success: true } } catch (error) { return { success: false, error: error.message } }
+  ipcMain.handle('db-remove-active-file', async (event, userId, filePath, connectionKey) => {
+    try { await databaseService.removeActiveFile(userId, filePath, connectionKey || null); return { success: true } } catch (error) { return { success: false, error: error.message } }
   })
+  ipcMain.handle('db-get-cursors', async () => {
+    try { const cursors = await databaseService.getCursors(); return { success: true, cursors } } catch (error) { return { success: false, error: error.message } }
+  })
+  ipcMain.handle('db-set-cursor', async (event, userId, filePath, connectionKey, selections) => {
+    try { await databaseService.setCursor(userId, filePath, connectionKey || null, selections); return { success: true } } catch (error) { return { success: false, error: error.message } }
+  })
+  ipcMain.handle('db-clear-cursor', async (event, userId) => {
+    try { await databaseService.clearCursor(userId); return { success: true } } catch (error) { return { success: false, error: error.message } }
+  })
+  ipcMain.handle('db-get-file-history', async (event, filters) => {
+    try { const entries = await databaseService.getFileHistory(filters || {}); return { success: true, entries } } catch (error) { return { success: false, error: error.message } }
+  })
+  // Hard locks on files, held in active_files. Acquiring returns `holder`
+  // instead of a lock when a teammate already has one.
+  ipcMain.handle('db-acquire-lock', async (event, userId, filePath, connectionKey) => {
+    try { const result = await databaseService.acquireLock(userId, filePath, connectionKey || null, settingsService.getLockMinutes()); return { success: true, ...result } } catch (error) { return { success: false, error: error.message } }
+  })
+  ipcMain.handle('db-release-lock', async (event, userId, filePath, connectionKey) => {
+    try { await databaseService.releaseLock(userId, filePath, connectionKey || null); return { success: true } } catch (error) { return { success: false, error: error.message } }
+  })
+  // Breaking someone else's lock is always written to the activity log.
+  ipcMain.handle('db-break-lock', async (event, userId, filePath, connectionKey) => {
+    try {
+      const broken = await databaseService.breakLock(userId, filePath, connectionKey || null)
+      for (const lock of broken) {
+        await logActivity(connectionKey, filePath, 'lock_break', { summary: `broke the lock ${lock.username} held since ${new Date(lock.locked_at).toLocaleString()}` })
+      }
+      return { success: true, broken }
+    } catch (error) {
+      return { success: false, error: error.message }
+    }
+  })
+  // The first registration of this run also sweeps the rows the last run left.
+  let leftoversCleared = false
   ipcMain.handle('db-get-or-create-default-user', async () => {
-    try { const user = await databaseService.getOrCreateDefaultUser(); return { success: true, user } } catch (error) { return { success: false, error: error.message } }
+    try {
+      const user = await databaseService.registerUser(settingsService.getIdentity())
+      if (!leftoversCleared) {
+        leftoversCleared = true
+        await databaseService.clearUserSessions(user.id)
+      }
+      return { success: true, user }
+    } catch (error) { return { success: false, error: error.message } }
+  })
+  // Admin actions for stale users. Your own user can be neither merged away nor removed.
+  ipcMain.handle('db-merge-users', async (event, sourceId, targetId) => {
+    try {
+      if (databaseService.currentUser && Number(sourceId) === databaseService.currentUser.id) throw new Error('You cannot merge your own user into another')
+      const removed = await databaseService.mergeUsers(sourceId, targetId)
+      return { success: true, removed }
+    } catch (error) {
+      return { success: false, error: error.message }
+    }
+  })
+  ipcMain.handle('db-remove-user', async (event, userId) => {
+    try {
+      if (databaseService.currentUser && Number(userId) === databaseService.currentUser.id) throw new Error('You cannot remove your own user')
+      const removed = await databaseService.removeUser(userId)
+      return { success: true, removed }
+    } catch (error) {
+      return { success: false, error: error.message }
+    }
   })
   ipcMain.handle('db-get-ftp-connections', async (event, userId) => {
     try { const cons = await databaseService.getFTPConnections(userId); return { success: true, connections: cons } } catch (error) { return { success: false, error: error.message } }
@@ -266,11 +753,28 @@ function setupIPC() {
   ipcMain.handle('settings-add-ftp-connection', async (event, conn) => {
     try { const c = settingsService.addFTPConnection(conn); return { success: true, connection: c } } catch (error) { return { success: false, error: error.message } }
   })
+  ipcMain.handle('settings-update-ftp-connection', async (event, id, patch) => {
+    try { const c = settingsService.updateFTPConnection(id, patch); return { success: true, connection: c } } catch (error) { return { success: false, error: error.message } }
+  })
   ipcMain.handle('settings-remove-ftp-connection', async (event, id) => {
     try { const r = settingsService.removeFTPConnection(id); return { success: true, removed: r } } catch (error) { return { success: false, error: error.message } }
   })
   ipcMain.handle('settings-get-ftp-password', async (event, id) => {
-    try { const p = settingsService.getFTPPassword(id); return { success: true, password: p } } catch (error) { return { success: false, error: error.message } }
+    try { const p = settingsService.getFTPPassword(id); const passphrase = settingsService.getFTPPassphrase(id); return { success: true, password: p, passphrase } } catch (error) { return { success: false, error: error.message } }
+  })
+  ipcMain.handle('settings-choose-private-key', async () => {
+    try {
+      const result = await dialog.showOpenDialog(mainWindow, {
+        title: 'Select SSH private key',
+        properties: ['openFile', 'showHiddenFiles']
+      })
+      if (result.canceled || !result.filePaths || result.filePaths.length === 0) {
+        return { success: false, error: 'No file selected' }
+      }
+      return { success: true, path: result.filePaths[0] }
+    } catch (error) {
+      return { success: false, error: error.message }
+    }
   })
   ipcMain.handle('settings-get-sync-ignore', async () => {
     try {
@@ -306,25 +810,47 @@ function setupIPC() {
       return { success: false, error: error.message }
     }
   })
-  ipcMain.handle('settings-get-sync-folder', async () => {
+  ipcMain.handle('settings-get-sync-folder', async (event, connectionId) => {
     try {
-      const path = settingsService.getSyncFolder()
+      const path = settingsService.getSyncFolder(connectionId)
       return { success: true, path }
     } catch (error) {
       return { success: false, error: error.message }
     }
   })
-  ipcMain.handle('settings-get-preview-base-url', async () => {
+  ipcMain.handle('settings-get-sync-mode', async () => {
+    try {
+      const mode = settingsService.getSyncMode()
+      return { success: true, mode }
+    } catch (error) {
+      return { success: false, error: error.message }
+    }
+  })
+  ipcMain.handle('settings-set-sync-mode', async (_event, mode) => {
+    try {
+      const saved = settingsService.setSyncMode(mode)
+      return { success: true, mode: saved }
+    } catch (error) {
+      return { success: false, error: error.message }
+    }
+  })
+  ipcMain.handle('settings-get-remote-backups', async (event, connectionId) => {
+    try { return { success: true, enabled: settingsService.getRemoteBackups(connectionId) } } catch (error) { return { success: false, error: error.message } }
+  })
+  ipcMain.handle('settings-set-remote-backups', async (event, connectionId, enabled) => {
+    try { return { success: true, enabled: settingsService.setRemoteBackups(connectionId, enabled) } } catch (error) { return { success: false, error: error.message } }
+  })
+  ipcMain.handle('settings-get-preview-base-url', async (event, connectionId) => {
     try {
-      const baseUrl = settingsService.getPreviewBaseUrl()
+      const baseUrl = settingsService.getPreviewBaseUrl(connectionId)
       return { success: true, baseUrl }
     } catch (error) {
       return { success: false, error: error.message }
     }
   })
-  ipcMain.handle('settings-set-preview-base-url', async (_event, baseUrl) => {
+  ipcMain.handle('settings-set-preview-base-url', async (_event, connectionId, baseUrl) => {
     try {
-      const saved = settingsService.setPreviewBaseUrl(baseUrl)
+      const saved = settingsService.setPreviewBaseUrl(connectionId, baseUrl)
       return { success: true, baseUrl: saved }
     } catch (error) {
       return { success: false, error: error.message }
@@ -338,6 +864,18 @@ function setupIPC() {
       return { success: false, error: error.message }
     }
   })
+  ipcMain.handle('settings-get-lock-minutes', async () => {
+    try { return { success: true, minutes: settingsService.getLockMinutes() } } catch (error) { return { success: false, error: error.message } }
+  })
+  ipcMain.handle('settings-set-lock-minutes', async (_event, minutes) => {
+    try { return { success: true, minutes: settingsService.setLockMinutes(minutes) } } catch (error) { return { success: false, error: error.message } }
+  })
+  ipcMain.handle('settings-get-presence', async () => {
+    try { return { success: true, preferences: settingsService.getPresencePreferences() } } catch (error) { return { success: false, error: error.message } }
+  })
+  ipcMain.handle('settings-set-presence', async (_event, preferences) => {
+    try { return { success: true, preferences: settingsService.setPresencePreferences(preferences) } } catch (error) { return { success: false, error: error.message } }
+  })
   ipcMain.handle('settings-get-editor-name', async () => {
     try {
       const name = settingsService.getEditorName()
@@ -346,14 +884,42 @@ function setupIPC() {
       return { success: false, error: error.message }
     }
   })
+  // Renaming also renames your row in the team database; a name a teammate
+  // already has is refused and the old name kept.
   ipcMain.handle('settings-set-editor-name', async (_event, name) => {
     try {
+      const previous = settingsService.getEditorName()
       const saved = settingsService.setEditorName(name)
+      if (hasDatabaseUser()) {
+        const next = settingsService.getIdentity().name
+        if (next !== databaseService.currentUser.username) {
+          try {
+            await databaseService.updateUserProfile(databaseService.currentUser.id, { username: next })
+          } catch (error) {
+            settingsService.setEditorName(previous)
+            throw error
+          }
+        }
+      }
       return { success: true, name: saved.name }
     } catch (error) {
       return { success: false, error: error.message }
     }
   })
+  ipcMain.handle('settings-get-editor-profile', async () => {
+    try { return { success: true, profile: { ...settingsService.getEditorProfile(), machineId: settingsService.getMachineId() } } } catch (error) { return { success: false, error: error.message } }
+  })
+  ipcMain.handle('settings-set-editor-profile', async (_event, profile) => {
+    try {
+      const saved = settingsService.setEditorProfile(profile || {})
+      if (hasDatabaseUser()) {
+        await databaseService.updateUserProfile(databaseService.currentUser.id, { email: saved.email, avatarColor: saved.avatarColor })
+      }
+      return { success: true, profile: { ...saved, machineId: settingsService.getMachineId() } }
+    } catch (error) {
+      return { success: false, error: error.message }
+    }
+  })
   ipcMain.handle('settings-set-preview-start-after', async (_event, startAfter) => {
     try {
       const saved = settingsService.setPreviewStartAfter(startAfter)
@@ -378,7 +944,7 @@ function setupIPC() {
       return { success: false, error: error.message }
     }
   })
-  ipcMain.handle('settings-set-sync-folder', async (event, folderPath) => {
+  ipcMain.handle('settings-set-sync-folder', async (event, connectionId, folderPath) => {
     try {
       const fs = require('fs').promises
       if (folderPath) {
@@ -388,13 +954,13 @@ function setupIPC() {
           // ignore mkdir errors; we still save the path
         }
       }
-      const savedPath = settingsService.setSyncFolder(folderPath)
+      const savedPath = settingsService.setSyncFolder(connectionId, folderPath)
       return { success: true, path: savedPath }
     } catch (error) {
       return { success: false, error: error.message }
     }
   })
-  ipcMain.handle('settings-choose-sync-folder', async () => {
+  ipcMain.handle('settings-choose-sync-folder', async (event, connectionId) => {
     try {
       const result = await dialog.showOpenDialog(mainWindow, {
         properties: ['openDirectory', 'createDirectory']
@@ -403,7 +969,7 @@ function setupIPC() {
         return { success: false, error: 'No folder selected' }
       }
       const folderPath = result.filePaths[0]
-      settingsService.setSyncFolder(folderPath)
+      settingsService.setSyncFolder(connectionId, folderPath)
       return { success: true, path: folderPath }
     } catch (error) {
       return { success: false, error: error.message }
@@ -429,29 +995,31 @@ function setupIPC() {
   })
 
   ipcMain.handle('project-search', async (_event, payload) => {
-    const { query, useRegex, caseSensitive } = payload || {}
+    const { query, useRegex, caseSensitive, connectionId } = payload || {}
     if (!query || !String(query).trim()) {
       return { success: true, files: [] }
     }
 
     try {
-      const syncRoot = settingsService.getSyncFolder()
+      const syncRoot = settingsService.getSyncFolder(connectionId)
       if (!syncRoot) {
         return { success: false, error: 'Sync folder is not configured. Set it in Settings and run a sync first.' }
       }
 
-      const entries = await fs.readdir(syncRoot, { withFileTypes: true })
-      const dirEntries = entries.filter(e => e.isDirectory())
-      if (!dirEntries.length) {
-        return { success: false, error: 'No synced snapshots found in the sync folder. Run a sync first.' }
+      // Search the working copy; fall back to the newest timestamped snapshot for
+      // folders that have only ever been synced in snapshot mode.
+      let root = getWorkingCopyRoot(syncRoot)
+      const hasWorkingCopy = await fs.stat(root).then((st) => st.isDirectory(), () => false)
+      if (!hasWorkingCopy) {
+        const entries = await fs.readdir(syncRoot, { withFileTypes: true })
+        const timePattern = /^\d{4}-\d{2}-\d{2}_\d{2}-\d{2}$/
+        const stamped = entries.filter(e => e.isDirectory() && timePattern.test(e.name)).map(d => d.name)
+        if (!stamped.length) {
+          return { success: false, error: 'Nothing has been synced to the sync folder yet. Run a sync first.' }
+        }
+        root = path.join(syncRoot, stamped.sort().slice(-1)[0])
       }
 
-      const timePattern = /^\d{4}-\d{2}-\d{2}_\d{2}-\d{2}$/
-      const candidates = dirEntries.map(d => d.name)
-      const stamped = candidates.filter(name => timePattern.test(name))
-      const chosen = (stamped.length ? stamped : candidates).sort().slice(-1)[0]
-      const root = path.join(syncRoot, chosen)
-
       const source = useRegex ? String(query) : String(query).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
       const flags = caseSensitive ? 'g' : 'gi'
       let regex
@@ -555,16 +1123,65 @@ app.whenReady().then(async () => {
     console.log('[electron] Unable to read GPU feature status:', err && err.message ? err.message : err)
   }
 
-  ftpService = new FTPService()
   databaseService = new DatabaseService()
   fileCacheService = new FileCacheService()
   settingsService = new SettingsService()
+  snapshotService = new SnapshotService()
+  backupService = new BackupService(path.join(app.getPath('userData'), 'upload-backups'))
+  localHistoryService = new LocalHistoryService(path.join(app.getPath('userData'), 'local-history'), () => settingsService.getLocalHistoryRetention())
+  sessions = new ConnectionSessions({
+    getConcurrency: () => settingsService.getTransferConcurrency(),
+    onTransferUpdate: (job) => {
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('transfer-updated', job)
+      }
+    },
+    onHealthChange: (health) => {
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('ftp-health-changed', health)
+      }
+    }
+  })
   try { settingsService.setEnablePreviewInspector(true) } catch (e) {}
-  try { await databaseService.initialize() } catch (e) {}
+  try {
+    await databaseService.initialize()
+    databaseService.startHeartbeat()
+    databaseService.onCursorMoved((cursor) => {
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('cursor-moved', cursor)
+      }
+    })
+    databaseService.listenForPresence((table) => {
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('presence-changed', { table })
+      }
+    })
+  } catch (e) {}
   try { await fileCacheService.initialize() } catch (e) {}
   createWindow(); createMenu(); setupIPC()
   app.on('activate', () => { if (BrowserWindow.getAllWindows().length === 0) { createWindow() } })
 })
 
 app.on('window-all-closed', () => { if (process.platform !== 'darwin') { app.quit() } })
-app.on('before-quit', async () => { if (ftpService) { await ftpService.disconnect() } if (databaseService) { await databaseService.close() } })
+// Electron does not wait for async before-quit listeners, so the first quit is
+// held back until the cleanup is done (or has taken too long) and then repeated.
+const QUIT_CLEANUP_TIMEOUT_MS = 3000
+let quitCleanupDone = false
+app.on('before-quit', (event) => {
+  if (quitCleanupDone) return
+  event.preventDefault()
+  quitCleanupDone = true
+  const cleanup = async () => {
+    if (sessions) { await sessions.closeAll() }
+    if (databaseService) {
+      // Locks are released on quit so a closed editor never blocks teammates until expiry.
+      if (databaseService.pool && databaseService.currentUser) {
+        await databaseService.releaseAllLocks(databaseService.currentUser.id).catch(() => {})
+        await databaseService.clearCursor(databaseService.currentUser.id).catch(() => {})
+      }
+      await databaseService.close()
+    }
+  }
+  const timeout = new Promise((resolve) => setTimeout(resolve, QUIT_CLEANUP_TIMEOUT_MS))
+  Promise.race([cleanup().catch(() => {}), timeout]).then(() => app.quit())
+})
@@ -41,52 +41,111 @@ function ensureMenuIpcHandler(event) {
 }
 
 contextBridge.exposeInMainWorld('electronAPI', {
-  ftpConnect: (config) => ipcRenderer.invoke('ftp-connect', config),
-  ftpDisconnect: () => ipcRenderer.invoke('ftp-disconnect'),
-  ftpListFiles: (path) => ipcRenderer.invoke('ftp-list-files', path),
-  ftpListAll: (path) => ipcRenderer.invoke('ftp-list-all', path),
-  ftpDownloadFile: (remotePath, localPath) => ipcRenderer.invoke('ftp-download-file', remotePath, localPath),
-  ftpUploadFile: (localPath, remotePath) => ipcRenderer.invoke('ftp-upload-file', localPath, remotePath),
-  ftpSyncToLocal: (remoteRoot, localRoot, ignorePatterns) => ipcRenderer.invoke('ftp-sync-to-local', remoteRoot, localRoot, ignorePatterns),
-
-  fileCacheGet: (filePath) => ipcRenderer.invoke('file-cache-get', filePath),
-  fileCacheSet: (filePath, content) => ipcRenderer.invoke('file-cache-set', filePath, content),
-  fileCacheClear: (filePath) => ipcRenderer.invoke('file-cache-clear', filePath),
+  ftpConnect: (connectionId, config) => ipcRenderer.invoke('ftp-connect', connectionId, config),
+  ftpDisconnect: (connectionId) => ipcRenderer.invoke('ftp-disconnect', connectionId),
+  ftpGetHealth: () => ipcRenderer.invoke('ftp-get-health'),
+  ftpPing: (connectionId) => ipcRenderer.invoke('ftp-ping', connectionId),
+  ftpListFiles: (connectionId, path) => ipcRenderer.invoke('ftp-list-files', connectionId, path),
+  ftpListAll: (connectionId, path) => ipcRenderer.invoke('ftp-list-all', connectionId, path),
+  ftpDownloadFile: (connectionId, remotePath, localPath, options) => ipcRenderer.invoke('ftp-download-file', connectionId, remotePath, localPath, options),
+  ftpUploadFile: (connectionId, localPath, remotePath, format, action) => ipcRenderer.invoke('ftp-upload-file', connectionId, localPath, remotePath, format, action),
+  ftpUploadBase64: (connectionId, base64, remotePath) => ipcRenderer.invoke('ftp-upload-base64', connectionId, base64, remotePath),
+  ftpReplaceFromDisk: (connectionId, remotePath) => ipcRenderer.invoke('ftp-replace-from-disk', connectionId, remotePath),
+  ftpCheckRemote: (connectionId, remotePath, baseline, options) => ipcRenderer.invoke('ftp-check-remote', connectionId, remotePath, baseline, options),
+  ftpCreateDirectory: (connectionId, remotePath) => ipcRenderer.invoke('ftp-create-directory', connectionId, remotePath),
+  ftpDeleteFile: (connectionId, remotePath) => ipcRenderer.invoke('ftp-delete-file', connectionId, remotePath),
+  ftpDeleteDirectory: (connectionId, remotePath) => ipcRenderer.invoke('ftp-delete-directory', connectionId, remotePath),
+  ftpRename: (connectionId, oldPath, newPath) => ipcRenderer.invoke('ftp-rename', connectionId, oldPath, newPath),
+  ftpExists: (connectionId, remotePath) => ipcRenderer.invoke('ftp-exists', connectionId, remotePath),
+  ftpSyncToLocal: (connectionId, remoteRoot, localRoot, ignorePatterns) => ipcRenderer.invoke('ftp-sync-to-local', connectionId, remoteRoot, localRoot, ignorePatterns),
+  ftpSyncDryRun: (connectionId, remoteRoot, localRoot, ignorePatterns) => ipcRenderer.invoke('ftp-sync-dry-run', connectionId, remoteRoot, localRoot, ignorePatterns),
+  syncGetLastReport: (connectionId, localRoot) => ipcRenderer.invoke('sync-get-last-report', connectionId, localRoot),
+  ftpPublishScan: (connectionId, localRoot, ignorePatterns) => ipcRenderer.invoke('ftp-publish-scan', connectionId, localRoot, ignorePatterns),
+  ftpPublish: (connectionId, localRoot, remotePaths) => ipcRenderer.invoke('ftp-publish', connectionId, localRoot, remotePaths),
+
+  fileCacheGet: (connectionId, filePath) => ipcRenderer.invoke('file-cache-get', connectionId, filePath),
+  fileCacheSet: (connectionId, filePath, content) => ipcRenderer.invoke('file-cache-set', connectionId, filePath, content),
+  fileCacheClear: (connectionId, filePath) => ipcRenderer.invoke('file-cache-clear', connectionId, filePath),
 
   dbGetUsers: () => ipcRenderer.invoke('db-get-users'),
-  dbUpdateUserStatus: (userId, status) => ipcRenderer.invoke('db-update-user-status', userId, status),
+  dbUpdateUserStatus: (userId, status, details) => ipcRenderer.invoke('db-update-user-status', userId, status, details),
   dbGetActiveFiles: () => ipcRenderer.invoke('db-get-active-files'),
-  dbSetActiveFile: (userId, filePath, fileHash) =>
-    ipcRenderer.invoke('db-set-active-file', userId, filePath, fileHash ?? null),
-  dbRemoveActiveFile: (userId, filePath) => ipcRenderer.invoke('db-remove-active-file', userId, filePath),
+  dbSetActiveFile: (userId, filePath, fileHash, connectionKey) =>
+    ipcRenderer.invoke('db-set-active-file', userId, filePath, fileHash ?? null, connectionKey ?? null),
+  dbRemoveActiveFile: (userId, filePath, connectionKey) => ipcRenderer.invoke('db-remove-active-file', userId, filePath, connectionKey),
+  dbGetCursors: () => ipcRenderer.invoke('db-get-cursors'),
+  dbSetCursor: (userId, filePath, connectionKey, selections) => ipcRenderer.invoke('db-set-cursor', userId, filePath, connectionKey, selections),
+  dbClearCursor: (userId) => ipcRenderer.invoke('db-clear-cursor', userId),
+  dbGetFileHistory: (filters) => ipcRenderer.invoke('db-get-file-history', filters),
+  dbAcquireLock: (userId, filePath, connectionKey) => ipcRenderer.invoke('db-acquire-lock', userId, filePath, connectionKey),
+  dbReleaseLock: (userId, filePath, connectionKey) => ipcRenderer.invoke('db-release-lock', userId, filePath, connectionKey),
+  dbBreakLock: (userId, filePath, connectionKey) => ipcRenderer.invoke('db-break-lock', userId, filePath, connectionKey),
   dbGetOrCreateDefaultUser: () => ipcRenderer.invoke('db-get-or-create-default-user'),
+  dbMergeUsers: (sourceId, targetId) => ipcRenderer.invoke('db-merge-users', sourceId, targetId),
+  dbRemoveUser: (userId) => ipcRenderer.invoke('db-remove-user', userId),
   dbGetFTPConnections: (userId) => ipcRenderer.invoke('db-get-ftp-connections', userId),
   dbAddFTPConnection: (payload) => ipcRenderer.invoke('db-add-ftp-connection', payload),
   dbRemoveFTPConnection: (payload) => ipcRenderer.invoke('db-remove-ftp-connection', payload),
   dbGetFTPPassword: (connectionId) => ipcRenderer.invoke('db-get-ftp-password', connectionId),
   settingsGetFTPConnections: () => ipcRenderer.invoke('settings-get-ftp-connections'),
   settingsAddFTPConnection: (conn) => ipcRenderer.invoke('settings-add-ftp-connection', conn),
+  settingsUpdateFTPConnection: (id, patch) => ipcRenderer.invoke('settings-update-ftp-connection', id, patch),
   settingsRemoveFTPConnection: (id) => ipcRenderer.invoke('settings-remove-ftp-connection', id),
   settingsGetFTPPassword: (id) => ipcRenderer.invoke('settings-get-ftp-password', id),
+  settingsChoosePrivateKey: () => ipcRenderer.invoke('settings-choose-private-key'),
   settingsGetSyncIgnore: () => ipcRenderer.invoke('settings-get-sync-ignore'),
   settingsSetSyncIgnore: (patterns, hideInExplorer, hiddenPaths) => ipcRenderer.invoke('settings-set-sync-ignore', patterns, hideInExplorer, hiddenPaths),
-  settingsGetSyncFolder: () => ipcRenderer.invoke('settings-get-sync-folder'),
-  settingsSetSyncFolder: (path) => ipcRenderer.invoke('settings-set-sync-folder', path),
-  settingsChooseSyncFolder: () => ipcRenderer.invoke('settings-choose-sync-folder'),
-  settingsGetPreviewBaseUrl: () => ipcRenderer.invoke('settings-get-preview-base-url'),
-  settingsSetPreviewBaseUrl: (baseUrl) => ipcRenderer.invoke('settings-set-preview-base-url', baseUrl),
+  settingsGetSyncFolder: (connectionId) => ipcRenderer.invoke('settings-get-sync-folder', connectionId),
+  settingsSetSyncFolder: (connectionId, path) => ipcRenderer.invoke('settings-set-sync-folder', connectionId, path),
+  settingsChooseSyncFolder: (connectionId) => ipcRenderer.invoke('settings-choose-sync-folder', connectionId),
+  settingsGetSyncMode: () => ipcRenderer.invoke('settings-get-sync-mode'),
+  settingsSetSyncMode: (mode) => ipcRenderer.invoke('settings-set-sync-mode', mode),
+  settingsGetPreviewBaseUrl: (connectionId) => ipcRenderer.invoke('settings-get-preview-base-url', connectionId),
+  settingsSetPreviewBaseUrl: (connectionId, baseUrl) => ipcRenderer.invoke('settings-set-preview-base-url', connectionId, baseUrl),
   settingsGetPreviewStartAfter: () => ipcRenderer.invoke('settings-get-preview-start-after'),
   settingsSetPreviewStartAfter: (startAfter) => ipcRenderer.invoke('settings-set-preview-start-after', startAfter),
 
+  settingsGetLockMinutes: () => ipcRenderer.invoke('settings-get-lock-minutes'),
+  settingsSetLockMinutes: (minutes) => ipcRenderer.invoke('settings-set-lock-minutes', minutes),
+  settingsGetPresence: () => ipcRenderer.invoke('settings-get-presence'),
+  settingsSetPresence: (preferences) => ipcRenderer.invoke('settings-set-presence', preferences),
   settingsGetEditorName: () => ipcRenderer.invoke('settings-get-editor-name'),
   settingsSetEditorName: (name) => ipcRenderer.invoke('settings-set-editor-name', name),
+  settingsGetEditorProfile: () => ipcRenderer.invoke('settings-get-editor-profile'),
+  settingsSetEditorProfile: (profile) => ipcRenderer.invoke('settings-set-editor-profile', profile),
 
   settingsGetEnablePreviewInspector: () => ipcRenderer.invoke('settings-get-enable-preview-inspector'),
   settingsSetEnablePreviewInspector: (enabled) => ipcRenderer.invoke('settings-set-enable-preview-inspector', enabled),
 
   projectSearch: (payload) => ipcRenderer.invoke('project-search', payload),
 
-  localSaveFile: (remotePath, content) => ipcRenderer.invoke('local-save-file', remotePath, content),
+  transferList: () => ipcRenderer.invoke('transfer-list'),
+  transferCancel: (id) => ipcRenderer.invoke('transfer-cancel', id),
+  transferRetry: (id) => ipcRenderer.invoke('transfer-retry', id),
+  transferClearFinished: () => ipcRenderer.invoke('transfer-clear-finished'),
+  settingsGetTransferConcurrency: () => ipcRenderer.invoke('settings-get-transfer-concurrency'),
+  settingsSetTransferConcurrency: (count) => ipcRenderer.invoke('settings-set-transfer-concurrency', count),
+  snapshotList: (connectionId) => ipcRenderer.invoke('snapshot-list', connectionId),
+  snapshotListDir: (connectionId, name, relPath) => ipcRenderer.invoke('snapshot-list-dir', connectionId, name, relPath),
+  snapshotReadFile: (connectionId, name, relPath) => ipcRenderer.invoke('snapshot-read-file', connectionId, name, relPath),
+  snapshotReadLatest: (connectionId, remotePath, options) => ipcRenderer.invoke('snapshot-read-latest', connectionId, remotePath, options),
+  snapshotDiff: (connectionId, from, to) => ipcRenderer.invoke('snapshot-diff', connectionId, from, to),
+  snapshotDelete: (connectionId, name) => ipcRenderer.invoke('snapshot-delete', connectionId, name),
+  snapshotApplyRetention: (connectionId, dryRun) => ipcRenderer.invoke('snapshot-apply-retention', connectionId, dryRun),
+  snapshotRestore: (connectionId, name, relPath) => ipcRenderer.invoke('snapshot-restore', connectionId, name, relPath),
+  settingsGetSnapshotRetention: () => ipcRenderer.invoke('settings-get-snapshot-retention'),
+  settingsSetSnapshotRetention: (retention) => ipcRenderer.invoke('settings-set-snapshot-retention', retention),
+  backupList: (connectionId, remotePath) => ipcRenderer.invoke('backup-list', connectionId, remotePath),
+  backupRestore: (connectionId, remotePath, backupId) => ipcRenderer.invoke('backup-restore', connectionId, remotePath, backupId),
+  settingsGetRemoteBackups: (connectionId) => ipcRenderer.invoke('settings-get-remote-backups', connectionId),
+  settingsSetRemoteBackups: (connectionId, enabled) => ipcRenderer.invoke('settings-set-remote-backups', connectionId, enabled),
+
+  localReadFile: (connectionId, remotePath) => ipcRenderer.invoke('local-read-file', connectionId, remotePath),
+  localSaveFile: (connectionId, remotePath, content, format, reason) => ipcRenderer.invoke('local-save-file', connectionId, remotePath, content, format, reason),
+  historyList: (connectionId, remotePath) => ipcRenderer.invoke('history-list', connectionId, remotePath),
+  historyRead: (connectionId, remotePath, revisionId) => ipcRenderer.invoke('history-read', connectionId, remotePath, revisionId),
+  settingsGetLocalHistoryRetention: () => ipcRenderer.invoke('settings-get-local-history-retention'),
+  settingsSetLocalHistoryRetention: (retention) => ipcRenderer.invoke('settings-set-local-history-retention', retention),
 
   openExternalUrl: (url) => ipcRenderer.invoke('open-external-url', url),
 
@@ -121,5 +180,45 @@ contextBridge.exposeInMainWorld('electronAPI', {
     return () => {
       ipcRenderer.removeListener('ftp-sync-progress', handler)
     }
+  },
+
+  onPublishProgress: (callback) => {
+    const handler = (event, payload) => callback(event, payload)
+    ipcRenderer.on('ftp-publish-progress', handler)
+    return () => {
+      ipcRenderer.removeListener('ftp-publish-progress', handler)
+    }
+  },
+
+  onTransferUpdated: (callback) => {
+    const handler = (event, payload) => callback(event, payload)
+    ipcRenderer.on('transfer-updated', handler)
+    return () => {
+      ipcRenderer.removeListener('transfer-updated', handler)
+    }
+  },
+
+  onFtpHealthChanged: (callback) => {
+    const handler = (event, payload) => callback(event, payload)
+    ipcRenderer.on('ftp-health-changed', handler)
+    return () => {
+      ipcRenderer.removeListener('ftp-health-changed', handler)
+    }
+  },
+
+  onPresenceChanged: (callback) => {
+    const handler = (event, payload) => callback(event, payload)
+    ipcRenderer.on('presence-changed', handler)
+    return () => {
+      ipcRenderer.removeListener('presence-changed', handler)
+    }
+  },
+
+  onCursorMoved: (callback) => {
+    const handler = (event, payload) => callback(event, payload)
+    ipcRenderer.on('cursor-moved', handler)
+    return () => {
+      ipcRenderer.removeListener('cursor-moved', handler)
+    }
   }
 })
@@ -0,0 +1,63 @@
+const crypto = require('crypto')
+const { describeContent } = require('./fileTypes.cjs')
+
+// Helpers for the team activity log (the file_history table): the hash and
+// the one-line summary stored with each upload.
+const MAX_DIFF_BYTES = 2 * 1024 * 1024
+
+function hashBytes(buffer) {
+  return buffer ? crypto.createHash('sha256').update(buffer).digest('hex') : ''
+}
+
+const formatBytes = (bytes) => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+const textLines = (filePath, buffer) => {
+  if (buffer.length > MAX_DIFF_BYTES) return null
+  const described = describeContent(filePath, buffer)
+  return described.binary ? null : described.content.split(/\r?\n/)
+}
+
+// Counts added and removed lines between two versions. The common head and
+// tail are trimmed first and the rest compared as multisets, which is exact
+// for one edited region and close enough for a log line otherwise.
+function countLineChanges(before, after) {
+  let start = 0
+  while (start < before.length && start < after.length && before[start] === after[start]) start++
+  let endBefore = before.length
+  let endAfter = after.length
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--
+    endAfter--
+  }
+  const remaining = new Map()
+  for (const line of before.slice(start, endBefore)) remaining.set(line, (remaining.get(line) || 0) + 1)
+  let added = 0
+  for (const line of after.slice(start, endAfter)) {
+    const count = remaining.get(line) || 0
+    if (count > 0) remaining.set(line, count - 1)
+    else added++
+  }
+  let removed = 0
+  for (const count of remaining.values()) removed += count
+  return { added, removed }
+}
+
+// "+12 −3 lines" for text, the size change for anything else. `previous` is
+// null when the upload created the file.
+function summarizeChange(filePath, previous, next) {
+  const after = textLines(filePath, next)
+  if (!previous) {
+    return after ? `new file, ${after.length} line${after.length === 1 ? '' : 's'}` : `new file, ${formatBytes(next.length)}`
+  }
+  const before = textLines(filePath, previous)
+  if (!before || !after) return `${formatBytes(previous.length)} → ${formatBytes(next.length)}`
+  const { added, removed } = countLineChanges(before, after)
+  if (added === 0 && removed === 0) return 'no line changes'
+  return `+${added} −${removed} lines`
+}
+
+module.exports = { hashBytes, summarizeChange }
@@ -0,0 +1,84 @@
+const fs = require('fs').promises
+const path = require('path')
+const crypto = require('crypto')
+
+// Before a single-file upload overwrites a remote file, the server version is
+// copied here so a bad upload can be rolled back. Each connection
+// (user@host:port) and remote path gets a folder with the backed-up bytes and
+// an index, newest first.
+const INDEX_FILE = 'index.json'
+const MAX_BACKUPS_PER_FILE = 30
+
+// Same key the renderer uses for presence, so backups survive re-saving a connection.
+function getConnectionKey(connection) {
+  return connection ? `${connection.username}@${connection.host}:${connection.port}`.toLowerCase() : ''
+}
+
+// Kept at the top of the server rather than next to the file, so copies of
+// scripts and configs do not end up inside the web root.
+function getRemoteBackupPath(remotePath, createdAt) {
+  const stamp = createdAt.replace(/[:.]/g, '-')
+  return path.posix.join('/.backups', String(remotePath || '')) + `.${stamp}`
+}
+
+class BackupService {
+  constructor(baseDir) {
+    this.baseDir = baseDir
+  }
+  fileDir(connectionKey, remotePath) {
+    if (!connectionKey) { throw new Error('No connection to keep backups for') }
+    const keyDir = String(connectionKey).replace(/[^a-z0-9@._-]/gi, '_')
+    const pathId = crypto.createHash('sha1').update(String(remotePath || '')).digest('hex')
+    return path.join(this.baseDir, keyDir, pathId)
+  }
+  async list(connectionKey, remotePath) {
+    try {
+      const parsed = JSON.parse(await fs.readFile(path.join(this.fileDir(connectionKey, remotePath), INDEX_FILE), 'utf-8'))
+      return Array.isArray(parsed) ? parsed : []
+    } catch {
+      return []
+    }
+  }
+  async writeIndex(connectionKey, remotePath, entries) {
+    const dir = this.fileDir(connectionKey, remotePath)
+    await fs.mkdir(dir, { recursive: true })
+    const tmp = path.join(dir, `${INDEX_FILE}.tmp`)
+    await fs.writeFile(tmp, JSON.stringify(entries, null, 2), 'utf-8')
+    await fs.rename(tmp, path.join(dir, INDEX_FILE))
+  }
+  // Which entries (newest first) to keep after adding one.
+  retain(entries) {
+    return entries.slice(0, MAX_BACKUPS_PER_FILE)
+  }
+  // Stores `buffer` as the newest backup of `remotePath`, with `extra` fields
+  // on its entry. Returns the entry, or null when it is byte-identical to the
+  // newest backup already kept.
+  async add(connectionKey, remotePath, buffer, extra = {}) {
+    const dir = this.fileDir(connectionKey, remotePath)
+    const entries = await this.list(connectionKey, remotePath)
+    const hash = crypto.createHash('sha256').update(buffer).digest('hex')
+    if (entries[0] && entries[0].hash === hash) return null
+    const createdAt = new Date().toISOString()
+    const entry = { id: `${Date.now()}-${hash.slice(0, 8)}`, remotePath, createdAt, size: buffer.length, hash, ...extra }
+    await fs.mkdir(dir, { recursive: true })
+    await fs.writeFile(path.join(dir, `${entry.id}.bak`), buffer)
+    const next = [entry, ...entries]
+    const kept = this.retain(next)
+    for (const old of next.filter((e) => !kept.includes(e))) {
+      await fs.unlink(path.join(dir, `${old.id}.bak`)).catch(() => {})
+    }
+    await this.writeIndex(connectionKey, remotePath, kept)
+    return entry
+  }
+  async update(connectionKey, remotePath, id, patch) {
+    const entries = await this.list(connectionKey, remotePath)
+    await this.writeIndex(connectionKey, remotePath, entries.map((e) => (e.id === id ? { ...e, ...patch, id } : e)))
+  }
+  async read(connectionKey, remotePath, id) {
+    const entries = await this.list(connectionKey, remotePath)
+    if (!entries.some((e) => e.id === id)) { throw new Error('Backup not found') }
+    return fs.readFile(path.join(this.fileDir(connectionKey, remotePath), `${id}.bak`))
+  }
+}
+
+module.exports = { BackupService, getConnectionKey, getRemoteBackupPath }
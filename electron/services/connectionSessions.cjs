@@ -0,0 +1,92 @@
+const { FTPService } = require('./ftpService.cjs')
+const { TransferManager } = require('./transferManager.cjs')
+
+// Idle control connections are dropped by most servers after a few minutes,
+// so each open session sends a NOOP this often.
+const KEEPALIVE_INTERVAL = 30000
+
+// Every open connection (workspace) gets its own FTPService, control queue and
+// transfer pool, keyed by the saved connection id the renderer passes along.
+class ConnectionSessions {
+  // `getConcurrency()` is the transfer pool size; `onTransferUpdate(job)` is
+  // called for every transfer change, tagged with the job's connectionId, and
+  // `onHealthChange(health)` whenever a control connection's health changes.
+  constructor({ getConcurrency, onTransferUpdate, onHealthChange }) {
+    this.getConcurrency = getConcurrency
+    this.onTransferUpdate = onTransferUpdate || (() => {})
+    this.onHealthChange = onHealthChange || (() => {})
+    this.sessions = new Map()
+  }
+
+  // Returns the session for `connectionId`, creating an unconnected one.
+  open(connectionId) {
+    const id = String(connectionId || '')
+    if (!id) throw new Error('No connection selected')
+    let session = this.sessions.get(id)
+    if (session) return session
+    const ftpService = new FTPService()
+    let queue = Promise.resolve()
+    session = {
+      id,
+      ftpService,
+      transferManager: new TransferManager({
+        connectionId: id,
+        getConnection: () => ftpService.getCurrentConnection(),
+        getConcurrency: this.getConcurrency,
+        onUpdate: this.onTransferUpdate
+      }),
+      // Listings, renames, deletes and sync share the control connection one at
+      // a time; single-file transfers go through transferManager instead.
+      runQueued: (fn) => {
+        const next = queue.then(fn, fn)
+        queue = next.then(() => undefined, () => undefined)
+        return next
+      },
+      // Queued like any other control request so it never interleaves with one.
+      ping: () => session.runQueued(() => ftpService.ping()),
+      keepalive: null
+    }
+    ftpService.onHealth((health) => this.onHealthChange({ connectionId: id, ...health }))
+    session.keepalive = setInterval(() => { session.ping().catch(() => {}) }, KEEPALIVE_INTERVAL)
+    this.sessions.set(id, session)
+    return session
+  }
+
+  // The session for `connectionId`; throws when that connection is not open.
+  get(connectionId) {
+    const session = this.sessions.get(String(connectionId || ''))
+    if (!session) throw new Error('Not connected to FTP server')
+    return session
+  }
+
+  has(connectionId) {
+    return this.sessions.has(String(connectionId || ''))
+  }
+
+  all() {
+    return Array.from(this.sessions.values())
+  }
+
+  health() {
+    return this.all().map((session) => ({ connectionId: session.id, ...session.ftpService.getHealth() }))
+  }
+
+  findTransfer(jobId) {
+    return this.all().find((session) => session.transferManager.jobs.has(String(jobId))) || null
+  }
+
+  async close(connectionId) {
+    const session = this.sessions.get(String(connectionId || ''))
+    if (!session) return
+    this.sessions.delete(session.id)
+    clearInterval(session.keepalive)
+    await session.transferManager.closeAll()
+    await session.ftpService.disconnect()
+  }
+
+  async closeAll() {
+    await Promise.all(this.all().map((session) => this.close(session.id).catch(() => {})))
+  }
+}
+
+module.exports = { ConnectionSessions }
@@ -1,8 +1,24 @@
 const { Pool } = require('pg')
 const Store = require('electron-store')
 
+// Channels the presence triggers notify, and the table each one reports on.
+const PRESENCE_CHANNELS = { users_changed: 'users', active_files_changed: 'active_files' }
+// What fires each table's presence trigger. Updates that only bump
+// active_files.heartbeat_at are left out so heartbeats stay silent.
+const PRESENCE_EVENTS = { users: 'INSERT OR UPDATE OR DELETE', active_files: 'INSERT OR DELETE OR UPDATE OF user_id, file_path, file_hash, connection_key, is_locked, locked_at, lock_expires_at' }
+// Each client touches its active_files rows every HEARTBEAT_MS. Rows not
+// touched for SESSION_TTL_SECONDS belong to a client that crashed or lost its
+// connection; they stop counting at once and are deleted by the next sweep.
+const HEARTBEAT_MS = 30000
+const SESSION_TTL_SECONDS = 120
+const FRESH_SESSION = `af.heartbeat_at > CURRENT_TIMESTAMP - make_interval(secs => ${SESSION_TTL_SECONDS})`
+// Shared cursors travel in the notification payload itself, which Postgres
+// caps at 8000 bytes; more selections than this are not relayed.
+const CURSOR_CHANNEL = 'cursor_moved'
+const MAX_CURSOR_SELECTIONS = 20
+
 class DatabaseService {
-  constructor() { this.pool = null; this.store = new Store({ name: 'database-config' }); this.currentUser = null }
+  constructor() { this.pool = null; this.store = new Store({ name: 'database-config' }); this.currentUser = null; this.presenceClient = null; this.presenceListener = null; this.presenceRetry = null; this.presenceFlush = null; this.pendingPresence = new Set(); this.heartbeatTimer = null; this.cursorListener = null }
   getConfig() {
     return this.store.get('database', {
       host: 'localhost',
@@ -63,23 +79,294 @@ class DatabaseService {
       await this.pool.query(createFileHistoryTable)
       await this.pool.query('CREATE INDEX IF NOT EXISTS idx_active_files_user_id ON active_files(user_id)')
       await this.pool.query('CREATE INDEX IF NOT EXISTS idx_active_files_connection_id ON active_files(ftp_connection_id)')
+      // Connections are saved per machine, so teammates identify a server by
+      // `username@host:port` rather than by the ftp_connections row.
+      await this.pool.query('ALTER TABLE active_files ADD COLUMN IF NOT EXISTS connection_key TEXT')
+      await this.pool.query('CREATE INDEX IF NOT EXISTS idx_active_files_connection_key ON active_files(connection_key)')
       await this.pool.query('CREATE INDEX IF NOT EXISTS idx_file_history_connection_id ON file_history(ftp_connection_id)')
       await this.pool.query('CREATE INDEX IF NOT EXISTS idx_file_history_user_id ON file_history(user_id)')
+      // Each install registers its own user, found again by its machine id.
+      await this.pool.query('ALTER TABLE users ADD COLUMN IF NOT EXISTS machine_id TEXT')
+      await this.pool.query('ALTER TABLE users ADD COLUMN IF NOT EXISTS avatar_color VARCHAR(20)')
+      await this.pool.query('CREATE UNIQUE INDEX IF NOT EXISTS idx_users_machine_id ON users(machine_id)')
+      // Richer presence: a custom status line and when the user went idle.
+      await this.pool.query('ALTER TABLE users ADD COLUMN IF NOT EXISTS status_message TEXT')
+      await this.pool.query('ALTER TABLE users ADD COLUMN IF NOT EXISTS idle_since TIMESTAMP')
+      // Hard locks: `is_locked` rows past `lock_expires_at` no longer count.
+      await this.pool.query('ALTER TABLE active_files ADD COLUMN IF NOT EXISTS lock_expires_at TIMESTAMP')
+      // Last sign of life from the client owning the row; see HEARTBEAT_MS.
+      await this.pool.query('ALTER TABLE active_files ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP')
+      // file_history is the team activity log, keyed by server like active_files.
+      await this.pool.query('ALTER TABLE file_history ADD COLUMN IF NOT EXISTS connection_key TEXT')
+      // The name at the time, so entries stay readable after a user is removed.
+      await this.pool.query('ALTER TABLE file_history ADD COLUMN IF NOT EXISTS actor_name TEXT')
+      await this.pool.query('CREATE INDEX IF NOT EXISTS idx_file_history_connection_key ON file_history(connection_key, created_at DESC)')
+      // Changes to users and active_files are announced with NOTIFY so clients
+      // can LISTEN instead of polling. Statement triggers send one notification
+      // per change however many rows it touched.
+      await this.pool.query(`CREATE OR REPLACE FUNCTION notify_presence_changed() RETURNS trigger AS $$ BEGIN PERFORM pg_notify(TG_ARGV[0], TG_OP); RETURN NULL; END $$ LANGUAGE plpgsql`)
+      // The first version of the active_files trigger fired on every update.
+      await this.pool.query(`DO $$ BEGIN IF EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'active_files_notify_presence' AND pg_get_triggerdef(oid) NOT LIKE '%UPDATE OF%') THEN DROP TRIGGER active_files_notify_presence ON active_files; END IF; END $$`)
+      for (const [channel, table] of Object.entries(PRESENCE_CHANNELS)) {
+        await this.pool.query(`DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = '${table}_notify_presence') THEN CREATE TRIGGER ${table}_notify_presence AFTER ${PRESENCE_EVENTS[table]} ON ${table} FOR EACH STATEMENT EXECUTE PROCEDURE notify_presence_changed('${channel}'); END IF; END $$`)
+      }
+      // Where each user's caret and selections are, in the file they are
+      // looking at. Every change is sent on CURSOR_CHANNEL with the row, or
+      // just the user id once it is gone.
+      await this.pool.query(`CREATE TABLE IF NOT EXISTS editor_cursors (user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE, connection_key TEXT, file_path TEXT NOT NULL, selections JSONB NOT NULL DEFAULT '[]', updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP)`)
+      await this.pool.query(`CREATE OR REPLACE FUNCTION notify_cursor_moved() RETURNS trigger AS $$ BEGIN IF TG_OP = 'DELETE' THEN PERFORM pg_notify('${CURSOR_CHANNEL}', json_build_object('user_id', OLD.user_id)::text); ELSE PERFORM pg_notify('${CURSOR_CHANNEL}', json_build_object('user_id', NEW.user_id, 'connection_key', NEW.connection_key, 'file_path', NEW.file_path, 'selections', NEW.selections)::text); END IF; RETURN NULL; END $$ LANGUAGE plpgsql`)
+      await this.pool.query(`DO $$ BEGIN IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'editor_cursors_notify') THEN CREATE TRIGGER editor_cursors_notify AFTER INSERT OR UPDATE OR DELETE ON editor_cursors FOR EACH ROW EXECUTE PROCEDURE notify_cursor_moved(); END IF; END $$`)
     } catch (error) { throw error }
   }
-  async getOrCreateDefaultUser() {
-    try { const existing = await this.pool.query('SELECT * FROM users WHERE username = $1', ['local']); if (existing.rows.length > 0) { this.currentUser = existing.rows[0]; return this.currentUser } const created = await this.pool.query('INSERT INTO users (username) VALUES ($1) RETURNING *', ['local']); this.currentUser = created.rows[0]; return this.currentUser } catch (error) { throw error }
+  // Finds or creates the user for this install from `identity` ({ machineId,
+  // name, email, avatarColor }). A row with the same name and no machine id is
+  // taken over, so people keep their history from before identities; a name
+  // already used by another install gets a short machine suffix.
+  async registerUser(identity) {
+    const { machineId, name, email = null, avatarColor = null } = identity
+    const mine = await this.pool.query('SELECT * FROM users WHERE machine_id = $1', [machineId])
+    if (mine.rows[0]) {
+      this.currentUser = mine.rows[0]
+      const changed = mine.rows[0].username !== name || mine.rows[0].email !== email || mine.rows[0].avatar_color !== avatarColor
+      if (changed) {
+        try { await this.updateUserProfile(this.currentUser.id, { username: name, email, avatarColor }) } catch (error) {
+          // Keep the registered name when the new one is taken; the rest still updates.
+          await this.updateUserProfile(this.currentUser.id, { email, avatarColor })
+        }
+      }
+      return this.currentUser
+    }
+    const legacy = await this.pool.query(`UPDATE users SET machine_id = $2, email = $3, avatar_color = $4 WHERE username = $1 AND machine_id IS NULL AND username <> 'local' RETURNING *`, [name, machineId, email, avatarColor])
+    if (legacy.rows[0]) {
+      this.currentUser = legacy.rows[0]
+      return this.currentUser
+    }
+    const taken = await this.pool.query('SELECT 1 FROM users WHERE username = $1', [name])
+    const username = taken.rows.length > 0 ? `${name}-${String(machineId).slice(0, 4)}` : name
+    const created = await this.pool.query('INSERT INTO users (username, email, avatar_color, machine_id) VALUES ($1, $2, $3, $4) RETURNING *', [username, email, avatarColor, machineId])
+    this.currentUser = created.rows[0]
+    return this.currentUser
+  }
+  // Updates the given fields of a user; a name another user has is refused.
+  async updateUserProfile(userId, { username, email, avatarColor } = {}) {
+    const sets = []
+    const params = [userId]
+    if (username !== undefined) { params.push(username); sets.push(`username = $${params.length}`) }
+    if (email !== undefined) { params.push(email || null); sets.push(`email = $${params.length}`) }
+    if (avatarColor !== undefined) { params.push(avatarColor || null); sets.push(`avatar_color = $${params.length}`) }
+    if (sets.length === 0) return null
+    try {
+      const r = await this.pool.query(`UPDATE users SET ${sets.join(', ')} WHERE id = $1 RETURNING *`, params)
+      if (this.currentUser && r.rows[0] && r.rows[0].id === this.currentUser.id) this.currentUser = r.rows[0]
+      return r.rows[0] || null
+    } catch (error) {
+      if (error.code === '23505') throw new Error(`Another team member is already called ${username}`)
+      throw error
+    }
+  }
+  // Folds a stale user into another: their history and saved connections move
+  // over, their presence rows and locks are dropped, and the row is deleted.
+  async mergeUsers(sourceId, targetId) {
+    if (Number(sourceId) === Number(targetId)) throw new Error('Cannot merge a user into itself')
+    const client = await this.pool.connect()
+    try {
+      await client.query('BEGIN')
+      await client.query('UPDATE file_history fh SET actor_name = COALESCE(fh.actor_name, u.username) FROM users u WHERE fh.user_id = u.id AND u.id = $1', [sourceId])
+      await client.query('UPDATE file_history SET user_id = $2 WHERE user_id = $1', [sourceId, targetId])
+      await client.query('UPDATE ftp_connections SET user_id = $2 WHERE user_id = $1', [sourceId, targetId])
+      await client.query('DELETE FROM active_files WHERE user_id = $1', [sourceId])
+      const r = await client.query('DELETE FROM users WHERE id = $1 RETURNING *', [sourceId])
+      await client.query('COMMIT')
+      return r.rows[0] || null
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => {})
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+  // Deletes a user. Activity log entries stay, under the name they had.
+  async removeUser(userId) {
+    const client = await this.pool.connect()
+    try {
+      await client.query('BEGIN')
+      await client.query('UPDATE file_history fh SET actor_name = COALESCE(fh.actor_name, u.username), user_id = NULL FROM users u WHERE fh.user_id = u.id AND u.id = $1', [userId])
+      await client.query('DELETE FROM ftp_connections WHERE user_id = $1', [userId])
+      await client.query('DELETE FROM active_files WHERE user_id = $1', [userId])
+      const r = await client.query('DELETE FROM users WHERE id = $1 RETURNING *', [userId])
+      await client.query('COMMIT')
+      return r.rows[0] || null
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => {})
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+  // `idle_seconds` is measured on the database clock so every client agrees.
+  async getUsers() { const result = await this.pool.query('SELECT *, EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - idle_since))::int AS idle_seconds FROM users ORDER BY username'); return result.rows }
+  // `idleSeconds` is how long the user has been idle (null when active);
+  // `statusMessage` is left unchanged when undefined.
+  async updateUserStatus(userId, status, { idleSeconds = null, statusMessage } = {}) {
+    const q = `UPDATE users SET status = $1, last_seen = CURRENT_TIMESTAMP, idle_since = CASE WHEN $3::int IS NULL THEN NULL ELSE CURRENT_TIMESTAMP - make_interval(secs => $3::int) END, status_message = CASE WHEN $4::boolean THEN $5 ELSE status_message END WHERE id = $2 RETURNING *`
+    const result = await this.pool.query(q, [status, userId, idleSeconds === null ? null : Math.max(0, Math.floor(idleSeconds)), statusMessage !== undefined, statusMessage || null])
+    return result.rows[0]
+  }
+  // `lock_active` is worked out here so every client uses the database clock.
+  async getActiveFiles() { const q = `SELECT af.*, u.username, u.avatar_url, (af.is_locked AND (af.lock_expires_at IS NULL OR af.lock_expires_at > CURRENT_TIMESTAMP)) AS lock_active FROM active_files af JOIN users u ON af.user_id = u.id WHERE ${FRESH_SESSION} ORDER BY af.last_modified DESC`; const result = await this.pool.query(q); return result.rows }
+  // Updates the existing row in place so a lock taken on the file survives.
+  async setActiveFile(userId, filePath, ftpConnectionId = null, fileHash = null, connectionKey = null) { const u = await this.pool.query(`UPDATE active_files SET file_hash = $4, last_modified = CURRENT_TIMESTAMP, heartbeat_at = CURRENT_TIMESTAMP WHERE user_id = $1 AND file_path = $2 AND connection_key IS NOT DISTINCT FROM $3 RETURNING *`, [userId, filePath, connectionKey, fileHash]); if (u.rows[0]) { return u.rows[0] } const q = `INSERT INTO active_files (user_id, ftp_connection_id, file_path, file_hash, connection_key) VALUES ($1, $2, $3, $4, $5) RETURNING *`; const r = await this.pool.query(q, [userId, ftpConnectionId, filePath, fileHash, connectionKey]); return r.rows[0] }
+  // The unexpired lock someone other than `userId` holds on the file, if any.
+  async getLockHolder(filePath, connectionKey = null, userId = null) { const q = `SELECT af.*, u.username FROM active_files af JOIN users u ON af.user_id = u.id WHERE af.file_path = $1 AND af.connection_key IS NOT DISTINCT FROM $2 AND af.user_id IS DISTINCT FROM $3 AND af.is_locked AND (af.lock_expires_at IS NULL OR af.lock_expires_at > CURRENT_TIMESTAMP) AND ${FRESH_SESSION} ORDER BY af.locked_at LIMIT 1`; const r = await this.pool.query(q, [filePath, connectionKey, userId]); return r.rows[0] || null }
+  // The first unexpired lock someone other than `userId` holds on a file inside `dirPath`.
+  async getLockHolderUnder(dirPath, connectionKey = null, userId = null) { const prefix = `${String(dirPath).replace(/\/+$/, '')}/`.replace(/[\\%_]/g, '\\$&'); const q = `SELECT af.*, u.username FROM active_files af JOIN users u ON af.user_id = u.id WHERE af.file_path LIKE $1 AND af.connection_key IS NOT DISTINCT FROM $2 AND af.user_id IS DISTINCT FROM $3 AND af.is_locked AND (af.lock_expires_at IS NULL OR af.lock_expires_at > CURRENT_TIMESTAMP) AND ${FRESH_SESSION} ORDER BY af.locked_at LIMIT 1`; const r = await this.pool.query(q, [`${prefix}%`, connectionKey, userId]); return r.rows[0] || null }
+  // Takes (or extends) an exclusive lock for `minutes`. Returns { lock } or,
+  // when another user holds one, { holder } and takes nothing. An advisory
+  // lock on the path keeps two clients from locking the same file at once.
+  async acquireLock(userId, filePath, connectionKey = null, minutes = 120) {
+    const client = await this.pool.connect()
+    try {
+      await client.query('BEGIN')
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`${connectionKey || ''}|${filePath}`])
+      const held = await client.query(`SELECT af.*, u.username FROM active_files af JOIN users u ON af.user_id = u.id WHERE af.file_path = $1 AND af.connection_key IS NOT DISTINCT FROM $2 AND af.user_id <> $3 AND af.is_locked AND (af.lock_expires_at IS NULL OR af.lock_expires_at > CURRENT_TIMESTAMP) AND ${FRESH_SESSION} LIMIT 1`, [filePath, connectionKey, userId])
+      if (held.rows[0]) {
+        await client.query('ROLLBACK')
+        return { holder: held.rows[0] }
+      }
+      const values = [userId, filePath, connectionKey, Math.max(1, Number(minutes) || 120)]
+      let r = await client.query(`UPDATE active_files SET is_locked = true, locked_at = COALESCE(CASE WHEN is_locked THEN locked_at END, CURRENT_TIMESTAMP), lock_expires_at = CURRENT_TIMESTAMP + make_interval(mins => $4::int), heartbeat_at = CURRENT_TIMESTAMP WHERE user_id = $1 AND file_path = $2 AND connection_key IS NOT DISTINCT FROM $3 RETURNING *`, values)
+      if (!r.rows[0]) {
+        r = await client.query(`INSERT INTO active_files (user_id, file_path, connection_key, is_locked, locked_at, lock_expires_at) VALUES ($1, $2, $3, true, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP + make_interval(mins => $4::int)) RETURNING *`, values)
+      }
+      await client.query('COMMIT')
+      return { lock: r.rows[0] }
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => {})
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+  async releaseLock(userId, filePath, connectionKey = null) { const q = `UPDATE active_files SET is_locked = false, locked_at = NULL, lock_expires_at = NULL WHERE user_id = $1 AND file_path = $2 AND connection_key IS NOT DISTINCT FROM $3 AND is_locked RETURNING *`; const r = await this.pool.query(q, [userId, filePath, connectionKey]); return r.rows[0] || null }
+  // Clears other users' locks on the file and returns them (with usernames) for the audit log.
+  async breakLock(userId, filePath, connectionKey = null) { const q = `WITH held AS (SELECT af.id, af.user_id, af.locked_at, u.username FROM active_files af JOIN users u ON af.user_id = u.id WHERE af.file_path = $1 AND af.connection_key IS NOT DISTINCT FROM $2 AND af.user_id <> $3 AND af.is_locked FOR UPDATE OF af) UPDATE active_files SET is_locked = false, locked_at = NULL, lock_expires_at = NULL FROM held WHERE active_files.id = held.id RETURNING held.user_id, held.username, held.locked_at`; const r = await this.pool.query(q, [filePath, connectionKey, userId]); return r.rows }
+  async releaseAllLocks(userId) { const r = await this.pool.query('UPDATE active_files SET is_locked = false, locked_at = NULL, lock_expires_at = NULL WHERE user_id = $1 AND is_locked', [userId]); return r.rowCount }
+  // Clears what a previous run of this install left behind (open files,
+  // locks and a cursor it never released because it crashed or was killed).
+  async clearUserSessions(userId) { await this.clearCursor(userId); const r = await this.pool.query('DELETE FROM active_files WHERE user_id = $1', [userId]); return r.rowCount }
+  // Moves the user's shared cursor to `filePath`. Selections are Monaco
+  // ISelection objects; only their four numbers are kept.
+  async setCursor(userId, filePath, connectionKey = null, selections = []) {
+    const clean = (Array.isArray(selections) ? selections : []).slice(0, MAX_CURSOR_SELECTIONS).map((s) => ({
+      selectionStartLineNumber: Number(s.selectionStartLineNumber) || 1,
+      selectionStartColumn: Number(s.selectionStartColumn) || 1,
+      positionLineNumber: Number(s.positionLineNumber) || 1,
+      positionColumn: Number(s.positionColumn) || 1
+    }))
+    const q = `INSERT INTO editor_cursors (user_id, connection_key, file_path, selections) VALUES ($1, $2, $3, $4) ON CONFLICT (user_id) DO UPDATE SET connection_key = EXCLUDED.connection_key, file_path = EXCLUDED.file_path, selections = EXCLUDED.selections, updated_at = CURRENT_TIMESTAMP`
+    await this.pool.query(q, [userId, connectionKey, filePath, JSON.stringify(clean)])
+  }
+  async clearCursor(userId) { await this.pool.query('DELETE FROM editor_cursors WHERE user_id = $1', [userId]) }
+  async getCursors() { const r = await this.pool.query('SELECT user_id, connection_key, file_path, selections FROM editor_cursors'); return r.rows }
+  // Touches this user's rows, then expires everyone's stale ones. Users whose
+  // client stopped reporting are shown offline as well; a running client
+  // refreshes last_seen at least once a minute. The statement triggers fire
+  // even when nothing matches, so each cleanup only runs when it has work.
+  async heartbeat() {
+    if (!this.pool || !this.currentUser) return
+    await this.pool.query('UPDATE active_files SET heartbeat_at = CURRENT_TIMESTAMP WHERE user_id = $1', [this.currentUser.id])
+    const stale = await this.pool.query(`SELECT 1 FROM active_files af WHERE NOT (${FRESH_SESSION}) LIMIT 1`)
+    if (stale.rows[0]) await this.pool.query(`DELETE FROM active_files af WHERE NOT (${FRESH_SESSION})`)
+    const silent = `status <> 'offline' AND last_seen < CURRENT_TIMESTAMP - make_interval(secs => ${SESSION_TTL_SECONDS})`
+    const gone = await this.pool.query(`SELECT 1 FROM users WHERE ${silent} LIMIT 1`)
+    if (gone.rows[0]) await this.pool.query(`UPDATE users SET status = 'offline' WHERE ${silent}`)
+    // A cursor only counts while its owner still has a live session.
+    await this.pool.query(`DELETE FROM editor_cursors c WHERE NOT EXISTS (SELECT 1 FROM active_files af WHERE af.user_id = c.user_id AND ${FRESH_SESSION})`)
+  }
+  startHeartbeat() {
+    if (this.heartbeatTimer) return
+    this.heartbeatTimer = setInterval(() => { this.heartbeat().catch(() => {}) }, HEARTBEAT_MS)
+  }
+  async removeActiveFile(userId, filePath, connectionKey = null) { const q = `DELETE FROM active_files WHERE user_id = $1 AND file_path = $2 AND connection_key IS NOT DISTINCT FROM $3 RETURNING *`; const r = await this.pool.query(q, [userId, filePath, connectionKey]); return r.rows[0] }
+  async addFileHistory(userId, filePath, action, { fileHash = '', summary = null, connectionKey = null, actorName = null } = {}) { const q = `INSERT INTO file_history (user_id, file_path, file_hash, action, changes_summary, connection_key, actor_name) VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`; const r = await this.pool.query(q, [userId, filePath, fileHash || '', action, summary, connectionKey, actorName]); return r.rows[0] }
+  // Activity log entries, newest first. `path` matches anywhere in the file
+  // path; `from` and `to` are ISO dates, `to` inclusive of that whole day.
+  async getFileHistory({ connectionKey = null, path = '', userId = null, from = null, to = null, limit = 200 } = {}) {
+    const where = []
+    const params = []
+    const add = (clause, value) => { params.push(value); where.push(clause.replace('?', `$${params.length}`)) }
+    if (connectionKey) add('fh.connection_key = ?', connectionKey)
+    if (path) add('fh.file_path ILIKE ?', `%${path.replace(/[\\%_]/g, '\\$&')}%`)
+    if (userId) add('fh.user_id = ?', userId)
+    if (from) add('fh.created_at >= ?::date', from)
+    if (to) add(`fh.created_at < ?::date + INTERVAL '1 day'`, to)
+    params.push(Math.min(Math.max(1, Number(limit) || 200), 1000))
+    const q = `SELECT fh.*, COALESCE(u.username, fh.actor_name) AS username FROM file_history fh LEFT JOIN users u ON fh.user_id = u.id ${where.length ? `WHERE ${where.join(' AND ')}` : ''} ORDER BY fh.created_at DESC, fh.id DESC LIMIT $${params.length}`
+    const r = await this.pool.query(q, params)
+    return r.rows
   }
-  async getUsers() { const result = await this.pool.query('SELECT * FROM users ORDER BY username'); return result.rows }
-  async updateUserStatus(userId, status) { const q = `UPDATE users SET status = $1, last_seen = CURRENT_TIMESTAMP WHERE id = $2 RETURNING *`; const result = await this.pool.query(q, [status, userId]); return result.rows[0] }
-  async getActiveFiles() { const q = `SELECT af.*, u.username, u.avatar_url FROM active_files af JOIN users u ON af.user_id = u.id ORDER BY af.last_modified DESC`; const result = await this.pool.query(q); return result.rows }
-  async setActiveFile(userId, filePath, ftpConnectionId = null, fileHash = null) { await this.removeActiveFile(userId, filePath); const q = `INSERT INTO active_files (user_id, ftp_connection_id, file_path, file_hash) VALUES ($1, $2, $3, $4) RETURNING *`; const r = await this.pool.query(q, [userId, ftpConnectionId, filePath, fileHash]); return r.rows[0] }
-  async removeActiveFile(userId, filePath) { const q = `DELETE FROM active_files WHERE user_id = $1 AND file_path = $2 RETURNING *`; const r = await this.pool.query(q, [userId, filePath]); return r.rows[0] }
   async getFTPConnections(userId) { const q = `SELECT id, name, host, port, username, default_path, created_at FROM ftp_connections WHERE user_id = $1 ORDER BY name`; const r = await this.pool.query(q, [userId]); return r.rows }
   async addFTPConnection(userId, name, host, port, username, passwordPlain, defaultPath = '/') { const enc = this.encrypt(passwordPlain); const q = `INSERT INTO ftp_connections (user_id, name, host, port, username, password_encrypted, default_path) VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING id, name, host, port, username, default_path, created_at`; const r = await this.pool.query(q, [userId, name, host, port, username, enc, defaultPath]); return r.rows[0] }
   async removeFTPConnection(connectionId, userId) { const q = `DELETE FROM ftp_connections WHERE id = $1 AND user_id = $2 RETURNING *`; const r = await this.pool.query(q, [connectionId, userId]); return r.rows[0] }
   async getFTPConnectionPassword(connectionId) { const r = await this.pool.query('SELECT password_encrypted FROM ftp_connections WHERE id = $1', [connectionId]); if (r.rows.length === 0) { return null } return this.decrypt(r.rows[0].password_encrypted) }
-  async close() { if (this.pool) { await this.pool.end() } }
+  // Called with each shared cursor notification (see editor_cursors).
+  onCursorMoved(listener) { this.cursorListener = listener }
+  // Holds one pooled connection LISTENing on the presence channels and calls
+  // `onChange(table)` when users or active_files change; `null` means both
+  // may have changed, as after (re)connecting. Notifications arriving together
+  // are coalesced. The same connection relays cursor moves to onCursorMoved
+  // as they come. A dropped connection is retried every few seconds.
+  async listenForPresence(onChange) {
+    this.presenceListener = onChange
+    if (!this.pool || this.presenceClient) return
+    let client = null
+    try {
+      client = await this.pool.connect()
+      client.on('notification', (msg) => {
+        if (msg.channel !== CURSOR_CHANNEL) return this.queuePresenceChange(PRESENCE_CHANNELS[msg.channel] || null)
+        try { if (this.cursorListener) this.cursorListener(JSON.parse(msg.payload)) } catch (error) {}
+      })
+      client.on('error', () => this.dropPresenceClient(client))
+      for (const channel of [...Object.keys(PRESENCE_CHANNELS), CURSOR_CHANNEL]) await client.query(`LISTEN ${channel}`)
+      this.presenceClient = client
+      this.queuePresenceChange(null)
+    } catch (error) {
+      if (client) client.release(true)
+      this.retryPresence()
+    }
+  }
+  queuePresenceChange(table) {
+    this.pendingPresence.add(table)
+    if (this.presenceFlush) return
+    this.presenceFlush = setTimeout(() => {
+      const tables = this.pendingPresence.has(null) ? [null] : [...this.pendingPresence]
+      this.pendingPresence.clear()
+      this.presenceFlush = null
+      if (this.presenceListener) tables.forEach((t) => this.presenceListener(t))
+    }, 100)
+  }
+  dropPresenceClient(client) {
+    if (this.presenceClient !== client) return
+    this.presenceClient = null
+    client.release(true)
+    this.retryPresence()
+  }
+  retryPresence() {
+    if (!this.presenceListener || this.presenceRetry) return
+    this.presenceRetry = setTimeout(() => {
+      this.presenceRetry = null
+      if (this.presenceListener) this.listenForPresence(this.presenceListener)
+    }, 5000)
+  }
+  async close() {
+    clearInterval(this.heartbeatTimer)
+    this.heartbeatTimer = null
+    this.presenceListener = null
+    clearTimeout(this.presenceRetry)
+    clearTimeout(this.presenceFlush)
+    if (this.presenceClient) { this.presenceClient.release(true); this.presenceClient = null }
+    if (this.pool) { await this.pool.end() }
+  }
 }
 
 module.exports = { DatabaseService }
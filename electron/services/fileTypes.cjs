@@ -0,0 +1,53 @@
+const path = require('path')
+const { detectTextEncoding, decodeText, detectEol } = require('./textEncoding.cjs')
+
+// Assets the editor shows in a read-only viewer instead of Monaco.
+const ASSET_TYPES = {
+  png: { kind: 'image', mimeType: 'image/png' },
+  jpg: { kind: 'image', mimeType: 'image/jpeg' },
+  jpeg: { kind: 'image', mimeType: 'image/jpeg' },
+  gif: { kind: 'image', mimeType: 'image/gif' },
+  webp: { kind: 'image', mimeType: 'image/webp' },
+  bmp: { kind: 'image', mimeType: 'image/bmp' },
+  ico: { kind: 'image', mimeType: 'image/x-icon' },
+  avif: { kind: 'image', mimeType: 'image/avif' },
+  woff: { kind: 'font', mimeType: 'font/woff' },
+  woff2: { kind: 'font', mimeType: 'font/woff2' },
+  ttf: { kind: 'font', mimeType: 'font/ttf' },
+  otf: { kind: 'font', mimeType: 'font/otf' },
+  pdf: { kind: 'pdf', mimeType: 'application/pdf' }
+}
+
+function getAssetType(filePath) {
+  const ext = path.posix.extname(String(filePath || '')).slice(1).toLowerCase()
+  return ASSET_TYPES[ext] || null
+}
+
+// What the renderer receives for a downloaded file: text decoded with its
+// detected (or the requested) encoding, anything else base64-encoded so no
+// byte is lost crossing IPC.
+function describeContent(filePath, buffer, options = {}) {
+  const asset = getAssetType(filePath)
+  const detected = asset ? null : detectTextEncoding(buffer)
+  if (detected) {
+    const encoding = options.encoding || detected.encoding
+    const content = decodeText(buffer, encoding)
+    return {
+      binary: false,
+      content,
+      encoding,
+      bom: options.encoding ? options.encoding === detected.encoding && detected.bom : detected.bom,
+      eol: detectEol(content),
+      size: buffer.length
+    }
+  }
+  return {
+    binary: true,
+    base64: buffer.toString('base64'),
+    assetKind: asset ? asset.kind : 'binary',
+    mimeType: asset ? asset.mimeType : 'application/octet-stream',
+    size: buffer.length
+  }
+}
+
+module.exports = { getAssetType, describeContent }
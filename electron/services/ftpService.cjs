@@ -1,177 +1,366 @@
-const ftp = require('basic-ftp')
 const fs = require('fs').promises
 const path = require('path')
+const crypto = require('crypto')
+const { FTPTransport } = require('./ftpTransport.cjs')
+const { SFTPTransport } = require('./sftpTransport.cjs')
+const { SyncManifest, getWorkingCopyRoot, toLocalPath } = require('./syncManifest.cjs')
+const { SyncReport, readSyncReport, writeSyncReport } = require('./syncReport.cjs')
+const { writeSnapshotMeta } = require('./snapshotService.cjs')
+const { describeContent } = require('./fileTypes.cjs')
+
+const TRANSPORT_TIMEOUT = 30000
+// After a dropped connection, login is retried this many times, waiting 1s,
+// 2s, 4s... (at most RECONNECT_MAX_DELAY) between attempts.
+const RECONNECT_ATTEMPTS = 6
+const RECONNECT_MAX_DELAY = 30000
+const CONNECTION_LOST_CODES = new Set(['ECONNRESET', 'ECONNABORTED', 'ECONNREFUSED', 'EPIPE', 'ETIMEDOUT', 'ENOTCONN', 'EHOSTUNREACH', 'ENETUNREACH', 421])
+
+// Picks the transport for a saved connection. `protocol` is 'ftp' (default),
+// 'ftps' or 'sftp'; every transport exposes the same basic-ftp style methods.
+function createTransport(config) {
+  const protocol = (config && config.protocol) || 'ftp'
+  if (protocol === 'sftp') { return new SFTPTransport(TRANSPORT_TIMEOUT) }
+  return new FTPTransport(TRANSPORT_TIMEOUT)
+}
+
+// Keeps certificate details attached so the dialog can offer to trust them.
+function connectionError(error) {
+  const wrapped = new Error(`FTP connection failed: ${error.message}`)
+  if (error.certificate) { wrapped.code = error.code; wrapped.certificate = error.certificate }
+  return wrapped
+}
+
+// True when `error` means the connection went away (idle timeout, network
+// change) rather than that the server refused the request.
+function isConnectionLost(error, client) {
+  if (client && client.closed) return true
+  if (error && CONNECTION_LOST_CODES.has(error.code)) return true
+  return /client is closed|not connected|no sftp connection|socket|FIN packet|timeout|end of file/i.test(String((error && error.message) || ''))
+}
+
+const delay = (ms) => new Promise((resolve) => setTimeout(resolve, ms))
+
+function hashBuffer(buffer) {
+  return crypto.createHash('sha256').update(buffer).digest('hex')
+}
+
+function normalizeRemotePath(p) {
+  if (!p) return '/'
+  let out = String(p).replace(/\\/g, '/')
+  if (!out.startsWith('/')) out = '/' + out
+  if (out.length > 1 && out.endsWith('/')) out = out.slice(0, -1)
+  return out
+}
+
+// The ignore matcher is shared with the renderer as an ES module, so it is
+// loaded lazily here.
+let ignoreMatcherModule = null
+async function createIgnoreMatcher(ignorePatterns) {
+  if (!ignoreMatcherModule) ignoreMatcherModule = await import('../shared/ignoreMatcher.mjs')
+  return ignoreMatcherModule.createIgnoreMatcher(ignorePatterns)
+}
 
 class FTPService {
   constructor() {
-    this.client = new ftp.Client()
+    this.client = new FTPTransport(TRANSPORT_TIMEOUT)
     this.connected = false
     this.currentConnection = null
-    this.client.ftp.timeout = 30000
+    this.progressHandler = null
+    this.cancelRequested = false
+    this.reconnecting = null
+    this.healthHandler = null
+    this.health = { status: 'offline', lastError: null, latencyMs: null, checkedAt: null }
+  }
+
+  // `handler(health)` is called whenever the connection status, last error or
+  // latency changes. `status` is 'connected', 'reconnecting' or 'offline'.
+  onHealth(handler) { this.healthHandler = handler || null }
+  getHealth() { return { ...this.health } }
+  setHealth(patch) {
+    this.health = { ...this.health, ...patch, checkedAt: Date.now() }
+    if (this.healthHandler) { try { this.healthHandler(this.getHealth()) } catch {} }
+  }
+
+  // Byte progress for the running transfer; kept across reconnects.
+  trackProgress(handler) {
+    this.progressHandler = handler || null
+    this.client.trackProgress(this.progressHandler)
+  }
+  // Aborts the running transfer by dropping the connection. The failed call is
+  // not retried; the next one reconnects.
+  cancel() {
+    this.cancelRequested = true
+    try { this.client.close() } catch {}
   }
 
   async ensureConnected() {
-    try {
-      if (!this.connected || !this.client || this.client.closed) {
-        // If the client was closed due to a previous error, create a fresh instance
-        if (!this.client || this.client.closed) {
-          try {
-            this.client.close()
-          } catch {
-            // ignore close errors
-          }
-          this.client = new ftp.Client()
-          this.client.ftp.timeout = 30000
-        }
-        const cfg = this.currentConnection
-        if (!cfg) {
-          throw new Error('Not connected to FTP server')
-        }
-        const connectionOptions = {
-          host: cfg.host,
-          port: cfg.port || 21,
-          user: cfg.username,
-          password: cfg.password,
-          secure: cfg.secure || false,
-          secureOptions: cfg.secureOptions || {},
-          passive: cfg.passive !== false
-        }
-        await this.client.access(connectionOptions)
-        this.connected = true
+    if (this.connected && this.client && !this.client.closed) return
+    if (!this.currentConnection) throw new Error('Not connected to FTP server')
+    await this.reconnect()
+  }
+  // Logs in again with the current connection after it dropped. Callers that
+  // arrive while an attempt is running wait for that attempt.
+  reconnect() {
+    if (!this.reconnecting) {
+      this.reconnecting = this.reconnectWithBackoff().finally(() => { this.reconnecting = null })
+    }
+    return this.reconnecting
+  }
+  async reconnectWithBackoff() {
+    const cfg = this.currentConnection
+    if (!cfg) throw new Error('Not connected to FTP server')
+    this.connected = false
+    this.setHealth({ status: 'reconnecting' })
+    let lastError = null
+    for (let attempt = 0; attempt < RECONNECT_ATTEMPTS; attempt++) {
+      if (attempt > 0) await delay(Math.min(RECONNECT_MAX_DELAY, 1000 * 2 ** (attempt - 1)))
+      // Disconnected or switched to another server while waiting.
+      if (this.currentConnection !== cfg) break
+      try {
+        try { await this.client.close() } catch {}
+        this.client = createTransport(cfg)
+        this.client.trackProgress(this.progressHandler)
+        await this.client.access(cfg)
         if (cfg.defaultPath && cfg.defaultPath !== '/') {
-          try {
-            await this.client.cd(cfg.defaultPath)
-          } catch {
-            // ignore cd errors on reconnect
-          }
+          try { await this.client.cd(cfg.defaultPath) } catch {}
         }
+        this.connected = true
+        this.setHealth({ status: 'connected', lastError: null })
+        return
+      } catch (error) {
+        lastError = error
+        // A certificate that is not trusted will not become trusted by retrying.
+        if (error.certificate) break
       }
+    }
+    const error = lastError ? connectionError(lastError) : new Error('Not connected to FTP server')
+    if (this.currentConnection === cfg) this.setHealth({ status: 'offline', lastError: error.message })
+    throw error
+  }
+  // Runs `fn` and, if it failed because the connection dropped, reconnects and
+  // runs it again. Cancelled transfers are not replayed.
+  async replay(fn) {
+    await this.ensureConnected()
+    try {
+      return await fn()
     } catch (error) {
-      this.connected = false
-      throw new Error(`FTP connection failed: ${error.message}`)
+      if (this.cancelRequested || !this.currentConnection || !isConnectionLost(error, this.client)) throw error
+      await this.reconnect()
+      return fn()
+    }
+  }
+  // Keepalive: a NOOP that also measures latency. A connection found dead is
+  // reconnected, and an offline one is tried again.
+  async ping() {
+    if (!this.currentConnection) return this.getHealth()
+    try {
+      await this.ensureConnected()
+      const started = Date.now()
+      await this.client.noop()
+      this.setHealth({ status: 'connected', lastError: null, latencyMs: Date.now() - started })
+    } catch (error) {
+      if (isConnectionLost(error, this.client)) {
+        try { await this.reconnect() } catch {}
+      } else {
+        this.setHealth({ lastError: error.message })
+      }
     }
+    return this.getHealth()
   }
   async connect(config) {
     try {
       if (this.connected) { await this.disconnect() }
-      const connectionOptions = { host: config.host, port: config.port || 21, user: config.username, password: config.password, secure: config.secure || false, secureOptions: config.secureOptions || {}, passive: config.passive !== false }
-      await this.client.access(connectionOptions)
+      this.client = createTransport(config)
+      this.client.trackProgress(this.progressHandler)
+      await this.client.access(config)
       this.connected = true; this.currentConnection = config
       if (config.defaultPath && config.defaultPath !== '/') { await this.client.cd(config.defaultPath) }
+      this.setHealth({ status: 'connected', lastError: null })
       return true
-    } catch (error) { this.connected = false; throw new Error(`FTP connection failed: ${error.message}`) }
+    } catch (error) {
+      this.connected = false
+      const wrapped = connectionError(error)
+      this.setHealth({ status: 'offline', lastError: wrapped.message })
+      throw wrapped
+    }
+  }
+  async disconnect() {
+    const wasConnected = this.connected
+    this.connected = false; this.currentConnection = null
+    this.setHealth({ status: 'offline', lastError: null, latencyMs: null })
+    if (wasConnected) { await this.client.close() }
   }
-  async disconnect() { try { if (this.connected) { await this.client.close(); this.connected = false; this.currentConnection = null } } catch (error) { throw error } }
   async listFiles(remotePath = '/') {
     await this.ensureConnected()
     try {
-      const files = []
-      const sanitized = String(remotePath).replace(/\\/g, '/')
-      let list
-      let basePath = sanitized
+      return await this.replay(() => this.listOnce(remotePath))
+    } catch (error) { throw new Error(`Failed to list files: ${error.message}`) }
+  }
+  async listOnce(remotePath) {
+    const files = []
+    const sanitized = String(remotePath).replace(/\\/g, '/')
+    let list
+    let basePath = sanitized
+    try {
+      list = await this.client.list(sanitized === '/' ? '' : sanitized)
+      if (sanitized === '/' || sanitized === '') {
+        try { basePath = await this.client.pwd() } catch { basePath = '/' }
+      }
+    } catch {
       try {
-        list = await this.client.list(sanitized === '/' ? '' : sanitized)
-        if (sanitized === '/' || sanitized === '') {
-          try { basePath = await this.client.pwd() } catch { basePath = '/' }
-        }
+        if (sanitized !== '/') { await this.client.cd(sanitized) }
+        list = await this.client.list()
+        try { basePath = await this.client.pwd() } catch {}
       } catch {
-        try {
-          if (sanitized !== '/') { await this.client.cd(sanitized) }
-          list = await this.client.list()
-          try { basePath = await this.client.pwd() } catch {}
-        } catch {
-          let cwd = '/'
-          try { cwd = await this.client.pwd() } catch {}
-          const parts = sanitized.replace(/^\/+/, '').split('/').filter(Boolean)
-          for (const seg of parts) { try { await this.client.cd(seg) } catch {} }
-          list = await this.client.list()
-          try { basePath = await this.client.pwd() } catch { basePath = cwd }
-        }
-      }
-      const posix = require('path').posix
-      for (const item of list) {
-        files.push({ name: item.name, path: posix.join(basePath, item.name), type: item.isDirectory ? 'directory' : 'file', size: item.size, modified: item.modifiedAt, permissions: item.permissions })
+        let cwd = '/'
+        try { cwd = await this.client.pwd() } catch {}
+        const parts = sanitized.replace(/^\/+/, '').split('/').filter(Boolean)
+        for (const seg of parts) { try { await this.client.cd(seg) } catch {} }
+        list = await this.client.list()
+        try { basePath = await this.client.pwd() } catch { basePath = cwd }
       }
-      return files
-    } catch (error) { throw new Error(`Failed to list files: ${error.message}`) }
+    }
+    const posix = require('path').posix
+    for (const item of list) {
+      files.push({ name: item.name, path: posix.join(basePath, item.name), type: item.isDirectory ? 'directory' : 'file', size: item.size, modified: item.modifiedAt, rawModified: item.rawModifiedAt, permissions: item.permissions })
+    }
+    return files
   }
-  async downloadFile(remotePath, localPath = null, _retry = false) {
+  async downloadFile(remotePath, localPath = null, asBuffer = false) {
+    this.cancelRequested = false
     await this.ensureConnected()
     try {
-      const remote = String(remotePath).replace(/\\/g, '/')
-      const posix = require('path').posix
-      const dir = posix.dirname(remote)
-      const base = posix.basename(remote)
-      const tryDirect = async (targetPath) => {
-        await this.client.downloadTo(targetPath, remote)
-      }
-      const tryCdAndBase = async (targetPath) => {
-        if (dir && dir !== '/') { try { await this.client.cd(dir) } catch {} }
-        await this.client.downloadTo(targetPath, base)
-      }
-      if (!localPath) {
-        const os = require('os')
-        const tmp = path.join(os.tmpdir(), `ftp-${Date.now()}-${Math.random().toString(16).slice(2)}.tmp`)
-        try {
-          await tryDirect(tmp)
-        } catch {
-          await tryCdAndBase(tmp)
-        }
-        const content = await fs.readFile(tmp, 'utf-8')
-        try { await fs.unlink(tmp) } catch {}
-        return content
-      }
+      return await this.replay(() => this.downloadOnce(remotePath, localPath, asBuffer))
+    } catch (error) {
+      throw new Error(`Failed to download file: ${error.message}`)
+    }
+  }
+  async downloadOnce(remotePath, localPath, asBuffer) {
+    const remote = String(remotePath).replace(/\\/g, '/')
+    const posix = require('path').posix
+    const dir = posix.dirname(remote)
+    const base = posix.basename(remote)
+    const tryDirect = async (targetPath) => {
+      await this.client.downloadTo(targetPath, remote)
+    }
+    const tryCdAndBase = async (targetPath) => {
+      if (dir && dir !== '/') { try { await this.client.cd(dir) } catch {} }
+      await this.client.downloadTo(targetPath, base)
+    }
+    if (!localPath) {
+      const os = require('os')
+      const tmp = path.join(os.tmpdir(), `ftp-${Date.now()}-${Math.random().toString(16).slice(2)}.tmp`)
       try {
-        await tryDirect(localPath)
+        await tryDirect(tmp)
       } catch {
-        await tryCdAndBase(localPath)
+        await tryCdAndBase(tmp)
       }
-      const content = await fs.readFile(localPath, 'utf-8')
-      return content
-    } catch (error) {
-      // Attempt one reconnect-and-retry if the client was closed mid-transfer
-      if (!_retry) {
-        await this.ensureConnected()
-        return this.downloadFile(remotePath, localPath, true)
+      try {
+        const buffer = await fs.readFile(tmp)
+        return asBuffer ? buffer : buffer.toString('utf-8')
+      } finally {
+        try { await fs.unlink(tmp) } catch {}
       }
-      throw new Error(`Failed to download file: ${error.message}`)
     }
+    try {
+      await tryDirect(localPath)
+    } catch {
+      await tryCdAndBase(localPath)
+    }
+    const content = await fs.readFile(localPath, 'utf-8')
+    return content
+  }
+  // Text for editable files, base64 for images, fonts and anything that is not UTF-8.
+  // `options.encoding` forces the text encoding instead of detecting it.
+  // `remote` is the version the editor compares against before uploading.
+  async downloadFileData(remotePath, options = {}) {
+    const buffer = await this.downloadFile(remotePath, null, true)
+    const remote = await this.remoteVersion(remotePath, buffer).catch(() => null)
+    return { ...describeContent(remotePath, buffer, options), remote }
   }
-  async uploadFile(localPath, remotePath, _retry = false) {
+  // Size and modification time of a remote file, or null when it does not
+  // exist. `modifiedAt` is null on servers without MDTM.
+  async statRemote(remotePath) {
     await this.ensureConnected()
+    let size
     try {
-      let content; let isFile = false
-      try { await fs.access(localPath); isFile = (await fs.stat(localPath)).isFile() } catch { content = localPath }
-      if (isFile) { await this.client.uploadFrom(localPath, remotePath) } else { const buffer = Buffer.from(content, 'utf-8'); await this.client.uploadFrom(buffer, remotePath) }
-      return true
+      size = await this.replay(() => this.client.size(remotePath))
+    } catch (error) {
+      if (isConnectionLost(error, this.client)) throw error
+      return null
+    }
+    let modifiedAt = null
+    try { modifiedAt = (await this.client.lastMod(remotePath)).toISOString() } catch {}
+    return { size, modifiedAt }
+  }
+  // What the editor remembers about a server copy it downloaded or uploaded
+  // (`buffer` holds its bytes), to notice when someone else changes it.
+  async remoteVersion(remotePath, buffer) {
+    const stat = await this.statRemote(remotePath)
+    return { size: stat ? stat.size : buffer.length, modifiedAt: stat ? stat.modifiedAt : null, hash: hashBuffer(buffer) }
+  }
+  // Compares the server copy with `baseline` from remoteVersion(). The same
+  // size and time count as unchanged; otherwise the file is downloaded and
+  // hashed, so a file that was only touched does not count as changed. A
+  // changed file comes back decoded like downloadFileData() for the diff.
+  async checkRemoteVersion(remotePath, baseline, options = {}) {
+    const stat = await this.statRemote(remotePath)
+    if (stat && baseline && stat.modifiedAt && stat.size === baseline.size && stat.modifiedAt === baseline.modifiedAt) {
+      return { changed: false, remote: { ...stat, hash: baseline.hash } }
+    }
+    // Some servers refuse SIZE, so a missing stat only means deleted when the
+    // download fails too.
+    let buffer
+    try {
+      buffer = await this.downloadFile(remotePath, null, true)
+    } catch (error) {
+      if (stat || isConnectionLost(error, this.client)) throw error
+      return { changed: true, deleted: true, remote: null }
+    }
+    const remote = { size: stat ? stat.size : buffer.length, modifiedAt: stat ? stat.modifiedAt : null, hash: hashBuffer(buffer) }
+    if (baseline && remote.hash === baseline.hash) return { changed: false, remote }
+    return { changed: true, ...describeContent(remotePath, buffer, options), remote }
+  }
+  // `localPath` may also be a Buffer, which is uploaded byte for byte, or a
+  // string of UTF-8 content when it does not name a local file.
+  async uploadFile(localPath, remotePath) {
+    this.cancelRequested = false
+    await this.ensureConnected()
+    try {
+      return await this.replay(() => this.uploadOnce(localPath, remotePath))
     } catch (error) {
-      // If the client was closed due to overlapping tasks, reconnect once and retry
-      if (!_retry) {
-        await this.ensureConnected()
-        return this.uploadFile(localPath, remotePath, true)
-      }
       throw new Error(`Failed to upload file: ${error.message}`)
     }
   }
+  async uploadOnce(localPath, remotePath) {
+    let content; let isFile = false
+    if (Buffer.isBuffer(localPath)) {
+      await this.client.uploadFrom(localPath, remotePath)
+      return true
+    }
+    try { await fs.access(localPath); isFile = (await fs.stat(localPath)).isFile() } catch { content = localPath }
+    if (isFile) { await this.client.uploadFrom(localPath, remotePath) } else { const buffer = Buffer.from(content, 'utf-8'); await this.client.uploadFrom(buffer, remotePath) }
+    return true
+  }
   async createDirectory(remotePath) {
     await this.ensureConnected()
-    try { await this.client.ensureDir(remotePath); return true } catch (error) { throw new Error(`Failed to create directory: ${error.message}`) }
+    try { await this.replay(() => this.client.ensureDir(remotePath)); return true } catch (error) { throw new Error(`Failed to create directory: ${error.message}`) }
   }
   async deleteFile(remotePath) {
     await this.ensureConnected()
-    try { await this.client.remove(remotePath); return true } catch (error) { throw new Error(`Failed to delete file: ${error.message}`) }
+    try { await this.replay(() => this.client.remove(remotePath)); return true } catch (error) { throw new Error(`Failed to delete file: ${error.message}`) }
   }
   async deleteDirectory(remotePath) {
     await this.ensureConnected()
-    try { await this.client.removeDir(remotePath); return true } catch (error) { throw new Error(`Failed to delete directory: ${error.message}`) }
+    try { await this.replay(() => this.client.removeDir(remotePath)); return true } catch (error) { throw new Error(`Failed to delete directory: ${error.message}`) }
   }
   async rename(oldPath, newPath) {
     await this.ensureConnected()
-    try { await this.client.rename(oldPath, newPath); return true } catch (error) { throw new Error(`Failed to rename: ${error.message}`) }
+    try { await this.replay(() => this.client.rename(oldPath, newPath)); return true } catch (error) { throw new Error(`Failed to rename: ${error.message}`) }
   }
   async getFileSize(remotePath) {
     await this.ensureConnected()
-    try { const size = await this.client.size(remotePath); return size } catch (error) { throw new Error(`Failed to get file size: ${error.message}`) }
+    try { const size = await this.replay(() => this.client.size(remotePath)); return size } catch (error) { throw new Error(`Failed to get file size: ${error.message}`) }
   }
   async exists(remotePath) {
     await this.ensureConnected()
@@ -179,27 +368,21 @@ class FTPService {
   }
   isConnected() { return this.connected }
   getCurrentConnection() { return this.currentConnection }
-  async syncToLocal(remoteRoot, localRoot, ignorePatterns = [], onProgress) {
+  // mode 'incremental' (default) keeps a single working copy up to date using the
+  // sync manifest; 'snapshot' downloads everything into a new timestamped folder.
+  // With dryRun nothing is written: the returned report lists what would happen.
+  async syncToLocal(remoteRoot, localRoot, ignorePatterns = [], onProgress, options = {}) {
     await this.ensureConnected()
     if (!localRoot) { throw new Error('Local sync folder is not set') }
     const nodePath = require('path')
     const fsNative = require('fs').promises
+    const mode = options.mode === 'snapshot' ? 'snapshot' : 'incremental'
+    const dryRun = !!options.dryRun
 
-    const normalizeRemote = (p) => {
-      if (!p) return '/'
-      let out = String(p).replace(/\\/g, '/')
-      if (!out.startsWith('/')) out = '/' + out
-      if (out.length > 1 && out.endsWith('/')) out = out.slice(0, -1)
-      return out
-    }
-
-    const rawIgnore = Array.isArray(ignorePatterns) ? ignorePatterns : []
-    const pathPatterns = rawIgnore
-      .filter(p => typeof p === 'string' && (p.includes('/') || String(p).startsWith('/')))
-      .map(normalizeRemote)
-    const namePatterns = rawIgnore
-      .filter(p => typeof p === 'string' && !String(p).includes('/') && !String(p).startsWith('/'))
-      .map(p => String(p))
+    const normalizeRemote = normalizeRemotePath
+    const isIgnored = await createIgnoreMatcher(ignorePatterns)
+    const report = new SyncReport({ mode, dryRun, remoteRoot: normalizeRemote(remoteRoot || '/') })
+    const previousReport = await readSyncReport(localRoot)
 
     let filesSynced = 0
     const reportProgress = () => {
@@ -212,63 +395,326 @@ class FTPService {
       }
     }
 
-    const isIgnored = (remotePath, name) => {
-      const p = normalizeRemote(remotePath)
-      const fileName = String(name || '').trim()
-
-      // Path-based ignore: exact match or directory prefix.
-      if (pathPatterns.some(pattern => p === pattern || p.startsWith(pattern + '/'))) {
-        return true
-      }
-
-      // Name-based ignore: filename starts or ends with the token.
-      if (fileName) {
-        if (namePatterns.some(token => fileName.startsWith(token) || fileName.endsWith(token))) {
-          return true
-        }
-      }
-
-      return false
-    }
-
     const ensureLocalDir = async (dir) => {
-      await fsNative.mkdir(dir, { recursive: true })
+      if (!dryRun) await fsNative.mkdir(dir, { recursive: true })
     }
 
+    // The server resolves '/' to the login folder, so the folder a snapshot
+    // mirrors is taken from the first listing.
+    let snapshotBase = null
     const walk = async (remotePath, localDir) => {
       const normalizedPath = normalizeRemote(remotePath)
-      if (isIgnored(normalizedPath, nodePath.basename(normalizedPath))) return
+      if (isIgnored(normalizedPath, true)) return
 
       const entries = await this.listFiles(normalizedPath)
+      if (snapshotBase === null) {
+        snapshotBase = entries.length ? normalizeRemote(nodePath.posix.dirname(normalizeRemote(entries[0].path))) : normalizedPath
+      }
       await ensureLocalDir(localDir)
 
       for (const entry of entries) {
         const remoteChild = normalizeRemote(entry.path)
-        if (isIgnored(remoteChild, entry.name)) continue
+        if (isIgnored(remoteChild, entry.type === 'directory')) {
+          report.addIgnored(remoteChild, entry.type)
+          continue
+        }
         const localChild = nodePath.join(localDir, entry.name)
         if (entry.type === 'directory') {
           await walk(remoteChild, localChild)
+        } else if (dryRun) {
+          report.addDownload(remoteChild, entry.size)
         } else {
           try {
             await this.client.downloadTo(localChild, remoteChild)
+            report.addDownload(remoteChild, entry.size)
             filesSynced += 1
             reportProgress()
           } catch (err) {
-            // eslint-disable-next-line no-console
-            console.error(`Failed to download ${remoteChild}:`, err.message || err)
+            report.addFailure(remoteChild, err)
           }
         }
       }
     }
 
-    const pad = (n) => String(n).padStart(2, '0')
-    const now = new Date()
-    const stamp = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}_${pad(now.getHours())}-${pad(now.getMinutes())}`
-    const targetRoot = nodePath.join(localRoot, stamp)
+    let root = null
+    try {
+      if (mode === 'incremental') {
+        root = await this.syncIncremental(remoteRoot, localRoot, { normalizeRemote, isIgnored, report, dryRun, reportProgress: (count) => { filesSynced = count; reportProgress() } })
+      } else {
+        const pad = (n) => String(n).padStart(2, '0')
+        const now = new Date()
+        const stamp = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}_${pad(now.getHours())}-${pad(now.getMinutes())}`
+        root = nodePath.join(localRoot, stamp)
+        await ensureLocalDir(root)
+        await walk(remoteRoot || '/', root)
+        if (!dryRun) {
+          await writeSnapshotMeta(root, { remoteRoot: snapshotBase, createdAt: new Date().toISOString() })
+        }
+      }
+    } catch (error) {
+      // A listing failure aborts the run; keep what was done so far in the report.
+      report.addFailure(report.data.remoteRoot, error)
+      if (!dryRun) {
+        try { await writeSyncReport(localRoot, report.finish(root, previousReport)) } catch {}
+      }
+      throw error
+    }
+
+    const result = report.finish(root, previousReport)
+    if (!dryRun) {
+      try { await writeSyncReport(localRoot, result) } catch {}
+    }
+    return { root, files: filesSynced, skipped: result.unchangedCount, deleted: result.deletedCount, failed: result.failureCount, conflicts: result.conflictCount, mode, report: result }
+  }
+  async syncIncremental(remoteRoot, localRoot, { normalizeRemote, isIgnored, report, dryRun, reportProgress }) {
+    const nodePath = require('path')
+    const fsNative = require('fs').promises
+    const workingRoot = getWorkingCopyRoot(localRoot)
+    const manifest = await new SyncManifest(localRoot).load()
+    const seen = new Set()
+    const listedDirs = new Set()
+    let downloaded = 0
+
+    const statLocal = async (localPath) => {
+      try { const st = await fsNative.stat(localPath); return st.isFile() ? st : null } catch { return null }
+    }
+
+    // Unchanged means same size and timestamp as last time, and the local copy is still there.
+    // Servers that only give a raw LIST date are compared on that string instead.
+    const isUnchanged = (previous, entry, remoteModified, local) => {
+      if (!previous || !local) return false
+      if (previous.size !== entry.size) return false
+      if (remoteModified || previous.modifiedAt) return previous.modifiedAt === remoteModified
+      return (previous.rawModified || '') === (entry.rawModified || '')
+    }
 
-    await ensureLocalDir(targetRoot)
-    await walk(remoteRoot || '/', targetRoot)
-    return { root: targetRoot, files: filesSynced }
+    const walk = async (remotePath) => {
+      const normalizedPath = normalizeRemote(remotePath)
+      if (isIgnored(normalizedPath, true)) return
+      const entries = await this.listFiles(normalizedPath)
+      listedDirs.add(normalizedPath)
+      for (const entry of entries) {
+        const remoteChild = normalizeRemote(entry.path)
+        listedDirs.add(normalizeRemote(nodePath.posix.dirname(remoteChild)))
+        if (isIgnored(remoteChild, entry.type === 'directory')) {
+          report.addIgnored(remoteChild, entry.type)
+          continue
+        }
+        if (entry.type === 'directory') {
+          await walk(remoteChild)
+          continue
+        }
+        seen.add(remoteChild)
+        const localChild = toLocalPath(workingRoot, remoteChild)
+        const remoteModified = entry.modified ? new Date(entry.modified).toISOString() : null
+        const previous = manifest.get(remoteChild)
+        const local = await statLocal(localChild)
+        if (isUnchanged(previous, entry, remoteModified, local)) {
+          report.addUnchanged()
+          continue
+        }
+        // The server copy changed, but so did the local one since the last sync:
+        // downloading would lose edits that were never published.
+        if (previous && local && (local.size !== previous.localSize || local.mtimeMs !== previous.localMtimeMs)) {
+          report.addConflict(remoteChild)
+          continue
+        }
+        if (dryRun) {
+          report.addDownload(remoteChild, entry.size)
+          continue
+        }
+        try {
+          await fsNative.mkdir(nodePath.dirname(localChild), { recursive: true })
+          await this.client.downloadTo(localChild, remoteChild)
+          const written = await statLocal(localChild)
+          manifest.set(remoteChild, {
+            size: entry.size,
+            modifiedAt: remoteModified,
+            rawModified: entry.rawModified || null,
+            localSize: written ? written.size : null,
+            localMtimeMs: written ? written.mtimeMs : null,
+            syncedAt: new Date().toISOString()
+          })
+          report.addDownload(remoteChild, entry.size)
+          downloaded += 1
+          reportProgress(downloaded)
+        } catch (err) {
+          report.addFailure(remoteChild, err)
+        }
+      }
+    }
+
+    // Only paths inside a folder that was listed this run (and not excluded by an
+    // ignore pattern on the path or any parent folder) can count as deleted.
+    const isDeletionCandidate = (remotePath) => {
+      let listed = false
+      let dir = nodePath.posix.dirname(remotePath)
+      if (isIgnored(remotePath, false)) return false
+      while (dir && dir !== '/') {
+        if (listedDirs.has(dir)) listed = true
+        dir = nodePath.posix.dirname(dir)
+      }
+      return listed || listedDirs.has('/')
+    }
+
+    try {
+      await walk(remoteRoot || '/')
+      // Files that were synced before but are gone from a folder we just listed were
+      // deleted on the server. The local copy is removed unless it was edited since.
+      for (const remotePath of manifest.paths()) {
+        if (seen.has(remotePath) || !isDeletionCandidate(remotePath)) continue
+        report.addDeletion(remotePath)
+        if (dryRun) continue
+        const previous = manifest.get(remotePath)
+        const localPath = toLocalPath(workingRoot, remotePath)
+        const local = await statLocal(localPath)
+        let localRemoved = !local
+        if (local && local.size === previous.localSize && local.mtimeMs === previous.localMtimeMs) {
+          try { await fsNative.unlink(localPath); localRemoved = true } catch {}
+        }
+        manifest.remove(remotePath)
+        manifest.recordDeletion(remotePath, localRemoved)
+      }
+      manifest.data.remoteRoot = normalizeRemote(remoteRoot || '/')
+    } finally {
+      if (!dryRun) await manifest.save()
+    }
+    return workingRoot
+  }
+  async readRemoteBuffer(remotePath) {
+    const os = require('os')
+    const tmp = path.join(os.tmpdir(), `ftp-${Date.now()}-${Math.random().toString(16).slice(2)}.tmp`)
+    try {
+      await this.client.downloadTo(tmp, remotePath)
+      return await fs.readFile(tmp)
+    } finally {
+      try { await fs.unlink(tmp) } catch {}
+    }
+  }
+  // Uploads a local file, or every file below a local folder, to the matching
+  // remote path. Used to restore snapshot content to the server. `upload(local,
+  // remote)` replaces the plain upload of each file; a file it rejects is
+  // reported as failed.
+  async uploadTree(localPath, remotePath, onProgress, shouldSkip, upload = (local, remote) => this.uploadFile(local, remote)) {
+    await this.ensureConnected()
+    const uploaded = []
+    const failed = []
+    const files = []
+    const collect = async (local, remote) => {
+      if (typeof shouldSkip === 'function' && shouldSkip(local)) return
+      const st = await fs.stat(local)
+      if (st.isDirectory()) {
+        for (const name of await fs.readdir(local)) { await collect(path.join(local, name), path.posix.join(remote, name)) }
+      } else if (st.isFile()) {
+        files.push({ local, remote })
+      }
+    }
+    await collect(localPath, normalizeRemotePath(remotePath))
+    for (const file of files) {
+      try {
+        const dir = path.posix.dirname(file.remote)
+        if (dir && dir !== '/') { await this.client.ensureDir(dir) }
+        await upload(file.local, file.remote)
+        uploaded.push(file.remote)
+      } catch (err) {
+        failed.push({ path: file.remote, error: err.message || String(err) })
+      }
+      if (typeof onProgress === 'function') {
+        try { onProgress({ count: uploaded.length + failed.length, total: files.length, path: file.remote }) } catch {}
+      }
+    }
+    return { uploaded, failed }
+  }
+  // Files in the working copy that were edited (or created) locally since the
+  // last sync. Candidates are confirmed against the server so files that were
+  // already uploaded by Save-and-Sync do not show up again.
+  async findLocalChanges(localRoot, ignorePatterns = []) {
+    await this.ensureConnected()
+    if (!localRoot) { throw new Error('Local sync folder is not set') }
+    const workingRoot = getWorkingCopyRoot(localRoot)
+    const manifest = await new SyncManifest(localRoot).load()
+    const isIgnored = await createIgnoreMatcher(ignorePatterns)
+    const candidates = []
+
+    const walk = async (dir) => {
+      let items
+      try { items = await fs.readdir(dir, { withFileTypes: true }) } catch { return }
+      for (const item of items) {
+        const fullPath = path.join(dir, item.name)
+        const remotePath = normalizeRemotePath(path.relative(workingRoot, fullPath).split(path.sep).join('/'))
+        if (isIgnored(remotePath, item.isDirectory())) continue
+        if (item.isDirectory()) { await walk(fullPath); continue }
+        if (!item.isFile()) continue
+        const st = await fs.stat(fullPath)
+        const previous = manifest.get(remotePath)
+        if (previous && previous.localSize === st.size && previous.localMtimeMs === st.mtimeMs) continue
+        candidates.push({ path: remotePath, localPath: fullPath, size: st.size, localModified: st.mtime.toISOString(), stats: st, previous })
+      }
+    }
+    await walk(workingRoot)
+
+    const changes = []
+    for (const candidate of candidates) {
+      let remote = null
+      try { remote = await this.readRemoteBuffer(candidate.path) } catch { remote = null }
+      const local = await fs.readFile(candidate.localPath)
+      if (remote && remote.equals(local)) {
+        manifest.set(candidate.path, {
+          ...(candidate.previous || {}),
+          size: remote.length,
+          localSize: candidate.stats.size,
+          localMtimeMs: candidate.stats.mtimeMs,
+          syncedAt: new Date().toISOString()
+        })
+        continue
+      }
+      changes.push({ path: candidate.path, status: remote ? 'modified' : 'added', size: candidate.size, remoteSize: remote ? remote.length : null, localModified: candidate.localModified })
+    }
+    await manifest.save()
+    return changes
+  }
+  // Uploads working-copy files to the same remote paths and records them in the
+  // manifest so they stop showing up as local changes. `upload` works as for
+  // uploadTree().
+  async publish(localRoot, remotePaths = [], onProgress, upload = (local, remote) => this.uploadFile(local, remote)) {
+    await this.ensureConnected()
+    if (!localRoot) { throw new Error('Local sync folder is not set') }
+    const workingRoot = getWorkingCopyRoot(localRoot)
+    const manifest = await new SyncManifest(localRoot).load()
+    const uploaded = []
+    const failed = []
+    try {
+      for (const raw of remotePaths) {
+        const remotePath = normalizeRemotePath(raw)
+        const localPath = toLocalPath(workingRoot, remotePath)
+        try {
+          const dir = path.posix.dirname(remotePath)
+          if (dir && dir !== '/') { await this.client.ensureDir(dir) }
+          await upload(localPath, remotePath)
+          const st = await fs.stat(localPath)
+          // The upload moved the server's timestamp; keeping the old one would
+          // make the next sync download the file straight back.
+          const remote = await this.statRemote(remotePath).catch(() => null)
+          manifest.set(remotePath, {
+            ...(manifest.get(remotePath) || {}),
+            size: remote ? remote.size : st.size,
+            ...(remote && remote.modifiedAt ? { modifiedAt: remote.modifiedAt } : {}),
+            localSize: st.size,
+            localMtimeMs: st.mtimeMs,
+            syncedAt: new Date().toISOString()
+          })
+          uploaded.push(remotePath)
+        } catch (err) {
+          failed.push({ path: remotePath, error: err.message || String(err) })
+        }
+        if (typeof onProgress === 'function') {
+          try { onProgress({ count: uploaded.length + failed.length, total: remotePaths.length, path: remotePath }) } catch {}
+        }
+      }
+    } finally {
+      await manifest.save()
+    }
+    return { uploaded, failed }
   }
 }
 
@@ -0,0 +1,117 @@
+const ftp = require('basic-ftp')
+const { Readable } = require('stream')
+
+// Effective TLS mode for a connection. `tlsMode` wins; `protocol: 'ftps'` and
+// basic-ftp's own `secure` flag are honoured for connections saved before it.
+function resolveTlsMode(config) {
+  if (config.tlsMode === 'explicit' || config.tlsMode === 'implicit' || config.tlsMode === 'none') { return config.tlsMode }
+  if (config.secure === 'implicit') return 'implicit'
+  if (config.protocol === 'ftps' || config.secure === true) return 'explicit'
+  return 'none'
+}
+
+function normalizeFingerprint(value) {
+  return value ? String(value).trim().toUpperCase() : ''
+}
+
+function formatCertificateName(name) {
+  if (!name || typeof name !== 'object') return ''
+  return Object.entries(name).map(([key, value]) => `${key}=${Array.isArray(value) ? value.join('+') : value}`).join(', ')
+}
+
+// Errors carry a serialisable `certificate` so the renderer can offer to trust it.
+function certificateError(code, message, cert, trustedFingerprint) {
+  const error = new Error(message)
+  error.code = code
+  error.certificate = {
+    code,
+    fingerprint: cert ? cert.fingerprint256 : '',
+    trustedFingerprint: trustedFingerprint || undefined,
+    subject: cert ? formatCertificateName(cert.subject) : '',
+    issuer: cert ? formatCertificateName(cert.issuer) : '',
+    validFrom: cert ? cert.valid_from : '',
+    validTo: cert ? cert.valid_to : ''
+  }
+  return error
+}
+
+// Thin wrapper around basic-ftp's Client. It defines the transport surface
+// FTPService relies on, so SFTPTransport can stand in for it unchanged.
+class FTPTransport {
+  constructor(timeout = 30000) {
+    this.client = new ftp.Client(timeout)
+  }
+  get closed() { return this.client.closed }
+  async access(config) {
+    const tlsMode = resolveTlsMode(config)
+    if (tlsMode === 'none') {
+      return this.client.access({ host: config.host, port: config.port || 21, user: config.username, password: config.password })
+    }
+    // Chain verification is done by verifyCertificate() instead of by Node, so a
+    // self-signed certificate can be pinned by fingerprint. It runs before
+    // login, so credentials never reach a server we do not trust.
+    const secureOptions = { ...(config.secureOptions || {}), host: config.host, rejectUnauthorized: false }
+    let welcome
+    if (tlsMode === 'implicit') {
+      welcome = await this.client.connectImplicitTLS(config.host, config.port || 990, secureOptions)
+    } else {
+      welcome = await this.client.connect(config.host, config.port || 21)
+      await this.client.useTLS(secureOptions)
+    }
+    try {
+      this.verifyCertificate(config.trustedFingerprint)
+    } catch (error) {
+      this.client.close()
+      throw error
+    }
+    await this.client.sendIgnoringError('OPTS UTF8 ON')
+    await this.client.login(config.username, config.password)
+    await this.client.useDefaultSettings()
+    return welcome
+  }
+  verifyCertificate(trustedFingerprint) {
+    const socket = this.client.ftp.socket
+    const cert = socket && typeof socket.getPeerCertificate === 'function' ? socket.getPeerCertificate() : null
+    if (!cert || !cert.fingerprint256) {
+      throw certificateError('CERT_UNTRUSTED', 'Server did not present a TLS certificate', null, trustedFingerprint)
+    }
+    const trusted = normalizeFingerprint(trustedFingerprint)
+    if (trusted) {
+      if (normalizeFingerprint(cert.fingerprint256) !== trusted) {
+        throw certificateError('CERT_CHANGED', 'Server certificate has changed since it was trusted', cert, trustedFingerprint)
+      }
+      return
+    }
+    if (!socket.authorized) {
+      const reason = socket.authorizationError ? String(socket.authorizationError.message || socket.authorizationError) : 'unknown reason'
+      throw certificateError('CERT_UNTRUSTED', `Server certificate is not trusted (${reason})`, cert, trustedFingerprint)
+    }
+  }
+  close() { this.client.close() }
+  async pwd() { return this.client.pwd() }
+  async cd(remotePath) { return this.client.cd(remotePath) }
+  async list(remotePath = '') { return this.client.list(remotePath) }
+  async downloadTo(destination, remotePath) { return this.client.downloadTo(destination, remotePath) }
+  async uploadFrom(source, remotePath) {
+    // basic-ftp only accepts a local path or a readable stream.
+    const input = Buffer.isBuffer(source) ? Readable.from(source) : source
+    return this.client.uploadFrom(input, remotePath)
+  }
+  async ensureDir(remotePath) { return this.client.ensureDir(remotePath) }
+  // `handler(bytes)` receives the bytes moved so far by the running upload or
+  // download; pass nothing to stop tracking. Listings are not reported.
+  trackProgress(handler) {
+    if (!handler) { this.client.trackProgress(); return }
+    this.client.trackProgress((info) => {
+      if (info.type === 'upload' || info.type === 'download') handler(info.bytes)
+    })
+  }
+  async remove(remotePath) { return this.client.remove(remotePath) }
+  async removeDir(remotePath) { return this.client.removeDir(remotePath) }
+  async rename(oldPath, newPath) { return this.client.rename(oldPath, newPath) }
+  async size(remotePath) { return this.client.size(remotePath) }
+  async lastMod(remotePath) { return this.client.lastMod(remotePath) }
+  async noop() { await this.client.send('NOOP') }
+}
+
+module.exports = { FTPTransport }
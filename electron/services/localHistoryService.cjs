@@ -0,0 +1,24 @@
+const { BackupService } = require('./backupService.cjs')
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Local history (the Timeline): every save of a text file keeps the saved text
+// as a revision on this computer, per saved connection and remote path. Stored
+// like upload backups; `getRetention()` returns { maxRevisions, maxAgeDays },
+// where 0 means no limit. The newest revision is always kept.
+class LocalHistoryService extends BackupService {
+  constructor(baseDir, getRetention) {
+    super(baseDir)
+    this.getRetention = getRetention
+  }
+  retain(entries) {
+    const { maxRevisions, maxAgeDays } = this.getRetention()
+    const cutoff = maxAgeDays ? Date.now() - maxAgeDays * DAY_MS : 0
+    return entries.filter((entry, i) => i === 0 || ((!maxRevisions || i < maxRevisions) && (!cutoff || Date.parse(entry.createdAt) >= cutoff)))
+  }
+  async readText(connectionId, remotePath, id) {
+    return (await this.read(connectionId, remotePath, id)).toString('utf-8')
+  }
+}
+
+module.exports = { LocalHistoryService }
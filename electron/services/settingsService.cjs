@@ -1,8 +1,32 @@
 const Store = require('electron-store')
+const crypto = require('crypto')
+const os = require('os')
+
+const AVATAR_COLORS = ['#e06c75', '#d19a66', '#e5c07b', '#98c379', '#56b6c2', '#61afef', '#c678dd', '#be5046']
+
+// Before glob support, a bare token such as `._` or `.bak` matched names that
+// started or ended with it. Those become the two equivalent globs once.
+function migrateLegacyIgnorePatterns(patterns) {
+  const out = []
+  for (const raw of Array.isArray(patterns) ? patterns : []) {
+    const p = String(raw)
+    const isLegacyToken = p.trim() && !p.includes('/') && !/[*?[\]!#]/.test(p)
+    const next = isLegacyToken ? [`${p.trim()}*`, `*${p.trim()}`] : [p]
+    for (const item of next) { if (!out.includes(item)) out.push(item) }
+  }
+  return out
+}
 
 class SettingsService {
   constructor() {
     this.store = new Store({ name: 'settings' })
+    this.migrateSyncIgnoreSyntax()
+  }
+  migrateSyncIgnoreSyntax() {
+    if (this.store.get('syncIgnoreSyntax') === 'glob') return
+    this.store.set('syncIgnorePatterns', migrateLegacyIgnorePatterns(this.store.get('syncIgnorePatterns', [])))
+    this.store.set('syncHiddenPaths', migrateLegacyIgnorePatterns(this.store.get('syncHiddenPaths', [])))
+    this.store.set('syncIgnoreSyntax', 'glob')
   }
   getFTPConnections() {
     return this.store.get('ftpConnections', [])
@@ -14,6 +38,16 @@ class SettingsService {
     this.store.set('ftpConnections', [...list, item])
     return item
   }
+  updateFTPConnection(id, patch) {
+    const list = this.getFTPConnections()
+    const index = list.findIndex(c => String(c.id) === String(id))
+    if (index === -1) { throw new Error('Saved connection not found') }
+    const item = { ...list[index], ...patch, id: list[index].id }
+    const next = [...list]
+    next[index] = item
+    this.store.set('ftpConnections', next)
+    return item
+  }
   removeFTPConnection(id) {
     const list = this.getFTPConnections().filter(c => String(c.id) !== String(id))
     this.store.set('ftpConnections', list)
@@ -24,6 +58,11 @@ class SettingsService {
     const found = list.find(c => String(c.id) === String(id))
     return found ? found.password || '' : ''
   }
+  getFTPPassphrase(id) {
+    const list = this.getFTPConnections()
+    const found = list.find(c => String(c.id) === String(id))
+    return found ? found.passphrase || '' : ''
+  }
   getSyncIgnorePatterns() {
     return this.store.get('syncIgnorePatterns', [])
   }
@@ -49,20 +88,115 @@ class SettingsService {
     this.store.set('syncHiddenPaths', safe)
     return safe
   }
-  getSyncFolder() {
-    return this.store.get('syncFolder', '')
+  // Sync folder and preview base URL are stored per connection. Settings saved
+  // before workspaces existed live in the top-level keys.
+  getConnectionSettings(connectionId) {
+    const all = this.store.get('connectionSettings', {}) || {}
+    return all[String(connectionId)] || {}
+  }
+  updateConnectionSettings(connectionId, patch) {
+    const all = this.store.get('connectionSettings', {}) || {}
+    const key = String(connectionId)
+    all[key] = { ...(all[key] || {}), ...patch }
+    this.store.set('connectionSettings', all)
+    return all[key]
+  }
+  // Two workspaces must never share a working copy, so the legacy sync folder is
+  // handed to the first connection that asks for it and no other.
+  getSyncFolder(connectionId) {
+    if (!connectionId) return this.store.get('syncFolder', '')
+    const scoped = this.getConnectionSettings(connectionId)
+    if (typeof scoped.syncFolder === 'string') return scoped.syncFolder
+    const legacy = this.store.get('syncFolder', '')
+    const claimed = this.store.get('syncFolderClaimedBy', null)
+    if (legacy && claimed === null) {
+      this.store.set('syncFolderClaimedBy', String(connectionId))
+      this.updateConnectionSettings(connectionId, { syncFolder: legacy })
+      return legacy
+    }
+    return ''
   }
-  setSyncFolder(folderPath) {
+  setSyncFolder(connectionId, folderPath) {
     const normalized = folderPath ? String(folderPath) : ''
-    this.store.set('syncFolder', normalized)
+    if (!connectionId) {
+      this.store.set('syncFolder', normalized)
+      return normalized
+    }
+    this.updateConnectionSettings(connectionId, { syncFolder: normalized })
     return normalized
   }
-  getPreviewBaseUrl() {
-    return this.store.get('previewBaseUrl', '')
+  // Whether upload backups are also copied to /.backups on the server.
+  getRemoteBackups(connectionId) {
+    return !!this.getConnectionSettings(connectionId).remoteBackups
+  }
+  setRemoteBackups(connectionId, enabled) {
+    const value = !!enabled
+    this.updateConnectionSettings(connectionId, { remoteBackups: value })
+    return value
+  }
+  getSyncMode() {
+    return this.store.get('syncMode', 'incremental') === 'snapshot' ? 'snapshot' : 'incremental'
+  }
+  setSyncMode(mode) {
+    const value = mode === 'snapshot' ? 'snapshot' : 'incremental'
+    this.store.set('syncMode', value)
+    return value
+  }
+  getSnapshotRetention() {
+    const raw = this.store.get('snapshotRetention', {}) || {}
+    return {
+      keepLast: Number.isFinite(raw.keepLast) ? Math.max(0, raw.keepLast) : 10,
+      keepDaily: Number.isFinite(raw.keepDaily) ? Math.max(0, raw.keepDaily) : 7,
+      autoApply: !!raw.autoApply
+    }
+  }
+  setSnapshotRetention(retention) {
+    const value = {
+      keepLast: Math.max(0, Math.floor(Number(retention && retention.keepLast) || 0)),
+      keepDaily: Math.max(0, Math.floor(Number(retention && retention.keepDaily) || 0)),
+      autoApply: !!(retention && retention.autoApply)
+    }
+    this.store.set('snapshotRetention', value)
+    return value
+  }
+  // Local history keeps at most maxRevisions per file, none older than
+  // maxAgeDays; 0 turns a limit off.
+  getLocalHistoryRetention() {
+    const raw = this.store.get('localHistoryRetention', {}) || {}
+    return {
+      maxRevisions: Number.isFinite(raw.maxRevisions) ? Math.max(0, raw.maxRevisions) : 50,
+      maxAgeDays: Number.isFinite(raw.maxAgeDays) ? Math.max(0, raw.maxAgeDays) : 30
+    }
+  }
+  setLocalHistoryRetention(retention) {
+    const value = {
+      maxRevisions: Math.max(0, Math.floor(Number(retention && retention.maxRevisions) || 0)),
+      maxAgeDays: Math.max(0, Math.floor(Number(retention && retention.maxAgeDays) || 0))
+    }
+    this.store.set('localHistoryRetention', value)
+    return value
+  }
+  // Parallel connections used by the transfer queue for uploads and downloads.
+  getTransferConcurrency() {
+    const value = Math.floor(Number(this.store.get('transferConcurrency', 2)))
+    return Number.isFinite(value) ? Math.min(8, Math.max(1, value)) : 2
+  }
+  setTransferConcurrency(count) {
+    const value = Math.min(8, Math.max(1, Math.floor(Number(count)) || 1))
+    this.store.set('transferConcurrency', value)
+    return value
+  }
+  getPreviewBaseUrl(connectionId) {
+    const scoped = connectionId ? this.getConnectionSettings(connectionId).previewBaseUrl : undefined
+    return typeof scoped === 'string' ? scoped : this.store.get('previewBaseUrl', '')
   }
-  setPreviewBaseUrl(baseUrl) {
+  setPreviewBaseUrl(connectionId, baseUrl) {
     const normalized = baseUrl ? String(baseUrl).trim() : ''
-    this.store.set('previewBaseUrl', normalized)
+    if (!connectionId) {
+      this.store.set('previewBaseUrl', normalized)
+      return normalized
+    }
+    this.updateConnectionSettings(connectionId, { previewBaseUrl: normalized })
     return normalized
   }
   getPreviewStartAfter() {
@@ -73,6 +207,42 @@ class SettingsService {
     this.store.set('previewStartAfter', normalized)
     return normalized
   }
+  // How long a file lock lasts before others can edit again without breaking it.
+  getLockMinutes() {
+    const minutes = Number(this.store.get('lockMinutes', 120))
+    return Number.isFinite(minutes) && minutes >= 1 ? Math.floor(minutes) : 120
+  }
+  setLockMinutes(minutes) {
+    const value = Math.min(7 * 24 * 60, Math.max(1, Math.floor(Number(minutes) || 120)))
+    this.store.set('lockMinutes', value)
+    return value
+  }
+  // Do not disturb, the custom status message, and how long without keyboard
+  // or mouse activity before showing as away and then offline.
+  getPresencePreferences() {
+    const raw = this.store.get('presence', {}) || {}
+    const minutes = (value, fallback) => {
+      const n = Math.floor(Number(value))
+      return Number.isFinite(n) && n >= 1 ? n : fallback
+    }
+    return {
+      doNotDisturb: raw.doNotDisturb === true,
+      statusMessage: typeof raw.statusMessage === 'string' ? raw.statusMessage : '',
+      awayMinutes: minutes(raw.awayMinutes, 5),
+      offlineMinutes: minutes(raw.offlineMinutes, 30)
+    }
+  }
+  setPresencePreferences(preferences) {
+    const current = this.getPresencePreferences()
+    const next = { ...current, ...(preferences || {}) }
+    this.store.set('presence', {
+      doNotDisturb: next.doNotDisturb === true,
+      statusMessage: String(next.statusMessage || '').trim().slice(0, 200),
+      awayMinutes: next.awayMinutes,
+      offlineMinutes: next.offlineMinutes
+    })
+    return this.getPresencePreferences()
+  }
   getEditorName() {
     return this.store.get('editorName', '')
   }
@@ -81,6 +251,48 @@ class SettingsService {
     this.store.set('editorName', normalized)
     return { name: normalized }
   }
+  // Stable id for this install, generated once. The team database recognises
+  // the same person across renames by it.
+  getMachineId() {
+    let id = this.store.get('machineId')
+    if (!id) {
+      id = crypto.randomUUID()
+      this.store.set('machineId', id)
+    }
+    return id
+  }
+  // Email and avatar colour shown to teammates next to the editor name. The
+  // colour defaults to one picked from the machine id.
+  getEditorProfile() {
+    const raw = this.store.get('editorProfile', {}) || {}
+    const fallbackColor = AVATAR_COLORS[parseInt(this.getMachineId().slice(0, 8), 16) % AVATAR_COLORS.length]
+    return {
+      email: typeof raw.email === 'string' ? raw.email : '',
+      avatarColor: /^#[0-9a-f]{6}$/i.test(raw.avatarColor || '') ? raw.avatarColor : fallbackColor
+    }
+  }
+  setEditorProfile(profile) {
+    const current = this.getEditorProfile()
+    const next = {
+      email: profile && profile.email !== undefined ? String(profile.email || '').trim() : current.email,
+      avatarColor: profile && /^#[0-9a-f]{6}$/i.test(profile.avatarColor || '') ? profile.avatarColor.toLowerCase() : current.avatarColor
+    }
+    this.store.set('editorProfile', next)
+    return next
+  }
+  // Who this install is in the team database. Without an editor name the
+  // system account name is used.
+  getIdentity() {
+    const { email, avatarColor } = this.getEditorProfile()
+    let fallbackName = ''
+    try { fallbackName = os.userInfo().username } catch {}
+    return {
+      machineId: this.getMachineId(),
+      name: this.getEditorName() || fallbackName || os.hostname(),
+      email: email || null,
+      avatarColor
+    }
+  }
   getEnablePreviewInspector() {
     return !!this.store.get('enablePreviewInspector', true)
   }
@@ -0,0 +1,110 @@
+const SftpClient = require('ssh2-sftp-client')
+const fs = require('fs').promises
+const fsSync = require('fs')
+const posix = require('path').posix
+const { PassThrough, Readable } = require('stream')
+
+// SFTP implementation of the transport surface defined by FTPTransport.
+// SFTP has no server-side working directory, so cd/pwd are tracked here and
+// relative paths are resolved against it the way an FTP server would.
+class SFTPTransport {
+  constructor(timeout = 30000) {
+    this.sftp = new SftpClient()
+    this.timeout = timeout
+    this.cwd = '/'
+    this.closed = true
+    this.progressHandler = null
+  }
+  resolve(remotePath) {
+    if (!remotePath) return this.cwd
+    const p = String(remotePath).replace(/\\/g, '/')
+    return p.startsWith('/') ? posix.normalize(p) : posix.join(this.cwd, p)
+  }
+  async access(config) {
+    const connectionOptions = {
+      host: config.host,
+      port: config.port || 22,
+      username: config.username,
+      readyTimeout: this.timeout
+    }
+    if (config.authMethod === 'privateKey' && config.privateKeyPath) {
+      connectionOptions.privateKey = await fs.readFile(config.privateKeyPath)
+      if (config.passphrase) { connectionOptions.passphrase = config.passphrase }
+    } else {
+      connectionOptions.password = config.password
+    }
+    await this.sftp.connect(connectionOptions)
+    this.closed = false
+    this.sftp.on('end', () => { this.closed = true })
+    this.sftp.on('close', () => { this.closed = true })
+    try { this.cwd = await this.sftp.cwd() } catch { this.cwd = '/' }
+  }
+  async close() {
+    if (this.closed) return
+    this.closed = true
+    try { await this.sftp.end() } catch {}
+  }
+  async pwd() { return this.cwd }
+  async cd(remotePath) {
+    const target = this.resolve(remotePath)
+    const type = await this.sftp.exists(target)
+    if (type !== 'd') { throw new Error(`No such directory: ${target}`) }
+    this.cwd = target
+  }
+  async list(remotePath = '') {
+    const entries = await this.sftp.list(this.resolve(remotePath))
+    return entries.map(e => ({
+      name: e.name,
+      isDirectory: e.type === 'd',
+      size: e.size,
+      modifiedAt: e.modifyTime ? new Date(e.modifyTime) : undefined,
+      permissions: e.rights
+    }))
+  }
+  // Same contract as FTPTransport.trackProgress. Transfers are routed through a
+  // counting stream while a handler is set.
+  trackProgress(handler) { this.progressHandler = handler || null }
+  countingStream() {
+    const handler = this.progressHandler
+    const counter = new PassThrough()
+    let bytes = 0
+    counter.on('data', (chunk) => { bytes += chunk.length; handler(bytes) })
+    return counter
+  }
+  async downloadTo(destination, remotePath) {
+    if (!this.progressHandler) { await this.sftp.get(this.resolve(remotePath), destination); return }
+    const counter = this.countingStream()
+    const file = fsSync.createWriteStream(destination)
+    const written = new Promise((resolve, reject) => { file.on('finish', resolve); file.on('error', reject) })
+    counter.pipe(file)
+    await this.sftp.get(this.resolve(remotePath), counter)
+    await written
+  }
+  async uploadFrom(source, remotePath) {
+    if (!this.progressHandler) { await this.sftp.put(source, this.resolve(remotePath)); return }
+    const input = Buffer.isBuffer(source) ? Readable.from([source]) : typeof source === 'string' ? fsSync.createReadStream(source) : source
+    await this.sftp.put(input.pipe(this.countingStream()), this.resolve(remotePath))
+  }
+  async ensureDir(remotePath) {
+    // Match basic-ftp, which leaves the working directory inside the new folder.
+    const target = this.resolve(remotePath)
+    if (!(await this.sftp.exists(target))) { await this.sftp.mkdir(target, true) }
+    this.cwd = target
+  }
+  async remove(remotePath) { await this.sftp.delete(this.resolve(remotePath)) }
+  async removeDir(remotePath) { await this.sftp.rmdir(this.resolve(remotePath), true) }
+  async rename(oldPath, newPath) { await this.sftp.rename(this.resolve(oldPath), this.resolve(newPath)) }
+  async size(remotePath) {
+    const stats = await this.sftp.stat(this.resolve(remotePath))
+    if (stats.isDirectory) { throw new Error(`Not a file: ${remotePath}`) }
+    return stats.size
+  }
+  async lastMod(remotePath) {
+    const stats = await this.sftp.stat(this.resolve(remotePath))
+    return new Date(stats.modifyTime)
+  }
+  // SFTP has no NOOP; resolving the working directory is the cheapest round trip.
+  async noop() { await this.sftp.realPath(this.cwd) }
+}
+
+module.exports = { SFTPTransport }
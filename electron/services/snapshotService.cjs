@@ -0,0 +1,162 @@
+const fs = require('fs').promises
+const path = require('path')
+const crypto = require('crypto')
+
+// Snapshot-mode syncs write one YYYY-MM-DD_HH-mm folder per run under the sync
+// root. Newer snapshots carry a small metadata file recording which remote
+// folder they mirror, so files can be restored to the right place.
+const SNAPSHOT_PATTERN = /^\d{4}-\d{2}-\d{2}_\d{2}-\d{2}$/
+const SNAPSHOT_META_FILE = '.snapshot.json'
+
+function parseSnapshotDate(name) {
+  const m = SNAPSHOT_PATTERN.test(name) && name.match(/^(\d{4})-(\d{2})-(\d{2})_(\d{2})-(\d{2})$/)
+  if (!m) return null
+  return new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]), Number(m[4]), Number(m[5]))
+}
+
+async function writeSnapshotMeta(snapshotDir, meta) {
+  await fs.writeFile(path.join(snapshotDir, SNAPSHOT_META_FILE), JSON.stringify(meta, null, 2), 'utf-8')
+}
+
+// Which snapshots a keep-last-N / keep-daily policy keeps. keepDaily keeps the
+// newest snapshot of each of the most recent N days that have one. A policy
+// with both limits at 0 keeps everything.
+function selectRetained(names, { keepLast = 0, keepDaily = 0 } = {}) {
+  const sorted = [...names].sort().reverse()
+  if (!keepLast && !keepDaily) return new Set(sorted)
+  const keep = new Set(sorted.slice(0, Math.max(0, keepLast)))
+  const days = new Set()
+  for (const name of sorted) {
+    const day = name.slice(0, 10)
+    if (days.has(day)) continue
+    if (days.size >= keepDaily) break
+    days.add(day)
+    keep.add(name)
+  }
+  return keep
+}
+
+class SnapshotService {
+  snapshotDir(syncRoot, name) {
+    if (!syncRoot) { throw new Error('Sync folder is not configured. Set it in the Settings tab.') }
+    if (!SNAPSHOT_PATTERN.test(String(name || ''))) { throw new Error(`Not a snapshot: ${name}`) }
+    return path.join(syncRoot, name)
+  }
+  // Resolves a snapshot-relative path, refusing anything that escapes the snapshot.
+  resolve(syncRoot, name, relPath = '') {
+    const root = this.snapshotDir(syncRoot, name)
+    const target = path.resolve(root, ...String(relPath || '').replace(/\\/g, '/').split('/').filter(Boolean))
+    if (target !== root && !target.startsWith(root + path.sep)) { throw new Error('Path is outside the snapshot') }
+    return target
+  }
+  isMetaFile(syncRoot, name, fullPath) {
+    return fullPath === path.join(this.snapshotDir(syncRoot, name), SNAPSHOT_META_FILE)
+  }
+  async getNames(syncRoot) {
+    if (!syncRoot) return []
+    let entries
+    try { entries = await fs.readdir(syncRoot, { withFileTypes: true }) } catch { return [] }
+    return entries.filter(e => e.isDirectory() && SNAPSHOT_PATTERN.test(e.name)).map(e => e.name).sort().reverse()
+  }
+  async walkFiles(dir, base = dir, out = new Map()) {
+    let items
+    try { items = await fs.readdir(dir, { withFileTypes: true }) } catch { return out }
+    for (const item of items) {
+      const full = path.join(dir, item.name)
+      if (dir === base && item.name === SNAPSHOT_META_FILE) continue
+      if (item.isDirectory()) { await this.walkFiles(full, base, out); continue }
+      if (!item.isFile()) continue
+      const st = await fs.stat(full)
+      out.set(path.relative(base, full).split(path.sep).join('/'), { full, size: st.size })
+    }
+    return out
+  }
+  async getMeta(syncRoot, name) {
+    try { return JSON.parse(await fs.readFile(path.join(this.snapshotDir(syncRoot, name), SNAPSHOT_META_FILE), 'utf-8')) } catch { return null }
+  }
+  async listSnapshots(syncRoot) {
+    const names = await this.getNames(syncRoot)
+    const snapshots = []
+    for (const name of names) {
+      const files = await this.walkFiles(this.snapshotDir(syncRoot, name))
+      let size = 0
+      files.forEach(f => { size += f.size })
+      const meta = await this.getMeta(syncRoot, name)
+      const createdAt = parseSnapshotDate(name)
+      snapshots.push({ name, createdAt: createdAt ? createdAt.toISOString() : null, size, fileCount: files.size, remoteRoot: meta ? meta.remoteRoot : null })
+    }
+    return snapshots
+  }
+  async listDir(syncRoot, name, relPath = '') {
+    const dir = this.resolve(syncRoot, name, relPath)
+    const items = await fs.readdir(dir, { withFileTypes: true })
+    const base = String(relPath || '').replace(/\\/g, '/').replace(/^\/+|\/+$/g, '')
+    const entries = []
+    for (const item of items) {
+      if (!base && item.name === SNAPSHOT_META_FILE) continue
+      const rel = base ? `${base}/${item.name}` : item.name
+      if (item.isDirectory()) {
+        entries.push({ name: item.name, relPath: rel, type: 'directory', size: 0 })
+      } else if (item.isFile()) {
+        const st = await fs.stat(path.join(dir, item.name))
+        entries.push({ name: item.name, relPath: rel, type: 'file', size: st.size })
+      }
+    }
+    return entries.sort((a, b) => (a.type !== b.type ? (a.type === 'directory' ? -1 : 1) : a.name.localeCompare(b.name)))
+  }
+  // The newest snapshot holding `remotePath`, as { name, relPath }, or null.
+  // Snapshots without metadata are taken to mirror `defaultRoot`.
+  async findLatest(syncRoot, remotePath, defaultRoot = '/') {
+    for (const name of await this.getNames(syncRoot)) {
+      const meta = await this.getMeta(syncRoot, name)
+      const relPath = path.posix.relative((meta && meta.remoteRoot) || defaultRoot || '/', String(remotePath || ''))
+      if (!relPath || relPath.startsWith('..')) continue
+      try {
+        if ((await fs.stat(this.resolve(syncRoot, name, relPath))).isFile()) return { name, relPath }
+      } catch {}
+    }
+    return null
+  }
+  async readFile(syncRoot, name, relPath) {
+    return fs.readFile(this.resolve(syncRoot, name, relPath), 'utf-8')
+  }
+  async hashFile(full) {
+    return crypto.createHash('sha1').update(await fs.readFile(full)).digest('hex')
+  }
+  // Files only in `to` are added, only in `from` removed; files in both are
+  // changed when size or content hash differ.
+  async diffSnapshots(syncRoot, from, to) {
+    const a = await this.walkFiles(this.snapshotDir(syncRoot, from))
+    const b = await this.walkFiles(this.snapshotDir(syncRoot, to))
+    const added = []
+    const removed = []
+    const changed = []
+    for (const [rel, fb] of b) {
+      const fa = a.get(rel)
+      if (!fa) { added.push({ path: rel, size: fb.size }); continue }
+      if (fa.size !== fb.size || (await this.hashFile(fa.full)) !== (await this.hashFile(fb.full))) {
+        changed.push({ path: rel, sizeBefore: fa.size, sizeAfter: fb.size })
+      }
+    }
+    for (const [rel, fa] of a) {
+      if (!b.has(rel)) removed.push({ path: rel, size: fa.size })
+    }
+    const byPath = (x, y) => x.path.localeCompare(y.path)
+    return { added: added.sort(byPath), removed: removed.sort(byPath), changed: changed.sort(byPath) }
+  }
+  async deleteSnapshot(syncRoot, name) {
+    await fs.rm(this.snapshotDir(syncRoot, name), { recursive: true, force: true })
+    return true
+  }
+  async applyRetention(syncRoot, policy, dryRun = false) {
+    const names = await this.getNames(syncRoot)
+    const keep = selectRetained(names, policy)
+    const removed = names.filter(n => !keep.has(n))
+    if (!dryRun) {
+      for (const name of removed) { await this.deleteSnapshot(syncRoot, name) }
+    }
+    return { removed, kept: names.filter(n => keep.has(n)) }
+  }
+}
+
+module.exports = { SnapshotService, writeSnapshotMeta, SNAPSHOT_PATTERN }
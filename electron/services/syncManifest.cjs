@@ -0,0 +1,53 @@
+const fs = require('fs').promises
+const path = require('path')
+
+// Incremental sync mirrors the server into one working copy inside the sync
+// folder; the manifest next to it remembers what was downloaded and when.
+const WORKING_COPY_DIR = 'current'
+const MANIFEST_FILE = '.sync-manifest.json'
+const MAX_DELETIONS = 500
+
+function getWorkingCopyRoot(syncRoot) {
+  return path.join(syncRoot, WORKING_COPY_DIR)
+}
+
+// Remote paths are mirrored as-is, so /www/index.html lives at <root>/www/index.html.
+function toLocalPath(workingRoot, remotePath) {
+  const segments = String(remotePath || '').replace(/\\/g, '/').split('/').filter(Boolean)
+  return path.join(workingRoot, ...segments)
+}
+
+class SyncManifest {
+  constructor(syncRoot) {
+    this.file = path.join(syncRoot, MANIFEST_FILE)
+    this.data = { version: 1, remoteRoot: null, updatedAt: null, files: {}, deletions: [] }
+  }
+  async load() {
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.file, 'utf-8'))
+      if (parsed && typeof parsed === 'object' && parsed.files && typeof parsed.files === 'object') {
+        this.data = { ...this.data, ...parsed, deletions: Array.isArray(parsed.deletions) ? parsed.deletions : [] }
+      }
+    } catch {
+      // missing or corrupted manifest: start from scratch, everything is downloaded again
+    }
+    return this
+  }
+  async save() {
+    this.data.updatedAt = new Date().toISOString()
+    const tmp = `${this.file}.tmp`
+    await fs.mkdir(path.dirname(this.file), { recursive: true })
+    await fs.writeFile(tmp, JSON.stringify(this.data, null, 2), 'utf-8')
+    await fs.rename(tmp, this.file)
+  }
+  get(remotePath) { return this.data.files[remotePath] || null }
+  set(remotePath, entry) { this.data.files[remotePath] = entry }
+  remove(remotePath) { delete this.data.files[remotePath] }
+  paths() { return Object.keys(this.data.files) }
+  getDeletions() { return this.data.deletions }
+  recordDeletion(remotePath, localRemoved) {
+    this.data.deletions = [{ path: remotePath, deletedAt: new Date().toISOString(), localRemoved }, ...this.data.deletions].slice(0, MAX_DELETIONS)
+  }
+}
+
+module.exports = { SyncManifest, getWorkingCopyRoot, toLocalPath, WORKING_COPY_DIR }
@@ -0,0 +1,100 @@
+const fs = require('fs').promises
+const path = require('path')
+
+// The last real sync run is kept next to the manifest so failures survive a
+// restart and dry runs can estimate durations from measured throughput.
+const REPORT_FILE = '.sync-report.json'
+const MAX_ENTRIES = 1000
+const DEFAULT_BYTES_PER_SECOND = 512 * 1024
+const PER_FILE_OVERHEAD_MS = 150
+
+class SyncReport {
+  constructor({ mode, dryRun, remoteRoot }) {
+    this.startedMs = Date.now()
+    this.data = {
+      mode,
+      dryRun: !!dryRun,
+      remoteRoot,
+      root: null,
+      startedAt: new Date(this.startedMs).toISOString(),
+      finishedAt: null,
+      durationMs: 0,
+      estimatedMs: null,
+      totalBytes: 0,
+      downloadCount: 0,
+      unchangedCount: 0,
+      ignoredCount: 0,
+      failureCount: 0,
+      deletedCount: 0,
+      conflictCount: 0,
+      downloads: [],
+      ignored: [],
+      failures: [],
+      deleted: [],
+      conflicts: []
+    }
+  }
+  // Lists are capped so a huge site cannot produce a multi-megabyte report;
+  // the counts stay exact.
+  push(list, item) {
+    if (this.data[list].length < MAX_ENTRIES) this.data[list].push(item)
+  }
+  addDownload(remotePath, size) {
+    this.data.downloadCount += 1
+    this.data.totalBytes += Number(size) || 0
+    this.push('downloads', { path: remotePath, size: Number(size) || 0 })
+  }
+  addUnchanged() { this.data.unchangedCount += 1 }
+  addIgnored(remotePath, type) {
+    this.data.ignoredCount += 1
+    this.push('ignored', { path: remotePath, type })
+  }
+  addFailure(remotePath, error) {
+    this.data.failureCount += 1
+    this.push('failures', { path: remotePath, error: String((error && error.message) || error) })
+  }
+  addDeletion(remotePath) {
+    this.data.deletedCount += 1
+    this.push('deleted', remotePath)
+  }
+  // Changed on the server and edited in the working copy: left for the user to publish or discard.
+  addConflict(remotePath) {
+    this.data.conflictCount += 1
+    this.push('conflicts', remotePath)
+  }
+  finish(root, previous) {
+    this.data.root = root
+    this.data.finishedAt = new Date().toISOString()
+    this.data.durationMs = Date.now() - this.startedMs
+    if (this.data.dryRun) {
+      this.data.estimatedMs = estimateDurationMs(this.data.totalBytes, this.data.downloadCount, previous)
+    }
+    return this.data
+  }
+}
+
+// Throughput comes from the previous real sync when it downloaded enough to be
+// meaningful, otherwise a conservative default is used.
+function estimateDurationMs(bytes, files, previous) {
+  let bytesPerSecond = DEFAULT_BYTES_PER_SECOND
+  if (previous && !previous.dryRun && previous.totalBytes > 64 * 1024 && previous.durationMs > 0) {
+    const transferMs = previous.durationMs - previous.downloadCount * PER_FILE_OVERHEAD_MS
+    if (transferMs > 0) bytesPerSecond = previous.totalBytes / (transferMs / 1000)
+  }
+  return Math.round(files * PER_FILE_OVERHEAD_MS + (bytes / bytesPerSecond) * 1000)
+}
+
+async function readSyncReport(syncRoot) {
+  try {
+    return JSON.parse(await fs.readFile(path.join(syncRoot, REPORT_FILE), 'utf-8'))
+  } catch {
+    return null
+  }
+}
+
+async function writeSyncReport(syncRoot, report) {
+  await fs.mkdir(syncRoot, { recursive: true })
+  await fs.writeFile(path.join(syncRoot, REPORT_FILE), JSON.stringify(report, null, 2), 'utf-8')
+}
+
+module.exports = { SyncReport, readSyncReport, writeSyncReport }
@@ -0,0 +1,122 @@
+// Text files keep the encoding, byte order mark and line endings they were
+// opened with, so legacy Windows-1252 / ISO-8859-1 sites survive a round trip.
+const ENCODINGS = ['utf-8', 'utf-16le', 'utf-16be', 'windows-1252', 'iso-8859-1']
+
+// Windows-1252 differs from ISO-8859-1 only in 0x80-0x9F; five of those bytes are unassigned.
+const WINDOWS_1252_HIGH = [
+  0x20ac, null, 0x201a, 0x0192, 0x201e, 0x2026, 0x2020, 0x2021, 0x02c6, 0x2030, 0x0160, 0x2039, 0x0152, null, 0x017d, null,
+  null, 0x2018, 0x2019, 0x201c, 0x201d, 0x2022, 0x2013, 0x2014, 0x02dc, 0x2122, 0x0161, 0x203a, 0x0153, null, 0x017e, 0x0178
+]
+const WINDOWS_1252_REVERSE = new Map(WINDOWS_1252_HIGH.map((cp, i) => [cp, 0x80 + i]).filter(([cp]) => cp !== null))
+
+function isValidUtf8(buffer) {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(buffer)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Returns { encoding, bom } for text content, or null when the bytes look binary.
+// Without a BOM, valid UTF-8 wins; otherwise single-byte text is Windows-1252
+// when it uses the 0x80-0x9F range (curly quotes, euro sign) and ISO-8859-1 when not.
+function detectTextEncoding(buffer) {
+  if (buffer.length >= 3 && buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) return { encoding: 'utf-8', bom: true }
+  if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) return { encoding: 'utf-16le', bom: true }
+  if (buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff) return { encoding: 'utf-16be', bom: true }
+  const sample = buffer.subarray(0, 64 * 1024)
+  if (sample.includes(0)) return null
+  if (isValidUtf8(buffer)) return { encoding: 'utf-8', bom: false }
+  let controls = 0
+  let windowsRange = false
+  for (const byte of sample) {
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d && byte !== 0x0c) controls += 1
+    if (byte >= 0x80 && byte <= 0x9f) {
+      if (WINDOWS_1252_HIGH[byte - 0x80] === null) return null
+      windowsRange = true
+    }
+  }
+  if (controls > sample.length / 100) return null
+  return { encoding: windowsRange ? 'windows-1252' : 'iso-8859-1', bom: false }
+}
+
+function bomLength(buffer, encoding) {
+  if (encoding === 'utf-8' && buffer.length >= 3 && buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) return 3
+  if (encoding === 'utf-16le' && buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) return 2
+  if (encoding === 'utf-16be' && buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff) return 2
+  return 0
+}
+
+function decodeText(buffer, encoding) {
+  const body = buffer.subarray(bomLength(buffer, encoding))
+  switch (encoding) {
+    case 'utf-16le':
+      return body.toString('utf16le')
+    case 'utf-16be':
+      return Buffer.from(body).swap16().toString('utf16le')
+    case 'iso-8859-1':
+      return body.toString('latin1')
+    case 'windows-1252': {
+      let out = ''
+      for (const byte of body) {
+        const mapped = byte >= 0x80 && byte <= 0x9f ? WINDOWS_1252_HIGH[byte - 0x80] : byte
+        out += String.fromCharCode(mapped === null ? byte : mapped)
+      }
+      return out
+    }
+    default:
+      return body.toString('utf-8')
+  }
+}
+
+function encodeSingleByte(text, encoding) {
+  const bytes = Buffer.alloc(text.length)
+  for (let i = 0; i < text.length; i++) {
+    const cp = text.charCodeAt(i)
+    let byte = cp <= 0xff ? cp : undefined
+    if (encoding === 'windows-1252') {
+      if (cp >= 0x80 && cp <= 0x9f) byte = undefined
+      if (WINDOWS_1252_REVERSE.has(cp)) byte = WINDOWS_1252_REVERSE.get(cp)
+    }
+    if (byte === undefined) {
+      const line = text.slice(0, i).split('\n').length
+      throw new Error(`"${text[i]}" on line ${line} cannot be saved as ${encoding === 'windows-1252' ? 'Windows-1252' : 'ISO-8859-1'}. Switch the file to UTF-8 in the status bar to keep it.`)
+    }
+    bytes[i] = byte
+  }
+  return bytes
+}
+
+function normalizeEol(text, eol) {
+  if (eol !== 'CRLF' && eol !== 'LF') return text
+  return text.replace(/\r\n|\r|\n/g, eol === 'CRLF' ? '\r\n' : '\n')
+}
+
+// The dominant line ending, or null for single-line content.
+function detectEol(text) {
+  const crlf = (text.match(/\r\n/g) || []).length
+  const lf = (text.match(/\n/g) || []).length - crlf
+  if (crlf === 0 && lf === 0) return null
+  return crlf > lf ? 'CRLF' : 'LF'
+}
+
+// Turns editor text back into file bytes. `format` is { encoding, bom, eol };
+// anything missing falls back to plain UTF-8 with the text's own line endings.
+function encodeText(text, format = {}) {
+  const encoding = ENCODINGS.includes(format.encoding) ? format.encoding : 'utf-8'
+  const body = normalizeEol(String(text ?? ''), format.eol)
+  switch (encoding) {
+    case 'utf-16le':
+      return Buffer.concat([format.bom === false ? Buffer.alloc(0) : Buffer.from([0xff, 0xfe]), Buffer.from(body, 'utf16le')])
+    case 'utf-16be':
+      return Buffer.concat([format.bom === false ? Buffer.alloc(0) : Buffer.from([0xfe, 0xff]), Buffer.from(body, 'utf16le').swap16()])
+    case 'iso-8859-1':
+    case 'windows-1252':
+      return encodeSingleByte(body, encoding)
+    default:
+      return Buffer.concat([format.bom ? Buffer.from([0xef, 0xbb, 0xbf]) : Buffer.alloc(0), Buffer.from(body, 'utf-8')])
+  }
+}
+
+module.exports = { ENCODINGS, detectTextEncoding, decodeText, encodeText, detectEol }
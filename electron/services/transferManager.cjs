@@ -0,0 +1,204 @@
+const { FTPService } = require('./ftpService.cjs')
+
+// How often a running job reports byte progress to the renderer.
+const PROGRESS_INTERVAL = 200
+// Finished jobs kept for the Transfers panel before the oldest are dropped.
+const HISTORY_LIMIT = 200
+
+// Uploads and downloads run here on a pool of their own connections, so a slow
+// transfer never holds up listings and renames on the main FTPService. Each
+// worker is a separate FTPService logged in with the current connection.
+class TransferManager {
+  // `getConnection()` returns the connection config to log in with,
+  // `getConcurrency()` the number of parallel connections, and `onUpdate(job)`
+  // is called with the serialised job whenever it changes. Job ids are prefixed
+  // with `connectionId` so they stay unique across workspaces.
+  constructor({ connectionId = '', getConnection, getConcurrency, onUpdate }) {
+    this.connectionId = String(connectionId)
+    this.getConnection = getConnection
+    this.getConcurrency = getConcurrency
+    this.onUpdate = onUpdate || (() => {})
+    this.jobs = new Map()
+    this.queue = []
+    this.workers = []
+    this.nextId = 1
+  }
+
+  serialize(job) {
+    return {
+      id: job.id,
+      connectionId: this.connectionId,
+      type: job.type,
+      remotePath: job.remotePath,
+      bytes: job.bytes,
+      total: job.total,
+      status: job.status,
+      error: job.error,
+      retryable: job.retryable,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt
+    }
+  }
+
+  emit(job) {
+    job.lastEmit = Date.now()
+    try { this.onUpdate(this.serialize(job)) } catch {}
+  }
+
+  list() {
+    return Array.from(this.jobs.values()).map((job) => this.serialize(job))
+  }
+
+  // Queues a transfer and resolves with what `run(service)` returns. `type` is
+  // 'upload' or 'download'; `total` is the size in bytes when already known.
+  // Jobs whose result is only useful to the caller (opening a file) should pass
+  // `retryable: false`, since a retry from the panel has nobody to hand it to.
+  enqueue({ type, remotePath, total = null, retryable = true, run }) {
+    const job = {
+      id: `${this.connectionId}-${this.nextId++}`,
+      type,
+      remotePath,
+      bytes: 0,
+      total,
+      status: 'queued',
+      error: null,
+      retryable,
+      createdAt: Date.now(),
+      startedAt: null,
+      finishedAt: null,
+      run,
+      settle: null
+    }
+    const done = new Promise((resolve, reject) => { job.settle = { resolve, reject } })
+    this.jobs.set(job.id, job)
+    this.queue.push(job)
+    this.prune()
+    this.emit(job)
+    this.pump()
+    return done
+  }
+
+  prune() {
+    const finished = Array.from(this.jobs.values()).filter((job) => job.finishedAt)
+    for (const job of finished.slice(0, Math.max(0, finished.length - HISTORY_LIMIT))) {
+      this.jobs.delete(job.id)
+    }
+  }
+
+  pump() {
+    const limit = Math.max(1, this.getConcurrency())
+    while (this.queue.length > 0) {
+      let worker = this.workers.find((w) => !w.job)
+      if (!worker) {
+        if (this.workers.length >= limit) break
+        worker = { service: new FTPService(), job: null, connection: null }
+        this.workers.push(worker)
+      }
+      if (this.workers.filter((w) => w.job).length >= limit) break
+      this.start(worker, this.queue.shift())
+    }
+    // Drop idle connections beyond the limit after it is lowered.
+    const idle = this.workers.filter((w) => !w.job)
+    while (this.workers.length > limit && idle.length > 0) {
+      const worker = idle.pop()
+      this.workers.splice(this.workers.indexOf(worker), 1)
+      worker.service.disconnect().catch(() => {})
+    }
+  }
+
+  async start(worker, job) {
+    worker.job = job
+    job.status = 'running'
+    job.startedAt = Date.now()
+    this.emit(job)
+    const service = worker.service
+    service.trackProgress((bytes) => {
+      job.bytes = bytes
+      if (Date.now() - job.lastEmit >= PROGRESS_INTERVAL) this.emit(job)
+    })
+    try {
+      const connection = this.getConnection()
+      if (!connection) throw new Error('Not connected to FTP server')
+      if (worker.connection !== connection || !service.isConnected()) {
+        await service.connect(connection)
+        worker.connection = connection
+      }
+      if (job.cancelled) throw new Error('Transfer cancelled')
+      if (job.total == null && job.type === 'download') {
+        try { job.total = await service.getFileSize(job.remotePath) } catch {}
+      }
+      const result = await job.run(service)
+      if (job.cancelled) throw new Error('Transfer cancelled')
+      job.status = 'done'
+      if (job.total != null) job.bytes = job.total
+      job.settle.resolve(result)
+    } catch (error) {
+      job.status = job.cancelled ? 'cancelled' : 'failed'
+      job.error = job.cancelled ? 'Transfer cancelled' : error.message
+      job.settle.reject(new Error(job.error))
+    } finally {
+      service.trackProgress(null)
+      job.finishedAt = Date.now()
+      worker.job = null
+      this.emit(job)
+      this.pump()
+    }
+  }
+
+  cancel(id) {
+    const job = this.jobs.get(id)
+    if (!job || job.finishedAt) return false
+    job.cancelled = true
+    const queued = this.queue.indexOf(job)
+    if (queued !== -1) {
+      this.queue.splice(queued, 1)
+      job.status = 'cancelled'
+      job.error = 'Transfer cancelled'
+      job.finishedAt = Date.now()
+      job.settle.reject(new Error(job.error))
+      this.emit(job)
+      return true
+    }
+    const worker = this.workers.find((w) => w.job === job)
+    if (worker) worker.service.cancel()
+    return true
+  }
+
+  // Runs a failed or cancelled job again as a new entry. Its result is only
+  // reflected in the panel; the original caller has already been answered.
+  retry(id) {
+    const job = this.jobs.get(id)
+    if (!job || !job.retryable || (job.status !== 'failed' && job.status !== 'cancelled')) return null
+    this.jobs.delete(id)
+    this.emit({ ...job, status: 'removed' })
+    const next = this.enqueue({ type: job.type, remotePath: job.remotePath, total: job.total, retryable: true, run: job.run })
+    next.catch(() => {})
+    return `${this.connectionId}-${this.nextId - 1}`
+  }
+
+  clearFinished() {
+    for (const job of Array.from(this.jobs.values())) {
+      if (job.finishedAt) this.jobs.delete(job.id)
+    }
+  }
+
+  // Called when the main connection changes: queued and running jobs are
+  // cancelled and every worker reconnects on its next job.
+  reset() {
+    for (const job of [...this.queue, ...this.workers.map((w) => w.job).filter(Boolean)]) {
+      this.cancel(job.id)
+    }
+    for (const worker of this.workers) {
+      worker.connection = null
+    }
+  }
+
+  async closeAll() {
+    this.reset()
+    const workers = this.workers.splice(0)
+    await Promise.all(workers.map((w) => w.service.disconnect().catch(() => {})))
+  }
+}
+
+module.exports = { TransferManager }
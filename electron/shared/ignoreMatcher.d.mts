@@ -0,0 +1,21 @@
+export interface IgnoreRule {
+  source: string
+  negate: boolean
+  dirOnly: boolean
+  regex: RegExp
+}
+
+export interface IgnoreExplanation {
+  ignored: boolean
+  /** The deciding pattern, or null when no pattern matched. */
+  pattern: string | null
+  /** The path the pattern matched; a parent folder when the folder is ignored. */
+  matchedPath: string | null
+}
+
+export type IgnoreMatcher = (remotePath: string, isDirectory?: boolean) => boolean
+
+export function compileIgnorePattern(raw: string): IgnoreRule | null
+export function compileIgnorePatterns(patterns: string[]): IgnoreRule[]
+export function explainIgnore(patterns: string[] | IgnoreRule[], remotePath: string, isDirectory?: boolean): IgnoreExplanation
+export function createIgnoreMatcher(patterns: string[]): IgnoreMatcher
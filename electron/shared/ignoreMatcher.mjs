@@ -0,0 +1,123 @@
+// Gitignore-style matching for the sync ignore list and explorer hiding. This
+// module is shared: the renderer imports it directly and the main process loads
+// it with import(), so it must stay free of Node and DOM APIs.
+//
+// Supported syntax, evaluated against remote paths relative to the server root:
+//   *.log        no slash: matches a file or folder name at any depth
+//   /logs, a/b   a leading or inner slash anchors the pattern to the root
+//   cache/       a trailing slash only matches folders
+//   **/tmp, a/** ** spans any number of folders
+//   ? and [a-z]  single-character wildcards and classes
+//   !keep.txt    negation: re-includes what an earlier pattern ignored
+//   # comment    blank lines and comments are skipped
+// The last matching pattern wins. Anything inside an ignored folder is ignored,
+// and (as with git) a negation cannot re-include a file whose folder is ignored.
+
+const escapeRegExp = (ch) => ch.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+
+function globToRegExpSource(glob) {
+  let out = ''
+  let i = 0
+  while (i < glob.length) {
+    const ch = glob[i]
+    if (ch === '*') {
+      if (glob[i + 1] === '*') {
+        const atStart = i === 0 || glob[i - 1] === '/'
+        const atEnd = i + 2 === glob.length
+        if (atStart && glob[i + 2] === '/') {
+          out += '(?:.*/)?'
+          i += 3
+          continue
+        }
+        if (atStart && atEnd) {
+          out += '.*'
+          i += 2
+          continue
+        }
+      }
+      out += '[^/]*'
+      while (glob[i] === '*') i += 1
+      continue
+    }
+    if (ch === '?') {
+      out += '[^/]'
+      i += 1
+      continue
+    }
+    if (ch === '[') {
+      const close = glob.indexOf(']', i + 2)
+      if (close !== -1) {
+        let body = glob.slice(i + 1, close).replace(/\\/g, '\\\\')
+        if (body[0] === '!') body = '^' + body.slice(1)
+        out += `[${body}]`
+        i = close + 1
+        continue
+      }
+    }
+    if (ch === '\\' && i + 1 < glob.length) {
+      out += escapeRegExp(glob[i + 1])
+      i += 2
+      continue
+    }
+    out += escapeRegExp(ch)
+    i += 1
+  }
+  return out
+}
+
+export function compileIgnorePattern(raw) {
+  let pattern = String(raw == null ? '' : raw).replace(/\\/g, '/').trim()
+  if (!pattern || pattern.startsWith('#')) return null
+  const negate = pattern.startsWith('!')
+  if (negate) pattern = pattern.slice(1)
+  const dirOnly = pattern.endsWith('/')
+  pattern = pattern.replace(/\/+$/, '')
+  const anchored = pattern.includes('/')
+  pattern = pattern.replace(/^\/+/, '')
+  if (!pattern) return null
+  const body = globToRegExpSource(pattern)
+  return {
+    source: String(raw),
+    negate,
+    dirOnly,
+    regex: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`)
+  }
+}
+
+export function compileIgnorePatterns(patterns) {
+  return (Array.isArray(patterns) ? patterns : []).map(compileIgnorePattern).filter(Boolean)
+}
+
+const toRelative = (p) => String(p || '').replace(/\\/g, '/').split('/').filter(Boolean).join('/')
+
+// The last rule that matches one path on its own, ignoring its parents.
+function lastMatch(rules, rel, isDirectory) {
+  let match = null
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDirectory) continue
+    if (rule.regex.test(rel)) match = rule
+  }
+  return match
+}
+
+// Why a path is (or is not) ignored: the deciding pattern and the path it
+// matched, which is a parent folder when the whole folder is ignored.
+export function explainIgnore(patterns, remotePath, isDirectory = false) {
+  const rules = Array.isArray(patterns) && patterns.length && typeof patterns[0] === 'object' ? patterns : compileIgnorePatterns(patterns)
+  const segments = toRelative(remotePath).split('/').filter(Boolean)
+  let rel = ''
+  for (let i = 0; i < segments.length; i += 1) {
+    rel = rel ? `${rel}/${segments[i]}` : segments[i]
+    const last = i === segments.length - 1
+    const rule = lastMatch(rules, rel, last ? isDirectory : true)
+    if (rule && !rule.negate) return { ignored: true, pattern: rule.source, matchedPath: '/' + rel }
+    if (last) return { ignored: false, pattern: rule ? rule.source : null, matchedPath: rule ? '/' + rel : null }
+  }
+  return { ignored: false, pattern: null, matchedPath: null }
+}
+
+export function createIgnoreMatcher(patterns) {
+  const rules = compileIgnorePatterns(patterns)
+  if (rules.length === 0) return () => false
+  return (remotePath, isDirectory = false) => explainIgnore(rules, remotePath, isDirectory).ignored
+}
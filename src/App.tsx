@@ -1,8 +1,10 @@
 import React from 'react'
 import AppLayout from './components/AppLayout'
 import { electronAPI } from './utils/electronAPI'
-import { useEditorStore } from './stores/editorStore'
-import { useFTPStore } from './stores/ftpStore'
+import { useEditorStore, getTextFormat, getFileTabId } from './stores/editorStore'
+import { useFTPStore, getConnectionKeyById } from './stores/ftpStore'
+import { resolveRemoteChanges } from './utils/remoteChanges'
+import { trackPresence } from './utils/idlePresence'
 
 function App() {
   const { setCurrentUserId } = useEditorStore()
@@ -26,7 +28,7 @@ function App() {
   }
   React.useEffect(() => {
     let userId: number | null = null
-    let statusInterval: number | undefined
+    let stopTracking: (() => void) | undefined
 
     const handleBeforeUnload = () => {
       if (userId) {
@@ -38,14 +40,11 @@ function App() {
     const init = async () => {
       const u = await electronAPI.dbGetOrCreateDefaultUser()
       if (u.success && u.user?.id) {
-          userId = u.user.id
-          setCurrentUserId(u.user.id)
-          await electronAPI.dbUpdateUserStatus(String(u.user.id), 'online')
-
-          // Refresh online status periodically so presence stays accurate.
-          statusInterval = window.setInterval(() => {
-            electronAPI.dbUpdateUserStatus(String(u.user.id), 'online')
-          }, 60000)
+          const id = u.user.id
+          userId = id
+          setCurrentUserId(id)
+          // Online, away or offline follows keyboard and mouse activity from here on.
+          stopTracking = trackPresence(id)
 
           window.addEventListener('beforeunload', handleBeforeUnload)
       }
@@ -53,8 +52,8 @@ function App() {
     init()
 
     return () => {
-      if (statusInterval) {
-        window.clearInterval(statusInterval)
+      if (stopTracking) {
+        stopTracking()
       }
       window.removeEventListener('beforeunload', handleBeforeUnload)
       if (userId) {
@@ -70,8 +69,8 @@ function App() {
         const activeId = state.activeFile
         if (!activeId) return
         const file = state.openFiles.find(f => f.id === activeId)
-        if (!file) return
-        const res = await electronAPI.localSaveFile(file.path, file.content)
+        if (!file || (file.kind && file.kind !== 'code')) return
+        const res = await electronAPI.localSaveFile(file.path, file.content, getTextFormat(file), file.connectionId)
         if (res.success) {
           useEditorStore.getState().setFileDirty(file.id, false)
           useEditorStore.getState().setStatusMessage(`Saved to sync folder: ${file.path}`)
@@ -86,7 +85,7 @@ function App() {
         let failed = false
         for (const file of state.openFiles) {
           if (file.isDirty) {
-            const res = await electronAPI.localSaveFile(file.path, file.content)
+            const res = await electronAPI.localSaveFile(file.path, file.content, getTextFormat(file), file.connectionId)
             if (res.success) {
               useEditorStore.getState().setFileDirty(file.id, false)
             } else {
@@ -104,7 +103,7 @@ function App() {
         const activeId = state.activeFile
         if (!activeId) return
         const file = state.openFiles.find(f => f.id === activeId)
-        if (!file) return
+        if (!file || (file.kind && file.kind !== 'code')) return
 
         const uid = state.currentUserId
         let newHash: string | null = null
@@ -114,8 +113,9 @@ function App() {
           const activeRes = await electronAPI.dbGetActiveFiles()
           if (activeRes.success && activeRes.files) {
             const now = Date.now()
+            const key = getConnectionKeyById(file.connectionId)
             const others = activeRes.files.filter(
-              (f: any) => f.file_path === file.path && f.user_id !== uid,
+              (f: any) => f.file_path === file.path && f.user_id !== uid && (!f.connection_key || f.connection_key === key),
             )
             const conflictingUsers: string[] = []
             for (const other of others) {
@@ -150,22 +150,27 @@ function App() {
           }
         }
 
-        const localRes = await electronAPI.localSaveFile(file.path, file.content)
+        // Someone may have changed the server copy since it was opened.
+        const content = await resolveRemoteChanges(file)
+        if (content === null) return
+
+        const localRes = await electronAPI.localSaveFile(file.path, content, getTextFormat(file), file.connectionId, 'sync')
         if (!localRes.success || !localRes.path) {
           useEditorStore.getState().setError(localRes.error || 'Failed to save file to sync folder')
           useEditorStore.getState().setStatusMessage(null)
           return
         }
-        const ftpRes = await electronAPI.ftpUploadFile(localRes.path, file.path)
+        const ftpRes = await electronAPI.ftpUploadFile(localRes.path, file.path, undefined, file.connectionId, 'sync')
         if (ftpRes.success) {
           useEditorStore.getState().setFileDirty(file.id, false)
+          useEditorStore.getState().setRemoteVersion(file.id, ftpRes.remote || null, content)
           useEditorStore.getState().setStatusMessage(`Saved and synced to server: ${file.path}`)
           useEditorStore.getState().setError(null)
           try { window.dispatchEvent(new CustomEvent('preview:reload')) } catch {}
           if (uid) {
             try {
-              const hashToStore = newHash ?? (await computeContentHash(file.content))
-              await electronAPI.dbSetActiveFile(String(uid), file.path, hashToStore)
+              const hashToStore = newHash && content === file.content ? newHash : await computeContentHash(content)
+              await electronAPI.dbSetActiveFile(String(uid), file.path, hashToStore, getConnectionKeyById(file.connectionId))
             } catch {
               // Best-effort only; ignore errors.
             }
@@ -178,15 +183,18 @@ function App() {
         const activeId = state.activeFile
         if (!activeId) return
         const file = state.openFiles.find(f => f.id === activeId)
-        if (!file) return
+        if (!file || file.kind === 'preview' || file.kind === 'diff') return
         const nextPath = window.prompt('Enter new remote path for Save As', file.path)
         if (!nextPath || nextPath.trim() === '') return
-        const res = await electronAPI.ftpUploadFile(file.content, nextPath.trim())
+        // Binary tabs upload their exact bytes rather than the (empty) text content.
+        const res = file.binaryData !== undefined
+          ? await electronAPI.ftpUploadBase64(file.binaryData, nextPath.trim(), file.connectionId)
+          : await electronAPI.ftpUploadFile(file.content, nextPath.trim(), getTextFormat(file), file.connectionId)
         if (res.success) {
           const parts = nextPath.trim().split('/')
           const newName = parts[parts.length - 1] || file.name
           useEditorStore.getState().renameFile(file.id, nextPath.trim(), newName)
-          useEditorStore.getState().setFileDirty(nextPath.trim(), false)
+          useEditorStore.getState().setFileDirty(getFileTabId(nextPath.trim(), file.connectionId), false)
         } else {
           useEditorStore.getState().setError(res.error || 'Failed to save as')
         }
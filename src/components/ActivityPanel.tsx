@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react'
+import { RefreshCw } from 'lucide-react'
+import { useFTPStore } from '../stores/ftpStore'
+import { electronAPI, FileHistoryAction, FileHistoryEntry } from '../utils/electronAPI'
+
+const actionLabels: Record<FileHistoryAction, string> = {
+  upload: 'uploaded',
+  sync: 'saved and synced',
+  inspector: 'saved from the inspector',
+  restore: 'rolled back',
+  rename: 'renamed',
+  delete: 'deleted',
+  publish: 'published',
+  sync_local: 'synced the site',
+  lock_break: 'broke a lock on'
+}
+
+// Team activity log for the workspace open in the explorer: who uploaded,
+// renamed or deleted what, and when, read from the shared file_history table.
+const ActivityPanel: React.FC = () => {
+  const activeConnection = useFTPStore((state) => state.activeConnection)
+  const [entries, setEntries] = useState<FileHistoryEntry[]>([])
+  const [users, setUsers] = useState<any[]>([])
+  const [pathFilter, setPathFilter] = useState('')
+  const [userFilter, setUserFilter] = useState<number | null>(null)
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const res = await electronAPI.dbGetFileHistory({ path: pathFilter.trim(), userId: userFilter, from: from || null, to: to || null })
+      if (res.success) setEntries(res.entries || [])
+      else setError(res.error || 'Failed to load the activity log')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    electronAPI.dbGetUsers().then((res) => {
+      if (res.success && res.users) setUsers(res.users)
+    })
+  }, [])
+
+  // Typing in the file filter waits for a pause before querying.
+  useEffect(() => {
+    const timer = setTimeout(load, 300)
+    return () => clearTimeout(timer)
+  }, [activeConnection, pathFilter, userFilter, from, to])
+
+  const inputClass = 'bg-vscode-bg border border-vscode-border rounded px-1 py-0.5 text-xs text-vscode-text'
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0 text-xs">
+      <div className="p-3 border-b border-vscode-border space-y-2">
+        <input
+          type="text"
+          className={`${inputClass} w-full`}
+          placeholder="Filter by file path"
+          value={pathFilter}
+          onChange={(e) => setPathFilter(e.target.value)}
+        />
+        <div className="flex items-center gap-2">
+          <select
+            className={`${inputClass} flex-1 min-w-0`}
+            value={userFilter ?? ''}
+            onChange={(e) => setUserFilter(e.target.value ? Number(e.target.value) : null)}
+          >
+            <option value="">Everyone</option>
+            {users.map((user) => (
+              <option key={user.id} value={user.id}>
+                {user.username}
+              </option>
+            ))}
+          </select>
+          <button onClick={load} className="hover:text-white" title="Refresh">
+            <RefreshCw size={12} />
+          </button>
+        </div>
+        <div className="flex items-center gap-1">
+          <input type="date" className={`${inputClass} flex-1 min-w-0`} value={from} onChange={(e) => setFrom(e.target.value)} title="From" />
+          <span className="text-vscode-text-muted">–</span>
+          <input type="date" className={`${inputClass} flex-1 min-w-0`} value={to} onChange={(e) => setTo(e.target.value)} title="To" />
+        </div>
+      </div>
+      <div className="flex-1 min-h-0 overflow-y-auto vscode-scrollbar">
+        {loading && entries.length === 0 && <div className="px-3 py-2 text-vscode-text-muted">Loading…</div>}
+        {error && <div className="px-3 py-2 text-red-400">{error}</div>}
+        {!loading && !error && entries.length === 0 && (
+          <div className="px-3 py-2 text-vscode-text-muted">No activity matches these filters.</div>
+        )}
+        {entries.map((entry) => (
+          <div key={entry.id} className="px-3 py-1.5 hover:bg-vscode-hover">
+            <div className="truncate">
+              <span className="font-medium">{entry.username || 'Unknown user'}</span>{' '}
+              <span className="text-vscode-text-muted">{actionLabels[entry.action] || entry.action}</span>
+            </div>
+            <button
+              className="block w-full text-left truncate hover:text-white"
+              title={`Show only ${entry.file_path}`}
+              onClick={() => setPathFilter(entry.file_path)}
+            >
+              {entry.file_path}
+            </button>
+            <div className="text-vscode-text-muted truncate">
+              {new Date(entry.created_at).toLocaleString()}
+              {entry.changes_summary && ` · ${entry.changes_summary}`}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default ActivityPanel
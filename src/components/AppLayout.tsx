@@ -1,9 +1,53 @@
-import React from 'react'
+import React, { useEffect } from 'react'
 import Sidebar from './Sidebar'
 import EditorArea from './EditorArea'
 import StatusBar from './StatusBar'
+import RemoteChangeDialog from './RemoteChangeDialog'
+import { useTransferStore } from '../stores/transferStore'
+import { useFTPStore } from '../stores/ftpStore'
+import { usePresenceStore } from '../stores/presenceStore'
+import { useCursorStore } from '../stores/cursorStore'
+import { electronAPI } from '../utils/electronAPI'
 
 const AppLayout: React.FC = () => {
+  // The transfer list is kept in sync here so the status bar can show activity
+  // while the Transfers panel is closed.
+  useEffect(() => {
+    const { setTransfers, applyUpdate } = useTransferStore.getState()
+    electronAPI.transferList().then((res) => {
+      if (res.success && res.transfers) setTransfers(res.transfers)
+    })
+    return electronAPI.onTransferUpdated((_event, job) => applyUpdate(job))
+  }, [])
+
+  useEffect(() => {
+    const { setConnectionHealth } = useFTPStore.getState()
+    electronAPI.ftpGetHealth().then((res) => {
+      if (res.success && res.health) res.health.forEach(setConnectionHealth)
+    })
+    return electronAPI.onFtpHealthChanged((_event, health) => setConnectionHealth(health))
+  }, [])
+
+  // Presence and locks are pushed by the team database; this one subscription
+  // keeps them current for every panel, including tab read-only state.
+  useEffect(() => {
+    const { applyChange, loadPreferences } = usePresenceStore.getState()
+    const { load: loadCursors, apply: applyCursor } = useCursorStore.getState()
+    loadPreferences()
+    applyChange()
+    loadCursors()
+    const offPresence = electronAPI.onPresenceChanged((_event, change) => {
+      applyChange(change)
+      // After the listener reconnects, cursor moves may have been missed too.
+      if (!change?.table) loadCursors()
+    })
+    const offCursors = electronAPI.onCursorMoved((_event, cursor) => applyCursor(cursor))
+    return () => {
+      offPresence()
+      offCursors()
+    }
+  }, [])
+
   const isMac = typeof navigator !== 'undefined' && /Mac/i.test(navigator.platform)
   return (
     <div className="flex flex-col h-screen bg-vscode-bg text-vscode-text">
@@ -15,6 +59,7 @@ const AppLayout: React.FC = () => {
         <EditorArea />
       </div>
       <StatusBar />
+      <RemoteChangeDialog />
     </div>
   )
 }
@@ -0,0 +1,151 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { Upload } from 'lucide-react'
+import { EditorFile, useEditorStore } from '../stores/editorStore'
+import { electronAPI } from '../utils/electronAPI'
+
+interface AssetViewerProps {
+  file: EditorFile
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+const base64ToBytes = (base64: string) => {
+  const raw = atob(base64)
+  const bytes = new Uint8Array(raw.length)
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i)
+  return bytes
+}
+
+const FONT_SAMPLE = 'The quick brown fox jumps over the lazy dog'
+
+// Read-only view for image, font, PDF and other binary tabs. The bytes are kept
+// base64-encoded on the tab and only turned into a blob URL for display.
+const AssetViewer: React.FC<AssetViewerProps> = ({ file }) => {
+  const [dimensions, setDimensions] = useState<{ width: number; height: number } | null>(null)
+  const [fontFamily, setFontFamily] = useState<string | null>(null)
+  const [fontError, setFontError] = useState<string | null>(null)
+  const [replacing, setReplacing] = useState(false)
+
+  const bytes = useMemo(() => (file.binaryData ? base64ToBytes(file.binaryData) : new Uint8Array(0)), [file.binaryData])
+
+  const blobUrl = useMemo(() => {
+    if (file.kind !== 'image' && file.kind !== 'pdf') return null
+    return URL.createObjectURL(new Blob([bytes], { type: file.mimeType || 'application/octet-stream' }))
+  }, [bytes, file.kind, file.mimeType])
+
+  useEffect(() => {
+    return () => {
+      if (blobUrl) URL.revokeObjectURL(blobUrl)
+    }
+  }, [blobUrl])
+
+  useEffect(() => {
+    setDimensions(null)
+  }, [blobUrl])
+
+  useEffect(() => {
+    if (file.kind !== 'font') return
+    let face: FontFace | null = null
+    const family = `asset-${file.id.replace(/[^a-zA-Z0-9]/g, '-')}-${Date.now()}`
+    setFontFamily(null)
+    setFontError(null)
+    face = new FontFace(family, bytes)
+    face
+      .load()
+      .then((loaded) => {
+        document.fonts.add(loaded)
+        setFontFamily(family)
+      })
+      .catch((err) => setFontError(err?.message || 'This font could not be loaded'))
+    return () => {
+      if (face) document.fonts.delete(face)
+    }
+  }, [bytes, file.kind, file.id])
+
+  const handleReplace = async () => {
+    if (replacing) return
+    setReplacing(true)
+    const store = useEditorStore.getState()
+    try {
+      const res = await electronAPI.ftpReplaceFromDisk(file.path, file.connectionId)
+      if (res.canceled) return
+      if (!res.success || !res.base64) {
+        store.setError(res.error || `Failed to replace ${file.name}`)
+        return
+      }
+      store.setFileBinaryData(file.id, res.base64, res.size ?? 0)
+      store.setRemoteVersion(file.id, res.remote || null)
+      store.setStatusMessage(`Replaced ${file.path} with ${res.sourcePath} (${formatBytes(res.size ?? 0)})`)
+      store.setError(null)
+      try { window.dispatchEvent(new CustomEvent('preview:reload')) } catch {}
+    } finally {
+      setReplacing(false)
+    }
+  }
+
+  const details = [
+    file.mimeType,
+    formatBytes(file.size ?? bytes.length),
+    dimensions ? `${dimensions.width} × ${dimensions.height}px` : null
+  ].filter(Boolean)
+
+  return (
+    <div className="flex flex-col h-full bg-vscode-bg">
+      <div className="flex items-center gap-3 px-3 py-1.5 border-b border-vscode-border text-xs">
+        <span className="flex-1 truncate text-vscode-text-muted" title={file.path}>
+          {details.join(' · ')}
+        </span>
+        <button
+          onClick={handleReplace}
+          disabled={replacing}
+          className="flex items-center gap-1 px-2 py-1 bg-vscode-hover text-vscode-text rounded hover:bg-vscode-border transition-colors"
+          title="Upload a file from disk in place of this one"
+        >
+          <Upload size={12} />
+          {replacing ? 'Replacing…' : 'Replace from disk…'}
+        </button>
+      </div>
+      <div className="flex-1 min-h-0 overflow-auto vscode-scrollbar">
+        {file.kind === 'image' && blobUrl && (
+          <div className="flex items-center justify-center min-h-full p-6" style={{ backgroundImage: 'repeating-conic-gradient(#2a2a2a 0% 25%, #333 0% 50%)', backgroundSize: '16px 16px' }}>
+            <img
+              src={blobUrl}
+              alt={file.name}
+              className="max-w-full"
+              onLoad={(e) => setDimensions({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+            />
+          </div>
+        )}
+        {file.kind === 'pdf' && blobUrl && <iframe src={blobUrl} title={file.name} className="w-full h-full border-0" />}
+        {file.kind === 'font' && (
+          <div className="p-6 space-y-4">
+            {fontError && <div className="text-sm text-red-400">{fontError}</div>}
+            {!fontError && !fontFamily && <div className="text-sm text-vscode-text-muted">Loading font…</div>}
+            {fontFamily &&
+              [48, 32, 20, 14].map((size) => (
+                <div key={size} style={{ fontFamily, fontSize: size }} className="text-vscode-text break-words">
+                  {FONT_SAMPLE}
+                </div>
+              ))}
+            {fontFamily && (
+              <div style={{ fontFamily, fontSize: 20 }} className="text-vscode-text break-words">
+                ABCDEFGHIJKLMNOPQRSTUVWXYZ abcdefghijklmnopqrstuvwxyz 0123456789 !?&amp;@#%
+              </div>
+            )}
+          </div>
+        )}
+        {file.kind === 'binary' && (
+          <div className="flex items-center justify-center h-full text-sm text-vscode-text-muted">
+            Binary file — it cannot be edited as text. Use “Replace from disk…” to upload a new version.
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default AssetViewer
@@ -0,0 +1,125 @@
+import React, { useRef, useState } from 'react'
+import { DiffEditor } from '@monaco-editor/react'
+import { ChevronUp, ChevronDown, Undo2 } from 'lucide-react'
+import { useEditorStore, EditorFile } from '../stores/editorStore'
+
+interface LineChange {
+  originalStartLineNumber: number
+  originalEndLineNumber: number
+  modifiedStartLineNumber: number
+  modifiedEndLineNumber: number
+}
+
+// The code tab's content with `change` put back to the compared version.
+// An end line of 0 means the change has no lines on that side.
+const revertChange = (content: string, original: string, change: LineChange) => {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n'
+  const lines = content.split(/\r?\n/)
+  const restored =
+    change.originalEndLineNumber === 0
+      ? []
+      : original.split(/\r?\n/).slice(change.originalStartLineNumber - 1, change.originalEndLineNumber)
+  if (change.modifiedEndLineNumber === 0) {
+    lines.splice(change.modifiedStartLineNumber, 0, ...restored)
+  } else {
+    lines.splice(change.modifiedStartLineNumber - 1, change.modifiedEndLineNumber - change.modifiedStartLineNumber + 1, ...restored)
+  }
+  return lines.join(eol)
+}
+
+const changeLine = (change: LineChange) => Math.max(1, change.modifiedStartLineNumber)
+
+// Read-only diff tab comparing a code tab with the server, a snapshot or the
+// saved local copy. Reverting a change edits the code tab, which stays the
+// place to save from.
+const DiffView: React.FC<{ file: EditorFile }> = ({ file }) => {
+  const source = useEditorStore((state) => state.openFiles.find((f) => f.id === file.diffOf) || null)
+  const [changes, setChanges] = useState<LineChange[]>([])
+  const [current, setCurrent] = useState(0)
+  const modifiedRef = useRef<any>(null)
+  const index = Math.min(current, changes.length - 1)
+
+  const reveal = (next: number) => {
+    const change = changes[next]
+    setCurrent(next)
+    if (!change || !modifiedRef.current) return
+    modifiedRef.current.revealLineInCenter(changeLine(change))
+    modifiedRef.current.setPosition({ lineNumber: changeLine(change), column: 1 })
+  }
+
+  const revert = () => {
+    const change = changes[index]
+    if (!source || !change) return
+    useEditorStore.getState().updateFileContent(source.id, revertChange(source.content, file.diffOriginal || '', change))
+  }
+
+  if (!source) {
+    return (
+      <div className="flex items-center justify-center h-full text-vscode-text-muted text-sm">
+        {file.path} is no longer open, so there is nothing to compare.
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center gap-2 px-3 py-1 text-xs border-b border-vscode-border bg-vscode-sidebar">
+        <span className="text-vscode-text-muted truncate">
+          {file.diffLabel} ⟷ {source.isDirty ? 'editor (unsaved)' : 'editor'} ·{' '}
+          {changes.length === 0 ? 'no changes' : `change ${index + 1} of ${changes.length}`}
+        </span>
+        <div className="flex-1" />
+        <button
+          onClick={() => reveal((index - 1 + changes.length) % changes.length)}
+          disabled={changes.length === 0}
+          className="hover:text-white disabled:opacity-50"
+          title="Previous change"
+        >
+          <ChevronUp size={14} />
+        </button>
+        <button
+          onClick={() => reveal((index + 1) % changes.length)}
+          disabled={changes.length === 0}
+          className="hover:text-white disabled:opacity-50"
+          title="Next change"
+        >
+          <ChevronDown size={14} />
+        </button>
+        <button
+          onClick={revert}
+          disabled={changes.length === 0}
+          className="flex items-center gap-1 px-2 py-0.5 bg-vscode-hover rounded hover:bg-vscode-border disabled:opacity-50"
+          title={`Put this change back to the ${file.diffLabel} version in the editor tab`}
+        >
+          <Undo2 size={12} />
+          Revert change
+        </button>
+      </div>
+      <div className="flex-1 min-h-0">
+        <DiffEditor
+          height="100%"
+          theme="vs-dark"
+          language={source.language}
+          original={file.diffOriginal || ''}
+          modified={source.content}
+          onMount={(editor) => {
+            const modified = editor.getModifiedEditor()
+            modifiedRef.current = modified
+            editor.onDidUpdateDiff(() => setChanges((editor.getLineChanges() || []) as LineChange[]))
+            // Revert applies to the change under the cursor once you click into one.
+            modified.onDidChangeCursorPosition((e) => {
+              const line = e.position.lineNumber
+              const found = (editor.getLineChanges() || []).findIndex(
+                (c) => line >= changeLine(c) && line <= Math.max(changeLine(c), c.modifiedEndLineNumber)
+              )
+              if (found !== -1) setCurrent(found)
+            })
+          }}
+          options={{ readOnly: true, renderSideBySide: true, minimap: { enabled: false }, automaticLayout: true }}
+        />
+      </div>
+    </div>
+  )
+}
+
+export default DiffView
@@ -1,9 +1,13 @@
 import React, { useRef, useEffect, useState } from 'react'
-import { useEditorStore } from '../stores/editorStore'
-import { electronAPI } from '../utils/electronAPI'
+import { useEditorStore, getTextFormat } from '../stores/editorStore'
+import { useTransferStore } from '../stores/transferStore'
+import { electronAPI, FTPDownloadResult, TextFormat } from '../utils/electronAPI'
 import MonacoEditor from './MonacoEditor'
+import AssetViewer from './AssetViewer'
+import DiffView from './DiffView'
 import EditorTabs from './EditorTabs'
 import InspectPanel from './InspectPanel'
+import TransfersPanel from './TransfersPanel'
 
 interface BrowserPreviewProps {
   url: string
@@ -12,6 +16,10 @@ interface BrowserPreviewProps {
    * This is used to save inspector edits back into the synced local file.
    */
   sourcePath: string
+  /**
+   * Connection the source file lives on; saves go to that workspace.
+   */
+  connectionId?: string
   /**
    * Whether this preview tab is currently the active/visible tab.
    * Used to capture and restore scroll position when switching tabs.
@@ -19,7 +27,7 @@ interface BrowserPreviewProps {
   isActive: boolean
 }
 
-const BrowserPreview: React.FC<BrowserPreviewProps> = ({ url, sourcePath, isActive }) => {
+const BrowserPreview: React.FC<BrowserPreviewProps> = ({ url, sourcePath, connectionId, isActive }) => {
   const iframeRef = useRef<HTMLIFrameElement>(null)
   const [showInspect, setShowInspect] = useState(false)
   const [selectedElement, setSelectedElement] = useState<any>(null)
@@ -617,7 +625,7 @@ const BrowserPreview: React.FC<BrowserPreviewProps> = ({ url, sourcePath, isActi
     }
 
     const [baseRes, startAfterRes] = await Promise.all([
-      electronAPI.settingsGetPreviewBaseUrl(),
+      electronAPI.settingsGetPreviewBaseUrl(connectionId),
       electronAPI.settingsGetPreviewStartAfter()
     ])
 
@@ -709,17 +717,20 @@ const BrowserPreview: React.FC<BrowserPreviewProps> = ({ url, sourcePath, isActi
 
       if (htmlRemotePath && hasHtmlWork) {
         const matchingFiles = editorState.openFiles.filter(
-          (f) => f.kind !== 'preview' && f.path === htmlRemotePath
+          (f) => f.kind !== 'preview' && f.path === htmlRemotePath && f.connectionId === connectionId
         )
 
         let sourceContent: string | null = null
+        // Written back in the encoding and line endings the source was opened with.
+        let sourceFormat: TextFormat = {}
         if (matchingFiles.length > 0) {
           sourceContent = matchingFiles[0].content
+          sourceFormat = getTextFormat(matchingFiles[0])
         } else {
-          const dl: { success: boolean; content?: string; error?: string } =
-            await electronAPI.ftpDownloadFile(htmlRemotePath, undefined as any)
+          const dl: FTPDownloadResult = await electronAPI.ftpDownloadFile(htmlRemotePath, undefined as any, undefined, connectionId)
           if (dl.success && typeof dl.content === 'string') {
             sourceContent = dl.content
+            sourceFormat = { encoding: dl.encoding, bom: dl.bom, eol: dl.eol }
           } else {
             const msg =
               dl.error ||
@@ -965,7 +976,7 @@ const BrowserPreview: React.FC<BrowserPreviewProps> = ({ url, sourcePath, isActi
 
           // Persist patched HTML both to the local sync folder (for project search)
           // and directly to the FTP server so the remote file stays authoritative.
-          const htmlRes = await electronAPI.localSaveFile(htmlRemotePath, patched)
+          const htmlRes = await electronAPI.localSaveFile(htmlRemotePath, patched, sourceFormat, connectionId, 'inspector')
           if (!htmlRes.success || !htmlRes.path) {
             const msg = htmlRes.error || 'Failed to save patched HTML to local sync folder'
             editorState.setError(msg)
@@ -973,7 +984,7 @@ const BrowserPreview: React.FC<BrowserPreviewProps> = ({ url, sourcePath, isActi
             return
           }
 
-          const ftpHtmlRes = await electronAPI.ftpUploadFile(htmlRes.path, htmlRemotePath)
+          const ftpHtmlRes = await electronAPI.ftpUploadFile(htmlRes.path, htmlRemotePath, undefined, connectionId, 'inspector')
           if (ftpHtmlRes.success) {
             savedHtml = true
             matchingFiles.forEach((file) => {
@@ -1036,7 +1047,8 @@ const BrowserPreview: React.FC<BrowserPreviewProps> = ({ url, sourcePath, isActi
           }
         }
 
-        const cssRes = await electronAPI.localSaveFile(remotePath, cssText)
+        const openCssFile = editorState.openFiles.find((f) => f.kind !== 'preview' && f.path === remotePath && f.connectionId === connectionId)
+        const cssRes = await electronAPI.localSaveFile(remotePath, cssText, openCssFile ? getTextFormat(openCssFile) : undefined, connectionId, 'inspector')
         if (!cssRes.success || !cssRes.path) {
           const msg =
             cssRes.error || `Failed to save stylesheet to local sync folder: ${remotePath}`
@@ -1044,7 +1056,7 @@ const BrowserPreview: React.FC<BrowserPreviewProps> = ({ url, sourcePath, isActi
           continue
         }
 
-        const ftpCssRes = await electronAPI.ftpUploadFile(cssRes.path, remotePath)
+        const ftpCssRes = await electronAPI.ftpUploadFile(cssRes.path, remotePath, undefined, connectionId, 'inspector')
         if (!ftpCssRes.success) {
           const msg =
             ftpCssRes.error ||
@@ -1056,7 +1068,7 @@ const BrowserPreview: React.FC<BrowserPreviewProps> = ({ url, sourcePath, isActi
         // Update any open editor tabs for this CSS file and mark them clean now
         // that the changes are uploaded to the FTP server.
         const cssFiles = editorState.openFiles.filter(
-          (f) => f.kind !== 'preview' && f.path === remotePath
+          (f) => f.kind !== 'preview' && f.path === remotePath && f.connectionId === connectionId
         )
         cssFiles.forEach((file) => {
           editorState.updateFileContent(file.id, cssText)
@@ -1341,8 +1353,11 @@ const BrowserPreview: React.FC<BrowserPreviewProps> = ({ url, sourcePath, isActi
 
 const EditorArea: React.FC = () => {
   const { activeFile, openFiles } = useEditorStore()
+  const isTransfersOpen = useTransferStore((s) => s.isPanelOpen)
   const currentFile = openFiles.find((f) => f.id === activeFile) || null
   const previewFiles = openFiles.filter((f) => f.kind === 'preview')
+  const isAsset =
+    !!currentFile && currentFile.kind !== undefined && currentFile.kind !== 'code' && currentFile.kind !== 'preview' && currentFile.kind !== 'diff'
 
   return (
     <div className="flex-1 flex flex-col bg-vscode-bg">
@@ -1353,12 +1368,24 @@ const EditorArea: React.FC = () => {
             {/* Keep the Monaco editor mounted at all times; just hide it when a preview tab is active */}
             <div
               className={`absolute inset-0 ${
-                currentFile.kind === 'preview' ? 'hidden' : 'block'
+                currentFile.kind === 'preview' || currentFile.kind === 'diff' || isAsset ? 'hidden' : 'block'
               }`}
             >
               <MonacoEditor />
             </div>
 
+            {currentFile.kind === 'diff' && (
+              <div className="absolute inset-0">
+                <DiffView key={currentFile.id} file={currentFile} />
+              </div>
+            )}
+
+            {isAsset && (
+              <div className="absolute inset-0">
+                <AssetViewer key={currentFile.id} file={currentFile} />
+              </div>
+            )}
+
             {/* Keep each preview iframe mounted while its tab is open; toggle visibility on tab switch */}
             {previewFiles.map((file) => (
               <div
@@ -1370,6 +1397,7 @@ const EditorArea: React.FC = () => {
                 <BrowserPreview
                   url={file.previewUrl || ''}
                   sourcePath={file.path}
+                  connectionId={file.connectionId}
                   isActive={file.id === activeFile}
                 />
               </div>
@@ -1384,6 +1412,7 @@ const EditorArea: React.FC = () => {
           </div>
         )}
       </div>
+      {isTransfersOpen && <TransfersPanel />}
     </div>
   )
 }
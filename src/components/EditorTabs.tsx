@@ -1,11 +1,20 @@
 import React, { useEffect, useState } from 'react'
-import { X } from 'lucide-react'
-import { useEditorStore, EditorFile } from '../stores/editorStore'
+import { X, Lock } from 'lucide-react'
+import { useEditorStore, EditorFile, getTextFormat } from '../stores/editorStore'
+import { useFTPStore, getConnectionKeyById } from '../stores/ftpStore'
 import { electronAPI } from '../utils/electronAPI'
+import { resolveRemoteChanges } from '../utils/remoteChanges'
+import { openDiffTab } from '../utils/diffTabs'
+import UploadHistoryDialog from './UploadHistoryDialog'
+import LockMenuItem from './LockMenuItem'
+import { useLockStore, findLock, describeLock } from '../stores/lockStore'
 
 const EditorTabs: React.FC = () => {
-  const { openFiles, activeFile, closeFile, setActiveFile } = useEditorStore()
+  const { openFiles, activeFile, closeFile, setActiveFile, currentUserId } = useEditorStore()
+  const locks = useLockStore((state) => state.locks)
+  const connections = useFTPStore((state) => state.connections)
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; file: EditorFile } | null>(null)
+  const [historyFile, setHistoryFile] = useState<EditorFile | null>(null)
 
   useEffect(() => {
     const handleGlobalClick = () => setContextMenu(null)
@@ -13,11 +22,11 @@ const EditorTabs: React.FC = () => {
     return () => window.removeEventListener('click', handleGlobalClick)
   }, [])
 
-  const buildPreviewUrlForPath = async (rawPath: string): Promise<string | null> => {
+  const buildPreviewUrlForPath = async (rawPath: string, connectionId?: string): Promise<string | null> => {
     const normalizedPath = String(rawPath || '').replace(/\\/g, '/')
 
     const [baseRes, startAfterRes] = await Promise.all([
-      electronAPI.settingsGetPreviewBaseUrl(),
+      electronAPI.settingsGetPreviewBaseUrl(connectionId),
       electronAPI.settingsGetPreviewStartAfter()
     ])
 
@@ -60,14 +69,14 @@ const EditorTabs: React.FC = () => {
 
   const handleViewInBrowser = async (file: EditorFile) => {
     const path = file.path || ''
-    const url = await buildPreviewUrlForPath(path)
+    const url = await buildPreviewUrlForPath(path, file.connectionId)
     if (!url) return
     await electronAPI.openExternalUrl(url)
   }
 
   const handleViewInTab = async (file: EditorFile) => {
     const path = file.path || ''
-    const url = await buildPreviewUrlForPath(path)
+    const url = await buildPreviewUrlForPath(path, file.connectionId)
     if (!url) return
 
     const editor = useEditorStore.getState()
@@ -83,6 +92,7 @@ const EditorTabs: React.FC = () => {
     editor.openFile({
       id: previewId,
       path,
+      connectionId: file.connectionId,
       name: `${file.name} (Preview)`,
       content: '',
       language: 'plaintext',
@@ -94,6 +104,61 @@ const EditorTabs: React.FC = () => {
     editor.setActiveFile(previewId)
   }
 
+  // Opens (or refreshes) a read-only diff tab between `file` and another copy
+  // of it. Without a snapshot-mode sync, the "last synced" copy is the server
+  // version the tab was opened from or last uploaded.
+  const handleCompare = async (file: EditorFile, against: 'server' | 'snapshot' | 'local') => {
+    const store = useEditorStore.getState()
+    let original: string | undefined
+    let label = ''
+    if (against === 'server') {
+      const dl = await electronAPI.ftpDownloadFile(file.path, undefined as any, { encoding: file.encoding }, file.connectionId)
+      if (!dl.success || dl.binary) {
+        store.setError(dl.error || `${file.path} cannot be compared as text`)
+        return
+      }
+      original = dl.content || ''
+      label = 'server'
+    } else if (against === 'snapshot') {
+      const res = await electronAPI.snapshotReadLatest(file.path, { encoding: file.encoding }, file.connectionId)
+      if (!res.success) {
+        store.setError(res.error || `Failed to read the last synced copy of ${file.path}`)
+        return
+      }
+      if (res.name) {
+        original = res.content || ''
+        label = `snapshot ${res.name}`
+      } else if (file.remoteContent !== undefined) {
+        original = file.remoteContent
+        label = 'last sync'
+      } else {
+        store.setError(`No synced snapshot contains ${file.path}`)
+        return
+      }
+    } else {
+      const res = await electronAPI.localReadFile(file.path, file.connectionId)
+      if (!res.success) {
+        store.setError(res.error || `No saved local copy of ${file.path}`)
+        return
+      }
+      original = res.content || ''
+      label = 'saved local copy'
+    }
+
+    openDiffTab(file, against, original, label)
+  }
+
+  const renderLockIcon = (file: EditorFile) => {
+    if (file.kind && file.kind !== 'code') return null
+    const lock = findLock(locks, file.path, getConnectionKeyById(file.connectionId))
+    if (!lock) return null
+    return (
+      <span title={describeLock(lock)} className="inline-flex">
+        <Lock size={12} className={lock.userId === currentUserId ? 'text-vscode-text-muted' : 'text-yellow-400'} />
+      </span>
+    )
+  }
+
   const computeContentHash = async (content: string): Promise<string> => {
     try {
       const encoder = new TextEncoder()
@@ -114,8 +179,8 @@ const EditorTabs: React.FC = () => {
   }
 
   const handleSaveFile = async (file: EditorFile) => {
-    if (file.kind === 'preview') return
-    const res = await electronAPI.localSaveFile(file.path, file.content)
+    if (file.kind && file.kind !== 'code') return
+    const res = await electronAPI.localSaveFile(file.path, file.content, getTextFormat(file), file.connectionId)
     if (res.success) {
       const store = useEditorStore.getState()
       store.setFileDirty(file.id, false)
@@ -130,7 +195,7 @@ const EditorTabs: React.FC = () => {
   }
 
   const handleSaveAndSync = async (file: EditorFile) => {
-    if (file.kind === 'preview') return
+    if (file.kind && file.kind !== 'code') return
     const store = useEditorStore.getState()
 
     const uid = store.currentUserId
@@ -142,8 +207,9 @@ const EditorTabs: React.FC = () => {
       const activeRes = await electronAPI.dbGetActiveFiles()
       if (activeRes.success && activeRes.files) {
         const now = Date.now()
+        const key = getConnectionKeyById(file.connectionId)
         const others = activeRes.files.filter(
-          (f: any) => f.file_path === file.path && f.user_id !== uid,
+          (f: any) => f.file_path === file.path && f.user_id !== uid && (!f.connection_key || f.connection_key === key),
         )
         const conflictingUsers: string[] = []
         for (const other of others) {
@@ -180,22 +246,27 @@ const EditorTabs: React.FC = () => {
       }
     }
 
-    const localRes = await electronAPI.localSaveFile(file.path, file.content)
+    // Someone may have changed the server copy since it was opened.
+    const content = await resolveRemoteChanges(file)
+    if (content === null) return
+
+    const localRes = await electronAPI.localSaveFile(file.path, content, getTextFormat(file), file.connectionId, 'sync')
     if (!localRes.success || !localRes.path) {
       store.setError(localRes.error || 'Failed to save file to sync folder')
       store.setStatusMessage(null)
       return
     }
-    const ftpRes = await electronAPI.ftpUploadFile(localRes.path, file.path)
+    const ftpRes = await electronAPI.ftpUploadFile(localRes.path, file.path, undefined, file.connectionId, 'sync')
     if (ftpRes.success) {
       store.setFileDirty(file.id, false)
+      store.setRemoteVersion(file.id, ftpRes.remote || null, content)
       store.setStatusMessage(`Saved and synced to server: ${file.path}`)
       store.setError(null)
        try { window.dispatchEvent(new CustomEvent('preview:reload')) } catch {}
       if (uid) {
         try {
-          const hashToStore = newHash ?? (await computeContentHash(file.content))
-          await electronAPI.dbSetActiveFile(String(uid), file.path, hashToStore)
+          const hashToStore = newHash && content === file.content ? newHash : await computeContentHash(content)
+          await electronAPI.dbSetActiveFile(String(uid), file.path, hashToStore, getConnectionKeyById(file.connectionId))
         } catch {
           // Presence/hash updates are best-effort; ignore errors here.
         }
@@ -227,7 +298,7 @@ const EditorTabs: React.FC = () => {
               if (uid) {
                 try {
                   const hash = await computeContentHash(file.content)
-                  await electronAPI.dbSetActiveFile(String(uid), file.path, hash)
+                  await electronAPI.dbSetActiveFile(String(uid), file.path, hash, getConnectionKeyById(file.connectionId))
                 } catch {
                   // Presence updates are best-effort.
                 }
@@ -240,6 +311,12 @@ const EditorTabs: React.FC = () => {
           }}
         >
           <span className="text-sm">{file.name}</span>
+          {renderLockIcon(file)}
+          {connections.length > 1 && file.connectionId && (
+            <span className="text-[10px] px-1 rounded bg-vscode-hover text-vscode-text-muted max-w-[6rem] truncate">
+              {connections.find((c) => c.id === file.connectionId)?.name || 'closed'}
+            </span>
+          )}
           {file.isDirty && (
             <div className="w-2 h-2 bg-orange-500 rounded-full" />
           )}
@@ -247,8 +324,10 @@ const EditorTabs: React.FC = () => {
             onClick={(e) => {
               e.stopPropagation()
               const uid = useEditorStore.getState().currentUserId
-              if (uid) {
-                electronAPI.dbRemoveActiveFile(String(uid), file.path)
+              // A diff tab closing does not mean the file itself was closed.
+              // Removing the presence row also releases a lock you held.
+              if (uid && file.kind !== 'diff') {
+                electronAPI.dbRemoveActiveFile(String(uid), file.path, getConnectionKeyById(file.connectionId))
               }
               closeFile(file.id)
             }}
@@ -285,6 +364,39 @@ const EditorTabs: React.FC = () => {
                 Save and Sync to Server
               </button>
               <div className="h-px bg-vscode-border/50 my-1" />
+              {([
+                ['server', 'Compare with server'],
+                ['snapshot', 'Compare with last synced snapshot'],
+                ['local', 'Compare with saved local copy']
+              ] as const).map(([against, label]) => (
+                <button
+                  key={against}
+                  className="block w-full text-left px-3 py-1 hover:bg-vscode-hover"
+                  onClick={async () => {
+                    const file = contextMenu.file
+                    setContextMenu(null)
+                    await handleCompare(file, against)
+                  }}
+                >
+                  {label}
+                </button>
+              ))}
+              <div className="h-px bg-vscode-border/50 my-1" />
+            </>
+          )}
+          {contextMenu.file.kind !== 'preview' && contextMenu.file.kind !== 'diff' && (
+            <>
+              <button
+                className="block w-full text-left px-3 py-1 hover:bg-vscode-hover"
+                onClick={() => {
+                  setHistoryFile(contextMenu.file)
+                  setContextMenu(null)
+                }}
+              >
+                Upload history…
+              </button>
+              <LockMenuItem path={contextMenu.file.path} connectionId={contextMenu.file.connectionId} onDone={() => setContextMenu(null)} />
+              <div className="h-px bg-vscode-border/50 my-1" />
             </>
           )}
           <button
@@ -307,6 +419,9 @@ const EditorTabs: React.FC = () => {
           </button>
         </div>
       )}
+      {historyFile && (
+        <UploadHistoryDialog path={historyFile.path} connectionId={historyFile.connectionId} onClose={() => setHistoryFile(null)} />
+      )}
     </div>
   )
 }
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react'
+import React, { useState, useEffect, useRef, useMemo } from 'react'
 import {
   ChevronRight,
   ChevronDown,
@@ -11,12 +11,22 @@ import {
   Plus,
   Server,
   Download,
+  Upload,
   Image as ImageIcon,
-  Archive as ArchiveIcon
+  Archive as ArchiveIcon,
+  Lock,
+  X
 } from 'lucide-react'
-import { useFTPStore, FTPFile, FileStatus } from '../stores/ftpStore'
-import { useEditorStore } from '../stores/editorStore'
-import { electronAPI } from '../utils/electronAPI'
+import { useFTPStore, FTPFile, FileStatus, FTPProtocol, FTPAuthMethod, FTPTlsMode, DEFAULT_PORTS, IMPLICIT_FTPS_PORT, getConnectionKeyById } from '../stores/ftpStore'
+import { useEditorStore, EditorFile, getFileTabId } from '../stores/editorStore'
+import { useLockStore, findLock, describeLock } from '../stores/lockStore'
+import { usePresenceStore } from '../stores/presenceStore'
+import { electronAPI, FTPCertificateInfo, SyncReport } from '../utils/electronAPI'
+import PublishDialog from './PublishDialog'
+import SyncReportDialog from './SyncReportDialog'
+import UploadHistoryDialog from './UploadHistoryDialog'
+import LockMenuItem from './LockMenuItem'
+import { createIgnoreMatcher } from '../../electron/shared/ignoreMatcher.mjs'
 
 const DIRECTORY_TOKENS = new Set(['directory', 'dir', 'folder', 'd'])
 const FILE_TOKENS = new Set(['file', 'f'])
@@ -39,26 +49,35 @@ const normalizeFileType = (rawType: unknown, fallback: 'file' | 'directory' = 'f
 const isDirectoryEntry = (type: unknown): boolean => normalizeFileType(type, 'file') === 'directory'
 
 const FTPExplorer: React.FC = () => {
-  const { files, isConnected, currentPath, setFiles, setLoading, setError, error, fileStatuses, setFileStatus } =
+  const { files, isConnected, currentPath, setFiles, setLoading, setError, error, fileStatuses, setFileStatus, connections, activeConnection } =
     useFTPStore()
-  const { openFile: openEditorFile } = useEditorStore()
+  const { openFile: openEditorFile, currentUserId } = useEditorStore()
+  const locks = useLockStore((state) => state.locks)
+  const activeFiles = usePresenceStore((state) => state.activeFiles)
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set())
   const [folderChildren, setFolderChildren] = useState<Record<string, FTPFile[]>>({})
   const [loadingChildren, setLoadingChildren] = useState<Record<string, boolean>>({})
   const [showConnectionDialog, setShowConnectionDialog] = useState(false)
+  const [showPublishDialog, setShowPublishDialog] = useState(false)
   const [connectError, setConnectError] = useState<string | null>(null)
   const [connecting, setConnecting] = useState(false)
   const [savedConnections, setSavedConnections] = useState<any[]>([])
+  const [workspaceMenuOpen, setWorkspaceMenuOpen] = useState(false)
   const inFlightRef = useRef<Set<string>>(new Set())
-  const queueRef = useRef<Promise<void>>(Promise.resolve())
   const blockedRef = useRef<Set<string>>(new Set())
   const clickTimerRef = useRef<number | null>(null)
   const [syncing, setSyncing] = useState(false)
   const [syncCount, setSyncCount] = useState<number | null>(null)
+  const [syncMenuOpen, setSyncMenuOpen] = useState(false)
+  const [historyPath, setHistoryPath] = useState<string | null>(null)
+  const [reportDialog, setReportDialog] = useState<{ report: SyncReport | null; loading: boolean; error: string | null } | null>(null)
+  const [lastSyncFailures, setLastSyncFailures] = useState(0)
   const [syncIgnorePatterns, setSyncIgnorePatterns] = useState<string[]>([])
   const [hideIgnoredInExplorer, setHideIgnoredInExplorer] = useState(false)
   const [hiddenIgnorePatterns, setHiddenIgnorePatterns] = useState<string[]>([])
-  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; file: FTPFile } | null>(null)
+  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; file: FTPFile; isRoot?: boolean } | null>(null)
+  const dragPathRef = useRef<FTPFile | null>(null)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
 
   const getStatusForPath = (path: string): FileStatus | undefined => {
     return fileStatuses[path]
@@ -186,6 +205,7 @@ const FTPExplorer: React.FC = () => {
       editor.openFile({
         id: previewId,
         path: String(file.path || ''),
+        connectionId: useFTPStore.getState().activeConnection || undefined,
         name: `${file.name} (Preview)`,
         content: '',
         language: 'plaintext',
@@ -201,16 +221,10 @@ const FTPExplorer: React.FC = () => {
     }
   }
 
-  function runQueued<T>(fn: () => Promise<T>): Promise<T> {
-    const next = queueRef.current.then(fn)
-    queueRef.current = next.then(() => undefined).catch(() => undefined)
-    return next
-  }
-
   const preloadAll = async (rootPath: string) => {
     setError(null)
     try {
-      const res = await runQueued(() => electronAPI.ftpListAll(rootPath))
+      const res = await electronAPI.ftpListAll(rootPath)
       if (res.success && res.tree) {
         const toFile = (n: any): FTPFile => {
           const hasChildren = (Array.isArray(n.children) && n.children.length > 0) || (Array.isArray(n.items) && n.items.length > 0)
@@ -237,7 +251,7 @@ const FTPExplorer: React.FC = () => {
         walk(res.tree as any[])
         setFolderChildren(childrenMap)
       } else {
-        const rootRes = await runQueued(() => electronAPI.ftpListFiles(rootPath))
+        const rootRes = await electronAPI.ftpListFiles(rootPath)
         if (!rootRes.success || !rootRes.files) {
           setError(res.error || 'Failed to load all files')
           return
@@ -259,7 +273,7 @@ const FTPExplorer: React.FC = () => {
         const childrenMap: Record<string, FTPFile[]> = {}
         const dirs: string[] = top.filter(f => isDirectoryEntry(f.type)).map(f => f.path)
         for (const d of dirs) {
-          const subRes = await runQueued(() => electronAPI.ftpListFiles(d))
+          const subRes = await electronAPI.ftpListFiles(d)
           if (subRes.success && subRes.files) {
             const kids = subRes.files.map(toFile)
             childrenMap[d] = kids
@@ -272,28 +286,39 @@ const FTPExplorer: React.FC = () => {
     }
   }
 
+  // Each workspace starts from a fresh tree when the explorer switches to it.
   useEffect(() => {
+    setExpandedFolders(new Set())
+    setFolderChildren({})
+    setSyncing(false)
+    setSyncCount(null)
     if (isConnected) {
       preloadAll(currentPath || '/')
     }
-  }, [isConnected])
+  }, [isConnected, activeConnection])
 
   
 
+  // Marks who has each listed file open, again whenever presence or the listing changes.
   useEffect(() => {
-    const interval = setInterval(async () => {
-      const active = await electronAPI.dbGetActiveFiles()
-      if (active.success && active.files) {
-        active.files.forEach((af: any) => {
-          useFTPStore.getState().updateFileStatus(af.file_path, true, [af.username])
-        })
+    const key = getConnectionKeyById(activeConnection)
+    const editors = new Map<string, string[]>()
+    activeFiles.forEach((af) => {
+      if (af.connection_key && af.connection_key !== key) return
+      editors.set(af.file_path, [...(editors.get(af.file_path) || []), af.username || ''])
+    })
+    const { updateFileStatus } = useFTPStore.getState()
+    files.forEach((file) => {
+      const users = editors.get(file.path) || []
+      if (!!file.isEditing !== users.length > 0 || (file.editingUsers || []).join() !== users.join()) {
+        updateFileStatus(file.path, users.length > 0, users)
       }
-    }, 3000)
-    return () => clearInterval(interval)
-  }, [])
+    })
+  }, [activeFiles, files, activeConnection])
 
   useEffect(() => {
     const off = electronAPI.onSyncProgress?.((_event, payload) => {
+      if (payload && payload.connectionId && payload.connectionId !== useFTPStore.getState().activeConnection) return
       if (payload && typeof payload.count === 'number') {
         setSyncCount(payload.count)
       }
@@ -344,41 +369,261 @@ const FTPExplorer: React.FC = () => {
     return out
   }
 
-  const matchesIgnorePattern = (file: FTPFile): boolean => {
-    const p = normalizeRemotePath(file.path)
-    const name = file.name || ''
+  // Same gitignore-style matcher the main process uses when syncing.
+  const syncIgnoreMatcher = useMemo(() => createIgnoreMatcher(syncIgnorePatterns), [syncIgnorePatterns])
+  const hiddenMatcher = useMemo(() => createIgnoreMatcher(hiddenIgnorePatterns), [hiddenIgnorePatterns])
+
+  const isIgnoredForSync = (file: FTPFile) => syncIgnoreMatcher(normalizeRemotePath(file.path), file.type === 'directory')
+
+  const isIgnoredByPathOnly = (file: FTPFile) => syncIgnorePatterns.includes(file.path)
+
+  const isHiddenInExplorer = (file: FTPFile) => hiddenMatcher(normalizeRemotePath(file.path), file.type === 'directory')
+
+  const parentOf = (p: string): string => {
+    const norm = normalizeRemotePath(p)
+    const idx = norm.lastIndexOf('/')
+    return idx <= 0 ? '/' : norm.slice(0, idx)
+  }
+
+  const joinRemote = (dir: string, name: string): string => {
+    const base = normalizeRemotePath(dir)
+    return base === '/' ? `/${name}` : `${base}/${name}`
+  }
+
+  const isInside = (p: string, folder: string) => p === folder || p.startsWith(folder === '/' ? '/' : folder + '/')
+
+  // The top level of the tree is whatever folder the server listed for
+  // currentPath (usually the connection's default path).
+  const getRootDir = (): string => (files.length > 0 ? parentOf(files[0].path) : normalizeRemotePath(currentPath))
+
+  const isValidEntryName = (name: string) => !!name && name !== '.' && name !== '..' && !/[\\/]/.test(name)
+
+  const reloadFolder = async (dir: string) => {
+    const target = normalizeRemotePath(dir)
+    const res = await electronAPI.ftpListFiles(target)
+    if (!res.success || !res.files) {
+      setError(res.error || 'Failed to refresh folder')
+      return
+    }
+    const mapped: FTPFile[] = res.files.map((item: any) => ({
+      name: item.name,
+      path: item.path,
+      type: normalizeFileType(item.type, item && item.isDirectory === true ? 'directory' : 'file'),
+      size: Number(item.size ?? 0) || 0,
+      modified: item.modified ? new Date(item.modified) : (item.modifiedAt ? new Date(item.modifiedAt) : new Date())
+    }))
+    if (target === getRootDir()) {
+      setFiles(mapped)
+    } else {
+      setFolderChildren((prev) => ({ ...prev, [target]: mapped }))
+    }
+  }
+
+  // Drop cached listings and expanded state for a folder that moved or was deleted.
+  const forgetFolder = (folder: string) => {
+    setFolderChildren((prev) => {
+      const next: Record<string, FTPFile[]> = {}
+      Object.keys(prev).forEach((key) => {
+        if (!isInside(normalizeRemotePath(key), folder)) next[key] = prev[key]
+      })
+      return next
+    })
+    setExpandedFolders((prev) => new Set(Array.from(prev).filter((key) => !isInside(normalizeRemotePath(key), folder))))
+  }
 
-    return syncIgnorePatterns.some((patternRaw) => {
-      if (!patternRaw) return false
-      const pattern = String(patternRaw)
-      if (pattern.includes('/') || pattern.startsWith('/')) {
-        const normPattern = normalizeRemotePath(pattern)
-        return p === normPattern || p.startsWith(normPattern + '/')
+  // Open tabs, active-file records and status marks follow the entry to its new path.
+  const followRename = async (oldPath: string, newPath: string) => {
+    const editor = useEditorStore.getState()
+    const uid = editor.currentUserId
+    const connectionId = useFTPStore.getState().activeConnection
+    const key = getConnectionKeyById(connectionId)
+    for (const f of editor.openFiles) {
+      if (f.kind === 'preview' || (f.connectionId && f.connectionId !== connectionId)) continue
+      const current = normalizeRemotePath(f.path)
+      if (!isInside(current, oldPath)) continue
+      const nextPath = newPath + current.slice(oldPath.length)
+      editor.renameFile(f.id, nextPath, nextPath.split('/').pop() || f.name)
+      if (uid && f.kind !== 'diff') {
+        await electronAPI.dbRemoveActiveFile(String(uid), f.path, key)
+        await electronAPI.dbSetActiveFile(String(uid), nextPath, null, key)
       }
-      return name.startsWith(pattern) || name.endsWith(pattern)
+    }
+    Object.entries(useFTPStore.getState().fileStatuses).forEach(([key, status]) => {
+      const current = normalizeRemotePath(key)
+      if (!status || !isInside(current, oldPath)) return
+      setFileStatus(key, undefined)
+      setFileStatus(newPath + current.slice(oldPath.length), status)
     })
   }
 
-  const isIgnoredForSync = (file: FTPFile) => matchesIgnorePattern(file)
+  const closeDeletedTabs = async (removedPath: string) => {
+    const editor = useEditorStore.getState()
+    const uid = editor.currentUserId
+    const connectionId = useFTPStore.getState().activeConnection
+    const key = getConnectionKeyById(connectionId)
+    for (const f of editor.openFiles) {
+      if (f.kind === 'preview' || (f.connectionId && f.connectionId !== connectionId)) continue
+      if (!isInside(normalizeRemotePath(f.path), removedPath)) continue
+      editor.closeFile(f.id)
+      if (uid && f.kind !== 'diff') {
+        await electronAPI.dbRemoveActiveFile(String(uid), f.path, key)
+      }
+    }
+  }
 
-  const isIgnoredByPathOnly = (file: FTPFile) => syncIgnorePatterns.includes(file.path)
+  const createRemoteEntry = async (parentDir: string, kind: 'file' | 'directory') => {
+    const name = window.prompt(kind === 'file' ? 'New file name' : 'New folder name', '')?.trim()
+    if (!name) return
+    if (!isValidEntryName(name)) {
+      setError(`Invalid name: ${name}`)
+      return
+    }
+    const target = joinRemote(parentDir, name)
+    setError(null)
+    try {
+      const existing = await electronAPI.ftpExists(target)
+      if (existing.success && existing.exists) {
+        setError(`${target} already exists`)
+        return
+      }
+      const res = kind === 'file'
+        ? await electronAPI.ftpUploadFile('', target)
+        : await electronAPI.ftpCreateDirectory(target)
+      if (!res.success) {
+        setError(res.error || `Failed to create ${kind === 'file' ? 'file' : 'folder'}`)
+        return
+      }
+      const dir = normalizeRemotePath(parentDir)
+      if (dir !== getRootDir() && !expandedFolders.has(dir)) {
+        setExpandedFolders((prev) => new Set(prev).add(dir))
+      }
+      await reloadFolder(dir)
+      useEditorStore.getState().setStatusMessage(`Created ${target}`)
+      if (kind === 'file') {
+        await openFile({ name, path: target, type: 'file', size: 0, modified: new Date() })
+      }
+    } catch (err) {
+      console.error('FTPExplorer create error', err)
+      setError(`Failed to create ${kind === 'file' ? 'file' : 'folder'}`)
+    }
+  }
 
-  const matchesHiddenPattern = (file: FTPFile): boolean => {
-    const p = normalizeRemotePath(file.path)
-    const name = file.name || ''
+  const moveRemoteEntry = async (file: FTPFile, newPath: string) => {
+    const oldPath = normalizeRemotePath(file.path)
+    if (newPath === oldPath) return
+    setError(null)
+    try {
+      const existing = await electronAPI.ftpExists(newPath)
+      if (existing.success && existing.exists) {
+        setError(`${newPath} already exists`)
+        return
+      }
+      const res = await electronAPI.ftpRename(oldPath, newPath)
+      if (!res.success) {
+        setError(res.error || 'Failed to rename')
+        return
+      }
+      if (isDirectoryEntry(file.type)) forgetFolder(oldPath)
+      await followRename(oldPath, newPath)
+      await reloadFolder(parentOf(oldPath))
+      if (parentOf(newPath) !== parentOf(oldPath)) {
+        await reloadFolder(parentOf(newPath))
+      }
+      useEditorStore.getState().setStatusMessage(`Moved ${oldPath} to ${newPath}`)
+    } catch (err) {
+      console.error('FTPExplorer rename error', err)
+      setError('Failed to rename')
+    }
+  }
 
-    return hiddenIgnorePatterns.some((patternRaw) => {
-      if (!patternRaw) return false
-      const pattern = String(patternRaw)
-      if (pattern.includes('/') || pattern.startsWith('/')) {
-        const normPattern = normalizeRemotePath(pattern)
-        return p === normPattern || p.startsWith(normPattern + '/')
+  const renameRemoteEntry = async (file: FTPFile) => {
+    const name = window.prompt('Rename to', file.name)?.trim()
+    if (!name || name === file.name) return
+    if (!isValidEntryName(name)) {
+      setError(`Invalid name: ${name}`)
+      return
+    }
+    await moveRemoteEntry(file, joinRemote(parentOf(file.path), name))
+  }
+
+  const deleteRemoteEntry = async (file: FTPFile) => {
+    const target = normalizeRemotePath(file.path)
+    const isDirectory = isDirectoryEntry(file.type)
+    const dirtyTabs = useEditorStore.getState().openFiles.filter(
+      (f) => f.kind !== 'preview' && f.isDirty && isInside(normalizeRemotePath(f.path), target)
+    )
+    const message = (isDirectory
+      ? `Delete the folder "${file.name}" and everything inside it from the server?`
+      : `Delete "${file.name}" from the server?`) +
+      (dirtyTabs.length > 0 ? `\n\n${dirtyTabs.length} open tab(s) with unsaved changes will be closed.` : '') +
+      '\n\nThis cannot be undone.'
+    if (!window.confirm(message)) return
+    setError(null)
+    try {
+      const res = isDirectory
+        ? await electronAPI.ftpDeleteDirectory(target)
+        : await electronAPI.ftpDeleteFile(target)
+      if (!res.success) {
+        setError(res.error || 'Failed to delete')
+        return
       }
-      return name.startsWith(pattern) || name.endsWith(pattern)
-    })
+      if (isDirectory) forgetFolder(target)
+      await closeDeletedTabs(target)
+      Object.keys(useFTPStore.getState().fileStatuses).forEach((key) => {
+        if (isInside(normalizeRemotePath(key), target)) setFileStatus(key, undefined)
+      })
+      await reloadFolder(parentOf(target))
+      useEditorStore.getState().setStatusMessage(`Deleted ${target}`)
+    } catch (err) {
+      console.error('FTPExplorer delete error', err)
+      setError('Failed to delete')
+    }
+  }
+
+  const canDropInto = (dragged: FTPFile | null, folder: string): boolean => {
+    if (!dragged) return false
+    const source = normalizeRemotePath(dragged.path)
+    if (parentOf(source) === folder) return false
+    // A folder cannot be moved into itself or one of its descendants.
+    return !isInside(folder, source)
+  }
+
+  const handleDropInto = async (folder: string) => {
+    const dragged = dragPathRef.current
+    dragPathRef.current = null
+    setDropTarget(null)
+    if (!dragged || !canDropInto(dragged, folder)) return
+    const newPath = joinRemote(folder, dragged.name)
+    if (!window.confirm(`Move "${dragged.name}" to ${folder}?`)) return
+    await moveRemoteEntry(dragged, newPath)
   }
 
-  const isHiddenInExplorer = (file: FTPFile) => matchesHiddenPattern(file)
+  useEffect(() => {
+    if (!syncMenuOpen) return
+    const close = () => setSyncMenuOpen(false)
+    window.addEventListener('click', close)
+    return () => window.removeEventListener('click', close)
+  }, [syncMenuOpen])
+
+  useEffect(() => {
+    setLastSyncFailures(0)
+    if (!isConnected) return
+    ;(async () => {
+      const res = await electronAPI.syncGetLastReport()
+      if (res.success && res.report) setLastSyncFailures(res.report.failureCount || 0)
+    })()
+  }, [isConnected, activeConnection])
+
+  const getSyncSource = async (): Promise<{ folder: string; ignore: string[] } | null> => {
+    const folderRes = await electronAPI.settingsGetSyncFolder()
+    if (!folderRes.success || !folderRes.path) {
+      setError('No sync folder configured. Set it in the Settings tab.')
+      return null
+    }
+    const ignoreRes = await electronAPI.settingsGetSyncIgnore()
+    const ignore = ignoreRes.success && ignoreRes.patterns ? ignoreRes.patterns : []
+    return { folder: folderRes.path, ignore }
+  }
 
   const handleSyncClick = async () => {
     if (!isConnected || syncing) return
@@ -386,19 +631,32 @@ const FTPExplorer: React.FC = () => {
     setSyncCount(0)
     setSyncing(true)
     try {
-      const folderRes = await electronAPI.settingsGetSyncFolder()
-      if (!folderRes.success || !folderRes.path) {
-        setError('No sync folder configured. Set it in the Settings tab.')
+      const source = await getSyncSource()
+      if (!source) {
         setSyncing(false)
         return
       }
-      const ignoreRes = await electronAPI.settingsGetSyncIgnore()
-      const ignore = ignoreRes.success && ignoreRes.patterns ? ignoreRes.patterns : []
       // Use the FTP root as the sync source; the service will walk using the same
       // paths that power the explorer and the ignore list.
-      const syncRes = await electronAPI.ftpSyncToLocal('/', folderRes.path, ignore)
+      const syncRes = await electronAPI.ftpSyncToLocal('/', source.folder, source.ignore)
       if (!syncRes.success) {
         setError(syncRes.error || 'Failed to sync files')
+        return
+      }
+      const failed = syncRes.failed ?? 0
+      setLastSyncFailures(failed)
+      const failedText = failed > 0 ? `, ${failed} failed (see sync report)` : ''
+      const conflicts = syncRes.conflicts ?? 0
+      const conflictText = conflicts > 0 ? `, ${conflicts} not downloaded over local edits` : ''
+      if (syncRes.mode === 'incremental') {
+        useEditorStore.getState().setStatusMessage(
+          `Sync complete: ${syncRes.count ?? 0} updated, ${syncRes.skipped ?? 0} unchanged, ${syncRes.deleted ?? 0} deleted on server${conflictText}${failedText}`
+        )
+      } else {
+        useEditorStore.getState().setStatusMessage(`Snapshot complete: ${syncRes.count ?? 0} files${failedText}`)
+      }
+      if ((failed > 0 || conflicts > 0) && syncRes.report) {
+        setReportDialog({ report: syncRes.report, loading: false, error: null })
       }
     } catch (err) {
       console.error('FTPExplorer sync error', err)
@@ -408,6 +666,103 @@ const FTPExplorer: React.FC = () => {
     }
   }
 
+  const handleDryRunClick = async () => {
+    if (!isConnected || syncing) return
+    setError(null)
+    const source = await getSyncSource()
+    if (!source) return
+    setReportDialog({ report: null, loading: true, error: null })
+    try {
+      const res = await electronAPI.ftpSyncDryRun('/', source.folder, source.ignore)
+      setReportDialog({ report: res.report || null, loading: false, error: res.success ? null : res.error || 'Dry run failed' })
+    } catch (err) {
+      console.error('FTPExplorer dry run error', err)
+      setReportDialog({ report: null, loading: false, error: 'Dry run failed' })
+    }
+  }
+
+  const handleShowReportClick = async () => {
+    setReportDialog({ report: null, loading: true, error: null })
+    const res = await electronAPI.syncGetLastReport()
+    setReportDialog({ report: res.report || null, loading: false, error: res.success ? null : res.error || 'Failed to load sync report' })
+  }
+
+  const connectSavedConnection = async (c: any, trustedFingerprint?: string) => {
+    const p = await electronAPI.settingsGetFTPPassword(c.id)
+    const usesKey = c.protocol === 'sftp' && c.authMethod === 'privateKey'
+    if (!p.success || (!p.password && !usesKey)) return
+    setLoading(true)
+    const fingerprint = trustedFingerprint || c.trustedFingerprint || ''
+    const res = await electronAPI.ftpConnect({
+      protocol: c.protocol || 'ftp',
+      host: c.host,
+      port: c.port,
+      username: c.username,
+      password: p.password,
+      authMethod: c.authMethod || 'password',
+      privateKeyPath: c.privateKeyPath || '',
+      passphrase: p.passphrase || '',
+      tlsMode: c.tlsMode,
+      trustedFingerprint: fingerprint,
+      defaultPath: c.default_path || c.defaultPath || '/'
+    }, String(c.id))
+    if (res.success) {
+      const { setConnectionStatus, setActiveConnection, addConnection, setCurrentPath } = useFTPStore.getState()
+      addConnection({ id: String(c.id), name: c.name, host: c.host, port: c.port, username: c.username, password: '', defaultPath: c.default_path || c.defaultPath || '/', appendedUrl: c.appendedUrl || '', protocol: c.protocol || 'ftp', authMethod: c.authMethod, privateKeyPath: c.privateKeyPath, tlsMode: c.tlsMode, trustedFingerprint: fingerprint || undefined, isConnected: true })
+      setActiveConnection(String(c.id))
+      setConnectionStatus(true)
+      setCurrentPath(c.default_path || c.defaultPath || '/')
+      setLoading(false)
+      setError(null)
+      return
+    }
+    setLoading(false)
+    setError(res.error || 'Failed to connect')
+    const cert = res.certificate
+    if (cert && cert.fingerprint) {
+      const proceed = window.confirm(
+        (cert.code === 'CERT_CHANGED'
+          ? `The TLS certificate for ${c.host} has CHANGED since you trusted it.\n\n` +
+            'This is expected after a certificate renewal, but it can also mean the connection is being intercepted.\n\n' +
+            `Previously trusted: ${cert.trustedFingerprint}\n`
+          : `The TLS certificate for ${c.host} is not trusted.\n\n`) +
+          `Fingerprint (SHA-256): ${cert.fingerprint}\n` +
+          `Subject: ${cert.subject}\nIssuer: ${cert.issuer}\nValid: ${cert.validFrom} – ${cert.validTo}\n\n` +
+          'Trust this certificate for this connection and connect?',
+      )
+      if (!proceed) return
+      await electronAPI.settingsUpdateFTPConnection(c.id, { trustedFingerprint: cert.fingerprint })
+      setSavedConnections((prev) => prev.map((x) => (x.id === c.id ? { ...x, trustedFingerprint: cert.fingerprint } : x)))
+      await connectSavedConnection(c, cert.fingerprint)
+    }
+  }
+
+  // Disconnects a workspace and closes its tabs; the explorer moves on to the
+  // next open connection.
+  const closeWorkspace = async (connectionId: string) => {
+    const editor = useEditorStore.getState()
+    const tabs = editor.openFiles.filter((f) => f.connectionId === connectionId)
+    const name = connections.find((c) => c.id === connectionId)?.name || 'this connection'
+    if (tabs.some((f) => f.isDirty) && !window.confirm(`Close ${name}? Unsaved changes in its tabs will be lost.`)) return
+    const uid = editor.currentUserId
+    const key = getConnectionKeyById(connectionId)
+    for (const f of tabs) {
+      editor.closeFile(f.id)
+      if (uid && f.kind !== 'preview' && f.kind !== 'diff') {
+        await electronAPI.dbRemoveActiveFile(String(uid), f.path, key)
+      }
+    }
+    await electronAPI.ftpDisconnect(connectionId)
+    useFTPStore.getState().removeConnection(connectionId)
+  }
+
+  useEffect(() => {
+    if (!workspaceMenuOpen) return
+    const close = () => setWorkspaceMenuOpen(false)
+    window.addEventListener('click', close)
+    return () => window.removeEventListener('click', close)
+  }, [workspaceMenuOpen])
+
   useEffect(() => {
     const onKey = (e: KeyboardEvent) => {
       if (e.key === 'Escape' && showConnectionDialog) {
@@ -440,7 +795,7 @@ const FTPExplorer: React.FC = () => {
     try {
       const targetPath = overridePath || currentPath || '/'
       console.log('FTPExplorer loadFiles', { targetPath })
-      const res = await runQueued(() => electronAPI.ftpListFiles(targetPath))
+      const res = await electronAPI.ftpListFiles(targetPath)
       if (res.success && res.files) {
         console.log('FTPExplorer loadFiles success', { count: res.files.length })
         const mapped: FTPFile[] = res.files.map((item: any) => {
@@ -478,32 +833,40 @@ const FTPExplorer: React.FC = () => {
       return
     }
 
+    // The tab belongs to the workspace it was opened from, even if the user
+    // switches workspaces while it downloads.
+    const connectionId = useFTPStore.getState().activeConnection || undefined
     try {
-      // Serialize downloads with other FTP operations to avoid basic-ftp
-      // "User launched a task while another one is still running" errors.
-      const dl = await runQueued(() => electronAPI.ftpDownloadFile(file.path, undefined as any))
+      const dl = await electronAPI.ftpDownloadFile(file.path, undefined as any, undefined, connectionId)
       if (!dl.success) {
         console.error('FTPExplorer download failed', dl.error)
         setError(dl.error || 'Failed to download file')
         return
       }
-      const content = dl.content || ''
-      console.log('FTPExplorer download success', { bytes: content.length })
+      const content = dl.binary ? '' : dl.content || ''
+      console.log('FTPExplorer download success', { bytes: dl.size ?? content.length, binary: !!dl.binary })
       
-      const editorFile = {
-        id: file.path,
+      // Images, fonts, PDFs and other binary files open in a read-only viewer
+      // and keep their exact bytes.
+      const editorFile: EditorFile = {
+        id: getFileTabId(file.path, connectionId),
         path: file.path,
+        connectionId,
         name: file.name,
         content,
-        language: getLanguageFromExtension(file.name),
+        language: dl.binary ? 'plaintext' : getLanguageFromExtension(file.name),
         isDirty: false,
-        lastModified: file.modified
+        lastModified: file.modified,
+        remoteVersion: dl.remote,
+        ...(dl.binary
+          ? { kind: dl.assetKind || 'binary', binaryData: dl.base64 || '', mimeType: dl.mimeType, size: dl.size }
+          : { encoding: dl.encoding, bom: dl.bom, eol: dl.eol, remoteContent: content })
       }
       
       openEditorFile(editorFile)
       const uid = useEditorStore.getState().currentUserId
       if (uid) {
-        await electronAPI.dbSetActiveFile(String(uid), file.path)
+        await electronAPI.dbSetActiveFile(String(uid), file.path, null, getConnectionKeyById(connectionId))
       }
     } catch (error) {
       console.error('FTPExplorer openFile error', error)
@@ -551,7 +914,7 @@ const FTPExplorer: React.FC = () => {
         setLoadingChildren((prev) => ({ ...prev, [file.path]: true }))
         try {
           console.log('FTPExplorer loadChildren start', { path: file.path })
-          const res = await runQueued(() => electronAPI.ftpListFiles(file.path))
+          const res = await electronAPI.ftpListFiles(file.path)
           if (res.success && res.files) {
             const mapped: FTPFile[] = res.files.map((item: any) => {
               const fallbackType: 'file' | 'directory' = item && item.isDirectory === true ? 'directory' : 'file'
@@ -593,7 +956,7 @@ const FTPExplorer: React.FC = () => {
       setLoadingChildren((prev) => ({ ...prev, [file.path]: true }))
       try {
         console.log('FTPExplorer loadChildren start (double-click)', { path: file.path })
-        const res = await runQueued(() => electronAPI.ftpListFiles(file.path))
+        const res = await electronAPI.ftpListFiles(file.path)
         if (res.success && res.files) {
           const mapped: FTPFile[] = res.files.map((item: any) => {
             const fallbackType: 'file' | 'directory' = item && item.isDirectory === true ? 'directory' : 'file'
@@ -637,12 +1000,38 @@ const FTPExplorer: React.FC = () => {
       const isDirectory = isDirectoryEntry(file.type)
       const status = getStatusForPath(file.path)
       const statusTextClass = getStatusTextClass(status)
+      const lock = isDirectory ? null : findLock(locks, file.path, getConnectionKeyById(activeConnection))
       return (
         <div key={file.path} className="select-none">
           <div
             className={`flex items-center gap-2 px-3 py-1 hover:bg-vscode-hover cursor-pointer transition-colors ${
               isIgnoredForSync(file) ? 'opacity-60' : ''
-            }`}
+            } ${dropTarget === normalizeRemotePath(file.path) ? 'bg-vscode-hover outline outline-1 outline-vscode-accent' : ''}`}
+            draggable
+            onDragStart={(e) => {
+              dragPathRef.current = file
+              e.dataTransfer.effectAllowed = 'move'
+              e.dataTransfer.setData('text/plain', file.path)
+            }}
+            onDragEnd={() => {
+              dragPathRef.current = null
+              setDropTarget(null)
+            }}
+            onDragOver={(e) => {
+              if (!isDirectory) return
+              const folder = normalizeRemotePath(file.path)
+              if (!canDropInto(dragPathRef.current, folder)) return
+              e.preventDefault()
+              e.stopPropagation()
+              e.dataTransfer.dropEffect = 'move'
+              if (dropTarget !== folder) setDropTarget(folder)
+            }}
+            onDrop={async (e) => {
+              if (!isDirectory) return
+              e.preventDefault()
+              e.stopPropagation()
+              await handleDropInto(normalizeRemotePath(file.path))
+            }}
             onClick={async () => {
               // Simple, reliable behaviour:
               // - Single click on a folder toggles expand/collapse
@@ -655,6 +1044,7 @@ const FTPExplorer: React.FC = () => {
             }}
             onContextMenu={(e) => {
               e.preventDefault()
+              e.stopPropagation()
               setContextMenu({ x: e.clientX, y: e.clientY, file })
             }}
             onDoubleClick={(e) => {
@@ -685,7 +1075,7 @@ const FTPExplorer: React.FC = () => {
                       setLoadingChildren((prev) => ({ ...prev, [file.path]: true }))
                       try {
                         console.log('FTPExplorer loadChildren start (chevron)', { path: file.path })
-                        const res = await runQueued(() => electronAPI.ftpListFiles(file.path))
+                        const res = await electronAPI.ftpListFiles(file.path)
                         if (res.success && res.files) {
                           const mapped: FTPFile[] = res.files.map((item: any) => {
                             const fallbackType: 'file' | 'directory' = item && item.isDirectory === true ? 'directory' : 'file'
@@ -730,6 +1120,12 @@ const FTPExplorer: React.FC = () => {
               </span>
             )}
             
+            {lock && (
+              <span title={describeLock(lock)} className="inline-flex">
+                <Lock size={12} className={lock.userId === currentUserId ? 'text-vscode-text-muted' : 'text-yellow-400'} />
+              </span>
+            )}
+
             {file.isEditing && (
               <div className="flex items-center gap-1">
                 <div className="w-2 h-2 bg-orange-500 rounded-full" />
@@ -768,33 +1164,80 @@ const FTPExplorer: React.FC = () => {
               <div className="text-sm mb-2">Saved Connections</div>
               <div className="space-y-2">
                 {savedConnections.map((c) => (
-                  <button key={c.id} onClick={async () => {
-                    const p = await electronAPI.settingsGetFTPPassword(c.id)
-                    if (p.success && p.password) {
-                      setLoading(true)
-                      const res = await electronAPI.ftpConnect({ host: c.host, port: c.port, username: c.username, password: p.password, defaultPath: c.default_path || c.defaultPath || '/' })
-                      if (res.success) {
-                        const { setConnectionStatus, setActiveConnection, addConnection, setCurrentPath } = useFTPStore.getState()
-                        addConnection({ id: String(c.id), name: c.name, host: c.host, port: c.port, username: c.username, password: '', defaultPath: c.default_path || c.defaultPath || '/', appendedUrl: c.appendedUrl || '', isConnected: true })
-                        setActiveConnection(String(c.id))
-                        setConnectionStatus(true)
-                        setCurrentPath(c.default_path || c.defaultPath || '/')
-                        await preloadAll(c.default_path || c.defaultPath || '/')
-                        setLoading(false)
-                        setError(null)
-                      } else {
-                        setLoading(false)
-                        setError(res.error || 'Failed to connect')
-                      }
-                    }
-                  }} className="w-full px-3 py-2 bg-vscode-hover rounded border border-vscode-border text-sm text-left hover:bg-vscode-border transition-colors">{c.name} ({c.host})</button>
+                  <button key={c.id} onClick={() => connectSavedConnection(c)} className="w-full px-3 py-2 bg-vscode-hover rounded border border-vscode-border text-sm text-left hover:bg-vscode-border transition-colors">{c.name} ({c.protocol === 'sftp' ? 'sftp://' : c.protocol === 'ftps' ? 'ftps://' : ''}{c.host})</button>
                 ))}
               </div>
+              {error && (
+                <div className="mt-2 text-xs text-red-400 break-words">{error}</div>
+              )}
             </div>
           )}
         </div>
       ) : (
         <>
+          <div className="px-2 pt-2 flex items-center gap-1 flex-wrap text-xs">
+            {connections.map((c) => (
+              <div
+                key={c.id}
+                className={`flex items-center gap-1 pl-2 pr-1 py-0.5 rounded border ${
+                  c.id === activeConnection ? 'border-vscode-accent bg-vscode-hover' : 'border-vscode-border hover:bg-vscode-hover'
+                }`}
+              >
+                <button
+                  onClick={() => useFTPStore.getState().switchConnection(c.id)}
+                  className="max-w-[8rem] truncate"
+                  title={`${c.username}@${c.host}:${c.port}`}
+                >
+                  {c.name || c.host}
+                </button>
+                <button onClick={() => closeWorkspace(c.id)} className="text-vscode-text-muted hover:text-white" title="Disconnect">
+                  <X size={12} />
+                </button>
+              </div>
+            ))}
+            <div className="relative">
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  setWorkspaceMenuOpen((open) => !open)
+                }}
+                className="p-1 hover:bg-vscode-hover rounded transition-colors"
+                title="Open another connection"
+              >
+                <Plus size={12} />
+              </button>
+              {workspaceMenuOpen && (
+                <div
+                  className="absolute left-0 top-full mt-1 z-50 bg-vscode-sidebar border border-vscode-border rounded shadow-lg text-sm whitespace-nowrap"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  {savedConnections
+                    .filter((c) => !connections.some((open) => open.id === String(c.id)))
+                    .map((c) => (
+                      <button
+                        key={c.id}
+                        className="block w-full text-left px-3 py-1 hover:bg-vscode-hover"
+                        onClick={() => {
+                          setWorkspaceMenuOpen(false)
+                          connectSavedConnection(c)
+                        }}
+                      >
+                        {c.name} ({c.host})
+                      </button>
+                    ))}
+                  <button
+                    className="block w-full text-left px-3 py-1 hover:bg-vscode-hover"
+                    onClick={() => {
+                      setWorkspaceMenuOpen(false)
+                      setShowConnectionDialog(true)
+                    }}
+                  >
+                    New connection…
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
           <div className="p-2 border-b border-vscode-border flex items-center gap-2">
             <button
               onClick={() => preloadAll(currentPath || '/')}
@@ -803,13 +1246,61 @@ const FTPExplorer: React.FC = () => {
             >
               <RefreshCw size={14} />
             </button>
+            <div className="relative">
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  setSyncMenuOpen((open) => !open)
+                }}
+                className={`p-2 hover:bg-vscode-hover rounded transition-colors relative ${syncing ? 'opacity-50 cursor-default' : ''}`}
+                title={lastSyncFailures > 0 ? `Sync from FTP to local folder (last sync: ${lastSyncFailures} failed)` : 'Sync from FTP to local folder'}
+                disabled={syncing}
+              >
+                <Download size={14} />
+                {lastSyncFailures > 0 && <span className="absolute top-1 right-1 w-1.5 h-1.5 rounded-full bg-red-500" />}
+              </button>
+              {syncMenuOpen && (
+                <div
+                  className="absolute left-0 top-full mt-1 z-50 bg-vscode-sidebar border border-vscode-border rounded shadow-lg text-sm whitespace-nowrap"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <button
+                    className="block w-full text-left px-3 py-1 hover:bg-vscode-hover"
+                    onClick={() => {
+                      setSyncMenuOpen(false)
+                      handleSyncClick()
+                    }}
+                  >
+                    Sync now
+                  </button>
+                  <button
+                    className="block w-full text-left px-3 py-1 hover:bg-vscode-hover"
+                    onClick={() => {
+                      setSyncMenuOpen(false)
+                      handleDryRunClick()
+                    }}
+                  >
+                    Dry run…
+                  </button>
+                  <button
+                    className="block w-full text-left px-3 py-1 hover:bg-vscode-hover"
+                    onClick={() => {
+                      setSyncMenuOpen(false)
+                      handleShowReportClick()
+                    }}
+                  >
+                    View last sync report{lastSyncFailures > 0 ? ` (${lastSyncFailures} failed)` : ''}
+                  </button>
+                </div>
+              )}
+            </div>
             <button
-              onClick={handleSyncClick}
+              onClick={() => setShowPublishDialog(true)}
               className={`p-2 hover:bg-vscode-hover rounded transition-colors ${syncing ? 'opacity-50 cursor-default' : ''}`}
-              title="Sync from FTP to local folder"
+              title="Publish local changes to the server"
               disabled={syncing}
             >
-              <Download size={14} />
+              <Upload size={14} />
             </button>
             {syncing && (
               <span className="text-xs text-vscode-text-muted ml-1">
@@ -822,7 +1313,28 @@ const FTPExplorer: React.FC = () => {
               </div>
             )}
           </div>
-          <div className="flex-1">
+          <div
+            className={`flex-1 ${dropTarget === getRootDir() ? 'bg-vscode-hover' : ''}`}
+            onContextMenu={(e) => {
+              e.preventDefault()
+              const root = getRootDir()
+              setContextMenu({ x: e.clientX, y: e.clientY, file: { name: root, path: root, type: 'directory', size: 0, modified: new Date() }, isRoot: true })
+            }}
+            onDragOver={(e) => {
+              const root = getRootDir()
+              if (!canDropInto(dragPathRef.current, root)) return
+              e.preventDefault()
+              e.dataTransfer.dropEffect = 'move'
+              if (dropTarget !== root) setDropTarget(root)
+            }}
+            onDragLeave={(e) => {
+              if (e.currentTarget === e.target) setDropTarget(null)
+            }}
+            onDrop={async (e) => {
+              e.preventDefault()
+              await handleDropInto(getRootDir())
+            }}
+          >
             {renderFileTree(files)}
           </div>
         </>
@@ -831,6 +1343,28 @@ const FTPExplorer: React.FC = () => {
       {showConnectionDialog && (
         <FTPConnectionDialog onClose={() => setShowConnectionDialog(false)} />
       )}
+      {showPublishDialog && (
+        <PublishDialog onClose={() => setShowPublishDialog(false)} />
+      )}
+      {reportDialog && (
+        <SyncReportDialog
+          report={reportDialog.report}
+          loading={reportDialog.loading}
+          error={reportDialog.error}
+          onClose={() => setReportDialog(null)}
+          onRunSync={() => {
+            setReportDialog(null)
+            handleSyncClick()
+          }}
+        />
+      )}
+      {historyPath && (
+        <UploadHistoryDialog
+          path={historyPath}
+          connectionId={activeConnection || undefined}
+          onClose={() => setHistoryPath(null)}
+        />
+      )}
       {contextMenu && (
         <div
           className="fixed z-50 bg-vscode-sidebar border border-vscode-border rounded shadow-lg text-sm"
@@ -839,6 +1373,59 @@ const FTPExplorer: React.FC = () => {
             e.stopPropagation()
           }}
         >
+          {isDirectoryEntry(contextMenu.file.type) && (
+            <>
+              <button
+                className="block w-full text-left px-3 py-1 hover:bg-vscode-hover"
+                onClick={async (e) => {
+                  e.stopPropagation()
+                  const folder = contextMenu.file.path
+                  setContextMenu(null)
+                  await createRemoteEntry(folder, 'file')
+                }}
+              >
+                New file…
+              </button>
+              <button
+                className="block w-full text-left px-3 py-1 hover:bg-vscode-hover"
+                onClick={async (e) => {
+                  e.stopPropagation()
+                  const folder = contextMenu.file.path
+                  setContextMenu(null)
+                  await createRemoteEntry(folder, 'directory')
+                }}
+              >
+                New folder…
+              </button>
+            </>
+          )}
+          {!contextMenu.isRoot && (
+            <>
+              <button
+                className="block w-full text-left px-3 py-1 hover:bg-vscode-hover"
+                onClick={async (e) => {
+                  e.stopPropagation()
+                  const file = contextMenu.file
+                  setContextMenu(null)
+                  await renameRemoteEntry(file)
+                }}
+              >
+                Rename…
+              </button>
+              <button
+                className="block w-full text-left px-3 py-1 hover:bg-vscode-hover text-red-400"
+                onClick={async (e) => {
+                  e.stopPropagation()
+                  const file = contextMenu.file
+                  setContextMenu(null)
+                  await deleteRemoteEntry(file)
+                }}
+              >
+                Delete
+              </button>
+              <div className="border-t border-vscode-border/60 my-1" />
+            </>
+          )}
           {!isDirectoryEntry(contextMenu.file.type) && (
             <>
               <button
@@ -870,8 +1457,21 @@ const FTPExplorer: React.FC = () => {
               >
                 View in tab
               </button>
+              <button
+                className="block w-full text-left px-3 py-1 hover:bg-vscode-hover"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  setHistoryPath(contextMenu.file.path)
+                  setContextMenu(null)
+                }}
+              >
+                Upload history…
+              </button>
+              <LockMenuItem path={contextMenu.file.path} connectionId={activeConnection} onDone={() => setContextMenu(null)} />
             </>
           )}
+          {!contextMenu.isRoot && (
+          <>
           <div className="border-t border-vscode-border/60 my-1" />
           <button
             className="block w-full text-left px-3 py-1 hover:bg-vscode-hover"
@@ -969,6 +1569,8 @@ const FTPExplorer: React.FC = () => {
               {isHiddenInExplorer(contextMenu.file) ? 'Show ignored file in explorer' : 'Hide this ignored file in explorer'}
             </button>
           )}
+          </>
+          )}
         </div>
       )}
     </div>
@@ -982,15 +1584,22 @@ interface FTPConnectionDialogProps {
 const FTPConnectionDialog: React.FC<FTPConnectionDialogProps> = ({ onClose }) => {
   const [formData, setFormData] = useState({
     name: '',
+    protocol: 'ftp' as FTPProtocol,
     host: '',
     port: 21,
     username: '',
     password: '',
+    authMethod: 'password' as FTPAuthMethod,
+    privateKeyPath: '',
+    passphrase: '',
+    tlsMode: 'explicit' as FTPTlsMode,
+    trustedFingerprint: '',
     defaultPath: '/',
     appendedUrl: '',
     saveToDB: true
   })
   const [connectError, setConnectError] = useState<string | null>(null)
+  const [certificateIssue, setCertificateIssue] = useState<FTPCertificateInfo | null>(null)
   const [connecting, setConnecting] = useState(false)
   const hasElectron = typeof (window as any).electronAPI !== 'undefined'
   const [loadingSaved, setLoadingSaved] = useState(false)
@@ -1006,7 +1615,8 @@ const FTPConnectionDialog: React.FC<FTPConnectionDialogProps> = ({ onClose }) =>
           setSaved(res.connections)
           if (res.connections.length > 0) {
             const c = res.connections[0]
-            setFormData({
+            setFormData((prev) => ({
+              ...prev,
               name: c.name || '',
               host: c.host || '',
               port: c.port || 21,
@@ -1015,7 +1625,7 @@ const FTPConnectionDialog: React.FC<FTPConnectionDialogProps> = ({ onClose }) =>
               defaultPath: c.default_path || '/',
               appendedUrl: c.appended_url || c.appendedUrl || '',
               saveToDB: true
-            })
+            }))
           }
         }
       }
@@ -1026,46 +1636,79 @@ const FTPConnectionDialog: React.FC<FTPConnectionDialogProps> = ({ onClose }) =>
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+    await connectWith(formData)
+  }
+
+  const connectWith = async (data: typeof formData) => {
     setConnectError(null)
+    setCertificateIssue(null)
     setConnecting(true)
     if (!hasElectron) {
       setConnecting(false)
       setConnectError('Electron API not available. Start the Electron app to connect.')
       return
     }
-      const res = await electronAPI.ftpConnect({
-        host: formData.host,
-        port: formData.port,
-        username: formData.username,
-        password: formData.password,
-        defaultPath: formData.defaultPath
-      })
+    const usesKey = data.protocol === 'sftp' && data.authMethod === 'privateKey'
+    const tlsMode: FTPTlsMode = data.protocol === 'ftps' ? data.tlsMode : 'none'
+    // Saved under the same id, so the workspace keeps its settings next time.
+    const connectionId = Date.now().toString()
+    const res = await electronAPI.ftpConnect({
+      protocol: data.protocol,
+      host: data.host,
+      port: data.port,
+      username: data.username,
+      password: data.password,
+      authMethod: usesKey ? 'privateKey' : 'password',
+      privateKeyPath: usesKey ? data.privateKeyPath : '',
+      passphrase: usesKey ? data.passphrase : '',
+      tlsMode,
+      trustedFingerprint: tlsMode !== 'none' ? data.trustedFingerprint : '',
+      defaultPath: data.defaultPath
+    }, connectionId)
     if (res.success) {
       const { setConnectionStatus, setActiveConnection, addConnection, setCurrentPath } = useFTPStore.getState()
       const connection = {
-        id: Date.now().toString(),
+        id: connectionId,
         ...formData,
         isConnected: true
       }
       addConnection(connection)
       setActiveConnection(connection.id)
       setConnectionStatus(true)
-      setCurrentPath(formData.defaultPath)
-      if (formData.saveToDB) {
-        await electronAPI.settingsAddFTPConnection({ name: formData.name, host: formData.host, port: formData.port, username: formData.username, password: formData.password, defaultPath: formData.defaultPath, appendedUrl: formData.appendedUrl })
+      setCurrentPath(data.defaultPath)
+      if (data.saveToDB) {
+        await electronAPI.settingsAddFTPConnection({
+          id: connectionId,
+          name: data.name,
+          protocol: data.protocol,
+          host: data.host,
+          port: data.port,
+          username: data.username,
+          password: data.password,
+          authMethod: usesKey ? 'privateKey' : 'password',
+          privateKeyPath: usesKey ? data.privateKeyPath : '',
+          passphrase: usesKey ? data.passphrase : '',
+          tlsMode,
+          trustedFingerprint: tlsMode !== 'none' ? data.trustedFingerprint : '',
+          defaultPath: data.defaultPath,
+          appendedUrl: data.appendedUrl
+        })
       }
       setConnecting(false)
       onClose()
     } else {
       setConnecting(false)
       setConnectError(res.error || 'Unable to connect. Please check settings and try again.')
+      if (res.certificate && res.certificate.fingerprint) {
+        setCertificateIssue(res.certificate)
+      }
     }
   }
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" onClick={onClose}>
       <div className="bg-vscode-sidebar p-6 rounded-lg w-96 border border-vscode-border" onClick={(e) => e.stopPropagation()}>
-        <h2 className="text-lg font-semibold mb-4">Connect to FTP Server</h2>
+        <h2 className="text-lg font-semibold mb-4">Connect to Server</h2>
         {!hasElectron && (
           <div className="text-sm text-yellow-300 border border-yellow-700 bg-yellow-900 bg-opacity-20 rounded p-2 mb-3">
             Electron API not available. In development, run <code>NODE_ENV=development npm run electron</code> in another terminal.
@@ -1080,7 +1723,8 @@ const FTPConnectionDialog: React.FC<FTPConnectionDialogProps> = ({ onClose }) =>
                 onChange={(e) => {
                   const c = saved.find((x) => x.name === e.target.value)
                   if (c) {
-                    setFormData({
+                    setFormData((prev) => ({
+                      ...prev,
                       name: c.name || '',
                       host: c.host || '',
                       port: c.port || 21,
@@ -1089,7 +1733,7 @@ const FTPConnectionDialog: React.FC<FTPConnectionDialogProps> = ({ onClose }) =>
                       defaultPath: c.default_path || '/',
                       appendedUrl: c.appended_url || c.appendedUrl || '',
                       saveToDB: true
-                    })
+                    }))
                     ;(async () => {
                       const p = await electronAPI.dbGetFTPPassword(c.id)
                       if (p.success && p.password) {
@@ -1112,6 +1756,39 @@ const FTPConnectionDialog: React.FC<FTPConnectionDialogProps> = ({ onClose }) =>
               {connectError}
             </div>
           )}
+          {certificateIssue && (
+            <div className="text-xs border border-yellow-700 bg-yellow-900 bg-opacity-20 rounded p-2 space-y-1">
+              {certificateIssue.code === 'CERT_CHANGED' ? (
+                <>
+                  <div className="text-sm font-semibold text-red-400">Certificate changed</div>
+                  <div className="text-yellow-300">
+                    The server presented a different certificate from the one trusted for this connection. This happens
+                    after a renewal, but can also mean the connection is being intercepted. Check with your hosting
+                    provider before trusting it.
+                  </div>
+                  <div className="break-all">Previously trusted: <code>{certificateIssue.trustedFingerprint}</code></div>
+                </>
+              ) : (
+                <div className="text-sm font-semibold text-yellow-300">Untrusted certificate</div>
+              )}
+              <div className="break-all">SHA-256: <code>{certificateIssue.fingerprint}</code></div>
+              <div className="truncate" title={certificateIssue.subject}>Subject: {certificateIssue.subject}</div>
+              <div className="truncate" title={certificateIssue.issuer}>Issuer: {certificateIssue.issuer}</div>
+              <div>Valid: {certificateIssue.validFrom} – {certificateIssue.validTo}</div>
+              <button
+                type="button"
+                disabled={connecting}
+                onClick={() => {
+                  const next = { ...formData, trustedFingerprint: certificateIssue.fingerprint }
+                  setFormData(next)
+                  connectWith(next)
+                }}
+                className="mt-1 px-3 py-1 bg-vscode-hover rounded border border-vscode-border hover:bg-vscode-border transition-colors"
+              >
+                Trust this certificate and connect
+              </button>
+            </div>
+          )}
           <div>
             <label className="block text-sm font-medium mb-1">Connection Name</label>
             <input
@@ -1122,6 +1799,57 @@ const FTPConnectionDialog: React.FC<FTPConnectionDialogProps> = ({ onClose }) =>
               required
             />
           </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Protocol</label>
+            <select
+              value={formData.protocol}
+              onChange={(e) => {
+                const protocol = e.target.value as FTPProtocol
+                // Follow the protocol's default port unless the user picked a custom one.
+                const isDefaultPort = [...Object.values(DEFAULT_PORTS), IMPLICIT_FTPS_PORT].includes(formData.port)
+                const port = protocol === 'ftps' && formData.tlsMode === 'implicit' ? IMPLICIT_FTPS_PORT : DEFAULT_PORTS[protocol]
+                setFormData({ ...formData, protocol, port: isDefaultPort ? port : formData.port })
+              }}
+              className="w-full px-3 py-2 bg-vscode-bg border border-vscode-border rounded text-sm focus:outline-none focus:border-vscode-accent"
+            >
+              <option value="ftp">FTP</option>
+              <option value="ftps">FTPS (FTP over TLS)</option>
+              <option value="sftp">SFTP (SSH)</option>
+            </select>
+          </div>
+          {formData.protocol === 'ftps' && (
+            <div>
+              <label className="block text-sm font-medium mb-1">TLS Mode</label>
+              <select
+                value={formData.tlsMode}
+                onChange={(e) => {
+                  const tlsMode = e.target.value as FTPTlsMode
+                  let port = formData.port
+                  if (tlsMode === 'implicit' && port === DEFAULT_PORTS.ftps) port = IMPLICIT_FTPS_PORT
+                  if (tlsMode === 'explicit' && port === IMPLICIT_FTPS_PORT) port = DEFAULT_PORTS.ftps
+                  setFormData({ ...formData, tlsMode, port })
+                }}
+                className="w-full px-3 py-2 bg-vscode-bg border border-vscode-border rounded text-sm focus:outline-none focus:border-vscode-accent"
+              >
+                <option value="explicit">Explicit (AUTH TLS)</option>
+                <option value="implicit">Implicit (TLS from connect)</option>
+              </select>
+              {formData.trustedFingerprint && (
+                <div className="text-xs text-vscode-text-muted mt-1 flex items-center gap-2">
+                  <span className="truncate" title={formData.trustedFingerprint}>
+                    Trusted certificate: {formData.trustedFingerprint}
+                  </span>
+                  <button
+                    type="button"
+                    className="text-[11px] hover:text-red-400"
+                    onClick={() => setFormData({ ...formData, trustedFingerprint: '' })}
+                  >
+                    Forget
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
           <div>
             <label className="block text-sm font-medium mb-1">Host</label>
             <input
@@ -1174,16 +1902,69 @@ const FTPConnectionDialog: React.FC<FTPConnectionDialogProps> = ({ onClose }) =>
               required
             />
           </div>
-          <div>
-            <label className="block text-sm font-medium mb-1">Password</label>
-            <input
-              type="password"
-              value={formData.password}
-              onChange={(e) => setFormData({ ...formData, password: e.target.value })}
-              className="w-full px-3 py-2 bg-vscode-bg border border-vscode-border rounded text-sm focus:outline-none focus:border-vscode-accent"
-              required
-            />
-          </div>
+          {formData.protocol === 'sftp' && (
+            <div>
+              <label className="block text-sm font-medium mb-1">Authentication</label>
+              <select
+                value={formData.authMethod}
+                onChange={(e) => setFormData({ ...formData, authMethod: e.target.value as FTPAuthMethod })}
+                className="w-full px-3 py-2 bg-vscode-bg border border-vscode-border rounded text-sm focus:outline-none focus:border-vscode-accent"
+              >
+                <option value="password">Password</option>
+                <option value="privateKey">Private key</option>
+              </select>
+            </div>
+          )}
+          {formData.protocol === 'sftp' && formData.authMethod === 'privateKey' ? (
+            <>
+              <div>
+                <label className="block text-sm font-medium mb-1">Private Key File</label>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={formData.privateKeyPath}
+                    onChange={(e) => setFormData({ ...formData, privateKeyPath: e.target.value })}
+                    className="flex-1 px-3 py-2 bg-vscode-bg border border-vscode-border rounded text-sm focus:outline-none focus:border-vscode-accent"
+                    placeholder="~/.ssh/id_ed25519"
+                    required
+                  />
+                  <button
+                    type="button"
+                    onClick={async () => {
+                      const res = await electronAPI.settingsChoosePrivateKey()
+                      if (res.success && res.path) {
+                        setFormData((prev) => ({ ...prev, privateKeyPath: res.path || '' }))
+                      }
+                    }}
+                    className="px-3 py-2 bg-vscode-hover text-sm rounded border border-vscode-border hover:bg-vscode-border transition-colors"
+                  >
+                    Browse…
+                  </button>
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Key Passphrase</label>
+                <input
+                  type="password"
+                  value={formData.passphrase}
+                  onChange={(e) => setFormData({ ...formData, passphrase: e.target.value })}
+                  className="w-full px-3 py-2 bg-vscode-bg border border-vscode-border rounded text-sm focus:outline-none focus:border-vscode-accent"
+                  placeholder="Leave empty if the key is not encrypted"
+                />
+              </div>
+            </>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium mb-1">Password</label>
+              <input
+                type="password"
+                value={formData.password}
+                onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                className="w-full px-3 py-2 bg-vscode-bg border border-vscode-border rounded text-sm focus:outline-none focus:border-vscode-accent"
+                required
+              />
+            </div>
+          )}
           <div className="flex gap-3 pt-4">
             <button
               type="button"
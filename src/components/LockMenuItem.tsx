@@ -0,0 +1,38 @@
+import React from 'react'
+import { useEditorStore } from '../stores/editorStore'
+import { getConnectionKeyById } from '../stores/ftpStore'
+import { useLockStore, findLock, describeLock } from '../stores/lockStore'
+
+interface LockMenuItemProps {
+  path: string
+  connectionId?: string | null
+  /** Called before the lock action runs, to close the menu. */
+  onDone: () => void
+}
+
+// Context menu entry that locks a file, unlocks your own lock or breaks a
+// teammate's, depending on who holds the lock now.
+const LockMenuItem: React.FC<LockMenuItemProps> = ({ path, connectionId, onDone }) => {
+  const currentUserId = useEditorStore((state) => state.currentUserId)
+  const lock = useLockStore((state) => findLock(state.locks, path, getConnectionKeyById(connectionId)))
+  const ownLock = !!lock && lock.userId === currentUserId
+
+  return (
+    <button
+      className="block w-full text-left px-3 py-1 hover:bg-vscode-hover"
+      title={lock ? describeLock(lock) : 'Nobody else can change the file until you unlock it or the lock expires'}
+      onClick={async (e) => {
+        e.stopPropagation()
+        onDone()
+        const { lockFile, unlockFile, breakLock } = useLockStore.getState()
+        if (!lock) await lockFile(path, connectionId)
+        else if (ownLock) await unlockFile(path, connectionId)
+        else await breakLock(lock, connectionId)
+      }}
+    >
+      {!lock ? 'Lock file' : ownLock ? 'Unlock file' : `Break ${lock.username}'s lock…`}
+    </button>
+  )
+}
+
+export default LockMenuItem
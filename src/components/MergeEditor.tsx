@@ -0,0 +1,134 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { DiffEditor } from '@monaco-editor/react'
+import { ChevronUp, ChevronDown } from 'lucide-react'
+import { mergeThreeWay, findConflicts, resolveConflict, ConflictChoice } from '../utils/threeWayMerge'
+
+interface MergeEditorProps {
+  /** Server copy the tab was opened from. */
+  base: string
+  /** Editor content. */
+  ours: string
+  /** Server copy now. */
+  theirs: string
+  language: string
+  /** Called with the merged text and the number of conflicts left in it. */
+  onChange: (result: string, conflicts: number) => void
+}
+
+const choices: { choice: ConflictChoice; label: string }[] = [
+  { choice: 'ours', label: 'Use yours' },
+  { choice: 'theirs', label: 'Use server' },
+  { choice: 'both', label: 'Use both' },
+  { choice: 'base', label: 'Use base' }
+]
+
+// Three-way merge view: what you changed and what changed on the server, each
+// against the version you opened, above an editable result. Changes from one
+// side are already merged in; each conflict is resolved with the buttons or by
+// editing the result directly.
+const MergeEditor: React.FC<MergeEditorProps> = ({ base, ours, theirs, language, onChange }) => {
+  const initial = useMemo(() => mergeThreeWay(base, ours, theirs), [base, ours, theirs])
+  const [result, setResult] = useState(initial.text)
+  const [current, setCurrent] = useState(0)
+  const resultEditorRef = useRef<any>(null)
+  const conflicts = useMemo(() => findConflicts(result), [result])
+  const active = conflicts.length > 0 ? conflicts[Math.min(current, conflicts.length - 1)] : null
+
+  useEffect(() => {
+    onChange(result, conflicts.length)
+  }, [result, conflicts.length, onChange])
+
+  const reveal = (index: number) => {
+    const block = conflicts[index]
+    const editor = resultEditorRef.current
+    setCurrent(index)
+    if (!block || !editor) return
+    editor.revealLineInCenter(block.startLine + 1)
+    editor.setSelection({ startLineNumber: block.startLine + 1, startColumn: 1, endLineNumber: block.endLine + 1, endColumn: 1 })
+  }
+
+  const resolve = (choice: ConflictChoice) => {
+    const editor = resultEditorRef.current
+    if (!active || !editor) return
+    const model = editor.getModel()
+    // An edit rather than setValue keeps the result's undo history.
+    editor.executeEdits('merge', [{ range: model.getFullModelRange(), text: resolveConflict(model.getValue(), active, choice) }])
+    editor.revealLineInCenter(active.startLine + 1)
+  }
+
+  const paneOptions = { readOnly: true, renderSideBySide: false, minimap: { enabled: false }, automaticLayout: true }
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0">
+      <div className="flex items-center gap-2 px-3 py-1 text-xs border-b border-vscode-border">
+        <span className="text-vscode-text-muted">
+          {initial.autoMerged} change{initial.autoMerged === 1 ? '' : 's'} merged automatically ·{' '}
+          {conflicts.length === 0
+            ? 'no conflicts left'
+            : `conflict ${Math.min(current, conflicts.length - 1) + 1} of ${conflicts.length}`}
+        </span>
+        <button
+          onClick={() => reveal((Math.min(current, conflicts.length - 1) - 1 + conflicts.length) % conflicts.length)}
+          disabled={conflicts.length === 0}
+          className="hover:text-white disabled:opacity-50"
+          title="Previous conflict"
+        >
+          <ChevronUp size={14} />
+        </button>
+        <button
+          onClick={() => reveal((Math.min(current, conflicts.length - 1) + 1) % conflicts.length)}
+          disabled={conflicts.length === 0}
+          className="hover:text-white disabled:opacity-50"
+          title="Next conflict"
+        >
+          <ChevronDown size={14} />
+        </button>
+        <div className="flex-1" />
+        {choices.map(({ choice, label }) => (
+          <button
+            key={choice}
+            onClick={() => resolve(choice)}
+            disabled={!active}
+            className="px-2 py-0.5 bg-vscode-hover rounded hover:bg-vscode-border disabled:opacity-50"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="flex h-2/5 min-h-0 border-b border-vscode-border">
+        <div className="flex-1 min-w-0 flex flex-col border-r border-vscode-border">
+          <div className="px-3 py-1 text-xs text-vscode-text-muted">Your changes (base ⟷ yours)</div>
+          <div className="flex-1 min-h-0">
+            <DiffEditor height="100%" theme="vs-dark" language={language} original={base} modified={ours} options={paneOptions} />
+          </div>
+        </div>
+        <div className="flex-1 min-w-0 flex flex-col">
+          <div className="px-3 py-1 text-xs text-vscode-text-muted">Server changes (base ⟷ server)</div>
+          <div className="flex-1 min-h-0">
+            <DiffEditor height="100%" theme="vs-dark" language={language} original={base} modified={theirs} options={paneOptions} />
+          </div>
+        </div>
+      </div>
+      <div className="px-3 py-1 text-xs text-vscode-text-muted">Result (base ⟷ merged, editable)</div>
+      <div className="flex-1 min-h-0">
+        <DiffEditor
+          height="100%"
+          theme="vs-dark"
+          language={language}
+          original={base}
+          modified={initial.text}
+          onMount={(editor) => {
+            const modified = editor.getModifiedEditor()
+            resultEditorRef.current = modified
+            modified.onDidChangeModelContent(() => setResult(modified.getValue()))
+            const first = findConflicts(modified.getValue())[0]
+            if (first) modified.revealLineInCenter(first.startLine + 1)
+          }}
+          options={{ readOnly: false, originalEditable: false, renderSideBySide: true, minimap: { enabled: false }, automaticLayout: true }}
+        />
+      </div>
+    </div>
+  )
+}
+
+export default MergeEditor
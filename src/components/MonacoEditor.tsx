@@ -1,19 +1,54 @@
-import React, { useEffect, useRef } from 'react'
+import React, { useEffect, useRef, useState } from 'react'
 import Editor from '@monaco-editor/react'
+import { Lock } from 'lucide-react'
 import { useEditorStore } from '../stores/editorStore'
+import { getConnectionKeyById } from '../stores/ftpStore'
+import { useLockStore, findLock, describeLock } from '../stores/lockStore'
+import { usePresenceStore } from '../stores/presenceStore'
+import { useCursorStore } from '../stores/cursorStore'
 import { electronAPI } from '../utils/electronAPI'
+import { cursorDecorations, ensureCursorStyle, toCursorSelections } from '../utils/remoteCursors'
+
+// Your cursor is relayed to teammates at most this often.
+const CURSOR_SEND_MS = 150
 
 const MonacoEditor: React.FC = () => {
-  const { openFiles, activeFile, updateFileContent } = useEditorStore()
+  const { openFiles, activeFile, updateFileContent, currentUserId } = useEditorStore()
+  const locks = useLockStore((state) => state.locks)
   const editorRef = useRef<any>(null)
   const changeTimerRef = useRef<number | null>(null)
+  const cursorTimerRef = useRef<number | null>(null)
+  const remoteDecorationsRef = useRef<string[]>([])
+  const [editorReady, setEditorReady] = useState(false)
+  const cursors = useCursorStore((state) => state.cursors)
+  const activeFiles = usePresenceStore((state) => state.activeFiles)
+  const users = usePresenceStore((state) => state.users)
 
   const currentFile = openFiles.find(f => f.id === activeFile)
+  const lock = currentFile && (!currentFile.kind || currentFile.kind === 'code')
+    ? findLock(locks, currentFile.path, getConnectionKeyById(currentFile.connectionId))
+    : null
+  // A teammate's lock makes the tab read-only until it is released, expires or is broken.
+  const lockedByOther = !!lock && lock.userId !== currentUserId
+  const isCodeTab = !!currentFile && (!currentFile.kind || currentFile.kind === 'code')
 
-  
+  // Sends the latest selections once the throttle window closes, so the last
+  // position is always the one relayed.
+  const scheduleCursorSend = () => {
+    if (cursorTimerRef.current) return
+    cursorTimerRef.current = window.setTimeout(() => {
+      cursorTimerRef.current = null
+      const state = useEditorStore.getState()
+      const file = state.openFiles.find((f) => f.id === state.activeFile)
+      if (!editorRef.current || !file || (file.kind && file.kind !== 'code') || !state.currentUserId) return
+      electronAPI.dbSetCursor(state.currentUserId, file.path, toCursorSelections(editorRef.current.getSelections?.()), getConnectionKeyById(file.connectionId))
+    }, CURSOR_SEND_MS)
+  }
 
   const handleEditorDidMount = (editor: any) => {
     editorRef.current = editor
+    remoteDecorationsRef.current = []
+    setEditorReady(true)
     const selectionJustMadeRef: { current: boolean } = { current: false }
     
     // Configure editor options to match VSCode
@@ -80,6 +115,7 @@ const MonacoEditor: React.FC = () => {
     editor.onDidFocusEditorText?.(() => {
       try { editor.focus() } catch {}
     })
+    editor.onDidChangeCursorSelection(() => scheduleCursorSend())
   }
 
   useEffect(() => {
@@ -115,52 +151,126 @@ const MonacoEditor: React.FC = () => {
     const model = editorRef.current.getModel?.()
     model?.setValue?.(currentFile.content)
   }, [currentFile?.id])
-  
+
+  // Your shared cursor follows the active code tab and is withdrawn while
+  // another kind of tab is showing or the editor goes away.
+  useEffect(() => {
+    if (!currentUserId) return
+    if (isCodeTab) scheduleCursorSend()
+    else electronAPI.dbClearCursor(currentUserId)
+  }, [currentFile?.id, currentUserId])
+
+  useEffect(() => {
+    return () => {
+      if (cursorTimerRef.current) window.clearTimeout(cursorTimerRef.current)
+      const uid = useEditorStore.getState().currentUserId
+      if (uid) electronAPI.dbClearCursor(uid)
+    }
+  }, [])
+
+  // Teammates' cursors in this file, shown while they still have it open.
+  useEffect(() => {
+    const editor = editorRef.current
+    if (!editor) return
+    let decorations: any[] = []
+    if (currentFile && isCodeTab) {
+      const key = getConnectionKeyById(currentFile.connectionId)
+      decorations = Object.values(cursors)
+        .filter(
+          (c) =>
+            c.user_id !== currentUserId &&
+            c.file_path === currentFile.path &&
+            (c.connection_key || '') === key &&
+            activeFiles.some((f) => f.user_id === c.user_id && f.file_path === c.file_path && (f.connection_key || '') === key)
+        )
+        .flatMap((c) => {
+          const user = users.find((u) => u.id === c.user_id)
+          ensureCursorStyle(c.user_id, user?.username || 'Teammate', user?.avatar_color || null)
+          return cursorDecorations(c)
+        })
+    }
+    try {
+      remoteDecorationsRef.current = editor.deltaDecorations(remoteDecorationsRef.current, decorations)
+    } catch {}
+  }, [editorReady, cursors, activeFiles, users, currentFile?.id, currentUserId])
 
   if (!currentFile) {
     return null
   }
 
   return (
-    <div className="h-full w-full">
-      <Editor
-        height="100%"
-        language={currentFile.language}
-        defaultValue={currentFile.content}
-        path={currentFile.id}
-        saveViewState
-        onMount={handleEditorDidMount}
-        theme="vs-dark"
-        options={{
-          selectOnLineNumbers: true,
-          matchBrackets: 'always',
-          autoClosingBrackets: 'always',
-          autoClosingQuotes: 'always',
-          autoIndent: 'full',
-          formatOnPaste: true,
-          formatOnType: false,
-          suggestOnTriggerCharacters: true,
-          quickSuggestions: true,
-          wordBasedSuggestions: true,
-          parameterHints: { enabled: true },
-          hover: { enabled: true },
-          folding: true,
-          foldingStrategy: 'auto',
-          showFoldingControls: 'always',
-          unfoldOnClickAfterEndOfLine: true,
-          smoothScrolling: true,
-          cursorBlinking: 'blink',
-          cursorSmoothCaretAnimation: 'on',
-          multiCursorModifier: 'ctrlCmd',
-          renderWhitespace: 'selection',
-          bracketPairColorization: { enabled: true },
-          guides: {
-            indentation: true,
-            highlightActiveIndentation: true,
-            bracketPairs: true
-          }
-        }}
-      />
+    <div className="h-full w-full flex flex-col">
+      {lock && currentFile && (
+        <div
+          className={`flex items-center gap-2 px-3 py-1 text-xs border-b border-vscode-border ${
+            lockedByOther ? 'bg-yellow-900/40 text-yellow-200' : 'bg-vscode-sidebar text-vscode-text-muted'
+          }`}
+        >
+          <Lock size={12} />
+          <span className="flex-1 truncate">
+            {lockedByOther
+              ? `${describeLock(lock)} · read-only`
+              : `You hold the lock on this file${lock.expiresAt ? ` until ${new Date(lock.expiresAt).toLocaleString()}` : ''}`}
+          </span>
+          {lockedByOther ? (
+            <button
+              onClick={() => useLockStore.getState().breakLock(lock, currentFile.connectionId)}
+              className="px-2 py-0.5 bg-vscode-hover rounded hover:bg-vscode-border"
+            >
+              Break lock…
+            </button>
+          ) : (
+            <button
+              onClick={() => useLockStore.getState().unlockFile(currentFile.path, currentFile.connectionId)}
+              className="px-2 py-0.5 bg-vscode-hover rounded hover:bg-vscode-border"
+            >
+              Unlock
+            </button>
+          )}
+        </div>
+      )}
+      <div className="flex-1 min-h-0">
+        <Editor
+          height="100%"
+          language={currentFile.language}
+          defaultValue={currentFile.content}
+          path={currentFile.id}
+          saveViewState
+          onMount={handleEditorDidMount}
+          theme="vs-dark"
+          options={{
+            readOnly: lockedByOther,
+            readOnlyMessage: lock ? { value: describeLock(lock) } : undefined,
+            selectOnLineNumbers: true,
+            matchBrackets: 'always',
+            autoClosingBrackets: 'always',
+            autoClosingQuotes: 'always',
+            autoIndent: 'full',
+            formatOnPaste: true,
+            formatOnType: false,
+            suggestOnTriggerCharacters: true,
+            quickSuggestions: true,
+            wordBasedSuggestions: true,
+            parameterHints: { enabled: true },
+            hover: { enabled: true },
+            folding: true,
+            foldingStrategy: 'auto',
+            showFoldingControls: 'always',
+            unfoldOnClickAfterEndOfLine: true,
+            smoothScrolling: true,
+            cursorBlinking: 'blink',
+            cursorSmoothCaretAnimation: 'on',
+            multiCursorModifier: 'ctrlCmd',
+            renderWhitespace: 'selection',
+            bracketPairColorization: { enabled: true },
+            guides: {
+              indentation: true,
+              highlightActiveIndentation: true,
+              bracketPairs: true
+            }
+          }}
+        />
+      </div>
     </div>
   )
 }
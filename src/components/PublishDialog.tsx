@@ -0,0 +1,281 @@
+import React, { useEffect, useState } from 'react'
+import { DiffEditor } from '@monaco-editor/react'
+import { RefreshCw } from 'lucide-react'
+import { useEditorStore } from '../stores/editorStore'
+import { electronAPI, PublishChange, PublishProgress } from '../utils/electronAPI'
+
+interface PublishDialogProps {
+  onClose: () => void
+}
+
+const getLanguageFromExtension = (filename: string): string => {
+  const ext = filename.split('.').pop()?.toLowerCase()
+  const languageMap: Record<string, string> = {
+    js: 'javascript',
+    jsx: 'javascript',
+    ts: 'typescript',
+    tsx: 'typescript',
+    htm: 'html',
+    html: 'html',
+    css: 'css',
+    scss: 'scss',
+    json: 'json',
+    md: 'markdown',
+    php: 'php',
+    xml: 'xml',
+    yml: 'yaml',
+    yaml: 'yaml'
+  }
+  return (ext && languageMap[ext]) || 'plaintext'
+}
+
+const formatSize = (bytes: number | null) => {
+  if (bytes === null) return '—'
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// Reviews working-copy files that differ from the server and uploads the
+// checked ones in one queued batch.
+const PublishDialog: React.FC<PublishDialogProps> = ({ onClose }) => {
+  const [syncFolder, setSyncFolder] = useState('')
+  const [changes, setChanges] = useState<PublishChange[]>([])
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [scanning, setScanning] = useState(false)
+  const [publishing, setPublishing] = useState(false)
+  const [progress, setProgress] = useState<PublishProgress | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [failures, setFailures] = useState<{ path: string; error: string }[]>([])
+  const [diffPath, setDiffPath] = useState<string | null>(null)
+  const [diff, setDiff] = useState<{ original: string; modified: string; binary: boolean } | null>(null)
+  const [loadingDiff, setLoadingDiff] = useState(false)
+
+  const scan = async () => {
+    setScanning(true)
+    setError(null)
+    setFailures([])
+    try {
+      const folderRes = await electronAPI.settingsGetSyncFolder()
+      if (!folderRes.success || !folderRes.path) {
+        setError('No sync folder configured. Set it in the Settings tab.')
+        return
+      }
+      setSyncFolder(folderRes.path)
+      const ignoreRes = await electronAPI.settingsGetSyncIgnore()
+      const ignore = ignoreRes.success && ignoreRes.patterns ? ignoreRes.patterns : []
+      const res = await electronAPI.ftpPublishScan(folderRes.path, ignore)
+      if (!res.success || !res.changes) {
+        setError(res.error || 'Failed to look for local changes')
+        return
+      }
+      setChanges(res.changes)
+      setSelected(new Set(res.changes.map((c) => c.path)))
+      setDiffPath(res.changes.length > 0 ? res.changes[0].path : null)
+    } catch (err) {
+      console.error('Publish scan error', err)
+      setError('Failed to look for local changes')
+    } finally {
+      setScanning(false)
+    }
+  }
+
+  useEffect(() => {
+    scan()
+  }, [])
+
+  useEffect(() => {
+    const off = electronAPI.onPublishProgress((_event, payload) => {
+      if (payload && typeof payload.count === 'number') {
+        setProgress(payload)
+      }
+    })
+    return () => {
+      if (off) off()
+    }
+  }, [])
+
+  useEffect(() => {
+    const change = changes.find((c) => c.path === diffPath)
+    if (!change) {
+      setDiff(null)
+      return
+    }
+    let cancelled = false
+    ;(async () => {
+      setLoadingDiff(true)
+      try {
+        const localRes = await electronAPI.localReadFile(change.path)
+        let original = ''
+        if (change.status === 'modified') {
+          const remoteRes = await electronAPI.ftpDownloadFile(change.path, undefined as any)
+          if (remoteRes.success && 'content' in remoteRes) original = remoteRes.content || ''
+        }
+        if (cancelled) return
+        const modified = localRes.success ? localRes.content || '' : ''
+        setDiff({ original, modified, binary: modified.includes('\u0000') || original.includes('\u0000') })
+      } finally {
+        if (!cancelled) setLoadingDiff(false)
+      }
+    })()
+    return () => {
+      cancelled = true
+    }
+  }, [diffPath, changes])
+
+  const toggle = (p: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(p)) next.delete(p)
+      else next.add(p)
+      return next
+    })
+  }
+
+  const handlePublish = async () => {
+    const paths = changes.filter((c) => selected.has(c.path)).map((c) => c.path)
+    if (paths.length === 0 || publishing) return
+    setPublishing(true)
+    setError(null)
+    setFailures([])
+    setProgress({ count: 0, total: paths.length, path: '' })
+    try {
+      const res = await electronAPI.ftpPublish(syncFolder, paths)
+      if (!res.success) {
+        setError(res.error || 'Failed to publish')
+        return
+      }
+      const uploaded = new Set(res.uploaded || [])
+      setFailures(res.failed || [])
+      setChanges((prev) => prev.filter((c) => !uploaded.has(c.path)))
+      setSelected((prev) => new Set(Array.from(prev).filter((p) => !uploaded.has(p))))
+      if (diffPath && uploaded.has(diffPath)) setDiffPath(null)
+      useEditorStore.getState().setStatusMessage(
+        `Published ${uploaded.size} file${uploaded.size === 1 ? '' : 's'}${res.failed && res.failed.length ? `, ${res.failed.length} failed` : ''}`
+      )
+    } catch (err) {
+      console.error('Publish error', err)
+      setError('Failed to publish')
+    } finally {
+      setPublishing(false)
+      setProgress(null)
+    }
+  }
+
+  const allSelected = changes.length > 0 && changes.every((c) => selected.has(c.path))
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" onClick={publishing ? undefined : onClose}>
+      <div
+        className="bg-vscode-sidebar rounded-lg border border-vscode-border flex flex-col"
+        style={{ width: '90vw', height: '80vh' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-4 py-3 border-b border-vscode-border flex items-center gap-2">
+          <h2 className="text-lg font-semibold flex-1">Publish local changes</h2>
+          <button
+            onClick={scan}
+            disabled={scanning || publishing}
+            className="p-2 hover:bg-vscode-hover rounded transition-colors"
+            title="Rescan"
+          >
+            <RefreshCw size={14} className={scanning ? 'animate-spin' : ''} />
+          </button>
+        </div>
+        <div className="flex flex-1 min-h-0">
+          <div className="w-80 border-r border-vscode-border flex flex-col min-h-0">
+            <label className="flex items-center gap-2 px-3 py-2 text-xs border-b border-vscode-border">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                disabled={changes.length === 0 || publishing}
+                onChange={() => setSelected(allSelected ? new Set() : new Set(changes.map((c) => c.path)))}
+              />
+              <span>{changes.length} changed file{changes.length === 1 ? '' : 's'}</span>
+            </label>
+            <div className="flex-1 overflow-y-auto vscode-scrollbar">
+              {scanning && <div className="px-3 py-2 text-xs text-vscode-text-muted">Comparing with the server…</div>}
+              {!scanning && changes.length === 0 && !error && (
+                <div className="px-3 py-2 text-xs text-vscode-text-muted">The sync folder matches the server.</div>
+              )}
+              {changes.map((c) => (
+                <div
+                  key={c.path}
+                  className={`flex items-center gap-2 px-3 py-1 text-xs cursor-pointer hover:bg-vscode-hover ${diffPath === c.path ? 'bg-vscode-hover' : ''}`}
+                  onClick={() => setDiffPath(c.path)}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.has(c.path)}
+                    disabled={publishing}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={() => toggle(c.path)}
+                  />
+                  <span className={`w-4 text-center font-semibold ${c.status === 'added' ? 'text-green-400' : 'text-yellow-300'}`} title={c.status}>
+                    {c.status === 'added' ? 'A' : 'M'}
+                  </span>
+                  <span className="flex-1 truncate" title={c.path}>{c.path}</span>
+                  <span className="text-vscode-text-muted">{formatSize(c.size)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+          <div className="flex-1 min-w-0 flex flex-col">
+            {diffPath && (
+              <div className="px-3 py-1 text-xs text-vscode-text-muted border-b border-vscode-border truncate">
+                Server ⟷ Local: {diffPath}
+              </div>
+            )}
+            <div className="flex-1 min-h-0">
+              {loadingDiff && <div className="p-3 text-xs text-vscode-text-muted">Loading diff…</div>}
+              {!loadingDiff && diff && diff.binary && (
+                <div className="p-3 text-xs text-vscode-text-muted">Binary file — no text diff available.</div>
+              )}
+              {!loadingDiff && diff && !diff.binary && diffPath && (
+                <DiffEditor
+                  height="100%"
+                  theme="vs-dark"
+                  language={getLanguageFromExtension(diffPath)}
+                  original={diff.original}
+                  modified={diff.modified}
+                  options={{ readOnly: true, renderSideBySide: true, minimap: { enabled: false }, automaticLayout: true }}
+                />
+              )}
+            </div>
+          </div>
+        </div>
+        {(error || failures.length > 0) && (
+          <div className="px-4 py-2 border-t border-vscode-border text-xs text-red-400 max-h-24 overflow-y-auto">
+            {error && <div>{error}</div>}
+            {failures.map((f) => (
+              <div key={f.path} className="truncate" title={f.error}>{f.path}: {f.error}</div>
+            ))}
+          </div>
+        )}
+        <div className="px-4 py-3 border-t border-vscode-border flex items-center gap-3">
+          <div className="flex-1 text-xs text-vscode-text-muted truncate">
+            {progress
+              ? `Uploading ${progress.count}/${progress.total}${progress.path ? ` — ${progress.path}` : ''}`
+              : `${selected.size} selected`}
+          </div>
+          <button
+            onClick={onClose}
+            disabled={publishing}
+            className="px-4 py-2 bg-vscode-hover text-vscode-text rounded hover:bg-vscode-border transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={handlePublish}
+            disabled={publishing || scanning || selected.size === 0}
+            className={`px-4 py-2 ${publishing || selected.size === 0 ? 'bg-vscode-border text-vscode-text-muted' : 'bg-vscode-accent text-white hover:bg-blue-600'} rounded transition-colors`}
+          >
+            {publishing ? 'Publishing…' : `Publish ${selected.size} file${selected.size === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default PublishDialog
@@ -0,0 +1,179 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import { DiffEditor } from '@monaco-editor/react'
+import { useRemoteChangeStore } from '../stores/remoteChangeStore'
+import MergeEditor from './MergeEditor'
+
+const getLanguageFromExtension = (filename: string): string => {
+  const ext = filename.split('.').pop()?.toLowerCase()
+  const languageMap: Record<string, string> = {
+    js: 'javascript',
+    jsx: 'javascript',
+    ts: 'typescript',
+    tsx: 'typescript',
+    htm: 'html',
+    html: 'html',
+    css: 'css',
+    scss: 'scss',
+    json: 'json',
+    md: 'markdown',
+    php: 'php',
+    xml: 'xml',
+    yml: 'yaml',
+    yaml: 'yaml'
+  }
+  return (ext && languageMap[ext]) || 'plaintext'
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// Shown by Save-and-Sync when the server copy changed since the tab was opened.
+// The upload waits until the user compares, merges, overwrites or cancels.
+// Merging is three-way when the tab knows the text it was opened with, and a
+// plain edit of your side of the diff otherwise.
+const RemoteChangeDialog: React.FC = () => {
+  const { pending, choose } = useRemoteChangeStore()
+  const [mode, setMode] = useState<'summary' | 'compare' | 'merge'>('summary')
+  const mergedRef = useRef<(() => string) | null>(null)
+  const [conflictsLeft, setConflictsLeft] = useState(0)
+
+  useEffect(() => {
+    setMode('summary')
+    mergedRef.current = null
+    setConflictsLeft(0)
+  }, [pending])
+
+  const handleMergeChange = useCallback((result: string, conflicts: number) => {
+    mergedRef.current = () => result
+    setConflictsLeft(conflicts)
+  }, [])
+
+  // Escape inside the diff editors closes Monaco widgets, so it only cancels
+  // from the summary.
+  useEffect(() => {
+    if (!pending || mode !== 'summary') return
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') choose({ action: 'cancel' })
+    }
+    window.addEventListener('keydown', handleKey)
+    return () => window.removeEventListener('keydown', handleKey)
+  }, [pending, mode, choose])
+
+  if (!pending) return null
+  const { file, check } = pending
+  const canDiff = !check.deleted && !check.binary && check.content !== undefined
+  const remote = check.remote
+  const threeWay = mode === 'merge' && file.remoteContent !== undefined
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div
+        className="bg-vscode-sidebar rounded-lg border border-vscode-border flex flex-col"
+        style={mode === 'summary' ? { width: 480 } : { width: '90vw', height: '80vh' }}
+      >
+        <div className="px-4 py-3 border-b border-vscode-border">
+          <h2 className="text-lg font-semibold">
+            {check.deleted ? 'File deleted on the server' : 'File changed on the server'}
+          </h2>
+          <div className="text-xs text-vscode-text-muted mt-1">
+            {file.path} was {check.deleted ? 'deleted' : 'changed'} on the server since you opened it.
+            {remote && ` Server copy: ${formatBytes(remote.size)}${remote.modifiedAt ? `, modified ${new Date(remote.modifiedAt).toLocaleString()}` : ''}.`}
+          </div>
+        </div>
+        {mode === 'summary' && (
+          <div className="px-4 py-3 text-sm">
+            {check.deleted
+              ? 'Uploading will put the file back on the server.'
+              : canDiff
+                ? 'Compare the two versions, merge the server changes into yours, or overwrite the server copy.'
+                : 'This file cannot be compared as text. Overwrite the server copy or cancel the upload.'}
+          </div>
+        )}
+        {threeWay && canDiff && (
+          <MergeEditor
+            base={file.remoteContent || ''}
+            ours={file.content}
+            theirs={check.content || ''}
+            language={getLanguageFromExtension(file.path)}
+            onChange={handleMergeChange}
+          />
+        )}
+        {mode !== 'summary' && !threeWay && canDiff && (
+          <>
+            <div className="flex px-3 py-1 text-xs text-vscode-text-muted border-b border-vscode-border">
+              <span className="flex-1">Server</span>
+              <span className="flex-1">{mode === 'merge' ? 'Yours (edit to merge)' : 'Yours'}</span>
+            </div>
+            <div className="flex-1 min-h-0">
+              <DiffEditor
+                key={mode}
+                height="100%"
+                theme="vs-dark"
+                language={getLanguageFromExtension(file.path)}
+                original={check.content || ''}
+                modified={file.content}
+                onMount={(editor) => {
+                  const modified = editor.getModifiedEditor()
+                  mergedRef.current = () => modified.getValue()
+                }}
+                options={{
+                  readOnly: mode === 'compare',
+                  originalEditable: false,
+                  renderSideBySide: true,
+                  minimap: { enabled: false },
+                  automaticLayout: true
+                }}
+              />
+            </div>
+          </>
+        )}
+        <div className="px-4 py-3 border-t border-vscode-border flex justify-end gap-2">
+          {canDiff && mode !== 'compare' && (
+            <button
+              onClick={() => setMode('compare')}
+              className="px-4 py-2 bg-vscode-hover text-vscode-text rounded hover:bg-vscode-border transition-colors"
+            >
+              Compare
+            </button>
+          )}
+          {canDiff && mode !== 'merge' && (
+            <button
+              onClick={() => setMode('merge')}
+              className="px-4 py-2 bg-vscode-hover text-vscode-text rounded hover:bg-vscode-border transition-colors"
+            >
+              Merge
+            </button>
+          )}
+          <button
+            onClick={() => choose({ action: 'cancel' })}
+            className="px-4 py-2 bg-vscode-hover text-vscode-text rounded hover:bg-vscode-border transition-colors"
+          >
+            Cancel
+          </button>
+          {mode === 'merge' ? (
+            <button
+              onClick={() => choose({ action: 'merge', content: mergedRef.current ? mergedRef.current() : file.content })}
+              disabled={conflictsLeft > 0}
+              title={conflictsLeft > 0 ? 'Resolve every conflict first' : undefined}
+              className="px-4 py-2 bg-vscode-accent text-white rounded hover:bg-blue-600 disabled:opacity-50"
+            >
+              Upload merged version
+            </button>
+          ) : (
+            <button
+              onClick={() => choose({ action: 'overwrite' })}
+              className="px-4 py-2 bg-vscode-accent text-white rounded hover:bg-blue-600"
+            >
+              {check.deleted ? 'Upload anyway' : 'Overwrite server copy'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default RemoteChangeDialog
@@ -1,10 +1,16 @@
 import React, { useCallback, useState } from 'react'
 import { ChevronDown, ChevronRight } from 'lucide-react'
-import { useEditorStore } from '../stores/editorStore'
+import { useEditorStore, getFileTabId } from '../stores/editorStore'
+import { useFTPStore } from '../stores/ftpStore'
 import { electronAPI } from '../utils/electronAPI'
 
 interface SearchMatch {
   fileId: string
+  /**
+   * Connection the file belongs to; project results come from the workspace
+   * that was active when searching.
+   */
+  connectionId?: string
   filePath: string
   fileName: string
   line: number
@@ -15,6 +21,7 @@ interface SearchMatch {
 
 interface FileSearchResult {
   fileId: string
+  connectionId?: string
   filePath: string
   fileName: string
   matches: SearchMatch[]
@@ -61,7 +68,7 @@ const SearchPanel: React.FC = () => {
   }
 
   const openResultFile = useCallback(
-    async (file: { fileId: string; filePath: string; fileName: string }) => {
+    async (file: { fileId: string; connectionId?: string; filePath: string; fileName: string }) => {
       const existing = openFiles.find((f) => f.id === file.fileId)
       if (existing) {
         setActiveFile(existing.id)
@@ -75,20 +82,26 @@ const SearchPanel: React.FC = () => {
       }
 
       try {
-        const dl = await electronAPI.ftpDownloadFile(remotePath, undefined as any)
+        const dl = await electronAPI.ftpDownloadFile(remotePath, undefined as any, undefined, file.connectionId)
         if (!dl.success || typeof dl.content !== 'string') {
           setError(dl.error || 'Failed to open file from FTP')
           return
         }
         const content = dl.content
         const editorFile = {
-          id: remotePath,
+          id: file.fileId,
           path: remotePath,
+          connectionId: file.connectionId,
           name: file.fileName,
           content,
           language: getLanguageFromExtension(file.fileName),
           isDirty: false,
-          lastModified: new Date()
+          lastModified: new Date(),
+          encoding: dl.encoding,
+          bom: dl.bom,
+          eol: dl.eol,
+          remoteVersion: dl.remote,
+          remoteContent: content
         }
         openFile(editorFile)
         setActiveFile(editorFile.id)
@@ -152,6 +165,7 @@ const SearchPanel: React.FC = () => {
 
           matches.push({
             fileId: file.id,
+            connectionId: file.connectionId,
             filePath: file.path,
             fileName: file.name,
             line: lineNumber,
@@ -168,6 +182,7 @@ const SearchPanel: React.FC = () => {
         if (matches.length > 0) {
           fileResults.push({
             fileId: file.id,
+            connectionId: file.connectionId,
             filePath: file.path,
             fileName: file.name,
             matches
@@ -176,11 +191,12 @@ const SearchPanel: React.FC = () => {
       })
     } else {
       try {
+        const connectionId = useFTPStore.getState().activeConnection || undefined
         const res = await electronAPI.projectSearch({
           query,
           useRegex,
           caseSensitive
-        })
+        }, connectionId)
 
         if (!res.success) {
           setError(res.error || 'Project search failed')
@@ -193,12 +209,13 @@ const SearchPanel: React.FC = () => {
           const rel = f.relativePath || f.path
           if (!rel) return
           const remotePath = '/' + String(rel).replace(/\\/g, '/')
-          const fileId = remotePath
+          const fileId = getFileTabId(remotePath, connectionId)
           const fileName = f.name || rel
           const filePath = remotePath
 
           const matches: SearchMatch[] = (f.matches || []).map((m) => ({
             fileId,
+            connectionId,
             filePath,
             fileName,
             line: m.line,
@@ -210,6 +227,7 @@ const SearchPanel: React.FC = () => {
           if (matches.length > 0) {
             fileResults.push({
               fileId,
+              connectionId,
               filePath,
               fileName,
               matches
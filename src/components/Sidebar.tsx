@@ -1,13 +1,19 @@
 import React, { useState, useEffect } from 'react'
-import { FileText, Server, Users, Settings, Search, ListChecks } from 'lucide-react'
+import { FileText, Server, Users, Settings, Search, ListChecks, History, Clock, Activity } from 'lucide-react'
 import FTPExplorer from './FTPExplorer'
 import UserPresence from './UserPresence'
 import SearchPanel from './SearchPanel'
 import TodoPanel from './TodoPanel'
-import { electronAPI } from '../utils/electronAPI'
+import SnapshotsPanel from './SnapshotsPanel'
+import TimelinePanel from './TimelinePanel'
+import ActivityPanel from './ActivityPanel'
+import { electronAPI, SyncMode, LocalHistoryRetention } from '../utils/electronAPI'
+import { useFTPStore } from '../stores/ftpStore'
+import { usePresenceStore } from '../stores/presenceStore'
+import { explainIgnore } from '../../electron/shared/ignoreMatcher.mjs'
 
 const Sidebar: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'files' | 'search' | 'todo' | 'users' | 'settings'>('files')
+  const [activeTab, setActiveTab] = useState<'files' | 'search' | 'todo' | 'snapshots' | 'timeline' | 'activity' | 'users' | 'settings'>('files')
   const [panelWidth, setPanelWidth] = useState<number>(260)
 
   const handleResizeMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
@@ -69,6 +75,33 @@ const Sidebar: React.FC = () => {
         >
           <ListChecks size={20} />
         </button>
+        <button
+          onClick={() => setActiveTab('snapshots')}
+          className={`p-2 rounded transition-colors ${
+            activeTab === 'snapshots' ? 'bg-vscode-selection text-white' : 'text-vscode-text-muted hover:bg-vscode-hover'
+          }`}
+          title="Snapshots"
+        >
+          <History size={20} />
+        </button>
+        <button
+          onClick={() => setActiveTab('timeline')}
+          className={`p-2 rounded transition-colors ${
+            activeTab === 'timeline' ? 'bg-vscode-selection text-white' : 'text-vscode-text-muted hover:bg-vscode-hover'
+          }`}
+          title="Timeline"
+        >
+          <Clock size={20} />
+        </button>
+        <button
+          onClick={() => setActiveTab('activity')}
+          className={`p-2 rounded transition-colors ${
+            activeTab === 'activity' ? 'bg-vscode-selection text-white' : 'text-vscode-text-muted hover:bg-vscode-hover'
+          }`}
+          title="Activity"
+        >
+          <Activity size={20} />
+        </button>
         <button
           onClick={() => setActiveTab('users')}
           className={`p-2 rounded transition-colors ${
@@ -121,6 +154,33 @@ const Sidebar: React.FC = () => {
           </div>
         )}
         
+        {activeTab === 'snapshots' && (
+          <div className="flex flex-col h-full min-h-0">
+            <div className="p-3 border-b border-vscode-border">
+              <h3 className="text-sm font-semibold text-vscode-text">Snapshots</h3>
+            </div>
+            <SnapshotsPanel />
+          </div>
+        )}
+
+        {activeTab === 'timeline' && (
+          <div className="flex flex-col h-full min-h-0">
+            <div className="p-3 border-b border-vscode-border">
+              <h3 className="text-sm font-semibold text-vscode-text">Timeline</h3>
+            </div>
+            <TimelinePanel />
+          </div>
+        )}
+
+        {activeTab === 'activity' && (
+          <div className="flex flex-col h-full min-h-0">
+            <div className="p-3 border-b border-vscode-border">
+              <h3 className="text-sm font-semibold text-vscode-text">Activity</h3>
+            </div>
+            <ActivityPanel />
+          </div>
+        )}
+
         {activeTab === 'users' && (
           <div className="flex flex-col h-full">
             <div className="p-3 border-b border-vscode-border">
@@ -152,23 +212,56 @@ const Sidebar: React.FC = () => {
 
 const SettingsPanel: React.FC = () => {
   const [syncFolder, setSyncFolder] = useState('')
+  const [syncMode, setSyncMode] = useState<SyncMode>('incremental')
   const [previewBaseUrl, setPreviewBaseUrl] = useState('')
+  const [remoteBackups, setRemoteBackups] = useState(false)
+  const [lockMinutes, setLockMinutes] = useState(120)
+  const [historyRetention, setHistoryRetention] = useState<LocalHistoryRetention>({ maxRevisions: 50, maxAgeDays: 30 })
   const [previewStartAfter, setPreviewStartAfter] = useState('')
   const [loading, setLoading] = useState(false)
   const [saving, setSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const { preferences: presence, updatePreferences: updatePresence } = usePresenceStore()
   const [status, setStatus] = useState<string | null>(null)
   const [ignorePatterns, setIgnorePatterns] = useState<string[]>([])
   const [hideIgnoredInExplorer, setHideIgnoredInExplorer] = useState(false)
   const [hiddenIgnorePatterns, setHiddenIgnorePatterns] = useState<string[]>([])
   const [newIgnorePattern, setNewIgnorePattern] = useState('')
+  const [ignoreTestPath, setIgnoreTestPath] = useState('')
+  const [ignoreTestIsFolder, setIgnoreTestIsFolder] = useState(false)
   const [editorName, setEditorName] = useState('')
+  const [editorEmail, setEditorEmail] = useState('')
+  const [avatarColor, setAvatarColor] = useState('#61afef')
+  const [machineId, setMachineId] = useState('')
   const [enablePreviewInspector, setEnablePreviewInspector] = useState(false)
   const [dbHost, setDbHost] = useState('')
   const [dbPort, setDbPort] = useState<number | string>('')
   const [dbName, setDbName] = useState('')
   const [dbUser, setDbUser] = useState('')
   const [dbPassword, setDbPassword] = useState('')
+  // The sync folder and preview base URL belong to the workspace open in the explorer.
+  const activeConnection = useFTPStore((state) => state.activeConnection)
+  const activeConnectionName = useFTPStore(
+    (state) => state.connections.find((c) => c.id === state.activeConnection)?.name || ''
+  )
+
+  useEffect(() => {
+    let mounted = true
+    ;(async () => {
+      const [syncRes, baseUrlRes, backupsRes] = await Promise.all([
+        electronAPI.settingsGetSyncFolder(activeConnection),
+        electronAPI.settingsGetPreviewBaseUrl(activeConnection),
+        electronAPI.settingsGetRemoteBackups(activeConnection)
+      ])
+      if (!mounted) return
+      setSyncFolder(syncRes.success && typeof syncRes.path === 'string' ? syncRes.path : '')
+      setPreviewBaseUrl(baseUrlRes.success && typeof baseUrlRes.baseUrl === 'string' ? baseUrlRes.baseUrl : '')
+      setRemoteBackups(!!(backupsRes.success && backupsRes.enabled))
+    })()
+    return () => {
+      mounted = false
+    }
+  }, [activeConnection])
 
   useEffect(() => {
     let mounted = true
@@ -176,20 +269,30 @@ const SettingsPanel: React.FC = () => {
       setLoading(true)
       setError(null)
       try {
-        const [syncRes, baseUrlRes, startAfterRes, ignoreRes, dbRes, editorNameRes, inspectorRes] = await Promise.all([
-          electronAPI.settingsGetSyncFolder(),
-          electronAPI.settingsGetPreviewBaseUrl(),
+        const [startAfterRes, ignoreRes, dbRes, editorNameRes, inspectorRes] = await Promise.all([
           electronAPI.settingsGetPreviewStartAfter(),
           electronAPI.settingsGetSyncIgnore(),
           electronAPI.settingsGetDbConfig(),
           electronAPI.settingsGetEditorName(),
           electronAPI.settingsGetEnablePreviewInspector()
         ])
-        if (mounted && syncRes.success && typeof syncRes.path === 'string') {
-          setSyncFolder(syncRes.path)
+        const modeRes = await electronAPI.settingsGetSyncMode()
+        const historyRes = await electronAPI.settingsGetLocalHistoryRetention()
+        if (mounted && historyRes.success && historyRes.retention) {
+          setHistoryRetention(historyRes.retention)
+        }
+        const profileRes = await electronAPI.settingsGetEditorProfile()
+        if (mounted && profileRes.success && profileRes.profile) {
+          setEditorEmail(profileRes.profile.email)
+          setAvatarColor(profileRes.profile.avatarColor)
+          setMachineId(profileRes.profile.machineId)
+        }
+        const lockRes = await electronAPI.settingsGetLockMinutes()
+        if (mounted && lockRes.success && typeof lockRes.minutes === 'number') {
+          setLockMinutes(lockRes.minutes)
         }
-        if (mounted && baseUrlRes.success && typeof baseUrlRes.baseUrl === 'string') {
-          setPreviewBaseUrl(baseUrlRes.baseUrl)
+        if (mounted && modeRes.success && modeRes.mode) {
+          setSyncMode(modeRes.mode)
         }
         if (mounted && startAfterRes.success && typeof startAfterRes.startAfter === 'string') {
           setPreviewStartAfter(startAfterRes.startAfter)
@@ -230,6 +333,12 @@ const SettingsPanel: React.FC = () => {
     }
   }, [])
 
+  const saveHistoryRetention = async (next: LocalHistoryRetention) => {
+    setHistoryRetention(next)
+    const res = await electronAPI.settingsSetLocalHistoryRetention(next)
+    if (!res.success) setError(res.error || 'Failed to save the local history limits')
+  }
+
   const handleBrowse = async () => {
     setError(null)
     setStatus(null)
@@ -245,7 +354,7 @@ const SettingsPanel: React.FC = () => {
     }
 
     try {
-      const res = await electronAPI.settingsChooseSyncFolder()
+      const res = await electronAPI.settingsChooseSyncFolder(activeConnection)
       if (res.success && res.path) {
         setSyncFolder(res.path)
       } else if (!res.success && res.error) {
@@ -266,9 +375,9 @@ const SettingsPanel: React.FC = () => {
     }
     setSaving(true)
     try {
-      const [syncRes, baseUrlRes, startAfterRes, dbRes, editorNameRes] = await Promise.all([
-        electronAPI.settingsSetSyncFolder(syncFolder.trim()),
-        electronAPI.settingsSetPreviewBaseUrl(previewBaseUrl.trim()),
+      const [syncRes, baseUrlRes, startAfterRes, dbRes, editorNameRes, profileRes] = await Promise.all([
+        electronAPI.settingsSetSyncFolder(syncFolder.trim(), activeConnection),
+        electronAPI.settingsSetPreviewBaseUrl(previewBaseUrl.trim(), activeConnection),
         electronAPI.settingsSetPreviewStartAfter(previewStartAfter.trim()),
         electronAPI.settingsSetDbConfig({
           host: dbHost.trim() || 'localhost',
@@ -277,7 +386,8 @@ const SettingsPanel: React.FC = () => {
           user: dbUser.trim() || 'postgres',
           password: dbPassword
         }),
-        electronAPI.settingsSetEditorName(editorName.trim())
+        electronAPI.settingsSetEditorName(editorName.trim()),
+        electronAPI.settingsSetEditorProfile({ email: editorEmail.trim(), avatarColor })
       ])
       if (!syncRes.success) {
         setError(syncRes.error || 'Failed to save sync folder')
@@ -289,6 +399,8 @@ const SettingsPanel: React.FC = () => {
         setError(dbRes.error || 'Failed to save database settings')
       } else if (!editorNameRes.success) {
         setError(editorNameRes.error || 'Failed to save editor name')
+      } else if (!profileRes.success) {
+        setError(profileRes.error || 'Failed to save editor profile')
       } else {
         setStatus('Settings saved')
       }
@@ -316,16 +428,40 @@ const SettingsPanel: React.FC = () => {
             className="flex-1 px-2 py-1 bg-vscode-bg border border-vscode-border rounded text-xs focus:outline-none focus:border-vscode-accent"
             placeholder="e.g. Alice, Bob"
           />
+          <input
+            type="color"
+            value={avatarColor}
+            onChange={(e) => setAvatarColor(e.target.value)}
+            className="w-8 h-7 bg-vscode-bg border border-vscode-border rounded cursor-pointer"
+            title="Avatar colour"
+          />
+        </div>
+        <div className="flex gap-2 mb-2">
+          <input
+            type="email"
+            value={editorEmail}
+            onChange={(e) => setEditorEmail(e.target.value)}
+            className="flex-1 px-2 py-1 bg-vscode-bg border border-vscode-border rounded text-xs focus:outline-none focus:border-vscode-accent"
+            placeholder="Email (optional)"
+          />
         </div>
         <p className="text-xs text-vscode-text-muted">
-          This only affects how you appear to others. Database credentials are configured separately
-          below.
+          This only affects how you appear to others; renaming renames your team member entry. Database
+          credentials are configured separately below.
         </p>
+        {machineId && (
+          <p className="text-xs text-vscode-text-muted mt-1 truncate" title={machineId}>
+            Install ID: {machineId}
+          </p>
+        )}
       </section>
       <section>
         <h4 className="font-semibold mb-1">FTP Sync</h4>
         <p className="text-vscode-text-muted mb-2">
           Choose the local folder where files from the current FTP connection should be synced.
+          {activeConnectionName && (
+            <> Applies to <span className="text-vscode-text">{activeConnectionName}</span>; each connection keeps its own folder.</>
+          )}
         </p>
         <div className="flex gap-2 mb-2">
           <input
@@ -343,12 +479,141 @@ const SettingsPanel: React.FC = () => {
           Browse…
         </button>
       </div>
+      <div className="flex items-center gap-2 mb-1">
+        <label className="text-xs text-vscode-text-muted" htmlFor="sync-mode">Sync mode</label>
+        <select
+          id="sync-mode"
+          value={syncMode}
+          onChange={async (e) => {
+            const next = e.target.value as SyncMode
+            setSyncMode(next)
+            const res = await electronAPI.settingsSetSyncMode(next)
+            if (!res.success) setError(res.error || 'Failed to save sync mode')
+          }}
+          className="flex-1 px-2 py-1 bg-vscode-bg border border-vscode-border rounded text-xs focus:outline-none focus:border-vscode-accent"
+        >
+          <option value="incremental">Incremental (single working copy)</option>
+          <option value="snapshot">Full snapshot (new timestamped folder)</option>
+        </select>
+      </div>
+      <p className="text-xs text-vscode-text-muted">
+        {syncMode === 'incremental'
+          ? 'Only files whose size or modified time changed on the server are downloaded into the "current" folder. Local saves and project search use the same copy.'
+          : 'Every sync downloads all files into a new YYYY-MM-DD_HH-mm folder.'}
+      </p>
       {loading && (
         <div className="mt-1 text-xs text-vscode-text-muted">
           Loading current settings…
         </div>
       )}
       </section>
+      <section>
+        <h4 className="font-semibold mb-1">Upload backups</h4>
+        <p className="text-vscode-text-muted mb-2">
+          Before an upload replaces a file, the server version is kept on this computer and listed under
+          Upload history in the file and tab menus.
+        </p>
+        <label className="flex items-center gap-2 text-xs">
+          <input
+            type="checkbox"
+            checked={remoteBackups}
+            disabled={!activeConnection}
+            onChange={async (e) => {
+              const next = e.target.checked
+              setRemoteBackups(next)
+              const res = await electronAPI.settingsSetRemoteBackups(next, activeConnection)
+              if (!res.success) setError(res.error || 'Failed to save the backup setting')
+            }}
+          />
+          <span>
+            Also keep a copy on the server in <code>/.backups</code>
+            {activeConnectionName && <> for {activeConnectionName}</>}
+          </span>
+        </label>
+      </section>
+      <section>
+        <h4 className="font-semibold mb-1">Local history</h4>
+        <p className="text-vscode-text-muted mb-2">
+          Every save keeps a revision on this computer, shown in the Timeline. Use 0 for no limit; the latest
+          revision of a file is always kept.
+        </p>
+        <div className="flex items-center gap-3 text-xs">
+          <label className="flex items-center gap-1">
+            Keep
+            <input
+              type="number"
+              min={0}
+              className="w-14 bg-vscode-bg border border-vscode-border rounded px-1 py-0.5 text-xs text-vscode-text"
+              value={historyRetention.maxRevisions}
+              onChange={(e) => saveHistoryRetention({ ...historyRetention, maxRevisions: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+            />
+            revisions
+          </label>
+          <label className="flex items-center gap-1">
+            for
+            <input
+              type="number"
+              min={0}
+              className="w-14 bg-vscode-bg border border-vscode-border rounded px-1 py-0.5 text-xs text-vscode-text"
+              value={historyRetention.maxAgeDays}
+              onChange={(e) => saveHistoryRetention({ ...historyRetention, maxAgeDays: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+            />
+            days
+          </label>
+        </div>
+      </section>
+      <section>
+        <h4 className="font-semibold mb-1">File locks</h4>
+        <p className="text-vscode-text-muted mb-2">
+          Lock a file from the explorer or tab menu to keep teammates from changing it. Locks are released when you
+          close the tab or quit, and expire on their own after:
+        </p>
+        <label className="flex items-center gap-1 text-xs">
+          <input
+            type="number"
+            min={1}
+            className="w-16 bg-vscode-bg border border-vscode-border rounded px-1 py-0.5 text-xs text-vscode-text"
+            value={lockMinutes}
+            onChange={async (e) => {
+              const next = Math.max(1, parseInt(e.target.value, 10) || 1)
+              setLockMinutes(next)
+              const res = await electronAPI.settingsSetLockMinutes(next)
+              if (!res.success) setError(res.error || 'Failed to save the lock duration')
+            }}
+          />
+          minutes
+        </label>
+      </section>
+      <section>
+        <h4 className="font-semibold mb-1">Presence</h4>
+        <p className="text-vscode-text-muted mb-2">
+          Without keyboard or mouse activity in the editor, teammates see you as away and then offline.
+        </p>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-1 text-xs">
+            Away after
+            <input
+              type="number"
+              min={1}
+              className="w-14 bg-vscode-bg border border-vscode-border rounded px-1 py-0.5 text-xs text-vscode-text"
+              value={presence.awayMinutes}
+              onChange={(e) => updatePresence({ awayMinutes: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+            />
+            min
+          </label>
+          <label className="flex items-center gap-1 text-xs">
+            Offline after
+            <input
+              type="number"
+              min={1}
+              className="w-14 bg-vscode-bg border border-vscode-border rounded px-1 py-0.5 text-xs text-vscode-text"
+              value={presence.offlineMinutes}
+              onChange={(e) => updatePresence({ offlineMinutes: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+            />
+            min
+          </label>
+        </div>
+      </section>
       <section>
         <h4 className="font-semibold mb-1">Database (PostgreSQL)</h4>
         <p className="text-vscode-text-muted mb-2">
@@ -419,9 +684,11 @@ const SettingsPanel: React.FC = () => {
       <section>
         <h4 className="font-semibold mb-1">Ignored files & patterns</h4>
         <p className="text-vscode-text-muted mb-2">
-          Configure which remote files should be skipped during sync. Patterns without a <code>/</code> apply to
-          filenames (match at the start or end), for example <code>._</code> or <code>.bak</code>. Patterns that start
-          with <code>/</code> act as path prefixes (for example <code>/logs</code>).
+          Configure which remote files should be skipped during sync, using .gitignore syntax. Patterns without a{' '}
+          <code>/</code> match names at any depth (<code>*.bak</code>, <code>._*</code>), a leading <code>/</code> anchors to
+          the server root (<code>/logs</code>), a trailing <code>/</code> only matches folders (<code>cache/</code>),{' '}
+          <code>**</code> spans folders (<code>**/*.log</code>) and <code>!</code> re-includes a match
+          (<code>!keep.txt</code>). The last matching pattern wins.
         </p>
         <div className="flex gap-2 mb-2">
           <input
@@ -449,7 +716,7 @@ const SettingsPanel: React.FC = () => {
               }
             }}
             className="flex-1 px-2 py-1 bg-vscode-bg border border-vscode-border rounded text-xs focus:outline-none focus:border-vscode-accent"
-            placeholder="Examples: ._, .bak, /logs"
+            placeholder="Examples: *.bak, cache/, /logs, !keep.txt"
           />
           <button
             type="button"
@@ -529,6 +796,40 @@ const SettingsPanel: React.FC = () => {
             })}
           </div>
         )}
+        <div className="mb-2">
+          <div className="flex gap-2 items-center">
+            <input
+              type="text"
+              value={ignoreTestPath}
+              onChange={(e) => setIgnoreTestPath(e.target.value)}
+              className="flex-1 px-2 py-1 bg-vscode-bg border border-vscode-border rounded text-xs focus:outline-none focus:border-vscode-accent"
+              placeholder="Test a path, e.g. /www/cache/app.log"
+            />
+            <label className="inline-flex items-center gap-1 text-xs text-vscode-text-muted">
+              <input type="checkbox" checked={ignoreTestIsFolder} onChange={(e) => setIgnoreTestIsFolder(e.target.checked)} />
+              Folder
+            </label>
+          </div>
+          {ignoreTestPath.trim() &&
+            (() => {
+              const result = explainIgnore(ignorePatterns, ignoreTestPath.trim(), ignoreTestIsFolder)
+              if (result.ignored) {
+                return (
+                  <div className="mt-1 text-xs text-yellow-300">
+                    Ignored by <code>{result.pattern}</code>
+                    {result.matchedPath && result.matchedPath !== '/' + ignoreTestPath.trim().replace(/^\/+|\/+$/g, '')
+                      ? ` (folder ${result.matchedPath})`
+                      : ''}
+                  </div>
+                )
+              }
+              return (
+                <div className="mt-1 text-xs text-green-400">
+                  Synced{result.pattern ? <> — re-included by <code>{result.pattern}</code></> : ''}
+                </div>
+              )
+            })()}
+        </div>
         <label className="inline-flex items-center gap-2 text-xs">
           <input
             type="checkbox"
@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react'
+import { DiffEditor } from '@monaco-editor/react'
+import { electronAPI, SnapshotDiff } from '../utils/electronAPI'
+
+interface SnapshotCompareDialogProps {
+  /** Older snapshot, shown on the left. */
+  from: string
+  /** Newer snapshot, shown on the right. */
+  to: string
+  onClose: () => void
+}
+
+type ChangeKind = 'added' | 'removed' | 'changed'
+
+const getLanguageFromExtension = (filename: string): string => {
+  const ext = filename.split('.').pop()?.toLowerCase()
+  const languageMap: Record<string, string> = {
+    js: 'javascript',
+    jsx: 'javascript',
+    ts: 'typescript',
+    tsx: 'typescript',
+    htm: 'html',
+    html: 'html',
+    css: 'css',
+    scss: 'scss',
+    json: 'json',
+    md: 'markdown',
+    php: 'php',
+    xml: 'xml',
+    yml: 'yaml',
+    yaml: 'yaml'
+  }
+  return (ext && languageMap[ext]) || 'plaintext'
+}
+
+const kindStyles: Record<ChangeKind, { letter: string; className: string }> = {
+  added: { letter: 'A', className: 'text-green-400' },
+  removed: { letter: 'D', className: 'text-red-400' },
+  changed: { letter: 'M', className: 'text-yellow-300' }
+}
+
+const SnapshotCompareDialog: React.FC<SnapshotCompareDialogProps> = ({ from, to, onClose }) => {
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [selected, setSelected] = useState<{ path: string; kind: ChangeKind } | null>(null)
+  const [contents, setContents] = useState<{ original: string; modified: string; binary: boolean } | null>(null)
+  const [loadingContents, setLoadingContents] = useState(false)
+
+  useEffect(() => {
+    ;(async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const res = await electronAPI.snapshotDiff(from, to)
+        if (!res.success) {
+          setError(res.error || 'Failed to compare snapshots')
+          return
+        }
+        const next = { added: res.added || [], removed: res.removed || [], changed: res.changed || [] }
+        setDiff(next)
+        const first = next.changed[0]
+          ? { path: next.changed[0].path, kind: 'changed' as ChangeKind }
+          : next.added[0]
+            ? { path: next.added[0].path, kind: 'added' as ChangeKind }
+            : next.removed[0]
+              ? { path: next.removed[0].path, kind: 'removed' as ChangeKind }
+              : null
+        setSelected(first)
+      } finally {
+        setLoading(false)
+      }
+    })()
+  }, [from, to])
+
+  useEffect(() => {
+    if (!selected) {
+      setContents(null)
+      return
+    }
+    let cancelled = false
+    ;(async () => {
+      setLoadingContents(true)
+      try {
+        let original = ''
+        let modified = ''
+        if (selected.kind !== 'added') {
+          const res = await electronAPI.snapshotReadFile(from, selected.path)
+          if (res.success) original = res.content || ''
+        }
+        if (selected.kind !== 'removed') {
+          const res = await electronAPI.snapshotReadFile(to, selected.path)
+          if (res.success) modified = res.content || ''
+        }
+        if (cancelled) return
+        setContents({ original, modified, binary: original.includes('\u0000') || modified.includes('\u0000') })
+      } finally {
+        if (!cancelled) setLoadingContents(false)
+      }
+    })()
+    return () => {
+      cancelled = true
+    }
+  }, [selected, from, to])
+
+  const rows: { path: string; kind: ChangeKind }[] = diff
+    ? [
+        ...diff.changed.map((c) => ({ path: c.path, kind: 'changed' as ChangeKind })),
+        ...diff.added.map((c) => ({ path: c.path, kind: 'added' as ChangeKind })),
+        ...diff.removed.map((c) => ({ path: c.path, kind: 'removed' as ChangeKind }))
+      ]
+    : []
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-vscode-sidebar rounded-lg border border-vscode-border flex flex-col"
+        style={{ width: '90vw', height: '80vh' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-4 py-3 border-b border-vscode-border">
+          <h2 className="text-lg font-semibold">Compare snapshots</h2>
+          <div className="text-xs text-vscode-text-muted mt-1">
+            {from} ⟷ {to}
+            {diff && ` · ${diff.added.length} added, ${diff.removed.length} removed, ${diff.changed.length} changed`}
+          </div>
+        </div>
+        <div className="flex flex-1 min-h-0">
+          <div className="w-80 border-r border-vscode-border overflow-y-auto vscode-scrollbar">
+            {loading && <div className="px-3 py-2 text-xs text-vscode-text-muted">Comparing…</div>}
+            {error && <div className="px-3 py-2 text-xs text-red-400">{error}</div>}
+            {!loading && !error && rows.length === 0 && (
+              <div className="px-3 py-2 text-xs text-vscode-text-muted">The snapshots are identical.</div>
+            )}
+            {rows.map((r) => (
+              <div
+                key={`${r.kind}:${r.path}`}
+                className={`flex items-center gap-2 px-3 py-1 text-xs cursor-pointer hover:bg-vscode-hover ${selected && selected.path === r.path ? 'bg-vscode-hover' : ''}`}
+                onClick={() => setSelected(r)}
+              >
+                <span className={`w-4 text-center font-semibold ${kindStyles[r.kind].className}`} title={r.kind}>
+                  {kindStyles[r.kind].letter}
+                </span>
+                <span className="flex-1 truncate" title={r.path}>{r.path}</span>
+              </div>
+            ))}
+          </div>
+          <div className="flex-1 min-w-0 flex flex-col">
+            {selected && (
+              <div className="px-3 py-1 text-xs text-vscode-text-muted border-b border-vscode-border truncate">
+                {selected.path}
+              </div>
+            )}
+            <div className="flex-1 min-h-0">
+              {loadingContents && <div className="p-3 text-xs text-vscode-text-muted">Loading diff…</div>}
+              {!loadingContents && contents && contents.binary && (
+                <div className="p-3 text-xs text-vscode-text-muted">Binary file — no text diff available.</div>
+              )}
+              {!loadingContents && contents && !contents.binary && selected && (
+                <DiffEditor
+                  height="100%"
+                  theme="vs-dark"
+                  language={getLanguageFromExtension(selected.path)}
+                  original={contents.original}
+                  modified={contents.modified}
+                  options={{ readOnly: true, renderSideBySide: true, minimap: { enabled: false }, automaticLayout: true }}
+                />
+              )}
+            </div>
+          </div>
+        </div>
+        <div className="px-4 py-3 border-t border-vscode-border flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-vscode-hover text-vscode-text rounded hover:bg-vscode-border transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default SnapshotCompareDialog
@@ -0,0 +1,353 @@
+import React, { useEffect, useState } from 'react'
+import { ChevronRight, ChevronDown, Folder, File, RefreshCw, RotateCcw, Trash2, GitCompare } from 'lucide-react'
+import { useEditorStore } from '../stores/editorStore'
+import { useFTPStore } from '../stores/ftpStore'
+import { electronAPI, SnapshotInfo, SnapshotEntry, SnapshotRetention, PublishProgress } from '../utils/electronAPI'
+import SnapshotCompareDialog from './SnapshotCompareDialog'
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+}
+
+const formatSnapshotDate = (snapshot: SnapshotInfo) =>
+  snapshot.createdAt ? new Date(snapshot.createdAt).toLocaleString() : snapshot.name
+
+// Lists the snapshot-mode sync folders, prunes them by retention policy,
+// compares two of them and restores files or folders back to the server.
+const SnapshotsPanel: React.FC = () => {
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [retention, setRetention] = useState<SnapshotRetention>({ keepLast: 10, keepDaily: 7, autoApply: false })
+  const [applying, setApplying] = useState(false)
+  const [compareSelection, setCompareSelection] = useState<string[]>([])
+  const [comparing, setComparing] = useState<{ from: string; to: string } | null>(null)
+  const [browsing, setBrowsing] = useState<string | null>(null)
+  const [dirEntries, setDirEntries] = useState<Record<string, SnapshotEntry[]>>({})
+  const [expandedDirs, setExpandedDirs] = useState<Set<string>>(new Set())
+  const [restoring, setRestoring] = useState(false)
+  const [progress, setProgress] = useState<PublishProgress | null>(null)
+
+  const load = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const res = await electronAPI.snapshotList()
+      if (!res.success) {
+        setError(res.error || 'Failed to list snapshots')
+        return
+      }
+      const list = res.snapshots || []
+      setSnapshots(list)
+      const names = new Set(list.map((s) => s.name))
+      setCompareSelection((prev) => prev.filter((n) => names.has(n)))
+      setBrowsing((prev) => (prev && names.has(prev) ? prev : null))
+    } catch (err) {
+      console.error('Failed to list snapshots', err)
+      setError('Failed to list snapshots')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Snapshots live in the sync folder of the workspace open in the explorer.
+  const activeConnection = useFTPStore((state) => state.activeConnection)
+
+  useEffect(() => {
+    load()
+  }, [activeConnection])
+
+  useEffect(() => {
+    ;(async () => {
+      const res = await electronAPI.settingsGetSnapshotRetention()
+      if (res.success && res.retention) setRetention(res.retention)
+    })()
+  }, [])
+
+  useEffect(() => {
+    const off = electronAPI.onPublishProgress((_event, payload) => {
+      if (restoring && payload && typeof payload.count === 'number') {
+        setProgress(payload)
+      }
+    })
+    return () => {
+      if (off) off()
+    }
+  }, [restoring])
+
+  const loadDir = async (name: string, relPath: string) => {
+    const res = await electronAPI.snapshotListDir(name, relPath)
+    if (res.success) {
+      setDirEntries((prev) => ({ ...prev, [relPath]: res.entries || [] }))
+    } else {
+      setError(res.error || 'Failed to read snapshot folder')
+    }
+  }
+
+  const toggleBrowse = (name: string) => {
+    setDirEntries({})
+    setExpandedDirs(new Set())
+    if (browsing === name) {
+      setBrowsing(null)
+      return
+    }
+    setBrowsing(name)
+    loadDir(name, '')
+  }
+
+  const toggleDir = (relPath: string) => {
+    if (!browsing) return
+    setExpandedDirs((prev) => {
+      const next = new Set(prev)
+      if (next.has(relPath)) {
+        next.delete(relPath)
+      } else {
+        next.add(relPath)
+        if (!dirEntries[relPath]) loadDir(browsing, relPath)
+      }
+      return next
+    })
+  }
+
+  const toggleCompare = (name: string) => {
+    setCompareSelection((prev) => {
+      if (prev.includes(name)) return prev.filter((n) => n !== name)
+      return [...prev, name].slice(-2)
+    })
+  }
+
+  const handleCompare = () => {
+    if (compareSelection.length !== 2) return
+    const [from, to] = [...compareSelection].sort()
+    setComparing({ from, to })
+  }
+
+  const handleDelete = async (name: string) => {
+    if (!window.confirm(`Delete snapshot ${name}? This removes the folder from disk.`)) return
+    const res = await electronAPI.snapshotDelete(name)
+    if (!res.success) {
+      setError(res.error || 'Failed to delete snapshot')
+      return
+    }
+    await load()
+  }
+
+  const saveRetention = async (next: SnapshotRetention) => {
+    setRetention(next)
+    const res = await electronAPI.settingsSetSnapshotRetention(next)
+    if (!res.success) setError(res.error || 'Failed to save retention policy')
+  }
+
+  const handleApplyRetention = async () => {
+    setApplying(true)
+    setError(null)
+    try {
+      const preview = await electronAPI.snapshotApplyRetention(true)
+      if (!preview.success) {
+        setError(preview.error || 'Failed to apply retention policy')
+        return
+      }
+      const removed = preview.removed || []
+      if (removed.length === 0) {
+        useEditorStore.getState().setStatusMessage('Retention policy: nothing to remove')
+        return
+      }
+      const list = removed.slice(0, 10).join('\n')
+      const more = removed.length > 10 ? `\n…and ${removed.length - 10} more` : ''
+      if (!window.confirm(`Delete ${removed.length} snapshot${removed.length === 1 ? '' : 's'}?\n\n${list}${more}`)) return
+      const res = await electronAPI.snapshotApplyRetention(false)
+      if (!res.success) {
+        setError(res.error || 'Failed to apply retention policy')
+        return
+      }
+      useEditorStore.getState().setStatusMessage(`Removed ${(res.removed || []).length} old snapshot${(res.removed || []).length === 1 ? '' : 's'}`)
+      await load()
+    } finally {
+      setApplying(false)
+    }
+  }
+
+  const handleRestore = async (entry: SnapshotEntry) => {
+    if (!browsing || restoring) return
+    const snapshot = snapshots.find((s) => s.name === browsing)
+    const target = snapshot && snapshot.remoteRoot ? ` under ${snapshot.remoteRoot}` : ''
+    const what = entry.type === 'directory' ? `folder ${entry.relPath} and everything in it` : entry.relPath
+    if (!window.confirm(`Restore ${what} from snapshot ${browsing} to the server${target}? Files on the server will be overwritten.`)) return
+    setRestoring(true)
+    setError(null)
+    try {
+      const res = await electronAPI.snapshotRestore(browsing, entry.relPath)
+      if (!res.success) {
+        setError(res.error || 'Failed to restore from snapshot')
+        return
+      }
+      const uploaded = (res.uploaded || []).length
+      const failed = res.failed || []
+      if (failed.length > 0) {
+        setError(failed.map((f) => `${f.path}: ${f.error}`).join('\n'))
+      }
+      useEditorStore.getState().setStatusMessage(
+        `Restored ${uploaded} file${uploaded === 1 ? '' : 's'} to ${res.remotePath}${failed.length ? `, ${failed.length} failed` : ''}`
+      )
+    } finally {
+      setRestoring(false)
+      setProgress(null)
+    }
+  }
+
+  const renderEntries = (relPath: string, depth: number): React.ReactNode => {
+    const entries = dirEntries[relPath]
+    if (!entries) return <div className="text-xs text-vscode-text-muted py-0.5" style={{ paddingLeft: depth * 12 + 8 }}>Loading…</div>
+    if (entries.length === 0) return <div className="text-xs text-vscode-text-muted py-0.5" style={{ paddingLeft: depth * 12 + 8 }}>Empty</div>
+    return entries.map((entry) => (
+      <div key={entry.relPath}>
+        <div
+          className="group flex items-center gap-1 pr-2 py-0.5 text-xs cursor-pointer hover:bg-vscode-hover"
+          style={{ paddingLeft: depth * 12 + 8 }}
+          onClick={() => entry.type === 'directory' && toggleDir(entry.relPath)}
+        >
+          {entry.type === 'directory' ? (
+            <>
+              {expandedDirs.has(entry.relPath) ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+              <Folder size={12} className="text-vscode-text-muted" />
+            </>
+          ) : (
+            <>
+              <span className="w-3" />
+              <File size={12} className="text-vscode-text-muted" />
+            </>
+          )}
+          <span className="flex-1 truncate" title={entry.relPath}>{entry.name}</span>
+          {entry.type === 'file' && <span className="text-vscode-text-muted">{formatBytes(entry.size)}</span>}
+          <button
+            onClick={(e) => {
+              e.stopPropagation()
+              handleRestore(entry)
+            }}
+            disabled={restoring}
+            className="opacity-0 group-hover:opacity-100 p-0.5 hover:bg-vscode-border rounded"
+            title="Restore to server"
+          >
+            <RotateCcw size={12} />
+          </button>
+        </div>
+        {entry.type === 'directory' && expandedDirs.has(entry.relPath) && renderEntries(entry.relPath, depth + 1)}
+      </div>
+    ))
+  }
+
+  const retentionInputClass = 'w-14 bg-vscode-bg border border-vscode-border rounded px-1 py-0.5 text-xs text-vscode-text'
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0">
+      <div className="p-3 border-b border-vscode-border space-y-2 text-xs">
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-1">
+            Keep last
+            <input
+              type="number"
+              min={0}
+              className={retentionInputClass}
+              value={retention.keepLast}
+              onChange={(e) => saveRetention({ ...retention, keepLast: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            daily
+            <input
+              type="number"
+              min={0}
+              className={retentionInputClass}
+              value={retention.keepDaily}
+              onChange={(e) => saveRetention({ ...retention, keepDaily: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+            />
+          </label>
+        </div>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={retention.autoApply}
+            onChange={(e) => saveRetention({ ...retention, autoApply: e.target.checked })}
+          />
+          Apply after each snapshot sync
+        </label>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleApplyRetention}
+            disabled={applying || snapshots.length === 0}
+            className="px-2 py-1 bg-vscode-hover text-vscode-text rounded hover:bg-vscode-border transition-colors"
+          >
+            {applying ? 'Applying…' : 'Apply now'}
+          </button>
+          <button
+            onClick={handleCompare}
+            disabled={compareSelection.length !== 2}
+            className={`px-2 py-1 rounded transition-colors flex items-center gap-1 ${compareSelection.length === 2 ? 'bg-vscode-accent text-white hover:bg-blue-600' : 'bg-vscode-border text-vscode-text-muted'}`}
+            title="Tick two snapshots to compare them"
+          >
+            <GitCompare size={12} />
+            Compare
+          </button>
+          <div className="flex-1" />
+          <button onClick={load} disabled={loading} className="p-1 hover:bg-vscode-hover rounded transition-colors" title="Refresh">
+            <RefreshCw size={12} className={loading ? 'animate-spin' : ''} />
+          </button>
+        </div>
+      </div>
+      {error && <div className="px-3 py-2 text-xs text-red-400 whitespace-pre-wrap border-b border-vscode-border">{error}</div>}
+      {progress && (
+        <div className="px-3 py-1 text-xs text-vscode-text-muted truncate border-b border-vscode-border">
+          Restoring {progress.count}/{progress.total}{progress.path ? ` — ${progress.path}` : ''}
+        </div>
+      )}
+      <div className="flex-1 overflow-y-auto vscode-scrollbar">
+        {!loading && snapshots.length === 0 && !error && (
+          <div className="p-3 text-xs text-vscode-text-muted">
+            No snapshots yet. Switch the sync mode to Snapshot in Settings to keep a timestamped copy per sync.
+          </div>
+        )}
+        {snapshots.map((s) => (
+          <div key={s.name} className="border-b border-vscode-border">
+            <div
+              className={`group flex items-center gap-2 px-3 py-1.5 text-xs cursor-pointer hover:bg-vscode-hover ${browsing === s.name ? 'bg-vscode-hover' : ''}`}
+              onClick={() => toggleBrowse(s.name)}
+            >
+              <input
+                type="checkbox"
+                checked={compareSelection.includes(s.name)}
+                onClick={(e) => e.stopPropagation()}
+                onChange={() => toggleCompare(s.name)}
+                title="Select to compare"
+              />
+              {browsing === s.name ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+              <div className="flex-1 min-w-0">
+                <div className="truncate">{formatSnapshotDate(s)}</div>
+                <div className="text-vscode-text-muted truncate">
+                  {s.fileCount} file{s.fileCount === 1 ? '' : 's'} · {formatBytes(s.size)}
+                  {s.remoteRoot ? ` · ${s.remoteRoot}` : ''}
+                </div>
+              </div>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  handleDelete(s.name)
+                }}
+                className="opacity-0 group-hover:opacity-100 p-1 hover:bg-vscode-border rounded"
+                title="Delete snapshot"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+            {browsing === s.name && <div className="pb-1">{renderEntries('', 1)}</div>}
+          </div>
+        ))}
+      </div>
+      {comparing && <SnapshotCompareDialog from={comparing.from} to={comparing.to} onClose={() => setComparing(null)} />}
+    </div>
+  )
+}
+
+export default SnapshotsPanel
@@ -1,58 +1,135 @@
 import React from 'react'
 import { useEditorStore } from '../stores/editorStore'
-import { useFTPStore } from '../stores/ftpStore'
-import { FileText, Users, GitBranch } from 'lucide-react'
-import { electronAPI } from '../utils/electronAPI'
+import { useFTPStore, getConnectionKeyById } from '../stores/ftpStore'
+import { useTransferStore } from '../stores/transferStore'
+import { usePresenceStore } from '../stores/presenceStore'
+import { FileText, Users, GitBranch, ArrowUpDown } from 'lucide-react'
+import { electronAPI, TextEncodingName } from '../utils/electronAPI'
+
+const ENCODING_LABELS: Record<TextEncodingName, string> = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+  'windows-1252': 'Windows 1252',
+  'iso-8859-1': 'ISO 8859-1'
+}
+
+const SAVE_ENCODINGS: { encoding: TextEncodingName; bom: boolean; label: string }[] = [
+  { encoding: 'utf-8', bom: false, label: 'UTF-8' },
+  { encoding: 'utf-8', bom: true, label: 'UTF-8 with BOM' },
+  { encoding: 'utf-16le', bom: true, label: 'UTF-16 LE' },
+  { encoding: 'utf-16be', bom: true, label: 'UTF-16 BE' },
+  { encoding: 'windows-1252', bom: false, label: 'Windows 1252' },
+  { encoding: 'iso-8859-1', bom: false, label: 'ISO 8859-1' }
+]
 
 const StatusBar: React.FC = () => {
   const { activeFile, openFiles, currentUserId, error, statusMessage } = useEditorStore()
-  const { isConnected, currentPath } = useFTPStore()
-  const [otherEditors, setOtherEditors] = React.useState<any[]>([])
+  const { isConnected, currentPath, activeConnection, health } = useFTPStore()
+  const connectionHealth = activeConnection ? health[activeConnection] : undefined
+  const { transfers, togglePanel: toggleTransfers } = useTransferStore()
+  const activeFiles = usePresenceStore((state) => state.activeFiles)
+  const [encodingMenuOpen, setEncodingMenuOpen] = React.useState(false)
+
+  const activeTransfers = transfers.filter((t) => t.status === 'queued' || t.status === 'running').length
+  const failedTransfers = transfers.filter((t) => t.status === 'failed').length
 
   const currentFile = React.useMemo(
     () => openFiles.find((f) => f.id === activeFile) || null,
     [openFiles, activeFile],
   )
 
+  const otherEditors = React.useMemo(() => {
+    if (!currentFile?.path || !currentUserId) return []
+    const key = getConnectionKeyById(currentFile.connectionId)
+    return activeFiles.filter(
+      (f) => f.file_path === currentFile.path && f.user_id !== currentUserId && (!f.connection_key || f.connection_key === key),
+    )
+  }, [activeFiles, currentFile?.path, currentFile?.connectionId, currentUserId])
+
+  const isTextFile = !!currentFile && (!currentFile.kind || currentFile.kind === 'code')
+  const encoding: TextEncodingName = currentFile?.encoding || 'utf-8'
+  const eol = currentFile?.eol || 'LF'
+
   React.useEffect(() => {
-    let interval: number | undefined
-    const loadPresence = async () => {
-      if (!currentFile?.path || !currentUserId) {
-        setOtherEditors([])
-        return
-      }
-      const res = await electronAPI.dbGetActiveFiles()
-      if (!res.success || !res.files) {
-        setOtherEditors([])
-        return
-      }
-      const others = res.files.filter(
-        (f: any) => f.file_path === currentFile.path && f.user_id !== currentUserId,
-      )
-      setOtherEditors(others)
-    }
+    setEncodingMenuOpen(false)
+  }, [activeFile])
+
+  const saveWithEncoding = (next: TextEncodingName, bom: boolean) => {
+    if (!currentFile) return
+    useEditorStore.getState().setFileTextFormat(currentFile.id, { encoding: next, bom })
+    useEditorStore.getState().setStatusMessage(`${currentFile.name} will be saved as ${ENCODING_LABELS[next]}${bom && next === 'utf-8' ? ' with BOM' : ''}`)
+    setEncodingMenuOpen(false)
+  }
 
-    if (currentFile?.path && currentUserId) {
-      loadPresence()
-      interval = window.setInterval(loadPresence, 5000)
-    } else {
-      setOtherEditors([])
+  // Decodes the server copy again with another encoding, for files detected wrongly.
+  const reopenWithEncoding = async (next: TextEncodingName) => {
+    if (!currentFile) return
+    setEncodingMenuOpen(false)
+    if (currentFile.isDirty && !window.confirm(`Reopening ${currentFile.name} discards your unsaved changes. Continue?`)) return
+    const dl = await electronAPI.ftpDownloadFile(currentFile.path, undefined as any, { encoding: next }, currentFile.connectionId)
+    if (!dl.success || typeof dl.content !== 'string') {
+      useEditorStore.getState().setError(dl.error || `Failed to reopen ${currentFile.name}`)
+      return
     }
+    const store = useEditorStore.getState()
+    store.setFileTextFormat(currentFile.id, { encoding: next, bom: dl.bom, eol: dl.eol })
+    store.updateFileContent(currentFile.id, dl.content)
+    store.setFileDirty(currentFile.id, false)
+    store.setRemoteVersion(currentFile.id, dl.remote || null, dl.content)
+    store.setStatusMessage(`Reopened ${currentFile.name} as ${ENCODING_LABELS[next]}`)
+  }
 
-    return () => {
-      if (interval) {
-        window.clearInterval(interval)
-      }
+  const healthStatus = !isConnected ? null : connectionHealth?.status || 'connected'
+  const healthDotClass =
+    healthStatus === 'connected' ? 'bg-green-500' : healthStatus === 'reconnecting' ? 'bg-yellow-400 animate-pulse' : 'bg-red-500'
+  const healthLabel =
+    healthStatus === 'connected'
+      ? `FTP Connected${connectionHealth?.latencyMs != null ? ` · ${connectionHealth.latencyMs} ms` : ''}`
+      : healthStatus === 'reconnecting'
+        ? 'FTP Reconnecting…'
+        : healthStatus === 'offline'
+          ? 'FTP Offline'
+          : 'FTP Disconnected'
+
+  const describeHealth = () => {
+    if (!healthStatus) return 'Not connected'
+    const lines = [healthStatus === 'offline' ? 'Offline: click to reconnect' : 'Click to check the connection now']
+    if (connectionHealth?.latencyMs != null) lines.push(`Latency: ${connectionHealth.latencyMs} ms`)
+    if (connectionHealth?.lastError) lines.push(`Last error: ${connectionHealth.lastError}`)
+    if (connectionHealth?.checkedAt) lines.push(`Checked: ${new Date(connectionHealth.checkedAt).toLocaleTimeString()}`)
+    return lines.join('\n')
+  }
+
+  // Sends a keepalive right away; an offline connection gets another round of reconnect attempts.
+  const checkConnection = async () => {
+    if (!activeConnection) return
+    const res = await electronAPI.ftpPing(activeConnection)
+    if (res.success && res.health) {
+      useFTPStore.getState().setConnectionHealth(res.health)
+    } else if (!res.success && res.error) {
+      useEditorStore.getState().setError(res.error)
     }
-  }, [currentFile?.path, currentUserId])
+  }
+
+  const toggleEol = () => {
+    if (!currentFile) return
+    const next = eol === 'CRLF' ? 'LF' : 'CRLF'
+    useEditorStore.getState().setFileTextFormat(currentFile.id, { eol: next })
+  }
 
   return (
     <div className="h-6 bg-vscode-statusBar border-t border-vscode-border flex items-center justify-between px-4 text-xs">
       <div className="flex items-center gap-4">
-        <div className="flex items-center gap-1">
-          <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-500' : 'bg-red-500'}`} />
-          <span>FTP {isConnected ? 'Connected' : 'Disconnected'}</span>
-        </div>
+        <button
+          className="flex items-center gap-1 hover:text-white"
+          onClick={checkConnection}
+          title={describeHealth()}
+          disabled={!isConnected}
+        >
+          <div className={`w-2 h-2 rounded-full ${healthDotClass}`} />
+          <span>{healthLabel}</span>
+        </button>
         
         {activeFile && (
           <div className="flex items-center gap-1">
@@ -69,15 +146,61 @@ const StatusBar: React.FC = () => {
       </div>
       
       <div className="flex items-center gap-4">
+        <button className="flex items-center gap-1 hover:text-white" onClick={toggleTransfers} title="Show transfers">
+          <ArrowUpDown size={12} />
+          <span>{activeTransfers > 0 ? `${activeTransfers} transferring` : 'Transfers'}</span>
+          {failedTransfers > 0 && <span className="text-red-400">({failedTransfers} failed)</span>}
+        </button>
+
         {currentFile && otherEditors.length > 0 && (
           <div className="flex items-center gap-1 text-vscode-text-muted">
             <Users size={12} />
-            <span className="truncate" title={otherEditors.map((u: any) => u.username).join(', ')}>
-              Also editing: {otherEditors.map((u: any) => u.username).join(', ')}
+            <span className="truncate" title={otherEditors.map((u) => u.username).join(', ')}>
+              Also editing: {otherEditors.map((u) => u.username).join(', ')}
             </span>
           </div>
         )}
 
+        {isTextFile && (
+          <div className="relative flex items-center gap-3">
+            <button
+              className="hover:text-white"
+              onClick={() => setEncodingMenuOpen((open) => !open)}
+              title="Select encoding"
+            >
+              {ENCODING_LABELS[encoding]}{currentFile?.bom && encoding === 'utf-8' ? ' with BOM' : ''}
+            </button>
+            <button className="hover:text-white" onClick={toggleEol} title="Switch line endings">
+              {eol}
+            </button>
+            {encodingMenuOpen && (
+              <div className="absolute bottom-full right-0 mb-1 z-50 w-48 bg-vscode-sidebar border border-vscode-border rounded shadow-lg py-1">
+                <div className="px-3 py-1 text-vscode-text-muted">Save with encoding</div>
+                {SAVE_ENCODINGS.map((option) => (
+                  <button
+                    key={option.label}
+                    className={`block w-full text-left px-3 py-1 hover:bg-vscode-hover ${option.encoding === encoding && option.bom === !!currentFile?.bom ? 'text-white' : ''}`}
+                    onClick={() => saveWithEncoding(option.encoding, option.bom)}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+                <div className="h-px bg-vscode-border/50 my-1" />
+                <div className="px-3 py-1 text-vscode-text-muted">Reopen with encoding</div>
+                {(Object.keys(ENCODING_LABELS) as TextEncodingName[]).map((name) => (
+                  <button
+                    key={name}
+                    className="block w-full text-left px-3 py-1 hover:bg-vscode-hover"
+                    onClick={() => reopenWithEncoding(name)}
+                  >
+                    {ENCODING_LABELS[name]}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {(error || statusMessage) && (
           <div className="max-w-xs truncate" title={error || statusMessage || undefined}>
             <span className={error ? 'text-red-400' : 'text-green-400'}>
@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react'
+import { SyncReport } from '../utils/electronAPI'
+
+interface SyncReportDialogProps {
+  report: SyncReport | null
+  loading?: boolean
+  error?: string | null
+  onClose: () => void
+  /**
+   * Offered for dry runs so the previewed sync can be started right away.
+   */
+  onRunSync?: () => void
+}
+
+type ReportTab = 'downloads' | 'ignored' | 'failures' | 'deleted' | 'conflicts'
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+}
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000)
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
+const initialTab = (report: SyncReport | null): ReportTab => {
+  if (report && report.failureCount > 0) return 'failures'
+  if (report && (report.conflictCount ?? 0) > 0) return 'conflicts'
+  return 'downloads'
+}
+
+const SyncReportDialog: React.FC<SyncReportDialogProps> = ({ report, loading, error, onClose, onRunSync }) => {
+  const [tab, setTab] = useState<ReportTab>(initialTab(report))
+
+  useEffect(() => {
+    if (report) setTab(initialTab(report))
+  }, [report])
+
+  const tabs: { id: ReportTab; label: string; count: number }[] = report
+    ? [
+        { id: 'downloads', label: report.dryRun ? 'Would download' : 'Downloaded', count: report.downloadCount },
+        { id: 'ignored', label: 'Ignored', count: report.ignoredCount },
+        { id: 'failures', label: 'Failed', count: report.failureCount },
+        { id: 'deleted', label: report.dryRun ? 'Would delete' : 'Deleted on server', count: report.deletedCount },
+        { id: 'conflicts', label: 'Edited locally', count: report.conflictCount ?? 0 }
+      ]
+    : []
+
+  const rows: { path: string; detail: string }[] = !report
+    ? []
+    : tab === 'downloads'
+      ? report.downloads.map((d) => ({ path: d.path, detail: formatBytes(d.size) }))
+      : tab === 'ignored'
+        ? report.ignored.map((i) => ({ path: i.path, detail: i.type === 'directory' ? 'folder' : '' }))
+        : tab === 'failures'
+          ? report.failures.map((f) => ({ path: f.path, detail: f.error }))
+          : tab === 'conflicts'
+            ? (report.conflicts ?? []).map((p) => ({ path: p, detail: 'changed on the server too; publish or discard the local edit' }))
+            : report.deleted.map((p) => ({ path: p, detail: '' }))
+  const shownCount = tabs.find((t) => t.id === tab)?.count ?? 0
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-vscode-sidebar rounded-lg border border-vscode-border flex flex-col"
+        style={{ width: '720px', maxWidth: '90vw', height: '70vh' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-4 py-3 border-b border-vscode-border">
+          <h2 className="text-lg font-semibold">{report && report.dryRun ? 'Sync dry run' : 'Last sync report'}</h2>
+          {report && (
+            <div className="text-xs text-vscode-text-muted mt-1">
+              {report.mode === 'incremental' ? 'Incremental' : 'Snapshot'} sync of {report.remoteRoot}
+              {report.dryRun ? '' : ` · ${new Date(report.startedAt).toLocaleString()}`}
+            </div>
+          )}
+        </div>
+        {loading && <div className="p-4 text-sm text-vscode-text-muted">Listing the server…</div>}
+        {error && <div className="p-4 text-sm text-red-400">{error}</div>}
+        {!loading && !error && !report && (
+          <div className="p-4 text-sm text-vscode-text-muted">No sync has been run for this sync folder yet.</div>
+        )}
+        {!loading && report && (
+          <>
+            <div className="grid grid-cols-4 gap-2 px-4 py-3 text-xs border-b border-vscode-border">
+              <div>
+                <div className="text-vscode-text-muted">{report.dryRun ? 'To download' : 'Downloaded'}</div>
+                <div className="text-sm">{report.downloadCount} files</div>
+              </div>
+              <div>
+                <div className="text-vscode-text-muted">Total size</div>
+                <div className="text-sm">{formatBytes(report.totalBytes)}</div>
+              </div>
+              <div>
+                <div className="text-vscode-text-muted">{report.dryRun ? 'Estimated time' : 'Took'}</div>
+                <div className="text-sm">
+                  {report.dryRun ? `~${formatDuration(report.estimatedMs ?? 0)}` : formatDuration(report.durationMs)}
+                </div>
+              </div>
+              <div>
+                <div className="text-vscode-text-muted">Unchanged</div>
+                <div className="text-sm">{report.unchangedCount} files</div>
+              </div>
+            </div>
+            <div className="flex gap-1 px-4 pt-2 text-xs">
+              {tabs.map((t) => (
+                <button
+                  key={t.id}
+                  onClick={() => setTab(t.id)}
+                  className={`px-2 py-1 rounded-t border-b-2 ${tab === t.id ? 'border-vscode-accent' : 'border-transparent text-vscode-text-muted hover:text-vscode-text'} ${t.id === 'failures' && t.count > 0 ? 'text-red-400' : ''}`}
+                >
+                  {t.label} ({t.count})
+                </button>
+              ))}
+            </div>
+            <div className="flex-1 overflow-y-auto vscode-scrollbar px-4 py-2 text-xs">
+              {rows.length === 0 && <div className="text-vscode-text-muted">Nothing here.</div>}
+              {rows.map((r) => (
+                <div key={r.path} className="flex gap-3 py-0.5">
+                  <span className="flex-1 truncate" title={r.path}>{r.path}</span>
+                  {r.detail && (
+                    <span className={`truncate max-w-[50%] ${tab === 'failures' ? 'text-red-400' : 'text-vscode-text-muted'}`} title={r.detail}>
+                      {r.detail}
+                    </span>
+                  )}
+                </div>
+              ))}
+              {shownCount > rows.length && (
+                <div className="text-vscode-text-muted pt-1">…and {shownCount - rows.length} more</div>
+              )}
+            </div>
+          </>
+        )}
+        <div className="px-4 py-3 border-t border-vscode-border flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-vscode-hover text-vscode-text rounded hover:bg-vscode-border transition-colors"
+          >
+            Close
+          </button>
+          {onRunSync && report && report.dryRun && (
+            <button
+              onClick={onRunSync}
+              className="px-4 py-2 bg-vscode-accent text-white rounded hover:bg-blue-600 transition-colors"
+            >
+              Run sync
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default SyncReportDialog
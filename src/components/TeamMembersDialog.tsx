@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react'
+import { Trash2, GitMerge } from 'lucide-react'
+import { useEditorStore } from '../stores/editorStore'
+import { electronAPI, TeamUser } from '../utils/electronAPI'
+
+interface TeamMembersDialogProps {
+  onClose: () => void
+  /** Called with the user list after a merge or removal. */
+  onChanged: (users: TeamUser[]) => void
+}
+
+// Admin view of the shared users table. Stale entries (old installs, the
+// shared "local" user from before identities) can be merged into the person
+// they belong to, keeping their activity, or removed outright.
+const TeamMembersDialog: React.FC<TeamMembersDialogProps> = ({ onClose, onChanged }) => {
+  const currentUserId = useEditorStore((state) => state.currentUserId)
+  const [users, setUsers] = useState<TeamUser[]>([])
+  const [mergeTargets, setMergeTargets] = useState<Record<number, number>>({})
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = async () => {
+    const res = await electronAPI.dbGetUsers()
+    if (!res.success || !res.users) {
+      setError(res.error || 'Failed to load team members')
+      return
+    }
+    setUsers(res.users)
+    onChanged(res.users)
+  }
+
+  useEffect(() => {
+    load()
+  }, [])
+
+  const run = async (action: () => Promise<{ success: boolean; error?: string }>, failure: string) => {
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await action()
+      if (!res.success) setError(res.error || failure)
+      await load()
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const merge = (user: TeamUser) => {
+    const target = users.find((u) => u.id === mergeTargets[user.id])
+    if (!target) return
+    if (!window.confirm(`Merge ${user.username} into ${target.username}? Their activity moves to ${target.username} and ${user.username} is deleted.`)) return
+    run(() => electronAPI.dbMergeUsers(user.id, target.id), `Failed to merge ${user.username}`)
+  }
+
+  const remove = (user: TeamUser) => {
+    if (!window.confirm(`Remove ${user.username}? Their activity log entries are kept under this name.`)) return
+    run(() => electronAPI.dbRemoveUser(user.id), `Failed to remove ${user.username}`)
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-vscode-sidebar rounded-lg border border-vscode-border flex flex-col"
+        style={{ width: 640, maxHeight: '70vh' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-4 py-3 border-b border-vscode-border">
+          <h2 className="text-lg font-semibold">Team members</h2>
+          <div className="text-xs text-vscode-text-muted mt-1">
+            Each install registers its own member. Merge old entries into the person they belong to, or remove them.
+          </div>
+        </div>
+        <div className="flex-1 min-h-0 overflow-y-auto vscode-scrollbar text-xs">
+          {error && <div className="px-4 py-2 text-red-400">{error}</div>}
+          {users.map((user) => (
+            <div key={user.id} className="flex items-center gap-3 px-4 py-2 hover:bg-vscode-hover">
+              <div className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: user.avatar_color || '#3c3c3c' }} />
+              <div className="flex-1 min-w-0">
+                <div className="truncate">
+                  {user.username}
+                  {user.id === currentUserId && <span className="text-vscode-text-muted"> (you)</span>}
+                  {user.email && <span className="text-vscode-text-muted"> · {user.email}</span>}
+                </div>
+                <div className="text-vscode-text-muted truncate" title={user.machine_id || undefined}>
+                  Last seen {new Date(user.last_seen).toLocaleString()} ·{' '}
+                  {user.machine_id ? `install ${user.machine_id.slice(0, 8)}` : 'no install ID (shared or legacy)'}
+                </div>
+              </div>
+              {user.id !== currentUserId && (
+                <>
+                  <select
+                    className="bg-vscode-bg border border-vscode-border rounded px-1 py-0.5 text-xs text-vscode-text max-w-[8rem]"
+                    value={mergeTargets[user.id] ?? ''}
+                    onChange={(e) => setMergeTargets((prev) => ({ ...prev, [user.id]: Number(e.target.value) }))}
+                  >
+                    <option value="" disabled>
+                      Merge into…
+                    </option>
+                    {users
+                      .filter((u) => u.id !== user.id)
+                      .map((u) => (
+                        <option key={u.id} value={u.id}>
+                          {u.username}
+                        </option>
+                      ))}
+                  </select>
+                  <button
+                    onClick={() => merge(user)}
+                    disabled={busy || !mergeTargets[user.id]}
+                    className="flex items-center gap-1 px-2 py-1 bg-vscode-hover rounded hover:bg-vscode-border disabled:opacity-50"
+                  >
+                    <GitMerge size={12} />
+                    Merge
+                  </button>
+                  <button
+                    onClick={() => remove(user)}
+                    disabled={busy}
+                    className="flex items-center gap-1 px-2 py-1 bg-vscode-hover rounded hover:bg-vscode-border disabled:opacity-50"
+                  >
+                    <Trash2 size={12} />
+                    Remove
+                  </button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="px-4 py-3 border-t border-vscode-border flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-vscode-hover text-vscode-text rounded hover:bg-vscode-border transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default TeamMembersDialog
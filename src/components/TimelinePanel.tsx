@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react'
+import { Eye, GitCompare, RotateCcw, RefreshCw } from 'lucide-react'
+import { Editor } from '@monaco-editor/react'
+import { useEditorStore, EditorFile } from '../stores/editorStore'
+import { electronAPI, FileRevision, FileRevisionReason } from '../utils/electronAPI'
+import { openDiffTab } from '../utils/diffTabs'
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+const reasonLabels: Record<FileRevisionReason, string> = {
+  save: 'Saved',
+  sync: 'Save and Sync',
+  inspector: 'Inspector save'
+}
+
+// Local history of the active code tab: every saved version, newest first.
+// Revisions can be previewed, compared with the editor in a diff tab, or
+// restored into the tab, which is then saved like any other edit.
+const TimelinePanel: React.FC = () => {
+  // A diff tab shows the timeline of the file it compares.
+  const file = useEditorStore((state) => {
+    const active = state.openFiles.find((f) => f.id === state.activeFile)
+    const source = active?.kind === 'diff' ? state.openFiles.find((f) => f.id === active.diffOf) : active
+    return source && (!source.kind || source.kind === 'code') ? source : null
+  })
+  const [revisions, setRevisions] = useState<FileRevision[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [preview, setPreview] = useState<{ revision: FileRevision; content: string } | null>(null)
+
+  const load = async (target: EditorFile) => {
+    setLoading(true)
+    setError(null)
+    try {
+      const res = await electronAPI.historyList(target.path, target.connectionId)
+      if (res.success) setRevisions(res.revisions || [])
+      else setError(res.error || 'Failed to load the local history')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Reload when switching tabs and after each save clears the dirty flag.
+  useEffect(() => {
+    if (file) load(file)
+    else setRevisions([])
+  }, [file?.id, file?.isDirty])
+
+  const readRevision = async (revision: FileRevision): Promise<string | null> => {
+    if (!file) return null
+    const res = await electronAPI.historyRead(file.path, revision.id, file.connectionId)
+    if (!res.success) {
+      setError(res.error || 'Failed to read the revision')
+      return null
+    }
+    return res.content || ''
+  }
+
+  const handlePreview = async (revision: FileRevision) => {
+    const content = await readRevision(revision)
+    if (content !== null) setPreview({ revision, content })
+  }
+
+  const handleCompare = async (revision: FileRevision) => {
+    const content = await readRevision(revision)
+    if (!file || content === null) return
+    openDiffTab(file, 'revision', content, `revision ${new Date(revision.createdAt).toLocaleString()}`)
+  }
+
+  const handleRestore = async (revision: FileRevision) => {
+    if (!file) return
+    const when = new Date(revision.createdAt).toLocaleString()
+    const unsaved = file.isDirty ? ' Your unsaved changes in the tab will be replaced.' : ''
+    if (!window.confirm(`Restore ${file.name} to the version saved at ${when}?${unsaved}`)) return
+    const content = await readRevision(revision)
+    if (content === null) return
+    useEditorStore.getState().updateFileContent(file.id, content)
+    useEditorStore.getState().setStatusMessage(`Restored ${file.path} to the version from ${when}; save to keep it`)
+    setPreview(null)
+  }
+
+  if (!file) {
+    return <div className="p-3 text-xs text-vscode-text-muted">Open a file to see its local history.</div>
+  }
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0 text-xs">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-vscode-border">
+        <span className="flex-1 truncate text-vscode-text-muted" title={file.path}>
+          {file.path}
+        </span>
+        <button onClick={() => load(file)} className="hover:text-white" title="Refresh">
+          <RefreshCw size={12} />
+        </button>
+      </div>
+      <div className="flex-1 min-h-0 overflow-y-auto vscode-scrollbar">
+        {loading && revisions.length === 0 && <div className="px-3 py-2 text-vscode-text-muted">Loading…</div>}
+        {error && <div className="px-3 py-2 text-red-400">{error}</div>}
+        {!loading && !error && revisions.length === 0 && (
+          <div className="px-3 py-2 text-vscode-text-muted">No saved revisions yet. Each save adds one.</div>
+        )}
+        {revisions.map((revision, i) => (
+          <div key={revision.id} className="group flex items-center gap-2 px-3 py-1.5 hover:bg-vscode-hover">
+            <div className="flex-1 min-w-0">
+              <div className="truncate">
+                {new Date(revision.createdAt).toLocaleString()}
+                {i === 0 && <span className="text-vscode-text-muted"> · latest</span>}
+              </div>
+              <div className="text-vscode-text-muted truncate">
+                {reasonLabels[revision.reason] || revision.reason} · {formatBytes(revision.size)}
+              </div>
+            </div>
+            <button onClick={() => handlePreview(revision)} className="hover:text-white" title="Preview">
+              <Eye size={12} />
+            </button>
+            <button onClick={() => handleCompare(revision)} className="hover:text-white" title="Compare with the editor">
+              <GitCompare size={12} />
+            </button>
+            <button onClick={() => handleRestore(revision)} className="hover:text-white" title="Restore into the editor">
+              <RotateCcw size={12} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {preview && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" onClick={() => setPreview(null)}>
+          <div
+            className="bg-vscode-sidebar rounded-lg border border-vscode-border flex flex-col"
+            style={{ width: '80vw', height: '75vh' }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="px-4 py-3 border-b border-vscode-border">
+              <h2 className="text-lg font-semibold">{file.name}</h2>
+              <div className="text-xs text-vscode-text-muted mt-1">
+                {reasonLabels[preview.revision.reason] || preview.revision.reason} at{' '}
+                {new Date(preview.revision.createdAt).toLocaleString()} · {formatBytes(preview.revision.size)}
+              </div>
+            </div>
+            <div className="flex-1 min-h-0">
+              <Editor
+                height="100%"
+                theme="vs-dark"
+                language={file.language}
+                value={preview.content}
+                options={{ readOnly: true, minimap: { enabled: false }, automaticLayout: true }}
+              />
+            </div>
+            <div className="px-4 py-3 border-t border-vscode-border flex justify-end gap-2">
+              <button
+                onClick={() => setPreview(null)}
+                className="px-4 py-2 bg-vscode-hover text-vscode-text rounded hover:bg-vscode-border transition-colors"
+              >
+                Close
+              </button>
+              <button
+                onClick={() => handleRestore(preview.revision)}
+                className="px-4 py-2 bg-vscode-accent text-white rounded hover:bg-blue-600"
+              >
+                Restore this version
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default TimelinePanel
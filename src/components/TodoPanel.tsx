@@ -1,7 +1,7 @@
 import React, { useMemo, useState, useCallback } from 'react'
 import { Filter, Folder, ListTree, List, File, FileCode, FileJson, FileText, Image as ImageIcon, Archive as ArchiveIcon } from 'lucide-react'
 import { useFTPStore, FileStatus } from '../stores/ftpStore'
-import { useEditorStore } from '../stores/editorStore'
+import { useEditorStore, EditorFile, getFileTabId } from '../stores/editorStore'
 import { electronAPI } from '../utils/electronAPI'
 
 type StatusFilter = 'all' | FileStatus
@@ -190,27 +190,33 @@ const TodoPanel: React.FC = () => {
   const handleOpenFile = useCallback(
     async (item: { path: string; name: string }) => {
       setError(null)
-      const existing = openFiles.find((f) => f.id === item.path)
+      // To Do marks are kept per path, so files open in the active workspace.
+      const connectionId = useFTPStore.getState().activeConnection || undefined
+      const existing = openFiles.find((f) => f.id === getFileTabId(item.path, connectionId))
       if (existing) {
         setActiveFile(existing.id)
         return
       }
 
       try {
-        const dl = await electronAPI.ftpDownloadFile(item.path, undefined as any)
-        if (!dl.success || typeof dl.content !== 'string') {
+        const dl = await electronAPI.ftpDownloadFile(item.path, undefined as any, undefined, connectionId)
+        if (!dl.success || (!dl.binary && typeof dl.content !== 'string')) {
           setError(dl.error || 'Failed to open file from FTP')
           return
         }
-        const content = dl.content
-        const editorFile = {
-          id: item.path,
+        const editorFile: EditorFile = {
+          id: getFileTabId(item.path, connectionId),
           path: item.path,
+          connectionId,
           name: item.name,
-          content,
-          language: getLanguageFromExtension(item.name),
+          content: dl.binary ? '' : dl.content || '',
+          language: dl.binary ? 'plaintext' : getLanguageFromExtension(item.name),
           isDirty: false,
-          lastModified: new Date()
+          lastModified: new Date(),
+          remoteVersion: dl.remote,
+          ...(dl.binary
+            ? { kind: dl.assetKind || 'binary', binaryData: dl.base64 || '', mimeType: dl.mimeType, size: dl.size }
+            : { encoding: dl.encoding, bom: dl.bom, eol: dl.eol, remoteContent: dl.content || '' })
         }
         openFile(editorFile)
         setActiveFile(editorFile.id)
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react'
+import { ArrowUp, ArrowDown, X, RotateCw, Trash2 } from 'lucide-react'
+import { useTransferStore } from '../stores/transferStore'
+import { useEditorStore } from '../stores/editorStore'
+import { useFTPStore } from '../stores/ftpStore'
+import { electronAPI, TransferJob } from '../utils/electronAPI'
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+}
+
+const statusStyles: Record<string, string> = {
+  queued: 'text-vscode-text-muted',
+  running: 'text-blue-300',
+  done: 'text-green-400',
+  failed: 'text-red-400',
+  cancelled: 'text-yellow-300'
+}
+
+const describeProgress = (job: TransferJob) => {
+  if (job.total == null) return job.bytes > 0 ? formatBytes(job.bytes) : ''
+  return `${formatBytes(job.bytes)} / ${formatBytes(job.total)}`
+}
+
+// Docked under the editor: every single-file upload and download, with byte
+// progress, cancel, retry and the number of parallel connections to use.
+const TransfersPanel: React.FC = () => {
+  const { transfers, setTransfers, setPanelOpen } = useTransferStore()
+  const connections = useFTPStore((state) => state.connections)
+  const [concurrency, setConcurrency] = useState(2)
+
+  useEffect(() => {
+    ;(async () => {
+      const res = await electronAPI.settingsGetTransferConcurrency()
+      if (res.success && res.concurrency) setConcurrency(res.concurrency)
+    })()
+  }, [])
+
+  const changeConcurrency = async (value: number) => {
+    setConcurrency(value)
+    const res = await electronAPI.settingsSetTransferConcurrency(value)
+    if (res.success && res.concurrency) {
+      setConcurrency(res.concurrency)
+    } else if (!res.success) {
+      useEditorStore.getState().setError(res.error || 'Failed to save the number of connections')
+    }
+  }
+
+  const cancel = async (job: TransferJob) => {
+    const res = await electronAPI.transferCancel(job.id)
+    if (!res.success && res.error) useEditorStore.getState().setError(res.error)
+  }
+
+  const retry = async (job: TransferJob) => {
+    const res = await electronAPI.transferRetry(job.id)
+    if (!res.success) useEditorStore.getState().setError(res.error || `Failed to retry ${job.remotePath}`)
+  }
+
+  const clearFinished = async () => {
+    const res = await electronAPI.transferClearFinished()
+    if (res.success && res.transfers) setTransfers(res.transfers)
+  }
+
+  const active = transfers.filter((t) => t.status === 'queued' || t.status === 'running').length
+  const rows = [...transfers].reverse()
+
+  return (
+    <div className="h-48 flex flex-col border-t border-vscode-border bg-vscode-sidebar text-xs">
+      <div className="flex items-center gap-3 px-3 py-1 border-b border-vscode-border">
+        <span className="font-semibold uppercase tracking-wide">Transfers</span>
+        <span className="text-vscode-text-muted">{active > 0 ? `${active} active` : 'Idle'}</span>
+        <div className="flex-1" />
+        <label className="flex items-center gap-1 text-vscode-text-muted" title="Parallel connections used for uploads and downloads">
+          Connections
+          <select
+            value={concurrency}
+            onChange={(e) => changeConcurrency(Number(e.target.value))}
+            className="bg-vscode-bg border border-vscode-border rounded px-1 py-0.5 text-vscode-text"
+          >
+            {[1, 2, 3, 4, 5, 6, 7, 8].map((n) => (
+              <option key={n} value={n}>{n}</option>
+            ))}
+          </select>
+        </label>
+        <button onClick={clearFinished} className="flex items-center gap-1 hover:text-white" title="Remove finished transfers from the list">
+          <Trash2 size={12} />
+          Clear finished
+        </button>
+        <button onClick={() => setPanelOpen(false)} className="hover:text-white" title="Close">
+          <X size={14} />
+        </button>
+      </div>
+      <div className="flex-1 min-h-0 overflow-y-auto vscode-scrollbar">
+        {rows.length === 0 && <div className="px-3 py-2 text-vscode-text-muted">No transfers yet.</div>}
+        {rows.map((job) => {
+          const percent = job.total ? Math.min(100, Math.round((job.bytes / job.total) * 100)) : job.status === 'done' ? 100 : 0
+          return (
+            <div key={job.id} className="flex items-center gap-2 px-3 py-1 hover:bg-vscode-hover">
+              {job.type === 'upload' ? <ArrowUp size={12} className="shrink-0" /> : <ArrowDown size={12} className="shrink-0" />}
+              {connections.length > 1 && (
+                <span className="w-20 truncate text-vscode-text-muted">
+                  {connections.find((c) => c.id === job.connectionId)?.name || job.connectionId}
+                </span>
+              )}
+              <span className="w-1/3 truncate" title={job.remotePath}>{job.remotePath}</span>
+              <div className="flex-1 h-1.5 bg-vscode-bg rounded overflow-hidden">
+                <div
+                  className={`h-full ${job.status === 'failed' ? 'bg-red-500' : job.status === 'cancelled' ? 'bg-yellow-500' : 'bg-vscode-accent'}`}
+                  style={{ width: `${percent}%` }}
+                />
+              </div>
+              <span className="w-32 text-right text-vscode-text-muted">{describeProgress(job)}</span>
+              <span className={`w-20 truncate ${statusStyles[job.status] || ''}`} title={job.error || undefined}>
+                {job.status}
+              </span>
+              <div className="w-10 flex justify-end gap-1">
+                {(job.status === 'queued' || job.status === 'running') && (
+                  <button onClick={() => cancel(job)} className="hover:text-white" title="Cancel">
+                    <X size={12} />
+                  </button>
+                )}
+                {(job.status === 'failed' || job.status === 'cancelled') && job.retryable && (
+                  <button onClick={() => retry(job)} className="hover:text-white" title="Retry">
+                    <RotateCw size={12} />
+                  </button>
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+export default TransfersPanel
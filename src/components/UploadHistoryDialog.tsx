@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from 'react'
+import { RotateCcw } from 'lucide-react'
+import { useEditorStore, getFileTabId } from '../stores/editorStore'
+import { electronAPI, UploadBackup } from '../utils/electronAPI'
+
+interface UploadHistoryDialogProps {
+  path: string
+  connectionId?: string
+  onClose: () => void
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// Server versions of one file that uploads replaced, newest first, each with a
+// one-click rollback. An open tab without unsaved changes is reloaded after.
+const UploadHistoryDialog: React.FC<UploadHistoryDialogProps> = ({ path, connectionId, onClose }) => {
+  const [backups, setBackups] = useState<UploadBackup[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [restoring, setRestoring] = useState<string | null>(null)
+
+  const load = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const res = await electronAPI.backupList(path, connectionId)
+      if (res.success) setBackups(res.backups || [])
+      else setError(res.error || 'Failed to load the upload history')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    load()
+  }, [path, connectionId])
+
+  const reloadTab = async () => {
+    const store = useEditorStore.getState()
+    const tab = store.openFiles.find((f) => f.id === getFileTabId(path, connectionId))
+    if (!tab) return
+    if (tab.isDirty) {
+      store.setStatusMessage(`Rolled back ${path}; the open tab has unsaved changes and was not reloaded`)
+      return
+    }
+    const dl = await electronAPI.ftpDownloadFile(path, undefined as any, { encoding: tab.encoding }, connectionId)
+    if (!dl.success) return
+    if (dl.binary) {
+      store.setFileBinaryData(tab.id, dl.base64 || '', dl.size ?? 0)
+      store.setRemoteVersion(tab.id, dl.remote || null)
+    } else {
+      store.updateFileContent(tab.id, dl.content || '')
+      store.setFileDirty(tab.id, false)
+      store.setRemoteVersion(tab.id, dl.remote || null, dl.content || '')
+    }
+  }
+
+  const rollback = async (backup: UploadBackup) => {
+    const when = new Date(backup.createdAt).toLocaleString()
+    if (!window.confirm(`Replace ${path} on the server with the version from before the upload at ${when}?`)) return
+    setRestoring(backup.id)
+    setError(null)
+    try {
+      const res = await electronAPI.backupRestore(path, backup.id, connectionId)
+      if (!res.success) {
+        setError(res.error || 'Rollback failed')
+        return
+      }
+      await reloadTab()
+      useEditorStore.getState().setStatusMessage(`Rolled back ${path} to the version from ${when}`)
+      await load()
+    } finally {
+      setRestoring(null)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-vscode-sidebar rounded-lg border border-vscode-border flex flex-col"
+        style={{ width: 560, maxHeight: '70vh' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-4 py-3 border-b border-vscode-border">
+          <h2 className="text-lg font-semibold">Upload history</h2>
+          <div className="text-xs text-vscode-text-muted mt-1 truncate" title={path}>
+            {path} · server versions kept before each upload
+          </div>
+        </div>
+        <div className="flex-1 min-h-0 overflow-y-auto vscode-scrollbar text-xs">
+          {loading && <div className="px-4 py-2 text-vscode-text-muted">Loading…</div>}
+          {error && <div className="px-4 py-2 text-red-400">{error}</div>}
+          {!loading && !error && backups.length === 0 && (
+            <div className="px-4 py-2 text-vscode-text-muted">No uploads have replaced this file yet.</div>
+          )}
+          {backups.map((backup) => (
+            <div key={backup.id} className="flex items-center gap-3 px-4 py-2 hover:bg-vscode-hover">
+              <div className="flex-1 min-w-0">
+                <div>Before upload at {new Date(backup.createdAt).toLocaleString()}</div>
+                <div className="text-vscode-text-muted truncate" title={backup.remoteCopy || undefined}>
+                  {formatBytes(backup.size)}
+                  {backup.remoteCopy && ` · also on the server at ${backup.remoteCopy}`}
+                </div>
+              </div>
+              <button
+                onClick={() => rollback(backup)}
+                disabled={restoring !== null}
+                className="flex items-center gap-1 px-2 py-1 bg-vscode-hover rounded hover:bg-vscode-border disabled:opacity-50"
+              >
+                <RotateCcw size={12} />
+                {restoring === backup.id ? 'Rolling back…' : 'Roll back'}
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="px-4 py-3 border-t border-vscode-border flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-vscode-hover text-vscode-text rounded hover:bg-vscode-border transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default UploadHistoryDialog
@@ -1,26 +1,51 @@
 import React, { useState, useEffect } from 'react'
-import { User, Circle } from 'lucide-react'
-import { electronAPI } from '../utils/electronAPI'
+import { User, Circle, UserCog } from 'lucide-react'
+import { useEditorStore } from '../stores/editorStore'
+import { usePresenceStore } from '../stores/presenceStore'
+import { TeamUser } from '../utils/electronAPI'
+import TeamMembersDialog from './TeamMembersDialog'
+
+const initials = (name: string) =>
+  name
+    .split(/[\s._-]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join('') || '?'
+
+const formatIdle = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${Math.max(1, minutes)}m`
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+  return `${Math.floor(minutes / (24 * 60))}d`
+}
+
+const statusLabels: Record<string, string> = {
+  online: 'Online',
+  away: 'Away',
+  dnd: 'Do not disturb',
+  offline: 'Offline'
+}
 
 const UserPresence: React.FC = () => {
-  const [users, setUsers] = useState<any[]>([])
-  const [activeFiles, setActiveFiles] = useState<any[]>([])
+  const { users, usersLoadedAt, activeFiles, setUsers, preferences, updatePreferences } = usePresenceStore()
+  const [managing, setManaging] = useState(false)
+  const [message, setMessage] = useState(preferences.statusMessage)
+  const [now, setNow] = useState(Date.now())
+  const currentUserId = useEditorStore((state) => state.currentUserId)
+
+  useEffect(() => setMessage(preferences.statusMessage), [preferences.statusMessage])
 
+  // Idle times keep counting between presence updates.
   useEffect(() => {
-    const load = async () => {
-      const u = await electronAPI.dbGetUsers()
-      if (u.success && u.users) setUsers(u.users)
-      const af = await electronAPI.dbGetActiveFiles()
-      if (af.success && af.files) setActiveFiles(af.files)
-    }
-    load()
-    const interval = setInterval(load, 5000)
-    return () => clearInterval(interval)
+    const timer = window.setInterval(() => setNow(Date.now()), 30000)
+    return () => window.clearInterval(timer)
   }, [])
 
   const getUserStatusColor = (status: string) => {
     if (status === 'online') return 'bg-green-500'
     if (status === 'away') return 'bg-yellow-500'
+    if (status === 'dnd') return 'bg-red-500'
     return 'bg-gray-500'
   }
 
@@ -29,22 +54,79 @@ const UserPresence: React.FC = () => {
     return f ? f.file_path : null
   }
 
+  const describeStatus = (user: TeamUser) => {
+    const label = statusLabels[user.status] || user.status
+    if (user.idle_seconds === null || user.idle_seconds === undefined) return label
+    const idle = `idle ${formatIdle(user.idle_seconds + Math.max(0, now - usersLoadedAt) / 1000)}`
+    return user.status === 'online' ? idle : `${label} · ${idle}`
+  }
+
+  const saveMessage = () => {
+    if (message.trim() !== preferences.statusMessage) updatePreferences({ statusMessage: message })
+  }
+
   return (
     <div className="flex-1 p-4 space-y-3">
+      <div className="space-y-2 pb-3 border-b border-vscode-border">
+        <div className="flex items-center gap-2">
+          <select
+            className="flex-1 min-w-0 bg-vscode-bg border border-vscode-border rounded px-1 py-0.5 text-xs text-vscode-text"
+            value={preferences.doNotDisturb ? 'dnd' : 'auto'}
+            onChange={(e) => updatePreferences({ doNotDisturb: e.target.value === 'dnd' })}
+            title="Away and offline are set automatically when you are idle"
+          >
+            <option value="auto">Online (away when idle)</option>
+            <option value="dnd">Do not disturb</option>
+          </select>
+          <button
+            onClick={() => setManaging(true)}
+            className="flex items-center gap-1 text-xs text-vscode-text-muted hover:text-white"
+            title="Merge or remove stale team members"
+          >
+            <UserCog size={14} />
+            Manage
+          </button>
+        </div>
+        <input
+          type="text"
+          maxLength={200}
+          className="w-full bg-vscode-bg border border-vscode-border rounded px-1 py-0.5 text-xs text-vscode-text"
+          placeholder="What are you working on?"
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          onBlur={saveMessage}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') saveMessage()
+            if (e.key === 'Escape') setMessage(preferences.statusMessage)
+          }}
+        />
+      </div>
       {users.map((user) => (
-        <div key={user.id} className="flex items-center gap-3 p-2 rounded hover:bg-vscode-hover transition-colors">
+        <div
+          key={user.id}
+          className="flex items-center gap-3 p-2 rounded hover:bg-vscode-hover transition-colors"
+          title={user.email || undefined}
+        >
           <div className="relative">
-            <div className="w-8 h-8 bg-vscode-border rounded-full flex items-center justify-center">
-              <User size={16} className="text-vscode-text-muted" />
+            <div
+              className="w-8 h-8 rounded-full flex items-center justify-center text-xs font-semibold text-white"
+              style={{ backgroundColor: user.avatar_color || '#3c3c3c' }}
+            >
+              {initials(user.username)}
             </div>
             <div className={`absolute -bottom-1 -right-1 w-3 h-3 ${getUserStatusColor(user.status)} rounded-full border-2 border-vscode-sidebar`} />
           </div>
           <div className="flex-1 min-w-0">
             <div className="flex items-center gap-2">
-              <h4 className="text-sm font-medium truncate">{user.username}</h4>
+              <h4 className="text-sm font-medium truncate">
+                {user.username}
+                {user.id === currentUserId && <span className="text-vscode-text-muted font-normal"> (you)</span>}
+              </h4>
               <Circle size={8} className={getUserStatusColor(user.status)} fill="currentColor" />
             </div>
-            {getUserActiveFile(user.id) && user.status === 'online' && (
+            {user.status_message && <p className="text-xs italic truncate">{user.status_message}</p>}
+            <p className="text-xs text-vscode-text-muted truncate">{describeStatus(user)}</p>
+            {getUserActiveFile(user.id) && user.status !== 'offline' && (
               <p className="text-xs text-vscode-text-muted truncate">Editing: {getUserActiveFile(user.id)}</p>
             )}
           </div>
@@ -56,6 +138,7 @@ const UserPresence: React.FC = () => {
           <p className="text-sm">No team members</p>
         </div>
       )}
+      {managing && <TeamMembersDialog onClose={() => setManaging(false)} onChanged={setUsers} />}
     </div>
   )
 }
@@ -0,0 +1,36 @@
+import { create } from 'zustand'
+import { electronAPI, SharedCursor } from '../utils/electronAPI'
+
+interface CursorState {
+  /** Teammates' cursors by user id, as last relayed through the database. */
+  cursors: Record<number, SharedCursor>
+}
+
+interface CursorActions {
+  load: () => Promise<void>
+  /**
+   * Applies a cursor-moved notification. One without a file path means the
+   * user's cursor is gone.
+   */
+  apply: (cursor: SharedCursor) => void
+}
+
+export const useCursorStore = create<CursorState & CursorActions>((set) => ({
+  // State
+  cursors: {},
+
+  // Actions
+  load: async () => {
+    const res = await electronAPI.dbGetCursors()
+    if (!res.success || !res.cursors) return
+    set({ cursors: Object.fromEntries(res.cursors.map((c) => [c.user_id, c])) })
+  },
+
+  apply: (cursor) =>
+    set((state) => {
+      const cursors = { ...state.cursors }
+      if (cursor.file_path) cursors[cursor.user_id] = cursor
+      else delete cursors[cursor.user_id]
+      return { cursors }
+    })
+}))
@@ -1,4 +1,5 @@
 import { create } from 'zustand'
+import type { EditorAssetKind, TextEncodingName, LineEnding, TextFormat, RemoteVersion } from '../utils/electronAPI'
 
 export interface EditorFile {
   id: string
@@ -11,13 +12,60 @@ export interface EditorFile {
   /**
    * Optional kind of tab. Undefined is treated as a regular code editor tab.
    */
-  kind?: 'code' | 'preview'
+  kind?: 'code' | 'preview' | 'diff' | EditorAssetKind
   /**
    * For preview tabs, the URL to display inside the in-app browser tab.
    */
   previewUrl?: string
+  /**
+   * For image, font, pdf and binary tabs: the exact file bytes, base64-encoded.
+   * `content` stays empty for these tabs.
+   */
+  binaryData?: string
+  mimeType?: string
+  size?: number
+  /**
+   * For text tabs: the encoding, BOM and line endings the file is saved with.
+   * Undefined means UTF-8 without BOM, line endings as typed.
+   */
+  encoding?: TextEncodingName
+  bom?: boolean
+  eol?: LineEnding | null
+  /**
+   * Saved connection (workspace) the file was opened from. Saves and uploads
+   * go to this connection even when the explorer shows another one.
+   */
+  connectionId?: string
+  /**
+   * The server copy this tab is based on, from when it was opened or last
+   * uploaded. Save-and-Sync checks it first so edits made on the server by
+   * other means are not overwritten unnoticed.
+   */
+  remoteVersion?: RemoteVersion | null
+  /**
+   * Text of the server copy described by `remoteVersion`; the common base
+   * when merging server changes into the tab.
+   */
+  remoteContent?: string
+  /**
+   * For diff tabs: the code tab being compared, the text it is compared
+   * against and what that text is ("server", "snapshot 2024-05-01_10-30", ...).
+   * The other side is the code tab's live content.
+   */
+  diffOf?: string
+  diffOriginal?: string
+  diffLabel?: string
 }
 
+/**
+ * Tab id for a remote file. The same path can be open from several connections,
+ * so the connection id is part of the id.
+ */
+export const getFileTabId = (path: string, connectionId?: string | null): string =>
+  connectionId ? `${connectionId}:${path}` : path
+
+export const getTextFormat = (file: EditorFile): TextFormat => ({ encoding: file.encoding, bom: file.bom, eol: file.eol })
+
 interface EditorState {
   openFiles: EditorFile[]
   activeFile: string | null
@@ -32,7 +80,11 @@ interface EditorActions {
   closeFile: (fileId: string) => void
   setActiveFile: (fileId: string | null) => void
   updateFileContent: (fileId: string, content: string) => void
+  setFileBinaryData: (fileId: string, binaryData: string, size: number) => void
+  setFileTextFormat: (fileId: string, format: TextFormat) => void
   setFileDirty: (fileId: string, isDirty: boolean) => void
+  setRemoteVersion: (fileId: string, remoteVersion: RemoteVersion | null, remoteContent?: string) => void
+  setDiffOriginal: (fileId: string, original: string, label: string, name: string) => void
   renameFile: (fileId: string, newPath: string, newName: string) => void
   setLoading: (loading: boolean) => void
   setError: (error: string | null) => void
@@ -96,6 +148,45 @@ export const useEditorStore = create<EditorState & EditorActions>((set, get) =>
     set({ openFiles: newFiles })
   },
 
+  setFileBinaryData: (fileId, binaryData, size) => {
+    const { openFiles } = get()
+    const newFiles = openFiles.map(file =>
+      file.id === fileId
+        ? { ...file, binaryData, size, lastModified: new Date() }
+        : file
+    )
+    set({ openFiles: newFiles })
+  },
+
+  // `remoteContent` is only replaced when given, so a re-check that found the
+  // same bytes keeps the merge base.
+  setRemoteVersion: (fileId, remoteVersion, remoteContent) => {
+    set((state) => ({
+      openFiles: state.openFiles.map((file) =>
+        file.id !== fileId ? file : remoteContent === undefined ? { ...file, remoteVersion } : { ...file, remoteVersion, remoteContent }
+      )
+    }))
+  },
+
+  setDiffOriginal: (fileId, original, label, name) => {
+    set((state) => ({
+      openFiles: state.openFiles.map((file) => (file.id === fileId ? { ...file, name, diffOriginal: original, diffLabel: label } : file))
+    }))
+  },
+
+  // Changing the format marks the tab dirty so the next save rewrites the file;
+  // a new line ending is applied to the content right away.
+  setFileTextFormat: (fileId, format) => {
+    const { openFiles } = get()
+    const newFiles = openFiles.map(file => {
+      if (file.id !== fileId) return file
+      const next = { ...file, ...format, isDirty: true, lastModified: new Date() }
+      if (format.eol) next.content = file.content.replace(/\r\n|\r|\n/g, format.eol === 'CRLF' ? '\r\n' : '\n')
+      return next
+    })
+    set({ openFiles: newFiles })
+  },
+
   setFileDirty: (fileId, isDirty) => {
     const { openFiles } = get()
     const newFiles = openFiles.map(file => 
@@ -110,10 +201,11 @@ export const useEditorStore = create<EditorState & EditorActions>((set, get) =>
     const { openFiles, activeFile } = get()
     const newFiles = openFiles.map(file =>
       file.id === fileId
-        ? { ...file, id: newPath, path: newPath, name: newName }
+        ? { ...file, id: getFileTabId(newPath, file.connectionId), path: newPath, name: newName }
         : file
     )
-    const newActive = activeFile === fileId ? newPath : activeFile
+    const renamed = openFiles.find(file => file.id === fileId)
+    const newActive = activeFile === fileId ? getFileTabId(newPath, renamed?.connectionId) : activeFile
     set({ openFiles: newFiles, activeFile: newActive })
   },
 
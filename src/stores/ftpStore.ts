@@ -1,4 +1,21 @@
 import { create } from 'zustand'
+import { ConnectionHealth } from '../utils/electronAPI'
+
+export type FTPProtocol = 'ftp' | 'ftps' | 'sftp'
+export type FTPAuthMethod = 'password' | 'privateKey'
+/**
+ * FTPS flavour: explicit upgrades a plain connection with AUTH TLS, implicit
+ * speaks TLS from the first byte (usually port 990).
+ */
+export type FTPTlsMode = 'none' | 'explicit' | 'implicit'
+
+export const DEFAULT_PORTS: Record<FTPProtocol, number> = {
+  ftp: 21,
+  ftps: 21,
+  sftp: 22
+}
+
+export const IMPLICIT_FTPS_PORT = 990
 
 export interface FTPConnection {
   id: string
@@ -9,9 +26,30 @@ export interface FTPConnection {
   password: string
   defaultPath: string
   appendedUrl?: string
+  /**
+   * Transport used for this connection. Undefined is treated as plain FTP.
+   */
+  protocol?: FTPProtocol
+  /**
+   * SFTP only: authenticate with the password or with a private key file.
+   */
+  authMethod?: FTPAuthMethod
+  privateKeyPath?: string
+  tlsMode?: FTPTlsMode
+  /**
+   * SHA-256 fingerprint of a certificate the user chose to trust (e.g. self-signed).
+   */
+  trustedFingerprint?: string
   isConnected: boolean
 }
 
+/**
+ * Identifies a server across machines: saved connection ids are local, so
+ * shared records (who has which file open) use `username@host:port` instead.
+ */
+export const getConnectionKey = (connection: Pick<FTPConnection, 'username' | 'host' | 'port'> | null | undefined): string =>
+  connection ? `${connection.username}@${connection.host}:${connection.port}`.toLowerCase() : ''
+
 export interface FTPFile {
   name: string
   path: string
@@ -42,8 +80,15 @@ const loadInitialFileStatuses = (): Record<string, FileStatus | undefined> => {
 }
 
 interface FTPState {
+  /**
+   * Open connections (workspaces). Each keeps its own session in the main
+   * process; `activeConnection` is the one shown in the explorer.
+   */
   connections: FTPConnection[]
   activeConnection: string | null
+  /**
+   * Whether the active connection is connected.
+   */
   isConnected: boolean
   currentPath: string
   files: FTPFile[]
@@ -54,6 +99,11 @@ interface FTPState {
   fileStatuses: Record<string, FileStatus | undefined>
   isLoading: boolean
   error: string | null
+  /**
+   * Keepalive status, last error and latency per open connection, pushed by
+   * the main process.
+   */
+  health: Record<string, ConnectionHealth>
 }
 
 interface FTPActions {
@@ -67,7 +117,9 @@ interface FTPActions {
   setError: (error: string | null) => void
   addConnection: (connection: FTPConnection) => void
   removeConnection: (connectionId: string) => void
+  switchConnection: (connectionId: string) => void
   updateFileStatus: (filePath: string, isEditing: boolean, users: string[]) => void
+  setConnectionHealth: (health: ConnectionHealth) => void
 }
 
 export const useFTPStore = create<FTPState & FTPActions>((set, get) => ({
@@ -80,6 +132,7 @@ export const useFTPStore = create<FTPState & FTPActions>((set, get) => ({
   fileStatuses: loadInitialFileStatuses(),
   isLoading: false,
   error: null,
+  health: {},
 
   // Actions
   setConnections: (connections) => {
@@ -90,6 +143,22 @@ export const useFTPStore = create<FTPState & FTPActions>((set, get) => ({
     set({ activeConnection: connectionId })
   },
 
+  switchConnection: (connectionId) => {
+    const connection = get().connections.find((c) => c.id === connectionId)
+    if (!connection) return
+    set({
+      activeConnection: connectionId,
+      isConnected: connection.isConnected,
+      currentPath: connection.defaultPath || '/',
+      files: [],
+      error: null
+    })
+  },
+
+  setConnectionHealth: (health) => {
+    set((state) => ({ health: { ...state.health, [health.connectionId]: health } }))
+  },
+
   setConnectionStatus: (connected) => {
     set({ isConnected: connected })
   },
@@ -133,17 +202,24 @@ export const useFTPStore = create<FTPState & FTPActions>((set, get) => ({
 
   addConnection: (connection) => {
     const { connections } = get()
-    set({ connections: [...connections, connection] })
+    set({ connections: [...connections.filter(c => c.id !== connection.id), connection] })
   },
 
+  // Closing the active workspace falls back to the next open one.
   removeConnection: (connectionId) => {
     const { connections, activeConnection } = get()
     const newConnections = connections.filter(c => c.id !== connectionId)
-    const newActiveConnection = activeConnection === connectionId ? null : activeConnection
+    if (activeConnection !== connectionId) {
+      set({ connections: newConnections })
+      return
+    }
+    const next = newConnections[0] || null
     set({ 
       connections: newConnections, 
-      activeConnection: newActiveConnection,
-      isConnected: false 
+      activeConnection: next ? next.id : null,
+      isConnected: next ? next.isConnected : false,
+      currentPath: next ? next.defaultPath || '/' : '/',
+      files: []
     })
   },
 
@@ -157,3 +233,9 @@ export const useFTPStore = create<FTPState & FTPActions>((set, get) => ({
     set({ files: newFiles })
   }
 }))
+
+/**
+ * The connection key for an open connection (a tab's `connectionId`).
+ */
+export const getConnectionKeyById = (connectionId: string | null | undefined): string =>
+  getConnectionKey(useFTPStore.getState().connections.find((c) => c.id === connectionId))
@@ -0,0 +1,134 @@
+import { create } from 'zustand'
+import { electronAPI, ActiveFile } from '../utils/electronAPI'
+import { useEditorStore } from './editorStore'
+import { getConnectionKeyById } from './ftpStore'
+import { usePresenceStore } from './presenceStore'
+
+/**
+ * An exclusive lock a team member holds on a remote file. While it lasts,
+ * everyone else sees the file read-only and cannot upload, rename or delete it.
+ */
+export interface FileLock {
+  userId: number
+  username: string
+  filePath: string
+  /** Server the path belongs to; null for rows written before connection keys existed. */
+  connectionKey: string | null
+  lockedAt: string
+  expiresAt: string | null
+}
+
+/**
+ * The lock on `filePath` on the server identified by `connectionKey`, if any.
+ */
+export const findLock = (locks: FileLock[], filePath: string, connectionKey: string): FileLock | null =>
+  locks.find((l) => l.filePath === filePath && (!l.connectionKey || l.connectionKey === connectionKey)) || null
+
+export const describeLock = (lock: FileLock): string =>
+  `Locked by ${lock.username} since ${new Date(lock.lockedAt).toLocaleString()}`
+
+const toLocks = (files: ActiveFile[]): FileLock[] =>
+  files
+    .filter((f) => f.lock_active)
+    .map((f) => ({
+      userId: f.user_id,
+      username: f.username || '',
+      filePath: f.file_path,
+      connectionKey: f.connection_key || null,
+      lockedAt: f.locked_at,
+      expiresAt: f.lock_expires_at || null
+    }))
+
+interface LockState {
+  locks: FileLock[]
+}
+
+interface LockActions {
+  /**
+   * Reloads the unexpired locks from the team database.
+   */
+  refresh: () => Promise<void>
+  lockFile: (filePath: string, connectionId?: string | null) => Promise<boolean>
+  unlockFile: (filePath: string, connectionId?: string | null) => Promise<void>
+  /**
+   * Clears a teammate's lock after confirmation. The break is written to the activity log.
+   */
+  breakLock: (lock: FileLock, connectionId?: string | null) => Promise<void>
+}
+
+export const useLockStore = create<LockState & LockActions>((_set, get) => ({
+  // State
+  locks: [],
+
+  // Actions
+  refresh: async () => {
+    await usePresenceStore.getState().loadActiveFiles()
+  },
+
+  lockFile: async (filePath, connectionId) => {
+    const editor = useEditorStore.getState()
+    const uid = editor.currentUserId
+    if (!uid) {
+      editor.setError('Locking files needs the team database')
+      return false
+    }
+    const res = await electronAPI.dbAcquireLock(uid, filePath, getConnectionKeyById(connectionId))
+    if (!res.success) {
+      editor.setError(res.error || `Failed to lock ${filePath}`)
+      return false
+    }
+    if (res.holder) {
+      editor.setError(`${filePath} is already locked by ${res.holder.username} since ${new Date(res.holder.locked_at).toLocaleString()}`)
+      await get().refresh()
+      return false
+    }
+    const until = res.lock?.lock_expires_at ? ` until ${new Date(res.lock.lock_expires_at).toLocaleString()}` : ''
+    editor.setStatusMessage(`Locked ${filePath}${until}`)
+    await get().refresh()
+    return true
+  },
+
+  unlockFile: async (filePath, connectionId) => {
+    const editor = useEditorStore.getState()
+    const uid = editor.currentUserId
+    if (!uid) return
+    const res = await electronAPI.dbReleaseLock(uid, filePath, getConnectionKeyById(connectionId))
+    if (!res.success) {
+      editor.setError(res.error || `Failed to unlock ${filePath}`)
+      return
+    }
+    editor.setStatusMessage(`Unlocked ${filePath}`)
+    await get().refresh()
+  },
+
+  breakLock: async (lock, connectionId) => {
+    const editor = useEditorStore.getState()
+    const uid = editor.currentUserId
+    if (!uid) return
+    const message = `${describeLock(lock)}. Break the lock on ${lock.filePath}? ${lock.username} may lose unsaved work, and the break is recorded in the activity log.`
+    if (!window.confirm(message)) return
+    const res = await electronAPI.dbBreakLock(uid, lock.filePath, lock.connectionKey || getConnectionKeyById(connectionId))
+    if (!res.success) {
+      editor.setError(res.error || `Failed to break the lock on ${lock.filePath}`)
+      return
+    }
+    editor.setStatusMessage(`Broke ${lock.username}'s lock on ${lock.filePath}`)
+    await get().refresh()
+  }
+}))
+
+// Locks are the locked rows of the presence list, so they follow its updates.
+// Nothing is notified when a lock runs out, so the list is also reloaded
+// shortly after the next expiry.
+let expiryTimer: number | undefined
+usePresenceStore.subscribe((state, prev) => {
+  if (state.activeFiles === prev.activeFiles) return
+  const locks = toLocks(state.activeFiles)
+  useLockStore.setState({ locks })
+  window.clearTimeout(expiryTimer)
+  const next = Math.min(...locks.map((l) => (l.expiresAt ? new Date(l.expiresAt).getTime() : Infinity)))
+  if (Number.isFinite(next)) {
+    const delay = Math.min(Math.max(0, next - Date.now()) + 1000, 60 * 60 * 1000)
+    expiryTimer = window.setTimeout(() => usePresenceStore.getState().loadActiveFiles(), delay)
+  }
+})
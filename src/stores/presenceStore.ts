@@ -0,0 +1,77 @@
+import { create } from 'zustand'
+import { electronAPI, ActiveFile, PresenceChange, PresencePreferences, TeamUser, UserStatus } from '../utils/electronAPI'
+import { useEditorStore } from './editorStore'
+
+interface PresenceState {
+  users: TeamUser[]
+  /** When `users` was fetched; their `idle_seconds` were measured then. */
+  usersLoadedAt: number
+  activeFiles: ActiveFile[]
+  preferences: PresencePreferences
+  /** The status this install last reported for you. */
+  myStatus: UserStatus
+}
+
+interface PresenceActions {
+  loadUsers: () => Promise<void>
+  loadActiveFiles: () => Promise<void>
+  /**
+   * Reloads what a presence-changed notification says has changed, or both
+   * tables when it does not say.
+   */
+  applyChange: (change?: PresenceChange) => Promise<void>
+  setUsers: (users: TeamUser[]) => void
+  loadPreferences: () => Promise<void>
+  /**
+   * Saves do not disturb, the status message or the idle times. The idle
+   * tracker reports the result straight away.
+   */
+  updatePreferences: (changes: Partial<PresencePreferences>) => Promise<void>
+  setMyStatus: (status: UserStatus) => void
+}
+
+// Team members and the files they have open, kept current by the database's
+// presence notifications rather than by each panel polling, and your own
+// presence settings.
+export const usePresenceStore = create<PresenceState & PresenceActions>((set, get) => ({
+  // State
+  users: [],
+  usersLoadedAt: 0,
+  activeFiles: [],
+  preferences: { doNotDisturb: false, statusMessage: '', awayMinutes: 5, offlineMinutes: 30 },
+  myStatus: 'offline',
+
+  // Actions
+  loadUsers: async () => {
+    const res = await electronAPI.dbGetUsers()
+    if (res.success && res.users) set({ users: res.users, usersLoadedAt: Date.now() })
+  },
+
+  loadActiveFiles: async () => {
+    const res = await electronAPI.dbGetActiveFiles()
+    if (res.success && res.files) set({ activeFiles: res.files })
+  },
+
+  applyChange: async (change) => {
+    const table = change?.table ?? null
+    await Promise.all([
+      table !== 'active_files' ? get().loadUsers() : null,
+      table !== 'users' ? get().loadActiveFiles() : null
+    ])
+  },
+
+  setUsers: (users) => set({ users, usersLoadedAt: Date.now() }),
+
+  loadPreferences: async () => {
+    const res = await electronAPI.settingsGetPresence()
+    if (res.success && res.preferences) set({ preferences: res.preferences })
+  },
+
+  updatePreferences: async (changes) => {
+    const res = await electronAPI.settingsSetPresence(changes)
+    if (res.success && res.preferences) set({ preferences: res.preferences })
+    else useEditorStore.getState().setError(res.error || 'Failed to save your status')
+  },
+
+  setMyStatus: (status) => set({ myStatus: status })
+}))
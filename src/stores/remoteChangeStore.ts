@@ -0,0 +1,46 @@
+import { create } from 'zustand'
+import { EditorFile } from './editorStore'
+import { RemoteCheckResult } from '../utils/electronAPI'
+
+/**
+ * What to do with an upload whose server copy changed since the tab was opened:
+ * upload anyway, upload a merged version, or keep the server copy.
+ */
+export type RemoteChangeChoice =
+  | { action: 'overwrite' }
+  | { action: 'merge'; content: string }
+  | { action: 'cancel' }
+
+interface RemoteChangeState {
+  /**
+   * The upload waiting for a decision in the remote-change dialog.
+   */
+  pending: { file: EditorFile; check: RemoteCheckResult } | null
+  resolvePending: ((choice: RemoteChangeChoice) => void) | null
+}
+
+interface RemoteChangeActions {
+  requestChoice: (file: EditorFile, check: RemoteCheckResult) => Promise<RemoteChangeChoice>
+  choose: (choice: RemoteChangeChoice) => void
+}
+
+export const useRemoteChangeStore = create<RemoteChangeState & RemoteChangeActions>((set, get) => ({
+  // State
+  pending: null,
+  resolvePending: null,
+
+  // Actions
+  requestChoice: (file, check) => {
+    // A second conflict while the dialog is open keeps the server copy for the first.
+    get().resolvePending?.({ action: 'cancel' })
+    return new Promise((resolve) => {
+      set({ pending: { file, check }, resolvePending: resolve })
+    })
+  },
+
+  choose: (choice) => {
+    const { resolvePending } = get()
+    set({ pending: null, resolvePending: null })
+    resolvePending?.(choice)
+  }
+}))
@@ -0,0 +1,51 @@
+import { create } from 'zustand'
+import { TransferJob } from '../utils/electronAPI'
+
+interface TransferState {
+  /**
+   * Jobs from the main-process transfer queue, oldest first.
+   */
+  transfers: TransferJob[]
+  isPanelOpen: boolean
+}
+
+interface TransferActions {
+  setTransfers: (transfers: TransferJob[]) => void
+  applyUpdate: (job: TransferJob) => void
+  setPanelOpen: (open: boolean) => void
+  togglePanel: () => void
+}
+
+export const useTransferStore = create<TransferState & TransferActions>((set) => ({
+  // State
+  transfers: [],
+  isPanelOpen: false,
+
+  // Actions
+  setTransfers: (transfers) => {
+    set({ transfers })
+  },
+
+  applyUpdate: (job) => {
+    set((state) => {
+      if (job.status === 'removed') {
+        return { transfers: state.transfers.filter((t) => t.id !== job.id) }
+      }
+      const index = state.transfers.findIndex((t) => t.id === job.id)
+      if (index === -1) {
+        return { transfers: [...state.transfers, job] }
+      }
+      const next = [...state.transfers]
+      next[index] = job
+      return { transfers: next }
+    })
+  },
+
+  setPanelOpen: (open) => {
+    set({ isPanelOpen: open })
+  },
+
+  togglePanel: () => {
+    set((state) => ({ isPanelOpen: !state.isPanelOpen }))
+  }
+}))
@@ -0,0 +1,31 @@
+import { useEditorStore, EditorFile } from '../stores/editorStore'
+
+/**
+ * Opens (or refreshes) the read-only diff tab comparing `file` with `original`.
+ * `against` keeps one tab per kind of comparison, so comparing again with the
+ * server or another revision reuses it.
+ */
+export const openDiffTab = (file: EditorFile, against: string, original: string, label: string) => {
+  const store = useEditorStore.getState()
+  const diffId = `diff:${against}:${file.id}`
+  const name = `${file.name} ⟷ ${label}`
+  if (store.openFiles.some((f) => f.id === diffId)) {
+    store.setDiffOriginal(diffId, original, label, name)
+    store.setActiveFile(diffId)
+    return
+  }
+  store.openFile({
+    id: diffId,
+    path: file.path,
+    connectionId: file.connectionId,
+    name,
+    content: '',
+    language: file.language,
+    isDirty: false,
+    lastModified: new Date(),
+    kind: 'diff',
+    diffOf: file.id,
+    diffOriginal: original,
+    diffLabel: label
+  })
+}
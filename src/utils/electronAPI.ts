@@ -1,58 +1,455 @@
+import type { FTPProtocol, FTPAuthMethod, FTPTlsMode } from '../stores/ftpStore'
+import { useFTPStore, getConnectionKey } from '../stores/ftpStore'
+
+// Returned by ftpConnect when the TLS certificate is not (or no longer) trusted.
+export interface FTPCertificateInfo {
+  code: 'CERT_UNTRUSTED' | 'CERT_CHANGED'
+  fingerprint: string
+  trustedFingerprint?: string
+  subject: string
+  issuer: string
+  validFrom: string
+  validTo: string
+}
+
+// Shape persisted by settingsAddFTPConnection. Secrets are stored alongside the
+// connection in the per-machine settings store.
+export interface SavedFTPConnectionInput {
+  // Defaults to a new id; pass the workspace id the connection was opened under.
+  id?: string
+  name: string
+  host: string
+  port: number
+  username: string
+  password: string
+  defaultPath: string
+  appendedUrl?: string
+  protocol?: FTPProtocol
+  authMethod?: FTPAuthMethod
+  privateKeyPath?: string
+  passphrase?: string
+  tlsMode?: FTPTlsMode
+  trustedFingerprint?: string
+}
+
+// 'incremental' keeps one working copy in sync; 'snapshot' writes a new timestamped folder per run.
+export type SyncMode = 'incremental' | 'snapshot'
+
+// What a sync run did (or, for a dry run, would do). Lists are capped at 1000
+// entries; the *Count fields are exact.
+export interface SyncReport {
+  mode: SyncMode
+  dryRun: boolean
+  remoteRoot: string
+  root: string | null
+  startedAt: string
+  finishedAt: string | null
+  durationMs: number
+  estimatedMs: number | null
+  totalBytes: number
+  downloadCount: number
+  unchangedCount: number
+  ignoredCount: number
+  failureCount: number
+  deletedCount: number
+  /** Files changed on the server and edited locally, which were not downloaded. Missing in older reports. */
+  conflictCount?: number
+  downloads: { path: string; size: number }[]
+  ignored: { path: string; type: 'file' | 'directory' }[]
+  failures: { path: string; error: string }[]
+  deleted: string[]
+  conflicts?: string[]
+}
+
+export interface FTPSyncResult {
+  success: boolean
+  error?: string
+  count?: number
+  root?: string
+  skipped?: number
+  deleted?: number
+  failed?: number
+  conflicts?: number
+  mode?: SyncMode
+  report?: SyncReport
+}
+
+// A working-copy file that differs from the server, as found by ftpPublishScan.
+export interface PublishChange {
+  path: string
+  status: 'added' | 'modified'
+  size: number
+  remoteSize: number | null
+  localModified: string
+}
+
+export interface PublishProgress {
+  count: number
+  total: number
+  path: string
+  connectionId?: string
+}
+
+// Editor tabs for files that are not edited as text.
+export type EditorAssetKind = 'image' | 'font' | 'pdf' | 'binary'
+
+export type TextEncodingName = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252' | 'iso-8859-1'
+export type LineEnding = 'LF' | 'CRLF'
+
+// How a text file is written back: its original encoding, BOM and line endings.
+// A null eol (single-line file) leaves the content's line endings untouched.
+export interface TextFormat {
+  encoding?: TextEncodingName
+  bom?: boolean
+  eol?: LineEnding | null
+}
+
+// The server copy of a file as the editor last saw it, recorded when the file
+// is opened or uploaded. `modifiedAt` is null when the server does not report it.
+export interface RemoteVersion {
+  size: number
+  modifiedAt: string | null
+  hash: string
+}
+
+// Text files arrive in `content`; binary files as base64 so no byte is lost over IPC.
+export interface FTPDownloadResult {
+  success: boolean
+  error?: string
+  content?: string
+  encoding?: TextEncodingName
+  bom?: boolean
+  eol?: LineEnding | null
+  binary?: boolean
+  base64?: string
+  assetKind?: EditorAssetKind
+  mimeType?: string
+  size?: number
+  remote?: RemoteVersion | null
+}
+
+// Result of checking the server copy before an upload. When `changed`, the
+// server content is included (decoded like a download) unless it was deleted.
+export interface RemoteCheckResult extends FTPDownloadResult {
+  changed?: boolean
+  deleted?: boolean
+}
+
+// A snapshot-mode sync folder (YYYY-MM-DD_HH-mm) under the sync root.
+export interface SnapshotInfo {
+  name: string
+  createdAt: string | null
+  size: number
+  fileCount: number
+  remoteRoot: string | null
+}
+
+export interface SnapshotEntry {
+  name: string
+  relPath: string
+  type: 'file' | 'directory'
+  size: number
+}
+
+// Paths are relative to the snapshot root.
+export interface SnapshotDiff {
+  added: { path: string; size: number }[]
+  removed: { path: string; size: number }[]
+  changed: { path: string; sizeBefore: number; sizeAfter: number }[]
+}
+
+// keepLast keeps the newest N snapshots, keepDaily the newest snapshot of each
+// of the last N days; both at 0 keeps everything.
+export interface SnapshotRetention {
+  keepLast: number
+  keepDaily: number
+  autoApply: boolean
+}
+
+// Server version of a file kept before an upload overwrote it. `remoteCopy` is
+// its path under /.backups on the server when remote backups are enabled.
+export interface UploadBackup {
+  id: string
+  remotePath: string
+  createdAt: string
+  size: number
+  hash: string
+  remoteCopy: string | null
+}
+
+export type FileRevisionReason = 'save' | 'sync' | 'inspector'
+
+// A saved version of a text file in the local history (Timeline).
+export interface FileRevision {
+  id: string
+  remotePath: string
+  createdAt: string
+  size: number
+  hash: string
+  reason: FileRevisionReason
+}
+
+// Local history limits; 0 means no limit.
+export interface LocalHistoryRetention {
+  maxRevisions: number
+  maxAgeDays: number
+}
+
+// How an upload came about, as recorded in the team activity log.
+export type UploadAction = 'upload' | 'sync' | 'inspector'
+
+export type FileHistoryAction = UploadAction | 'restore' | 'rename' | 'delete' | 'publish' | 'sync_local' | 'lock_break'
+
+// A row of the team activity log (file_history). `file_hash` is empty for
+// renames, deletes and syncs of the whole site to the working copy ('sync_local').
+export interface FileHistoryEntry {
+  id: number
+  user_id: number | null
+  username: string | null
+  connection_key: string | null
+  file_path: string
+  file_hash: string
+  action: FileHistoryAction
+  changes_summary: string | null
+  created_at: string
+}
+
+export type UserStatus = 'online' | 'away' | 'dnd' | 'offline'
+
+// A row of the shared users table. Each install registers one, found again
+// by `machine_id`. `idle_seconds` is null while the user is active.
+export interface TeamUser {
+  id: number
+  username: string
+  email: string | null
+  avatar_color: string | null
+  machine_id: string | null
+  status: UserStatus | string
+  status_message: string | null
+  idle_seconds: number | null
+  last_seen: string
+  created_at: string
+}
+
+// Your own presence settings: manual do not disturb and status message, and
+// the idle minutes before showing as away and then offline.
+export interface PresencePreferences {
+  doNotDisturb: boolean
+  statusMessage: string
+  awayMinutes: number
+  offlineMinutes: number
+}
+
+// How you appear to teammates, besides the editor name. `machineId` is read-only.
+export interface EditorProfile {
+  email: string
+  avatarColor: string
+  machineId: string
+}
+
+// An active_files row as returned when taking or breaking a lock.
+export interface LockRow {
+  user_id: number
+  username?: string
+  file_path: string
+  connection_key: string | null
+  locked_at: string
+  lock_expires_at: string | null
+}
+
+// Someone having a file open, as listed by dbGetActiveFiles. `lock_active`
+// is true while an unexpired lock is held. Rows whose owner stopped sending
+// heartbeats are not listed.
+export interface ActiveFile extends LockRow {
+  id: number
+  file_hash: string | null
+  last_modified: string
+  heartbeat_at: string
+  is_locked: boolean
+  lock_active: boolean
+}
+
+// Pushed when the users or active_files tables change; `table` is null when
+// either may have, e.g. after the listener reconnects.
+export interface PresenceChange {
+  table: 'users' | 'active_files' | null
+}
+
+// A caret and selection as Monaco's ISelection: the selection starts at
+// `selectionStart*` and the caret is at `position*`.
+export interface CursorSelection {
+  selectionStartLineNumber: number
+  selectionStartColumn: number
+  positionLineNumber: number
+  positionColumn: number
+}
+
+// Where a teammate's cursor is. Without `file_path` they have left any file.
+export interface SharedCursor {
+  user_id: number
+  connection_key?: string | null
+  file_path?: string
+  selections?: CursorSelection[]
+}
+
+export interface FileHistoryFilters {
+  connectionKey?: string
+  path?: string
+  userId?: number | null
+  from?: string | null
+  to?: string | null
+  limit?: number
+}
+
+export type TransferStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled' | 'removed'
+
+// A single upload or download in the transfer queue. `total` is null while the
+// size is unknown; 'removed' is only sent when a job is replaced by its retry.
+export interface TransferJob {
+  id: string
+  connectionId: string
+  type: 'upload' | 'download'
+  remotePath: string
+  bytes: number
+  total: number | null
+  status: TransferStatus
+  error: string | null
+  retryable: boolean
+  createdAt: number
+  startedAt: number | null
+  finishedAt: number | null
+}
+
+// Health of a connection's control channel, kept alive with NOOPs. While
+// 'reconnecting', requests wait and are replayed once the server is back.
+export type ConnectionHealthStatus = 'connected' | 'reconnecting' | 'offline'
+
+export interface ConnectionHealth {
+  connectionId: string
+  status: ConnectionHealthStatus
+  lastError: string | null
+  latencyMs: number | null
+  checkedAt: number | null
+}
+
 // Type definitions for the electron API
 declare global {
   interface Window {
     electronAPI: {
       // FTP operations
-      ftpConnect: (config: any) => Promise<{ success: boolean; error?: string }>
-      ftpDisconnect: () => Promise<{ success: boolean; error?: string }>
-      ftpListFiles: (path: string) => Promise<{ success: boolean; files?: any[]; error?: string }>
-      ftpListAll: (path: string) => Promise<{ success: boolean; tree?: any[]; error?: string }>
-      ftpDownloadFile: (remotePath: string, localPath: string) => Promise<{ success: boolean; content?: string; error?: string }>
-      ftpUploadFile: (localPath: string, remotePath: string) => Promise<{ success: boolean; error?: string }>
-      ftpSyncToLocal: (remoteRoot: string, localRoot: string, ignorePatterns: string[]) => Promise<{ success: boolean; error?: string }>
+      ftpConnect: (connectionId: string, config: any) => Promise<{ success: boolean; error?: string; certificate?: FTPCertificateInfo }>
+      ftpDisconnect: (connectionId: string) => Promise<{ success: boolean; error?: string }>
+      ftpGetHealth: () => Promise<{ success: boolean; health?: ConnectionHealth[]; error?: string }>
+      ftpPing: (connectionId: string) => Promise<{ success: boolean; health?: ConnectionHealth; error?: string }>
+      ftpListFiles: (connectionId: string, path: string) => Promise<{ success: boolean; files?: any[]; error?: string }>
+      ftpListAll: (connectionId: string, path: string) => Promise<{ success: boolean; tree?: any[]; error?: string }>
+      ftpDownloadFile: (connectionId: string, remotePath: string, localPath: string, options?: { encoding?: TextEncodingName }) => Promise<FTPDownloadResult>
+      ftpUploadFile: (connectionId: string, localPath: string, remotePath: string, format?: TextFormat, action?: UploadAction) => Promise<{ success: boolean; remote?: RemoteVersion | null; error?: string }>
+      ftpUploadBase64: (connectionId: string, base64: string, remotePath: string) => Promise<{ success: boolean; remote?: RemoteVersion | null; error?: string }>
+      ftpReplaceFromDisk: (connectionId: string, remotePath: string) => Promise<{ success: boolean; canceled?: boolean; base64?: string; size?: number; sourcePath?: string; remote?: RemoteVersion | null; error?: string }>
+      ftpCheckRemote: (connectionId: string, remotePath: string, baseline: RemoteVersion | null, options?: { encoding?: TextEncodingName }) => Promise<RemoteCheckResult>
+      ftpCreateDirectory: (connectionId: string, remotePath: string) => Promise<{ success: boolean; error?: string }>
+      ftpDeleteFile: (connectionId: string, remotePath: string) => Promise<{ success: boolean; error?: string }>
+      ftpDeleteDirectory: (connectionId: string, remotePath: string) => Promise<{ success: boolean; error?: string }>
+      ftpRename: (connectionId: string, oldPath: string, newPath: string) => Promise<{ success: boolean; error?: string }>
+      ftpExists: (connectionId: string, remotePath: string) => Promise<{ success: boolean; exists?: boolean; type?: 'file' | 'directory'; error?: string }>
+      ftpSyncToLocal: (connectionId: string, remoteRoot: string, localRoot: string, ignorePatterns: string[]) => Promise<FTPSyncResult>
+      ftpSyncDryRun: (connectionId: string, remoteRoot: string, localRoot: string, ignorePatterns: string[]) => Promise<{ success: boolean; report?: SyncReport; error?: string }>
+      syncGetLastReport: (connectionId: string, localRoot?: string) => Promise<{ success: boolean; report?: SyncReport | null; error?: string }>
+      ftpPublishScan: (connectionId: string, localRoot: string, ignorePatterns: string[]) => Promise<{ success: boolean; changes?: PublishChange[]; error?: string }>
+      ftpPublish: (connectionId: string, localRoot: string, remotePaths: string[]) => Promise<{ success: boolean; uploaded?: string[]; failed?: { path: string; error: string }[]; error?: string }>
 
       // File cache operations
-      fileCacheGet: (filePath: string) => Promise<{ success: boolean; content?: string; error?: string }>
-      fileCacheSet: (filePath: string, content: string) => Promise<{ success: boolean; error?: string }>
-      fileCacheClear: (filePath: string) => Promise<{ success: boolean; error?: string }>
+      fileCacheGet: (connectionId: string, filePath: string) => Promise<{ success: boolean; content?: string; error?: string }>
+      fileCacheSet: (connectionId: string, filePath: string, content: string) => Promise<{ success: boolean; error?: string }>
+      fileCacheClear: (connectionId: string, filePath: string) => Promise<{ success: boolean; error?: string }>
 
       // Database operations
-      dbGetUsers: () => Promise<{ success: boolean; users?: any[]; error?: string }>
-      dbUpdateUserStatus: (userId: string, status: string) => Promise<{ success: boolean; error?: string }>
-      dbGetActiveFiles: () => Promise<{ success: boolean; files?: any[]; error?: string }>
-      dbSetActiveFile: (userId: string, filePath: string, fileHash?: string | null) => Promise<{ success: boolean; error?: string }>
-      dbRemoveActiveFile: (userId: string, filePath: string) => Promise<{ success: boolean; error?: string }>
-      dbGetOrCreateDefaultUser: () => Promise<{ success: boolean; user?: any; error?: string }>
+      dbGetUsers: () => Promise<{ success: boolean; users?: TeamUser[]; error?: string }>
+      dbUpdateUserStatus: (
+        userId: string,
+        status: string,
+        details?: { idleSeconds?: number | null; statusMessage?: string | null }
+      ) => Promise<{ success: boolean; error?: string }>
+      dbGetActiveFiles: () => Promise<{ success: boolean; files?: ActiveFile[]; error?: string }>
+      dbSetActiveFile: (userId: string, filePath: string, fileHash?: string | null, connectionKey?: string | null) => Promise<{ success: boolean; error?: string }>
+      dbRemoveActiveFile: (userId: string, filePath: string, connectionKey?: string | null) => Promise<{ success: boolean; error?: string }>
+      dbGetCursors: () => Promise<{ success: boolean; cursors?: SharedCursor[]; error?: string }>
+      dbSetCursor: (userId: number, filePath: string, connectionKey: string | null, selections: CursorSelection[]) => Promise<{ success: boolean; error?: string }>
+      dbClearCursor: (userId: number) => Promise<{ success: boolean; error?: string }>
+      dbGetFileHistory: (filters: FileHistoryFilters) => Promise<{ success: boolean; entries?: FileHistoryEntry[]; error?: string }>
+      dbAcquireLock: (userId: number, filePath: string, connectionKey: string | null) => Promise<{ success: boolean; lock?: LockRow; holder?: LockRow; error?: string }>
+      dbReleaseLock: (userId: number, filePath: string, connectionKey: string | null) => Promise<{ success: boolean; error?: string }>
+      dbBreakLock: (userId: number, filePath: string, connectionKey: string | null) => Promise<{ success: boolean; broken?: LockRow[]; error?: string }>
+      settingsGetLockMinutes: () => Promise<{ success: boolean; minutes?: number; error?: string }>
+      settingsSetLockMinutes: (minutes: number) => Promise<{ success: boolean; minutes?: number; error?: string }>
+      settingsGetPresence: () => Promise<{ success: boolean; preferences?: PresencePreferences; error?: string }>
+      settingsSetPresence: (preferences: Partial<PresencePreferences>) => Promise<{ success: boolean; preferences?: PresencePreferences; error?: string }>
+      dbGetOrCreateDefaultUser: () => Promise<{ success: boolean; user?: TeamUser; error?: string }>
+      dbMergeUsers: (sourceId: number, targetId: number) => Promise<{ success: boolean; removed?: TeamUser | null; error?: string }>
+      dbRemoveUser: (userId: number) => Promise<{ success: boolean; removed?: TeamUser | null; error?: string }>
       dbGetFTPConnections: (userId: number) => Promise<{ success: boolean; connections?: any[]; error?: string }>
       dbAddFTPConnection: (payload: { userId: number; name: string; host: string; port: number; username: string; password: string; defaultPath: string }) => Promise<{ success: boolean; connection?: any; error?: string }>
       dbRemoveFTPConnection: (payload: { connectionId: number; userId: number }) => Promise<{ success: boolean; removed?: any; error?: string }>
       dbGetFTPPassword: (connectionId: number) => Promise<{ success: boolean; password?: string; error?: string }>
       settingsGetFTPConnections: () => Promise<{ success: boolean; connections?: any[]; error?: string }>
-      settingsAddFTPConnection: (conn: { name: string; host: string; port: number; username: string; password: string; defaultPath: string; appendedUrl?: string }) => Promise<{ success: boolean; connection?: any; error?: string }>
+      settingsAddFTPConnection: (conn: SavedFTPConnectionInput) => Promise<{ success: boolean; connection?: any; error?: string }>
+      settingsUpdateFTPConnection: (id: number | string, patch: Partial<SavedFTPConnectionInput>) => Promise<{ success: boolean; connection?: any; error?: string }>
       settingsRemoveFTPConnection: (id: number | string) => Promise<{ success: boolean; removed?: any; error?: string }>
-      settingsGetFTPPassword: (id: number | string) => Promise<{ success: boolean; password?: string; error?: string }>
+      settingsGetFTPPassword: (id: number | string) => Promise<{ success: boolean; password?: string; passphrase?: string; error?: string }>
+      settingsChoosePrivateKey?: () => Promise<{ success: boolean; path?: string; error?: string }>
       settingsGetSyncIgnore: () => Promise<{ success: boolean; patterns?: string[]; hideInExplorer?: boolean; hiddenPaths?: string[]; error?: string }>
       settingsSetSyncIgnore: (patterns: string[], hideInExplorer?: boolean, hiddenPaths?: string[]) => Promise<{ success: boolean; patterns?: string[]; hideInExplorer?: boolean; hiddenPaths?: string[]; error?: string }>
-      settingsGetSyncFolder: () => Promise<{ success: boolean; path?: string; error?: string }>
-      settingsSetSyncFolder: (path: string) => Promise<{ success: boolean; error?: string }>
-      settingsChooseSyncFolder?: () => Promise<{ success: boolean; path?: string; error?: string }>
-      settingsGetPreviewBaseUrl: () => Promise<{ success: boolean; baseUrl?: string; error?: string }>
-      settingsSetPreviewBaseUrl: (baseUrl: string) => Promise<{ success: boolean; baseUrl?: string; error?: string }>
+      settingsGetSyncFolder: (connectionId: string) => Promise<{ success: boolean; path?: string; error?: string }>
+      settingsSetSyncFolder: (connectionId: string, path: string) => Promise<{ success: boolean; error?: string }>
+      settingsChooseSyncFolder?: (connectionId: string) => Promise<{ success: boolean; path?: string; error?: string }>
+      settingsGetSyncMode: () => Promise<{ success: boolean; mode?: SyncMode; error?: string }>
+      settingsSetSyncMode: (mode: SyncMode) => Promise<{ success: boolean; mode?: SyncMode; error?: string }>
+      settingsGetPreviewBaseUrl: (connectionId: string) => Promise<{ success: boolean; baseUrl?: string; error?: string }>
+      settingsSetPreviewBaseUrl: (connectionId: string, baseUrl: string) => Promise<{ success: boolean; baseUrl?: string; error?: string }>
       settingsGetPreviewStartAfter: () => Promise<{ success: boolean; startAfter?: string; error?: string }>
       settingsSetPreviewStartAfter: (startAfter: string) => Promise<{ success: boolean; startAfter?: string; error?: string }>
       openExternalUrl: (url: string) => Promise<{ success: boolean; error?: string }>
 
       settingsGetEditorName: () => Promise<{ success: boolean; name?: string; error?: string }>
       settingsSetEditorName: (name: string) => Promise<{ success: boolean; name?: string; error?: string }>
+      settingsGetEditorProfile: () => Promise<{ success: boolean; profile?: EditorProfile; error?: string }>
+      settingsSetEditorProfile: (profile: Partial<EditorProfile>) => Promise<{ success: boolean; profile?: EditorProfile; error?: string }>
       settingsGetEnablePreviewInspector: () => Promise<{ success: boolean; enabled?: boolean; error?: string }>
       settingsSetEnablePreviewInspector: (enabled: boolean) => Promise<{ success: boolean; enabled?: boolean; error?: string }>
 
       settingsGetDbConfig: () => Promise<{ success: boolean; config?: { host: string; port: number; database: string; user: string; password: string }; error?: string }>
       settingsSetDbConfig: (config: { host: string; port: number; database: string; user: string; password: string }) => Promise<{ success: boolean; config?: { host: string; port: number; database: string; user: string; password: string }; error?: string }>
 
-      localSaveFile: (remotePath: string, content: string) => Promise<{ success: boolean; path?: string; error?: string }>
+      localReadFile: (connectionId: string, remotePath: string) => Promise<{ success: boolean; content?: string; error?: string }>
+      localSaveFile: (connectionId: string, remotePath: string, content: string, format?: TextFormat, reason?: FileRevisionReason) => Promise<{ success: boolean; path?: string; error?: string }>
+      historyList: (connectionId: string, remotePath: string) => Promise<{ success: boolean; revisions?: FileRevision[]; error?: string }>
+      historyRead: (connectionId: string, remotePath: string, revisionId: string) => Promise<{ success: boolean; content?: string; error?: string }>
+      settingsGetLocalHistoryRetention: () => Promise<{ success: boolean; retention?: LocalHistoryRetention; error?: string }>
+      settingsSetLocalHistoryRetention: (retention: LocalHistoryRetention) => Promise<{ success: boolean; retention?: LocalHistoryRetention; error?: string }>
+
+      transferList: () => Promise<{ success: boolean; transfers?: TransferJob[]; error?: string }>
+      transferCancel: (id: string) => Promise<{ success: boolean; error?: string }>
+      transferRetry: (id: string) => Promise<{ success: boolean; id?: string; error?: string }>
+      transferClearFinished: () => Promise<{ success: boolean; transfers?: TransferJob[]; error?: string }>
+      settingsGetTransferConcurrency: () => Promise<{ success: boolean; concurrency?: number; error?: string }>
+      settingsSetTransferConcurrency: (count: number) => Promise<{ success: boolean; concurrency?: number; error?: string }>
+      snapshotList: (connectionId: string) => Promise<{ success: boolean; snapshots?: SnapshotInfo[]; error?: string }>
+      snapshotListDir: (connectionId: string, name: string, relPath: string) => Promise<{ success: boolean; entries?: SnapshotEntry[]; error?: string }>
+      snapshotReadFile: (connectionId: string, name: string, relPath: string) => Promise<{ success: boolean; content?: string; error?: string }>
+      snapshotReadLatest: (connectionId: string, remotePath: string, options?: { encoding?: TextEncodingName }) => Promise<{ success: boolean; name?: string | null; content?: string; error?: string }>
+      snapshotDiff: (connectionId: string, from: string, to: string) => Promise<{ success: boolean; error?: string } & Partial<SnapshotDiff>>
+      snapshotDelete: (connectionId: string, name: string) => Promise<{ success: boolean; error?: string }>
+      snapshotApplyRetention: (connectionId: string, dryRun?: boolean) => Promise<{ success: boolean; removed?: string[]; kept?: string[]; error?: string }>
+      snapshotRestore: (connectionId: string, name: string, relPath: string) => Promise<{ success: boolean; remotePath?: string; uploaded?: string[]; failed?: { path: string; error: string }[]; error?: string }>
+      settingsGetSnapshotRetention: () => Promise<{ success: boolean; retention?: SnapshotRetention; error?: string }>
+      settingsSetSnapshotRetention: (retention: SnapshotRetention) => Promise<{ success: boolean; retention?: SnapshotRetention; error?: string }>
+      backupList: (connectionId: string, remotePath: string) => Promise<{ success: boolean; backups?: UploadBackup[]; error?: string }>
+      backupRestore: (connectionId: string, remotePath: string, backupId: string) => Promise<{ success: boolean; remote?: RemoteVersion | null; error?: string }>
+      settingsGetRemoteBackups: (connectionId: string) => Promise<{ success: boolean; enabled?: boolean; error?: string }>
+      settingsSetRemoteBackups: (connectionId: string, enabled: boolean) => Promise<{ success: boolean; enabled?: boolean; error?: string }>
 
-      projectSearch: (payload: { query: string; useRegex: boolean; caseSensitive: boolean }) => Promise<{
+      projectSearch: (payload: { query: string; useRegex: boolean; caseSensitive: boolean; connectionId?: string }) => Promise<{
         success: boolean
         root?: string
         files?: {
@@ -71,7 +468,12 @@ declare global {
 
       // Menu event listeners
       onMenuEvent: (callback: (event: any, action: string) => void) => () => void
-      onSyncProgress?: (callback: (event: any, payload: { count: number }) => void) => () => void
+      onSyncProgress?: (callback: (event: any, payload: { count: number; connectionId?: string }) => void) => () => void
+      onPublishProgress?: (callback: (event: any, payload: PublishProgress) => void) => () => void
+      onTransferUpdated?: (callback: (event: any, payload: TransferJob) => void) => () => void
+      onFtpHealthChanged?: (callback: (event: any, payload: ConnectionHealth) => void) => () => void
+      onPresenceChanged?: (callback: (event: any, payload: PresenceChange) => void) => () => void
+      onCursorMoved?: (callback: (event: any, payload: SharedCursor) => void) => () => void
 
       // DevTools helpers
       inspectElementAt?: (x: number, y: number) => Promise<{ success: boolean; error?: string }>
@@ -80,38 +482,111 @@ declare global {
 }
 
 // Export a wrapper for easier usage
+// Connection-scoped calls go to the workspace shown in the explorer unless the
+// caller names another one, e.g. the connection an editor tab was opened from.
+const scope = (connectionId?: string | null): string => connectionId || useFTPStore.getState().activeConnection || ''
+
+const scopeKey = (connectionKey?: string | null): string => {
+  if (connectionKey) return connectionKey
+  const { connections, activeConnection } = useFTPStore.getState()
+  return getConnectionKey(connections.find((c) => c.id === activeConnection))
+}
+
 export const electronAPI = {
-  ftpConnect: (config: any) => (window.electronAPI && typeof window.electronAPI.ftpConnect === 'function') ? window.electronAPI.ftpConnect(config) : Promise.resolve({ success: false, error: 'Electron API not available' }),
-  ftpDisconnect: () => (window.electronAPI && typeof window.electronAPI.ftpDisconnect === 'function') ? window.electronAPI.ftpDisconnect() : Promise.resolve({ success: false, error: 'Electron API not available' }),
-  ftpListFiles: (path: string) => (window.electronAPI && typeof window.electronAPI.ftpListFiles === 'function') ? window.electronAPI.ftpListFiles(path) : Promise.resolve({ success: false, error: 'Electron API not available' }),
-  ftpListAll: (path: string) => (window.electronAPI && typeof window.electronAPI.ftpListAll === 'function') ? window.electronAPI.ftpListAll(path) : Promise.resolve({ success: false, error: 'Electron API not available' }),
-  ftpDownloadFile: (remotePath: string, localPath: string) => (window.electronAPI && typeof window.electronAPI.ftpDownloadFile === 'function') ? window.electronAPI.ftpDownloadFile(remotePath, localPath) : Promise.resolve({ success: false, error: 'Electron API not available' }),
-  ftpUploadFile: (localPath: string, remotePath: string) => (window.electronAPI && typeof window.electronAPI.ftpUploadFile === 'function') ? window.electronAPI.ftpUploadFile(localPath, remotePath) : Promise.resolve({ success: false, error: 'Electron API not available' }),
-  ftpSyncToLocal: (remoteRoot: string, localRoot: string, ignorePatterns: string[]) =>
+  ftpConnect: (config: any, connectionId?: string | null): Promise<{ success: boolean; error?: string; certificate?: FTPCertificateInfo }> => (window.electronAPI && typeof window.electronAPI.ftpConnect === 'function') ? window.electronAPI.ftpConnect(scope(connectionId), config) : Promise.resolve({ success: false, error: 'Electron API not available' }),
+  ftpDisconnect: (connectionId?: string | null) => (window.electronAPI && typeof window.electronAPI.ftpDisconnect === 'function') ? window.electronAPI.ftpDisconnect(scope(connectionId)) : Promise.resolve({ success: false, error: 'Electron API not available' }),
+  ftpGetHealth: (): Promise<{ success: boolean; health?: ConnectionHealth[]; error?: string }> =>
+    window.electronAPI?.ftpGetHealth?.() || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  ftpPing: (connectionId?: string | null): Promise<{ success: boolean; health?: ConnectionHealth; error?: string }> =>
+    window.electronAPI?.ftpPing?.(scope(connectionId)) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  ftpListFiles: (path: string, connectionId?: string | null): Promise<{ success: boolean; files?: any[]; error?: string }> => (window.electronAPI && typeof window.electronAPI.ftpListFiles === 'function') ? window.electronAPI.ftpListFiles(scope(connectionId), path) : Promise.resolve({ success: false, error: 'Electron API not available' }),
+  ftpListAll: (path: string, connectionId?: string | null): Promise<{ success: boolean; tree?: any[]; error?: string }> => (window.electronAPI && typeof window.electronAPI.ftpListAll === 'function') ? window.electronAPI.ftpListAll(scope(connectionId), path) : Promise.resolve({ success: false, error: 'Electron API not available' }),
+  ftpDownloadFile: (remotePath: string, localPath: string, options?: { encoding?: TextEncodingName }, connectionId?: string | null): Promise<FTPDownloadResult> => (window.electronAPI && typeof window.electronAPI.ftpDownloadFile === 'function') ? window.electronAPI.ftpDownloadFile(scope(connectionId), remotePath, localPath, options) : Promise.resolve({ success: false, error: 'Electron API not available' }),
+  ftpUploadFile: (localPath: string, remotePath: string, format?: TextFormat, connectionId?: string | null, action?: UploadAction): Promise<{ success: boolean; remote?: RemoteVersion | null; error?: string }> => (window.electronAPI && typeof window.electronAPI.ftpUploadFile === 'function') ? window.electronAPI.ftpUploadFile(scope(connectionId), localPath, remotePath, format, action) : Promise.resolve({ success: false, error: 'Electron API not available' }),
+  ftpUploadBase64: (base64: string, remotePath: string, connectionId?: string | null): Promise<{ success: boolean; remote?: RemoteVersion | null; error?: string }> =>
+    window.electronAPI?.ftpUploadBase64?.(scope(connectionId), base64, remotePath) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  ftpReplaceFromDisk: (remotePath: string, connectionId?: string | null): Promise<{ success: boolean; canceled?: boolean; base64?: string; size?: number; sourcePath?: string; remote?: RemoteVersion | null; error?: string }> =>
+    window.electronAPI?.ftpReplaceFromDisk?.(scope(connectionId), remotePath) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  ftpCheckRemote: (remotePath: string, baseline: RemoteVersion | null, options?: { encoding?: TextEncodingName }, connectionId?: string | null): Promise<RemoteCheckResult> =>
+    window.electronAPI?.ftpCheckRemote?.(scope(connectionId), remotePath, baseline, options) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  ftpCreateDirectory: (remotePath: string, connectionId?: string | null) => (window.electronAPI && typeof window.electronAPI.ftpCreateDirectory === 'function') ? window.electronAPI.ftpCreateDirectory(scope(connectionId), remotePath) : Promise.resolve({ success: false, error: 'Electron API not available' }),
+  ftpDeleteFile: (remotePath: string, connectionId?: string | null) => (window.electronAPI && typeof window.electronAPI.ftpDeleteFile === 'function') ? window.electronAPI.ftpDeleteFile(scope(connectionId), remotePath) : Promise.resolve({ success: false, error: 'Electron API not available' }),
+  ftpDeleteDirectory: (remotePath: string, connectionId?: string | null) => (window.electronAPI && typeof window.electronAPI.ftpDeleteDirectory === 'function') ? window.electronAPI.ftpDeleteDirectory(scope(connectionId), remotePath) : Promise.resolve({ success: false, error: 'Electron API not available' }),
+  ftpRename: (oldPath: string, newPath: string, connectionId?: string | null) => (window.electronAPI && typeof window.electronAPI.ftpRename === 'function') ? window.electronAPI.ftpRename(scope(connectionId), oldPath, newPath) : Promise.resolve({ success: false, error: 'Electron API not available' }),
+  ftpExists: (remotePath: string, connectionId?: string | null): Promise<{ success: boolean; exists?: boolean; type?: 'file' | 'directory'; error?: string }> => (window.electronAPI && typeof window.electronAPI.ftpExists === 'function') ? window.electronAPI.ftpExists(scope(connectionId), remotePath) : Promise.resolve({ success: false, error: 'Electron API not available' }),
+  ftpSyncToLocal: (remoteRoot: string, localRoot: string, ignorePatterns: string[], connectionId?: string | null): Promise<FTPSyncResult> =>
     (window.electronAPI && typeof window.electronAPI.ftpSyncToLocal === 'function')
-      ? window.electronAPI.ftpSyncToLocal(remoteRoot, localRoot, ignorePatterns)
+      ? window.electronAPI.ftpSyncToLocal(scope(connectionId), remoteRoot, localRoot, ignorePatterns)
       : Promise.resolve({ success: false, error: 'Electron API not available' }),
+  ftpSyncDryRun: (remoteRoot: string, localRoot: string, ignorePatterns: string[], connectionId?: string | null): Promise<{ success: boolean; report?: SyncReport; error?: string }> =>
+    window.electronAPI?.ftpSyncDryRun?.(scope(connectionId), remoteRoot, localRoot, ignorePatterns) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  syncGetLastReport: (localRoot?: string, connectionId?: string | null): Promise<{ success: boolean; report?: SyncReport | null; error?: string }> =>
+    window.electronAPI?.syncGetLastReport?.(scope(connectionId), localRoot) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  ftpPublishScan: (localRoot: string, ignorePatterns: string[], connectionId?: string | null): Promise<{ success: boolean; changes?: PublishChange[]; error?: string }> =>
+    window.electronAPI?.ftpPublishScan?.(scope(connectionId), localRoot, ignorePatterns) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  ftpPublish: (localRoot: string, remotePaths: string[], connectionId?: string | null): Promise<{ success: boolean; uploaded?: string[]; failed?: { path: string; error: string }[]; error?: string }> =>
+    window.electronAPI?.ftpPublish?.(scope(connectionId), localRoot, remotePaths) || Promise.resolve({ success: false, error: 'Electron API not available' }),
   
-  fileCacheGet: (filePath: string) => window.electronAPI?.fileCacheGet(filePath) || Promise.resolve({ success: false, error: 'Electron API not available' }),
-  fileCacheSet: (filePath: string, content: string) => window.electronAPI?.fileCacheSet(filePath, content) || Promise.resolve({ success: false, error: 'Electron API not available' }),
-  fileCacheClear: (filePath: string) => window.electronAPI?.fileCacheClear(filePath) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  fileCacheGet: (filePath: string, connectionId?: string | null) => window.electronAPI?.fileCacheGet(scope(connectionId), filePath) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  fileCacheSet: (filePath: string, content: string, connectionId?: string | null) => window.electronAPI?.fileCacheSet(scope(connectionId), filePath, content) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  fileCacheClear: (filePath: string, connectionId?: string | null) => window.electronAPI?.fileCacheClear(scope(connectionId), filePath) || Promise.resolve({ success: false, error: 'Electron API not available' }),
   
   dbGetUsers: () => window.electronAPI?.dbGetUsers() || Promise.resolve({ success: false, error: 'Electron API not available' }),
-  dbUpdateUserStatus: (userId: string, status: string) => window.electronAPI?.dbUpdateUserStatus(userId, status) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  dbUpdateUserStatus: (userId: string, status: UserStatus, details?: { idleSeconds?: number | null; statusMessage?: string | null }) =>
+    window.electronAPI?.dbUpdateUserStatus(userId, status, details) || Promise.resolve({ success: false, error: 'Electron API not available' }),
   dbGetActiveFiles: () => window.electronAPI?.dbGetActiveFiles() || Promise.resolve({ success: false, error: 'Electron API not available' }),
-  dbSetActiveFile: (userId: string, filePath: string, fileHash?: string | null) =>
-    window.electronAPI?.dbSetActiveFile(userId, filePath, fileHash ?? null) ||
+  dbSetActiveFile: (userId: string, filePath: string, fileHash?: string | null, connectionKey?: string | null) =>
+    window.electronAPI?.dbSetActiveFile(userId, filePath, fileHash ?? null, scopeKey(connectionKey)) ||
     Promise.resolve({ success: false, error: 'Electron API not available' }),
-  dbRemoveActiveFile: (userId: string, filePath: string) => window.electronAPI?.dbRemoveActiveFile(userId, filePath) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  dbRemoveActiveFile: (userId: string, filePath: string, connectionKey?: string | null) => window.electronAPI?.dbRemoveActiveFile(userId, filePath, scopeKey(connectionKey)) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  dbGetCursors: (): Promise<{ success: boolean; cursors?: SharedCursor[]; error?: string }> =>
+    window.electronAPI?.dbGetCursors?.() || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  dbSetCursor: (userId: number, filePath: string, selections: CursorSelection[], connectionKey?: string | null): Promise<{ success: boolean; error?: string }> =>
+    window.electronAPI?.dbSetCursor?.(userId, filePath, scopeKey(connectionKey) || null, selections) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  dbClearCursor: (userId: number): Promise<{ success: boolean; error?: string }> =>
+    window.electronAPI?.dbClearCursor?.(userId) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  dbGetFileHistory: (filters: FileHistoryFilters = {}, connectionKey?: string | null): Promise<{ success: boolean; entries?: FileHistoryEntry[]; error?: string }> =>
+    window.electronAPI?.dbGetFileHistory?.({ ...filters, connectionKey: scopeKey(connectionKey) }) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  dbAcquireLock: (userId: number, filePath: string, connectionKey?: string | null): Promise<{ success: boolean; lock?: LockRow; holder?: LockRow; error?: string }> =>
+    window.electronAPI?.dbAcquireLock?.(userId, filePath, scopeKey(connectionKey) || null) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  dbReleaseLock: (userId: number, filePath: string, connectionKey?: string | null): Promise<{ success: boolean; error?: string }> =>
+    window.electronAPI?.dbReleaseLock?.(userId, filePath, scopeKey(connectionKey) || null) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  dbBreakLock: (userId: number, filePath: string, connectionKey?: string | null): Promise<{ success: boolean; broken?: LockRow[]; error?: string }> =>
+    window.electronAPI?.dbBreakLock?.(userId, filePath, scopeKey(connectionKey) || null) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  settingsGetLockMinutes: (): Promise<{ success: boolean; minutes?: number; error?: string }> =>
+    window.electronAPI?.settingsGetLockMinutes?.() || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  settingsSetLockMinutes: (minutes: number): Promise<{ success: boolean; minutes?: number; error?: string }> =>
+    window.electronAPI?.settingsSetLockMinutes?.(minutes) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  settingsGetPresence: (): Promise<{ success: boolean; preferences?: PresencePreferences; error?: string }> =>
+    window.electronAPI?.settingsGetPresence?.() || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  settingsSetPresence: (preferences: Partial<PresencePreferences>): Promise<{ success: boolean; preferences?: PresencePreferences; error?: string }> =>
+    window.electronAPI?.settingsSetPresence?.(preferences) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  dbMergeUsers: (sourceId: number, targetId: number): Promise<{ success: boolean; removed?: TeamUser | null; error?: string }> =>
+    window.electronAPI?.dbMergeUsers?.(sourceId, targetId) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  dbRemoveUser: (userId: number): Promise<{ success: boolean; removed?: TeamUser | null; error?: string }> =>
+    window.electronAPI?.dbRemoveUser?.(userId) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  settingsGetEditorProfile: (): Promise<{ success: boolean; profile?: EditorProfile; error?: string }> =>
+    window.electronAPI?.settingsGetEditorProfile?.() || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  settingsSetEditorProfile: (profile: Partial<EditorProfile>): Promise<{ success: boolean; profile?: EditorProfile; error?: string }> =>
+    window.electronAPI?.settingsSetEditorProfile?.(profile) || Promise.resolve({ success: false, error: 'Electron API not available' }),
   dbGetOrCreateDefaultUser: () => window.electronAPI?.dbGetOrCreateDefaultUser() || Promise.resolve({ success: false, error: 'Electron API not available' }),
   dbGetFTPConnections: (userId: number) => window.electronAPI?.dbGetFTPConnections(userId) || Promise.resolve({ success: false, error: 'Electron API not available' }),
   dbAddFTPConnection: (payload: { userId: number; name: string; host: string; port: number; username: string; password: string; defaultPath: string }) => window.electronAPI?.dbAddFTPConnection(payload) || Promise.resolve({ success: false, error: 'Electron API not available' }),
   dbRemoveFTPConnection: (payload: { connectionId: number; userId: number }) => window.electronAPI?.dbRemoveFTPConnection(payload) || Promise.resolve({ success: false, error: 'Electron API not available' }),
   dbGetFTPPassword: (connectionId: number) => window.electronAPI?.dbGetFTPPassword(connectionId) || Promise.resolve({ success: false, error: 'Electron API not available' }),
   settingsGetFTPConnections: () => window.electronAPI?.settingsGetFTPConnections() || Promise.resolve({ success: false, error: 'Electron API not available' }),
-  settingsAddFTPConnection: (conn: { name: string; host: string; port: number; username: string; password: string; defaultPath: string; appendedUrl?: string }) => window.electronAPI?.settingsAddFTPConnection(conn) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  settingsAddFTPConnection: (conn: SavedFTPConnectionInput) => window.electronAPI?.settingsAddFTPConnection(conn) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  settingsUpdateFTPConnection: (id: number | string, patch: Partial<SavedFTPConnectionInput>) => window.electronAPI?.settingsUpdateFTPConnection(id, patch) || Promise.resolve({ success: false, error: 'Electron API not available' }),
   settingsRemoveFTPConnection: (id: number | string) => window.electronAPI?.settingsRemoveFTPConnection(id) || Promise.resolve({ success: false, error: 'Electron API not available' }),
-  settingsGetFTPPassword: (id: number | string) => window.electronAPI?.settingsGetFTPPassword(id) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  settingsGetFTPPassword: (id: number | string): Promise<{ success: boolean; password?: string; passphrase?: string; error?: string }> =>
+    window.electronAPI?.settingsGetFTPPassword(id) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  settingsChoosePrivateKey: (): Promise<{ success: boolean; path?: string; error?: string }> =>
+    (window.electronAPI && typeof window.electronAPI.settingsChoosePrivateKey === 'function')
+      ? window.electronAPI.settingsChoosePrivateKey()
+      : Promise.resolve<{ success: boolean; path?: string; error?: string }>({
+          success: false,
+          error: 'File picker not available'
+        }),
   settingsGetSyncIgnore: (): Promise<{ success: boolean; patterns?: string[]; hideInExplorer?: boolean; hiddenPaths?: string[]; error?: string }> =>
     (window.electronAPI && typeof window.electronAPI.settingsGetSyncIgnore === 'function')
       ? window.electronAPI.settingsGetSyncIgnore()
@@ -123,31 +598,35 @@ export const electronAPI = {
           success: false,
           error: 'Electron API not available'
         }),
-  settingsGetSyncFolder: (): Promise<{ success: boolean; path?: string; error?: string }> =>
+  settingsGetSyncFolder: (connectionId?: string | null): Promise<{ success: boolean; path?: string; error?: string }> =>
     (window.electronAPI && typeof window.electronAPI.settingsGetSyncFolder === 'function')
-      ? window.electronAPI.settingsGetSyncFolder()
+      ? window.electronAPI.settingsGetSyncFolder(scope(connectionId))
       : Promise.resolve<{ success: boolean; path?: string; error?: string }>({ success: true }),
-  settingsSetSyncFolder: (path: string): Promise<{ success: boolean; error?: string }> =>
+  settingsSetSyncFolder: (path: string, connectionId?: string | null): Promise<{ success: boolean; error?: string }> =>
     (window.electronAPI && typeof window.electronAPI.settingsSetSyncFolder === 'function')
-      ? window.electronAPI.settingsSetSyncFolder(path)
+      ? window.electronAPI.settingsSetSyncFolder(scope(connectionId), path)
       : Promise.resolve<{ success: boolean; error?: string }>({
           success: false,
           error: 'Electron API not available'
         }),
-  settingsChooseSyncFolder: (): Promise<{ success: boolean; path?: string; error?: string }> =>
+  settingsChooseSyncFolder: (connectionId?: string | null): Promise<{ success: boolean; path?: string; error?: string }> =>
     (window.electronAPI && typeof window.electronAPI.settingsChooseSyncFolder === 'function')
-      ? window.electronAPI.settingsChooseSyncFolder()
+      ? window.electronAPI.settingsChooseSyncFolder(scope(connectionId))
       : Promise.resolve<{ success: boolean; path?: string; error?: string }>({
           success: false,
           error: 'Folder picker not available'
         }),
-  settingsGetPreviewBaseUrl: (): Promise<{ success: boolean; baseUrl?: string; error?: string }> =>
+  settingsGetSyncMode: (): Promise<{ success: boolean; mode?: SyncMode; error?: string }> =>
+    window.electronAPI?.settingsGetSyncMode?.() || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  settingsSetSyncMode: (mode: SyncMode): Promise<{ success: boolean; mode?: SyncMode; error?: string }> =>
+    window.electronAPI?.settingsSetSyncMode?.(mode) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  settingsGetPreviewBaseUrl: (connectionId?: string | null): Promise<{ success: boolean; baseUrl?: string; error?: string }> =>
     (window.electronAPI && typeof window.electronAPI.settingsGetPreviewBaseUrl === 'function')
-      ? window.electronAPI.settingsGetPreviewBaseUrl()
+      ? window.electronAPI.settingsGetPreviewBaseUrl(scope(connectionId))
       : Promise.resolve<{ success: boolean; baseUrl?: string; error?: string }>({ success: true, baseUrl: '' }),
-  settingsSetPreviewBaseUrl: (baseUrl: string): Promise<{ success: boolean; baseUrl?: string; error?: string }> =>
+  settingsSetPreviewBaseUrl: (baseUrl: string, connectionId?: string | null): Promise<{ success: boolean; baseUrl?: string; error?: string }> =>
     (window.electronAPI && typeof window.electronAPI.settingsSetPreviewBaseUrl === 'function')
-      ? window.electronAPI.settingsSetPreviewBaseUrl(baseUrl)
+      ? window.electronAPI.settingsSetPreviewBaseUrl(scope(connectionId), baseUrl)
       : Promise.resolve<{ success: boolean; baseUrl?: string; error?: string }>({
           success: false,
           error: 'Electron API not available'
@@ -204,11 +683,62 @@ export const electronAPI = {
       success: false,
       error: 'Electron API not available'
     }),
-  localSaveFile: (remotePath: string, content: string) =>
-    window.electronAPI?.localSaveFile(remotePath, content) ||
+  localReadFile: (remotePath: string, connectionId?: string | null): Promise<{ success: boolean; content?: string; error?: string }> =>
+    window.electronAPI?.localReadFile?.(scope(connectionId), remotePath) ||
     Promise.resolve({ success: false, error: 'Electron API not available' }),
-  projectSearch: (payload: { query: string; useRegex: boolean; caseSensitive: boolean }) =>
-    window.electronAPI?.projectSearch(payload) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  transferList: (): Promise<{ success: boolean; transfers?: TransferJob[]; error?: string }> =>
+    window.electronAPI?.transferList?.() || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  transferCancel: (id: string): Promise<{ success: boolean; error?: string }> =>
+    window.electronAPI?.transferCancel?.(id) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  transferRetry: (id: string): Promise<{ success: boolean; id?: string; error?: string }> =>
+    window.electronAPI?.transferRetry?.(id) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  transferClearFinished: (): Promise<{ success: boolean; transfers?: TransferJob[]; error?: string }> =>
+    window.electronAPI?.transferClearFinished?.() || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  settingsGetTransferConcurrency: (): Promise<{ success: boolean; concurrency?: number; error?: string }> =>
+    window.electronAPI?.settingsGetTransferConcurrency?.() || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  settingsSetTransferConcurrency: (count: number): Promise<{ success: boolean; concurrency?: number; error?: string }> =>
+    window.electronAPI?.settingsSetTransferConcurrency?.(count) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  snapshotList: (connectionId?: string | null): Promise<{ success: boolean; snapshots?: SnapshotInfo[]; error?: string }> =>
+    window.electronAPI?.snapshotList?.(scope(connectionId)) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  snapshotListDir: (name: string, relPath: string, connectionId?: string | null): Promise<{ success: boolean; entries?: SnapshotEntry[]; error?: string }> =>
+    window.electronAPI?.snapshotListDir?.(scope(connectionId), name, relPath) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  snapshotReadFile: (name: string, relPath: string, connectionId?: string | null): Promise<{ success: boolean; content?: string; error?: string }> =>
+    window.electronAPI?.snapshotReadFile?.(scope(connectionId), name, relPath) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  snapshotReadLatest: (remotePath: string, options?: { encoding?: TextEncodingName }, connectionId?: string | null): Promise<{ success: boolean; name?: string | null; content?: string; error?: string }> =>
+    window.electronAPI?.snapshotReadLatest?.(scope(connectionId), remotePath, options) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  snapshotDiff: (from: string, to: string, connectionId?: string | null): Promise<{ success: boolean; error?: string } & Partial<SnapshotDiff>> =>
+    window.electronAPI?.snapshotDiff?.(scope(connectionId), from, to) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  snapshotDelete: (name: string, connectionId?: string | null): Promise<{ success: boolean; error?: string }> =>
+    window.electronAPI?.snapshotDelete?.(scope(connectionId), name) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  snapshotApplyRetention: (dryRun?: boolean, connectionId?: string | null): Promise<{ success: boolean; removed?: string[]; kept?: string[]; error?: string }> =>
+    window.electronAPI?.snapshotApplyRetention?.(scope(connectionId), dryRun) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  snapshotRestore: (name: string, relPath: string, connectionId?: string | null): Promise<{ success: boolean; remotePath?: string; uploaded?: string[]; failed?: { path: string; error: string }[]; error?: string }> =>
+    window.electronAPI?.snapshotRestore?.(scope(connectionId), name, relPath) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  settingsGetSnapshotRetention: (): Promise<{ success: boolean; retention?: SnapshotRetention; error?: string }> =>
+    window.electronAPI?.settingsGetSnapshotRetention?.() || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  settingsSetSnapshotRetention: (retention: SnapshotRetention): Promise<{ success: boolean; retention?: SnapshotRetention; error?: string }> =>
+    window.electronAPI?.settingsSetSnapshotRetention?.(retention) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  backupList: (remotePath: string, connectionId?: string | null): Promise<{ success: boolean; backups?: UploadBackup[]; error?: string }> =>
+    window.electronAPI?.backupList?.(scope(connectionId), remotePath) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  backupRestore: (remotePath: string, backupId: string, connectionId?: string | null): Promise<{ success: boolean; remote?: RemoteVersion | null; error?: string }> =>
+    window.electronAPI?.backupRestore?.(scope(connectionId), remotePath, backupId) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  settingsGetRemoteBackups: (connectionId?: string | null): Promise<{ success: boolean; enabled?: boolean; error?: string }> =>
+    window.electronAPI?.settingsGetRemoteBackups?.(scope(connectionId)) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  settingsSetRemoteBackups: (enabled: boolean, connectionId?: string | null): Promise<{ success: boolean; enabled?: boolean; error?: string }> =>
+    window.electronAPI?.settingsSetRemoteBackups?.(scope(connectionId), enabled) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  localSaveFile: (remotePath: string, content: string, format?: TextFormat, connectionId?: string | null, reason?: FileRevisionReason) =>
+    window.electronAPI?.localSaveFile(scope(connectionId), remotePath, content, format, reason) ||
+    Promise.resolve({ success: false, error: 'Electron API not available' }),
+  historyList: (remotePath: string, connectionId?: string | null): Promise<{ success: boolean; revisions?: FileRevision[]; error?: string }> =>
+    window.electronAPI?.historyList?.(scope(connectionId), remotePath) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  historyRead: (remotePath: string, revisionId: string, connectionId?: string | null): Promise<{ success: boolean; content?: string; error?: string }> =>
+    window.electronAPI?.historyRead?.(scope(connectionId), remotePath, revisionId) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  settingsGetLocalHistoryRetention: (): Promise<{ success: boolean; retention?: LocalHistoryRetention; error?: string }> =>
+    window.electronAPI?.settingsGetLocalHistoryRetention?.() || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  settingsSetLocalHistoryRetention: (retention: LocalHistoryRetention): Promise<{ success: boolean; retention?: LocalHistoryRetention; error?: string }> =>
+    window.electronAPI?.settingsSetLocalHistoryRetention?.(retention) || Promise.resolve({ success: false, error: 'Electron API not available' }),
+  projectSearch: (payload: { query: string; useRegex: boolean; caseSensitive: boolean }, connectionId?: string | null) =>
+    window.electronAPI?.projectSearch({ ...payload, connectionId: scope(connectionId) }) || Promise.resolve({ success: false, error: 'Electron API not available' }),
   inspectElementAt: (x: number, y: number) =>
     window.electronAPI?.inspectElementAt?.(x, y) || Promise.resolve({ success: false, error: 'Electron API not available' }),
   
@@ -219,10 +749,45 @@ export const electronAPI = {
     return () => {}
   },
 
-  onSyncProgress: (callback: (event: any, payload: { count: number }) => void) => {
+  onSyncProgress: (callback: (event: any, payload: { count: number; connectionId?: string }) => void) => {
     if (window.electronAPI?.onSyncProgress) {
       return window.electronAPI.onSyncProgress(callback)
     }
     return () => {}
+  },
+
+  onPublishProgress: (callback: (event: any, payload: PublishProgress) => void) => {
+    if (window.electronAPI?.onPublishProgress) {
+      return window.electronAPI.onPublishProgress(callback)
+    }
+    return () => {}
+  },
+
+  onTransferUpdated: (callback: (event: any, payload: TransferJob) => void) => {
+    if (window.electronAPI?.onTransferUpdated) {
+      return window.electronAPI.onTransferUpdated(callback)
+    }
+    return () => {}
+  },
+
+  onFtpHealthChanged: (callback: (event: any, payload: ConnectionHealth) => void) => {
+    if (window.electronAPI?.onFtpHealthChanged) {
+      return window.electronAPI.onFtpHealthChanged(callback)
+    }
+    return () => {}
+  },
+
+  onPresenceChanged: (callback: (event: any, payload: PresenceChange) => void) => {
+    if (window.electronAPI?.onPresenceChanged) {
+      return window.electronAPI.onPresenceChanged(callback)
+    }
+    return () => {}
+  },
+
+  onCursorMoved: (callback: (event: any, payload: SharedCursor) => void) => {
+    if (window.electronAPI?.onCursorMoved) {
+      return window.electronAPI.onCursorMoved(callback)
+    }
+    return () => {}
   }
 }
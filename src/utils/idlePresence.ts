@@ -0,0 +1,62 @@
+import { electronAPI, UserStatus } from './electronAPI'
+import { usePresenceStore } from '../stores/presenceStore'
+
+const ACTIVITY_EVENTS = ['keydown', 'mousedown', 'mousemove', 'wheel', 'focus'] as const
+const CHECK_INTERVAL_MS = 15000
+const HEARTBEAT_MS = 60000
+
+/**
+ * Works out your presence from keyboard and mouse activity and window focus,
+ * and reports it to the team database whenever it changes, and at least once
+ * a minute so `last_seen` stays fresh. Idle for the away time shows you as
+ * away (do not disturb stays as it is), idle for the offline time as offline;
+ * any activity brings you back. Returns a function that stops tracking.
+ */
+export const trackPresence = (userId: number): (() => void) => {
+  let lastActivity = Date.now()
+  let lastReport = { key: '', at: 0, idle: false }
+
+  const report = (force = false) => {
+    const { preferences, setMyStatus } = usePresenceStore.getState()
+    const idleMs = Date.now() - lastActivity
+    const idle = idleMs >= preferences.awayMinutes * 60000
+    let status: UserStatus = 'online'
+    if (idleMs >= preferences.offlineMinutes * 60000) status = 'offline'
+    else if (preferences.doNotDisturb) status = 'dnd'
+    else if (idle) status = 'away'
+
+    const key = `${status}|${idle}|${preferences.statusMessage}`
+    if (!force && key === lastReport.key && Date.now() - lastReport.at < HEARTBEAT_MS) return
+    lastReport = { key, at: Date.now(), idle }
+    setMyStatus(status)
+    electronAPI.dbUpdateUserStatus(String(userId), status, {
+      idleSeconds: idle ? Math.floor(idleMs / 1000) : null,
+      statusMessage: preferences.statusMessage
+    })
+  }
+
+  const handleActivity = () => {
+    lastActivity = Date.now()
+    if (lastReport.idle) report()
+  }
+
+  // Leaving the window counts as the last activity; idle time runs from there.
+  const handleBlur = () => {
+    lastActivity = Date.now()
+  }
+
+  ACTIVITY_EVENTS.forEach((name) => window.addEventListener(name, handleActivity, { passive: true }))
+  window.addEventListener('blur', handleBlur)
+  const interval = window.setInterval(() => report(), CHECK_INTERVAL_MS)
+  const unsubscribe = usePresenceStore.subscribe((state, prev) => {
+    if (state.preferences !== prev.preferences) report(true)
+  })
+  report(true)
+
+  return () => {
+    ACTIVITY_EVENTS.forEach((name) => window.removeEventListener(name, handleActivity))
+    window.removeEventListener('blur', handleBlur)
+    window.clearInterval(interval)
+    unsubscribe()
+  }
+}
@@ -0,0 +1,35 @@
+import { useEditorStore, EditorFile } from '../stores/editorStore'
+import { useRemoteChangeStore } from '../stores/remoteChangeStore'
+import { electronAPI } from './electronAPI'
+
+/**
+ * Called by Save-and-Sync before uploading a tab. Resolves with the content to
+ * upload, or null when the upload should not happen. If the server copy
+ * changed since the tab was opened (edited over plain FTP, cPanel, another
+ * tool), the user picks diff/merge, overwrite or cancel first.
+ */
+export const resolveRemoteChanges = async (file: EditorFile): Promise<string | null> => {
+  const store = useEditorStore.getState()
+  // Tabs opened before versions were recorded have nothing to compare with.
+  if (!file.remoteVersion) return file.content
+  const check = await electronAPI.ftpCheckRemote(file.path, file.remoteVersion, { encoding: file.encoding }, file.connectionId)
+  if (!check.success) {
+    store.setError(check.error || `Could not check ${file.path} on the server before uploading`)
+    store.setStatusMessage(null)
+    return null
+  }
+  if (!check.changed) {
+    if (check.remote) store.setRemoteVersion(file.id, check.remote)
+    return file.content
+  }
+  const choice = await useRemoteChangeStore.getState().requestChoice(file, check)
+  if (choice.action === 'cancel') {
+    store.setStatusMessage(`Upload cancelled: ${file.path} changed on the server`)
+    return null
+  }
+  if (choice.action === 'merge') {
+    store.updateFileContent(file.id, choice.content)
+    return choice.content
+  }
+  return file.content
+}
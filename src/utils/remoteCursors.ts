@@ -0,0 +1,65 @@
+import { CursorSelection, SharedCursor } from './electronAPI'
+
+const DEFAULT_COLOR = '#3794ff'
+const appliedStyles = new Map<number, string>()
+
+// A CSS string literal; quotes, backslashes and line breaks are escaped.
+const cssString = (text: string) => `"${text.replace(/["\\\r\n]/g, (c) => `\\${c.charCodeAt(0).toString(16)} `)}"`
+
+/**
+ * Adds or updates the rules that give a teammate's caret and selections
+ * their avatar colour and name label. The shared parts live in index.css.
+ */
+export const ensureCursorStyle = (userId: number, name: string, color: string | null) => {
+  const colour = color && /^#[0-9a-f]{6}$/i.test(color) ? color : DEFAULT_COLOR
+  const css = [
+    `.remote-selection-${userId} { background-color: ${colour}40; }`,
+    `.remote-cursor-${userId} { border-left-color: ${colour}; }`,
+    `.remote-cursor-${userId}::after { content: ${cssString(name)}; background-color: ${colour}; }`
+  ].join('\n')
+  if (appliedStyles.get(userId) === css) return
+  appliedStyles.set(userId, css)
+  const id = `remote-cursor-style-${userId}`
+  let style = document.getElementById(id)
+  if (!style) {
+    style = document.createElement('style')
+    style.id = id
+    document.head.appendChild(style)
+  }
+  style.textContent = css
+}
+
+const selectionRange = (s: CursorSelection) => {
+  const startFirst =
+    s.selectionStartLineNumber < s.positionLineNumber ||
+    (s.selectionStartLineNumber === s.positionLineNumber && s.selectionStartColumn <= s.positionColumn)
+  return startFirst
+    ? { startLineNumber: s.selectionStartLineNumber, startColumn: s.selectionStartColumn, endLineNumber: s.positionLineNumber, endColumn: s.positionColumn }
+    : { startLineNumber: s.positionLineNumber, startColumn: s.positionColumn, endLineNumber: s.selectionStartLineNumber, endColumn: s.selectionStartColumn }
+}
+
+/**
+ * Monaco decorations for a teammate's cursor: a tinted range for each
+ * non-empty selection and a coloured caret carrying their name.
+ */
+export const cursorDecorations = (cursor: SharedCursor) =>
+  (cursor.selections || []).flatMap((s) => {
+    const caret = {
+      range: { startLineNumber: s.positionLineNumber, startColumn: s.positionColumn, endLineNumber: s.positionLineNumber, endColumn: s.positionColumn },
+      options: { afterContentClassName: `remote-cursor remote-cursor-${cursor.user_id}`, stickiness: 1 }
+    }
+    const range = selectionRange(s)
+    const empty = range.startLineNumber === range.endLineNumber && range.startColumn === range.endColumn
+    return empty ? [caret] : [{ range, options: { className: `remote-selection-${cursor.user_id}`, stickiness: 1 } }, caret]
+  })
+
+/**
+ * Plain copies of the editor's selections, ready to relay.
+ */
+export const toCursorSelections = (selections: any[] | null | undefined): CursorSelection[] =>
+  (selections || []).map((s) => ({
+    selectionStartLineNumber: s.selectionStartLineNumber,
+    selectionStartColumn: s.selectionStartColumn,
+    positionLineNumber: s.positionLineNumber,
+    positionColumn: s.positionColumn
+  }))
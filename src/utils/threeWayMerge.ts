@@ -0,0 +1,244 @@
+// Line-based three-way merge for Save-and-Sync conflicts. `base` is the server
+// copy the tab was opened from, `ours` the editor content and `theirs` the
+// server copy now. Changes made on one side only are merged automatically;
+// overlapping changes become diff3-style conflict blocks to resolve by hand.
+
+interface Hunk {
+  /** Replaced range of base lines, end exclusive. Equal bounds mean an insertion. */
+  baseStart: number
+  baseEnd: number
+  lines: string[]
+}
+
+export type ConflictChoice = 'ours' | 'theirs' | 'both' | 'base'
+
+export interface ConflictBlock {
+  /** Zero-based line of the `<<<<<<<` marker. */
+  startLine: number
+  /** Zero-based line of the `>>>>>>>` marker. */
+  endLine: number
+  ours: string[]
+  base: string[]
+  theirs: string[]
+}
+
+export interface MergeResult {
+  text: string
+  /** Changed regions taken from one side, or changed identically on both. */
+  autoMerged: number
+  conflicts: number
+}
+
+export const CONFLICT_MARKERS = {
+  ours: '<<<<<<< Yours',
+  base: '||||||| Base (as opened)',
+  separator: '=======',
+  theirs: '>>>>>>> Server'
+}
+
+// Above this many differing lines the diff gives up and treats the whole
+// changed middle as one hunk, which keeps memory bounded on rewritten files.
+const MAX_EDITS = 1000
+
+const detectEol = (text: string) => (text.includes('\r\n') ? '\r\n' : '\n')
+
+// Myers diff of two line arrays, returned as hunks against `a`.
+const diffLines = (a: string[], b: string[]): Hunk[] => {
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+  const n = endA - start
+  const m = endB - start
+  if (n === 0 && m === 0) return []
+  const whole = [{ baseStart: start, baseEnd: endA, lines: b.slice(start, endB) }]
+  if (n === 0 || m === 0) return whole
+
+  const max = Math.min(n + m, MAX_EDITS)
+  const offset = max + 1
+  const v = new Int32Array(2 * max + 3)
+  const trace: Int32Array[] = []
+  let found = false
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice())
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[k - 1 + offset] < v[k + 1 + offset]) ? v[k + 1 + offset] : v[k - 1 + offset] + 1
+      let y = x - k
+      while (x < n && y < m && a[start + x] === b[start + y]) {
+        x++
+        y++
+      }
+      v[k + offset] = x
+      if (x >= n && y >= m) {
+        found = true
+        break
+      }
+    }
+  }
+  if (!found) return whole
+
+  // Walk the trace back from the end, collecting edits in reverse.
+  const ops: ('eq' | 'del' | 'ins')[] = []
+  let x = n
+  let y = m
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d]
+    const k = x - y
+    const prevK = k === -d || (k !== d && vd[k - 1 + offset] < vd[k + 1 + offset]) ? k + 1 : k - 1
+    const prevX = vd[prevK + offset]
+    const prevY = prevX - prevK
+    while (x > prevX && y > prevY) {
+      ops.push('eq')
+      x--
+      y--
+    }
+    if (d > 0) ops.push(x === prevX ? 'ins' : 'del')
+    x = prevX
+    y = prevY
+  }
+  ops.reverse()
+
+  const hunks: Hunk[] = []
+  let ai = start
+  let bi = start
+  let current: Hunk | null = null
+  for (const op of ops) {
+    if (op === 'eq') {
+      if (current) hunks.push(current)
+      current = null
+      ai++
+      bi++
+      continue
+    }
+    if (!current) current = { baseStart: ai, baseEnd: ai, lines: [] }
+    if (op === 'del') {
+      ai++
+      current.baseEnd = ai
+    } else {
+      current.lines.push(b[bi])
+      bi++
+    }
+  }
+  if (current) hunks.push(current)
+  return hunks
+}
+
+// The lines one side has for base[lo, hi), given that side's hunks in the range.
+const applyHunks = (base: string[], hunks: Hunk[], lo: number, hi: number) => {
+  const out: string[] = []
+  let pos = lo
+  for (const hunk of hunks) {
+    out.push(...base.slice(pos, hunk.baseStart), ...hunk.lines)
+    pos = hunk.baseEnd
+  }
+  out.push(...base.slice(pos, hi))
+  return out
+}
+
+const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, i) => line === b[i])
+
+export const mergeThreeWay = (base: string, ours: string, theirs: string): MergeResult => {
+  const eol = detectEol(ours)
+  const baseLines = base.split(/\r?\n/)
+  const ourLines = ours.split(/\r?\n/)
+  const theirLines = theirs.split(/\r?\n/)
+  const tagged = [
+    ...diffLines(baseLines, ourLines).map((hunk) => ({ ...hunk, side: 'ours' as const })),
+    ...diffLines(baseLines, theirLines).map((hunk) => ({ ...hunk, side: 'theirs' as const }))
+  ].sort((a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd)
+
+  const out: string[] = []
+  let autoMerged = 0
+  let conflicts = 0
+  let pos = 0
+  let i = 0
+  while (i < tagged.length) {
+    // Hunks that overlap or touch form one region; adjacent edits from both
+    // sides are ambiguous, so they conflict like they would in git.
+    const group = [tagged[i]]
+    const lo = tagged[i].baseStart
+    let hi = tagged[i].baseEnd
+    i++
+    while (i < tagged.length && tagged[i].baseStart <= hi) {
+      group.push(tagged[i])
+      hi = Math.max(hi, tagged[i].baseEnd)
+      i++
+    }
+    out.push(...baseLines.slice(pos, lo))
+    pos = hi
+    const mine = applyHunks(baseLines, group.filter((hunk) => hunk.side === 'ours'), lo, hi)
+    const other = applyHunks(baseLines, group.filter((hunk) => hunk.side === 'theirs'), lo, hi)
+    const sides = new Set(group.map((hunk) => hunk.side))
+    if (sides.size === 1 || sameLines(mine, other)) {
+      out.push(...(sides.has('ours') ? mine : other))
+      autoMerged++
+      continue
+    }
+    conflicts++
+    out.push(
+      CONFLICT_MARKERS.ours,
+      ...mine,
+      CONFLICT_MARKERS.base,
+      ...baseLines.slice(lo, hi),
+      CONFLICT_MARKERS.separator,
+      ...other,
+      CONFLICT_MARKERS.theirs
+    )
+  }
+  out.push(...baseLines.slice(pos))
+  return { text: out.join(eol), autoMerged, conflicts }
+}
+
+// Conflict blocks left in `text`, in order. Blocks the user has partly edited
+// away (a missing marker) are no longer recognised.
+export const findConflicts = (text: string): ConflictBlock[] => {
+  const lines = text.split(/\r?\n/)
+  const blocks: ConflictBlock[] = []
+  let i = 0
+  while (i < lines.length) {
+    if (!lines[i].startsWith('<<<<<<<')) {
+      i++
+      continue
+    }
+    const startLine = i
+    let baseAt = -1
+    let separatorAt = -1
+    let endLine = -1
+    for (let j = i + 1; j < lines.length; j++) {
+      if (lines[j].startsWith('<<<<<<<')) break
+      if (lines[j].startsWith('|||||||') && baseAt === -1 && separatorAt === -1) baseAt = j
+      else if (lines[j] === '=======' && separatorAt === -1) separatorAt = j
+      else if (lines[j].startsWith('>>>>>>>') && separatorAt !== -1) {
+        endLine = j
+        break
+      }
+    }
+    if (endLine === -1) {
+      i++
+      continue
+    }
+    blocks.push({
+      startLine,
+      endLine,
+      ours: lines.slice(startLine + 1, baseAt === -1 ? separatorAt : baseAt),
+      base: baseAt === -1 ? [] : lines.slice(baseAt + 1, separatorAt),
+      theirs: lines.slice(separatorAt + 1, endLine)
+    })
+    i = endLine + 1
+  }
+  return blocks
+}
+
+// `text` with `block` replaced by the chosen side.
+export const resolveConflict = (text: string, block: ConflictBlock, choice: ConflictChoice): string => {
+  const eol = detectEol(text)
+  const lines = text.split(/\r?\n/)
+  const chosen =
+    choice === 'ours' ? block.ours : choice === 'theirs' ? block.theirs : choice === 'base' ? block.base : [...block.ours, ...block.theirs]
+  lines.splice(block.startLine, block.endLine - block.startLine + 1, ...chosen)
+  return lines.join(eol)
+}
@@ -0,0 +1,365 @@
+const { describe, it, before, after } = require('node:test')
+const assert = require('node:assert/strict')
+const crypto = require('crypto')
+const fs = require('fs')
+const os = require('os')
+const path = require('path')
+const posix = path.posix
+const { Server, utils } = require('ssh2')
+const { FTPService } = require('../electron/services/ftpService.cjs')
+const { SFTPTransport } = require('../electron/services/sftpTransport.cjs')
+const { getWorkingCopyRoot } = require('../electron/services/syncManifest.cjs')
+
+const { STATUS_CODE } = utils.sftp
+const USERNAME = 'tester'
+const PASSWORD = 'secret'
+const HOME = '/home/tester'
+
+// ssh2's own ed25519 generator now and then returns a key its parser rejects,
+// so keys are ECDSA from node:crypto, which it reads every time.
+function generateKey() {
+  const { privateKey } = crypto.generateKeyPairSync('ec', {
+    namedCurve: 'prime256v1',
+    privateKeyEncoding: { type: 'sec1', format: 'pem' },
+    publicKeyEncoding: { type: 'spki', format: 'pem' }
+  })
+  return privateKey
+}
+
+// A throwaway SFTP server backed by a temporary directory, standing in for a
+// real host. `root` is the directory the remote '/' maps to, and `authMethods`
+// records how each client logged in.
+function startServer() {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'sftp-root-'))
+  fs.mkdirSync(path.join(root, HOME), { recursive: true })
+  const hostKey = generateKey()
+  const userKey = generateKey()
+  const allowedKey = utils.parseKey(userKey)
+  const authMethods = []
+
+  const server = new Server({ hostKeys: [hostKey] }, (client) => {
+    client.on('authentication', (ctx) => {
+      if (ctx.username !== USERNAME) return ctx.reject()
+      if (ctx.method === 'password' && ctx.password === PASSWORD) {
+        authMethods.push('password')
+        return ctx.accept()
+      }
+      if (ctx.method === 'publickey' && ctx.key.algo === allowedKey.type && ctx.key.data.equals(allowedKey.getPublicSSH())) {
+        if (!ctx.signature) return ctx.accept()
+        if (allowedKey.verify(ctx.blob, ctx.signature, ctx.hashAlgo) === true) {
+          authMethods.push('publickey')
+          return ctx.accept()
+        }
+      }
+      ctx.reject(['password', 'publickey'])
+    })
+    client.on('ready', () => {
+      client.on('session', (acceptSession) => {
+        acceptSession().on('sftp', (acceptSftp) => serveSftp(acceptSftp(), root))
+      })
+    })
+    client.on('error', () => {})
+  })
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({ server, root, port: server.address().port, userKey, authMethods })
+    })
+  })
+}
+
+function serveSftp(sftp, root) {
+  const handles = new Map()
+  let nextHandle = 0
+  const local = (remotePath) => path.join(root, ...remotePath.split('/'))
+  const absolute = (remotePath) => posix.resolve(HOME, String(remotePath || '.'))
+  const attrsOf = (stats) => ({
+    mode: stats.mode,
+    uid: 0,
+    gid: 0,
+    size: stats.size,
+    atime: Math.floor(stats.atimeMs / 1000),
+    mtime: Math.floor(stats.mtimeMs / 1000)
+  })
+  const fail = (reqid, error) => {
+    sftp.status(reqid, error && error.code === 'ENOENT' ? STATUS_CODE.NO_SUCH_FILE : STATUS_CODE.FAILURE, error && error.message)
+  }
+  const run = (reqid, fn) => {
+    try {
+      fn()
+    } catch (error) {
+      fail(reqid, error)
+    }
+  }
+  const addHandle = (entry) => {
+    const handle = Buffer.alloc(4)
+    handle.writeUInt32BE(nextHandle++)
+    handles.set(handle.toString('hex'), entry)
+    return handle
+  }
+  const handleEntry = (handle) => handles.get(handle.toString('hex'))
+
+  sftp.on('REALPATH', (reqid, remotePath) => {
+    const resolved = absolute(remotePath)
+    sftp.name(reqid, [{ filename: resolved, longname: resolved, attrs: {} }])
+  })
+  const stat = (reqid, remotePath) => run(reqid, () => sftp.attrs(reqid, attrsOf(fs.statSync(local(absolute(remotePath))))))
+  sftp.on('STAT', stat)
+  sftp.on('LSTAT', stat)
+  sftp.on('FSTAT', (reqid, handle) => {
+    const entry = handleEntry(handle)
+    if (!entry) return fail(reqid)
+    run(reqid, () => sftp.attrs(reqid, attrsOf(fs.statSync(entry.path))))
+  })
+  sftp.on('SETSTAT', (reqid) => sftp.status(reqid, STATUS_CODE.OK))
+  sftp.on('FSETSTAT', (reqid) => sftp.status(reqid, STATUS_CODE.OK))
+  sftp.on('OPEN', (reqid, filename, flags) => {
+    run(reqid, () => {
+      const file = local(absolute(filename))
+      const fd = fs.openSync(file, utils.sftp.flagsToString(flags))
+      sftp.handle(reqid, addHandle({ fd, path: file }))
+    })
+  })
+  sftp.on('READ', (reqid, handle, offset, length) => {
+    const entry = handleEntry(handle)
+    if (!entry || entry.fd === undefined) return fail(reqid)
+    run(reqid, () => {
+      const buffer = Buffer.alloc(length)
+      const read = fs.readSync(entry.fd, buffer, 0, length, offset)
+      if (read === 0) return sftp.status(reqid, STATUS_CODE.EOF)
+      sftp.data(reqid, buffer.subarray(0, read))
+    })
+  })
+  sftp.on('WRITE', (reqid, handle, offset, data) => {
+    const entry = handleEntry(handle)
+    if (!entry || entry.fd === undefined) return fail(reqid)
+    run(reqid, () => {
+      fs.writeSync(entry.fd, data, 0, data.length, offset)
+      sftp.status(reqid, STATUS_CODE.OK)
+    })
+  })
+  sftp.on('OPENDIR', (reqid, remotePath) => {
+    run(reqid, () => {
+      const dir = local(absolute(remotePath))
+      if (!fs.statSync(dir).isDirectory()) return fail(reqid)
+      sftp.handle(reqid, addHandle({ path: dir, listed: false }))
+    })
+  })
+  sftp.on('READDIR', (reqid, handle) => {
+    const entry = handleEntry(handle)
+    if (!entry || entry.listed === undefined) return fail(reqid)
+    if (entry.listed) return sftp.status(reqid, STATUS_CODE.EOF)
+    entry.listed = true
+    run(reqid, () => {
+      const names = fs.readdirSync(entry.path).map((name) => {
+        const stats = fs.statSync(path.join(entry.path, name))
+        const longname = `${stats.isDirectory() ? 'd' : '-'}rw-r--r-- 1 ${USERNAME} ${USERNAME} ${stats.size} Jan 1 00:00 ${name}`
+        return { filename: name, longname, attrs: attrsOf(stats) }
+      })
+      if (names.length === 0) return sftp.status(reqid, STATUS_CODE.EOF)
+      sftp.name(reqid, names)
+    })
+  })
+  sftp.on('CLOSE', (reqid, handle) => {
+    const key = handle.toString('hex')
+    const entry = handles.get(key)
+    if (!entry) return fail(reqid)
+    handles.delete(key)
+    run(reqid, () => {
+      if (entry.fd !== undefined) fs.closeSync(entry.fd)
+      sftp.status(reqid, STATUS_CODE.OK)
+    })
+  })
+  const simple = (event, fn) => {
+    sftp.on(event, (reqid, ...args) => run(reqid, () => {
+      fn(...args)
+      sftp.status(reqid, STATUS_CODE.OK)
+    }))
+  }
+  simple('MKDIR', (remotePath) => fs.mkdirSync(local(absolute(remotePath))))
+  simple('RMDIR', (remotePath) => fs.rmdirSync(local(absolute(remotePath))))
+  simple('REMOVE', (remotePath) => fs.unlinkSync(local(absolute(remotePath))))
+  simple('RENAME', (oldPath, newPath) => fs.renameSync(local(absolute(oldPath)), local(absolute(newPath))))
+}
+
+describe('SFTP', () => {
+  let ctx
+  let scratch
+
+  before(async () => {
+    ctx = await startServer()
+    scratch = fs.mkdtempSync(path.join(os.tmpdir(), 'sftp-local-'))
+  })
+
+  after(() => {
+    ctx.server.close()
+    fs.rmSync(ctx.root, { recursive: true, force: true })
+    fs.rmSync(scratch, { recursive: true, force: true })
+  })
+
+  const remote = (remotePath) => path.join(ctx.root, ...remotePath.split('/'))
+  const connection = (extra = {}) => ({ protocol: 'sftp', host: '127.0.0.1', port: ctx.port, username: USERNAME, password: PASSWORD, ...extra })
+
+  describe('FTPService', () => {
+    let service
+
+    before(async () => {
+      fs.mkdirSync(remote('/site/css'), { recursive: true })
+      fs.writeFileSync(remote('/site/index.html'), '<h1>Hello</h1>')
+      service = new FTPService()
+      assert.equal(await service.connect(connection({ defaultPath: '/site' })), true)
+    })
+
+    after(async () => {
+      await service.disconnect()
+    })
+
+    it('connects with a password and opens the default path', async () => {
+      assert.ok(ctx.authMethods.includes('password'))
+      assert.equal(service.getHealth().status, 'connected')
+      assert.equal(await service.client.pwd(), '/site')
+    })
+
+    it('lists a folder', async () => {
+      const files = await service.listFiles('/site')
+      const byName = Object.fromEntries(files.map((f) => [f.name, f]))
+      assert.deepEqual(Object.keys(byName).sort(), ['css', 'index.html'])
+      assert.equal(byName.css.type, 'directory')
+      assert.equal(byName.css.path, '/site/css')
+      assert.equal(byName['index.html'].type, 'file')
+      assert.equal(byName['index.html'].size, 14)
+    })
+
+    it('downloads a file as text, as a buffer and to a local path', async () => {
+      assert.equal(await service.downloadFile('/site/index.html'), '<h1>Hello</h1>')
+      assert.deepEqual(await service.downloadFile('/site/index.html', null, true), Buffer.from('<h1>Hello</h1>'))
+      const target = path.join(scratch, 'index.html')
+      assert.equal(await service.downloadFile('/site/index.html', target), '<h1>Hello</h1>')
+      assert.equal(fs.readFileSync(target, 'utf-8'), '<h1>Hello</h1>')
+    })
+
+    it('uploads content, buffers and local files', async () => {
+      await service.uploadFile('body { color: red }', '/site/css/site.css')
+      assert.equal(fs.readFileSync(remote('/site/css/site.css'), 'utf-8'), 'body { color: red }')
+
+      const bytes = Buffer.from([0, 1, 2, 255])
+      await service.uploadFile(bytes, '/site/logo.bin')
+      assert.deepEqual(fs.readFileSync(remote('/site/logo.bin')), bytes)
+
+      const source = path.join(scratch, 'about.html')
+      fs.writeFileSync(source, '<p>About</p>')
+      await service.uploadFile(source, '/site/about.html')
+      assert.equal(fs.readFileSync(remote('/site/about.html'), 'utf-8'), '<p>About</p>')
+    })
+
+    it('renames a file', async () => {
+      await service.rename('/site/about.html', '/site/team.html')
+      assert.equal(fs.existsSync(remote('/site/about.html')), false)
+      assert.equal(fs.readFileSync(remote('/site/team.html'), 'utf-8'), '<p>About</p>')
+    })
+
+    it('deletes files and folders', async () => {
+      await service.deleteFile('/site/team.html')
+      assert.equal(fs.existsSync(remote('/site/team.html')), false)
+
+      await service.createDirectory('/site/old/assets')
+      fs.writeFileSync(remote('/site/old/assets/a.txt'), 'a')
+      await service.deleteDirectory('/site/old')
+      assert.equal(fs.existsSync(remote('/site/old')), false)
+    })
+
+    it('keeps local edits when a sync finds the server copy changed too', async () => {
+      fs.mkdirSync(remote('/blog'), { recursive: true })
+      fs.writeFileSync(remote('/blog/post.md'), '# Draft')
+      fs.writeFileSync(remote('/blog/notes.md'), 'notes')
+      const syncRoot = path.join(scratch, 'sync')
+      const first = await service.syncToLocal('/blog', syncRoot, [], null, { mode: 'incremental' })
+      const local = (name) => path.join(first.root, 'blog', name)
+      assert.equal(fs.readFileSync(local('post.md'), 'utf-8'), '# Draft')
+
+      fs.writeFileSync(local('post.md'), '# Edited locally')
+      fs.writeFileSync(remote('/blog/post.md'), '# Edited on the server')
+      fs.writeFileSync(remote('/blog/notes.md'), 'more notes')
+      const second = await service.syncToLocal('/blog', syncRoot, [], null, { mode: 'incremental' })
+      assert.equal(second.conflicts, 1)
+      assert.deepEqual(second.report.conflicts, ['/blog/post.md'])
+      assert.equal(fs.readFileSync(local('post.md'), 'utf-8'), '# Edited locally')
+      assert.equal(fs.readFileSync(local('notes.md'), 'utf-8'), 'more notes')
+    })
+
+    it('does not download a published file again on the next sync', async () => {
+      const syncRoot = path.join(scratch, 'sync')
+      const notes = path.join(getWorkingCopyRoot(syncRoot), 'blog', 'notes.md')
+      fs.writeFileSync(notes, 'notes from the working copy')
+      const published = await service.publish(syncRoot, ['/blog/notes.md'])
+      assert.deepEqual(published, { uploaded: ['/blog/notes.md'], failed: [] })
+      assert.equal(fs.readFileSync(remote('/blog/notes.md'), 'utf-8'), 'notes from the working copy')
+
+      const next = await service.syncToLocal('/blog', syncRoot, [], null, { mode: 'incremental' })
+      assert.deepEqual(next.report.downloads, [])
+    })
+
+    it('reports failures with the operation that failed', async () => {
+      await assert.rejects(service.deleteFile('/site/missing.html'), /^Error: Failed to delete file: /)
+      await assert.rejects(service.downloadFile('/site/missing.html'), /^Error: Failed to download file: /)
+    })
+  })
+
+  describe('SFTPTransport', () => {
+    let transport
+
+    before(async () => {
+      fs.mkdirSync(remote(`${HOME}/projects/blog`), { recursive: true })
+    })
+
+    after(async () => {
+      if (transport) await transport.close()
+    })
+
+    it('logs in with a private key', async () => {
+      const keyPath = path.join(scratch, 'id_ecdsa')
+      fs.writeFileSync(keyPath, ctx.userKey)
+      const before = ctx.authMethods.length
+      transport = new SFTPTransport(5000)
+      await transport.access(connection({ authMethod: 'privateKey', privateKeyPath: keyPath, password: 'wrong' }))
+      assert.deepEqual(ctx.authMethods.slice(before), ['publickey'])
+      assert.equal(transport.closed, false)
+    })
+
+    it('starts in the home folder the server reports', async () => {
+      assert.equal(await transport.pwd(), HOME)
+    })
+
+    it('resolves relative and absolute paths against the working directory', async () => {
+      await transport.cd('projects')
+      assert.equal(await transport.pwd(), `${HOME}/projects`)
+      assert.equal(transport.resolve('blog/index.html'), `${HOME}/projects/blog/index.html`)
+      assert.equal(transport.resolve('../notes.txt'), `${HOME}/notes.txt`)
+      assert.equal(transport.resolve('/var//www/../tmp'), '/var/tmp')
+      assert.equal(transport.resolve(''), `${HOME}/projects`)
+
+      await transport.cd('blog')
+      assert.equal(await transport.pwd(), `${HOME}/projects/blog`)
+      await transport.cd('..')
+      assert.equal(await transport.pwd(), `${HOME}/projects`)
+      await transport.cd('/')
+      assert.equal(await transport.pwd(), '/')
+    })
+
+    it('refuses to cd into a missing folder or a file', async () => {
+      fs.writeFileSync(remote(`${HOME}/notes.txt`), 'notes')
+      await transport.cd(HOME)
+      await assert.rejects(transport.cd('nowhere'), { message: `No such directory: ${HOME}/nowhere` })
+      await assert.rejects(transport.cd('notes.txt'), { message: `No such directory: ${HOME}/notes.txt` })
+      assert.equal(await transport.pwd(), HOME)
+    })
+
+    it('rejects a key the server does not accept', async () => {
+      const keyPath = path.join(scratch, 'id_stranger')
+      fs.writeFileSync(keyPath, generateKey())
+      const other = new SFTPTransport(5000)
+      await assert.rejects(other.access(connection({ authMethod: 'privateKey', privateKeyPath: keyPath })))
+      await other.close()
+    })
+  })
+})